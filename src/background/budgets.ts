@@ -0,0 +1,111 @@
+/**
+ * Counts time against daily budgets while a focused browser window shows a page that a group
+ * with budget left would otherwise block. Tracking follows the active tab across navigations,
+ * tab switches and window focus changes, and open tabs are re-checked once a budget runs out.
+ */
+
+import { addBudgetTime, getBudgetUsage } from '../shared/api/budgets';
+import { clearBudgetTracking, getBudgetTracking, setBudgetTracking } from '../shared/api/session';
+import { loadData } from '../shared/api/storage';
+import { getFocusedActiveTab } from '../shared/api/tabs';
+import { ALARMS } from '../shared/constants';
+import { getBudgetRemainingMs, hasBudgetLeft } from '../shared/filtering/schedules';
+import { STORAGE_KEY, type BudgetUsage } from '../shared/types';
+import { getTabController } from './tabController';
+
+/** How often a tracked visit is written to storage. */
+const BUDGET_TICK_MS = 60_000;
+/**
+ * Longest stretch counted at once. The tick alarm fires well within this while the browser runs,
+ * so a longer gap means the computer slept and that time is not counted.
+ */
+const MAX_BUDGET_SEGMENT_MS = 2 * BUDGET_TICK_MS;
+
+let didRegisterListeners = false;
+let syncQueue: Promise<void> = Promise.resolve();
+
+async function syncBudgetTracking(): Promise<void> {
+  const now = Date.now();
+  const [data, tracking] = await Promise.all([loadData(), getBudgetTracking()]);
+  let usage: BudgetUsage;
+  if (tracking) {
+    usage = await addBudgetTime(
+      data.groups,
+      tracking.groupIds,
+      Math.min(now - tracking.since, MAX_BUDGET_SEGMENT_MS),
+      now
+    );
+    const exhausted = data.groups.some(
+      (group) => tracking.groupIds.includes(group.id) && !hasBudgetLeft(group, usage, now)
+    );
+    if (exhausted) {
+      getTabController().queueReconcile();
+    }
+  } else {
+    usage = await getBudgetUsage();
+  }
+
+  const tab = await getFocusedActiveTab();
+  const decision =
+    tab?.url && typeof tab.id === 'number'
+      ? await getTabController().getUrlDecision(tab.url)
+      : undefined;
+  if (tab?.id === undefined || decision?.reason !== 'within-budget') {
+    await Promise.all([clearBudgetTracking(), chrome.alarms.clear(ALARMS.BUDGET_TICK)]);
+    return;
+  }
+
+  const remainingMs = Math.min(
+    ...data.groups
+      .filter((group) => decision.groupIds.includes(group.id))
+      .map((group) => getBudgetRemainingMs(group, usage, now) ?? BUDGET_TICK_MS)
+  );
+  await setBudgetTracking({ tabId: tab.id, groupIds: decision.groupIds, since: now });
+  // Chrome may delay alarms under 30 seconds away, so a budget can run a little over.
+  await chrome.alarms.create(ALARMS.BUDGET_TICK, {
+    when: now + Math.min(remainingMs, BUDGET_TICK_MS),
+  });
+}
+
+/**
+ * Count the time since the last sync and start tracking whatever the focused tab shows now. Safe
+ * to call from any event.
+ */
+export function queueBudgetSync(): void {
+  syncQueue = syncQueue
+    .then(() => syncBudgetTracking())
+    .catch((error: unknown) => {
+      console.error('[Teichos] Failed to sync daily budget tracking:', error);
+    });
+}
+
+export function registerBudgetHandlers(): void {
+  if (didRegisterListeners) {
+    return;
+  }
+  didRegisterListeners = true;
+
+  chrome.tabs.onActivated.addListener(() => {
+    queueBudgetSync();
+  });
+
+  chrome.windows.onFocusChanged.addListener(() => {
+    queueBudgetSync();
+  });
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'sync' || !changes[STORAGE_KEY]) {
+      return;
+    }
+    queueBudgetSync();
+  });
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== ALARMS.BUDGET_TICK) {
+      return;
+    }
+    queueBudgetSync();
+  });
+
+  queueBudgetSync();
+}
@@ -0,0 +1,56 @@
+/**
+ * Keeps the bypass expiry alarm at the earliest time a Continue runs out, and re-checks open tabs
+ * when it fires so a tab whose bypass expired returns to the blocked page.
+ */
+
+import { getBypassStates, isBypassStateKey } from '../shared/api/session';
+import { ALARMS } from '../shared/constants';
+import { getTabController } from './tabController';
+
+let didRegisterListeners = false;
+let syncQueue: Promise<void> = Promise.resolve();
+
+async function syncAlarmFromBypasses(): Promise<void> {
+  const now = Date.now();
+  const expirations = (await getBypassStates())
+    .map((bypass) => bypass.expiresAt)
+    .filter((expiresAt): expiresAt is number => expiresAt !== undefined && expiresAt > now);
+  if (expirations.length === 0) {
+    void chrome.alarms.clear(ALARMS.BYPASS_EXPIRATION);
+    return;
+  }
+
+  void chrome.alarms.create(ALARMS.BYPASS_EXPIRATION, { when: Math.min(...expirations) });
+}
+
+function queueBypassExpirySync(): void {
+  syncQueue = syncQueue
+    .then(() => syncAlarmFromBypasses())
+    .catch((error: unknown) => {
+      console.error('[Teichos] Failed to sync bypass expiry alarm:', error);
+    });
+}
+
+export function registerBypassExpiryHandlers(): void {
+  if (didRegisterListeners) {
+    return;
+  }
+  didRegisterListeners = true;
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'session' || !Object.keys(changes).some(isBypassStateKey)) {
+      return;
+    }
+    queueBypassExpirySync();
+  });
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== ALARMS.BYPASS_EXPIRATION) {
+      return;
+    }
+    getTabController().queueReconcile();
+    queueBypassExpirySync();
+  });
+
+  queueBypassExpirySync();
+}
@@ -0,0 +1,64 @@
+/**
+ * Keeps the focus session alarm in sync with the stored session and ends the session once it runs
+ * out. Storage changes re-check open tabs, so groups drop back to their schedules on their own.
+ */
+
+import { updateData } from '../shared/api/storage';
+import { ALARMS } from '../shared/constants';
+import { isFocusSessionActive, isFocusSessionExpired } from '../shared/filtering/schedules';
+import type { FocusSessionState } from '../shared/types';
+import { STORAGE_KEY } from '../shared/types';
+
+let didRegisterListeners = false;
+let syncQueue: Promise<void> = Promise.resolve();
+
+function syncAlarmFromFocusSession(session: FocusSessionState | undefined): void {
+  if (!isFocusSessionActive(session) || typeof session?.until !== 'number') {
+    void chrome.alarms.clear(ALARMS.FOCUS_SESSION_END);
+    return;
+  }
+
+  void chrome.alarms.create(ALARMS.FOCUS_SESSION_END, { when: session.until });
+}
+
+async function syncFocusSessionFromStorage(): Promise<void> {
+  const data = await updateData((current) => {
+    if (!isFocusSessionExpired(current.focusSession)) {
+      return current;
+    }
+    const { focusSession: _focusSession, ...rest } = current;
+    return rest;
+  });
+  syncAlarmFromFocusSession(data.focusSession);
+}
+
+function queueFocusSessionSync(): void {
+  syncQueue = syncQueue
+    .then(() => syncFocusSessionFromStorage())
+    .catch((error: unknown) => {
+      console.error('[Teichos] Failed to sync focus session alarm:', error);
+    });
+}
+
+export function registerFocusSessionHandlers(): void {
+  if (didRegisterListeners) {
+    return;
+  }
+  didRegisterListeners = true;
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'sync' || !changes[STORAGE_KEY]) {
+      return;
+    }
+    queueFocusSessionSync();
+  });
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== ALARMS.FOCUS_SESSION_END) {
+      return;
+    }
+    queueFocusSessionSync();
+  });
+
+  queueFocusSessionSync();
+}
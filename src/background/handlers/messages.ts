@@ -5,8 +5,10 @@
 
 import { loadData } from '../../shared/api/storage';
 import {
+  type ContinueActiveTabMessage,
   isCheckUrlMessage,
   isContinueActiveTabMessage,
+  isExplainUrlMessage,
   isGetBlockedPageStateMessage,
   isGetDataMessage,
   isGoBackActiveTabMessage,
@@ -36,13 +38,18 @@ export function handleMessage(
     return true; // Will respond asynchronously
   }
 
+  if (isExplainUrlMessage(message)) {
+    void handleExplainUrl(message.url, sendResponse);
+    return true;
+  }
+
   if (isGoBackActiveTabMessage(message)) {
     void handleGoBackActiveTab(sender, sendResponse);
     return true;
   }
 
   if (isContinueActiveTabMessage(message)) {
-    void handleContinueActiveTab(message.blockId, sender, sendResponse);
+    void handleContinueActiveTab(message, sender, sendResponse);
     return true;
   }
 
@@ -67,6 +74,14 @@ async function handleCheckUrl(
   sendResponse({ blocked: decision.action === 'block' });
 }
 
+async function handleExplainUrl(
+  url: string,
+  sendResponse: (response: unknown) => void
+): Promise<void> {
+  const explanation = await getTabController().explainUrl(url);
+  sendResponse({ explanation });
+}
+
 async function handleGoBackActiveTab(
   sender: chrome.runtime.MessageSender,
   sendResponse: (response: unknown) => void
@@ -80,17 +95,23 @@ async function handleGoBackActiveTab(
 }
 
 async function handleContinueActiveTab(
-  blockId: string | undefined,
+  { blockId, challenge, reason }: ContinueActiveTabMessage,
   sender: chrome.runtime.MessageSender,
   sendResponse: (response: unknown) => void
 ): Promise<void> {
   const senderTabId = sender.tab?.id;
   const continued =
     typeof senderTabId === 'number'
-      ? await getTabController().continueFromTab(senderTabId, sender.tab?.url, blockId)
+      ? await getTabController().continueFromTab(
+          senderTabId,
+          sender.tab?.url,
+          blockId,
+          challenge,
+          reason
+        )
       : blockId
-        ? await getTabController().continueFromBlockedPage(blockId)
-        : await getTabController().continueFromActiveTab();
+        ? await getTabController().continueFromBlockedPage(blockId, challenge, reason)
+        : await getTabController().continueFromActiveTab(challenge, reason);
   sendResponse({ continued });
 }
 
@@ -3,6 +3,7 @@
  * Checks if navigated URL should be blocked
  */
 
+import { queueBudgetSync } from '../budgets';
 import { getTabController } from '../tabController';
 
 export interface NavigationChangeDetails {
@@ -22,6 +23,7 @@ export async function handleNavigationChange(details: NavigationChangeDetails):
   }
 
   await getTabController().evaluateNavigation(details.tabId, details.url);
+  queueBudgetSync();
 }
 
 export async function handleBeforeNavigate(
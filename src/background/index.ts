@@ -8,7 +8,12 @@
  * - Use chrome.storage instead of localStorage
  */
 
+import { registerBudgetHandlers } from './budgets';
+import { registerBypassExpiryHandlers } from './bypassExpiry';
+import { registerFocusSessionHandlers } from './focusSession';
 import { handleMessage, handleNavigationChange, type NavigationChangeDetails } from './handlers';
+import { registerPomodoroHandlers } from './pomodoro';
+import { registerScheduleBoundaryHandlers } from './scheduleBoundaries';
 import { registerSnoozeHandlers } from './snooze';
 import { getTabController } from './tabController';
 
@@ -28,4 +33,9 @@ export function registerBackground(): void {
   chrome.runtime.onMessage.addListener(handleMessage);
   getTabController().register();
   registerSnoozeHandlers();
+  registerScheduleBoundaryHandlers();
+  registerBudgetHandlers();
+  registerFocusSessionHandlers();
+  registerPomodoroHandlers();
+  registerBypassExpiryHandlers();
 }
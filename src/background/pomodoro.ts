@@ -0,0 +1,80 @@
+/**
+ * Runs Pomodoro runs: moves each run from phase to phase on an alarm, forcing its groups active
+ * with a focus session during focus intervals and lifting it for breaks. The run lives in
+ * storage, so a restarted service worker picks up where it left off, and each focus session
+ * change re-checks open tabs through the tab controller.
+ */
+
+import { clearPomodoro, getPomodoro, setPomodoro } from '../shared/api/pomodoro';
+import { endFocusSession, startFocusSession } from '../shared/api/storage';
+import { ALARMS } from '../shared/constants';
+import { advancePomodoro } from '../shared/filtering/pomodoro';
+import { POMODORO_KEY, type PomodoroState } from '../shared/types';
+
+let didRegisterListeners = false;
+let syncQueue: Promise<void> = Promise.resolve();
+
+async function syncPomodoro(): Promise<void> {
+  const state = await getPomodoro();
+  if (!state) {
+    await chrome.alarms.clear(ALARMS.POMODORO_PHASE_END);
+    return;
+  }
+
+  // The focus session changes first, so a refused change leaves the run in the phase it matches.
+  const next = advancePomodoro(state);
+  if (!next) {
+    await endOwnFocusSession(state);
+    await Promise.all([clearPomodoro(), chrome.alarms.clear(ALARMS.POMODORO_PHASE_END)]);
+    return;
+  }
+
+  if (next !== state) {
+    await (next.phase === 'focus'
+      ? startFocusSession(next.groupIds, next.phaseEndsAt)
+      : endOwnFocusSession(state));
+    await setPomodoro(next);
+  }
+  await chrome.alarms.create(ALARMS.POMODORO_PHASE_END, { when: next.phaseEndsAt });
+}
+
+/**
+ * End the focus session the run started for its focus interval, which ends with the interval. A
+ * session started by hand, or none at all during a break, is left alone.
+ */
+async function endOwnFocusSession(state: PomodoroState): Promise<void> {
+  if (state.phase === 'focus') {
+    await endFocusSession(state.phaseEndsAt);
+  }
+}
+
+function queuePomodoroSync(): void {
+  syncQueue = syncQueue
+    .then(() => syncPomodoro())
+    .catch((error: unknown) => {
+      console.error('[Teichos] Failed to sync Pomodoro run:', error);
+    });
+}
+
+export function registerPomodoroHandlers(): void {
+  if (didRegisterListeners) {
+    return;
+  }
+  didRegisterListeners = true;
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'local' || !changes[POMODORO_KEY]) {
+      return;
+    }
+    queuePomodoroSync();
+  });
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== ALARMS.POMODORO_PHASE_END) {
+      return;
+    }
+    queuePomodoroSync();
+  });
+
+  queuePomodoroSync();
+}
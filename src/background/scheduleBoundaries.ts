@@ -0,0 +1,58 @@
+/**
+ * Re-checks open tabs when a group schedule starts or ends or a temporary filter expires, so a
+ * tab left open on a page is blocked or released at the boundary instead of on its next
+ * navigation.
+ */
+
+import { loadData } from '../shared/api/storage';
+import { ALARMS } from '../shared/constants';
+import { getNextScheduleBoundary } from '../shared/filtering/schedules';
+import { STORAGE_KEY } from '../shared/types';
+import { getTabController } from './tabController';
+
+let didRegisterListeners = false;
+let syncQueue: Promise<void> = Promise.resolve();
+
+async function syncBoundaryAlarm(): Promise<void> {
+  const data = await loadData();
+  const boundary = getNextScheduleBoundary(data.groups, data.filters);
+  if (boundary === null) {
+    await chrome.alarms.clear(ALARMS.SCHEDULE_BOUNDARY);
+    return;
+  }
+
+  // Creating an alarm with an existing name replaces it, so only the next boundary is armed.
+  await chrome.alarms.create(ALARMS.SCHEDULE_BOUNDARY, { when: boundary });
+}
+
+function queueBoundarySync(): void {
+  syncQueue = syncQueue
+    .then(() => syncBoundaryAlarm())
+    .catch((error: unknown) => {
+      console.error('[Teichos] Failed to sync schedule boundary alarm:', error);
+    });
+}
+
+export function registerScheduleBoundaryHandlers(): void {
+  if (didRegisterListeners) {
+    return;
+  }
+  didRegisterListeners = true;
+
+  chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName !== 'sync' || !changes[STORAGE_KEY]) {
+      return;
+    }
+    queueBoundarySync();
+  });
+
+  chrome.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name !== ALARMS.SCHEDULE_BOUNDARY) {
+      return;
+    }
+    getTabController().queueReconcile();
+    queueBoundarySync();
+  });
+
+  queueBoundarySync();
+}
@@ -1,23 +1,40 @@
 import {
   clearBlockedTabState,
   clearBypassState,
+  clearIssuedChallenge,
   getBlockedPageState,
   getBlockedTabState,
   getBypassState,
+  getIssuedChallenge,
   getLastAllowedUrl,
   setBlockedPageState,
   setBlockedTabState,
   setBypassState,
+  setIssuedChallenge,
   setLastAllowedUrl,
 } from '../shared/api/session';
+import { getBudgetUsage } from '../shared/api/budgets';
+import { claimBypass } from '../shared/api/bypasses';
+import { appendBypassJournalEntry } from '../shared/api/journal';
 import { getActiveTab, queryTabs, updateTabUrl } from '../shared/api/tabs';
+import { addVisits, getVisitCounts } from '../shared/api/visits';
 import { getExtensionUrl } from '../shared/api/runtime';
 import { PAGES } from '../shared/constants';
-import type { FilterDecision } from '../shared/filtering/engine';
+import { canonicalizeUrl } from '../shared/filtering/canonicalUrl';
+import { isChallengeAnswered, issueChallenge } from '../shared/filtering/challenges';
+import { matchesPattern } from '../shared/filtering/patterns';
+import { isGroupInFocusSession } from '../shared/filtering/schedules';
+import type { FilterDecision, FilterExplanation } from '../shared/filtering/engine';
 import {
+  type BlockedBy,
+  type BlockedFilterSnapshot,
   type BlockedPageState,
   STORAGE_KEY,
   type BlockedTabState,
+  type BypassJournalEntry,
+  type BypassScope,
+  type BypassState,
+  type ChallengeResponse,
   type Filter,
   type GetBlockedPageStateResponse,
   type StorageData,
@@ -26,6 +43,7 @@ import { isInternalUrl } from '../shared/utils/helpers';
 import { getRulesProvider, type CurrentRules, type RulesProvider } from './rulesProvider';
 
 interface ResolvedBlockedTarget {
+  readonly blockId: string;
   readonly targetUrl: string;
   readonly tabId?: number;
 }
@@ -35,9 +53,12 @@ interface BlockedStateResult {
   readonly pageState: BlockedPageState;
 }
 
+type BlockDecision = Extract<FilterDecision, { action: 'block' }>;
+
 class TabController {
   private didRegister = false;
   private reconcileQueue: Promise<void> = Promise.resolve();
+  private visitQueue: Promise<void> = Promise.resolve();
 
   constructor(private readonly rulesProvider: RulesProvider) {}
 
@@ -71,7 +92,7 @@ class TabController {
     }
 
     const rules = await this.getRules();
-    const decision = rules.engine.evaluate(url);
+    const decision = await this.evaluate(rules, url);
 
     if (decision.action === 'block') {
       if (await this.isBypassed(tabId, url, decision)) {
@@ -79,16 +100,31 @@ class TabController {
         return;
       }
 
+      if (await this.isOngoingVisit(tabId, decision, rules.data)) {
+        await this.allowTab(tabId, url);
+        return;
+      }
+
       await this.blockTab(tabId, url, decision, rules.data);
       return;
     }
 
+    if (decision.reason === 'within-visit-limit') {
+      await this.countNewVisits(tabId, url, decision.filterIds, rules.data);
+    }
+
     await this.allowTab(tabId, url);
   }
 
   async getUrlDecision(url: string): Promise<FilterDecision> {
     const rules = await this.getRules();
-    return rules.engine.evaluate(url);
+    return this.evaluate(rules, url);
+  }
+
+  async explainUrl(url: string): Promise<FilterExplanation> {
+    const rules = await this.getRules();
+    const [budgetUsage, visitCounts] = await Promise.all([getBudgetUsage(), getVisitCounts()]);
+    return rules.engine.explain(url, undefined, budgetUsage, visitCounts);
   }
 
   /**
@@ -173,48 +209,100 @@ class TabController {
     return true;
   }
 
-  async continueFromActiveTab(): Promise<boolean> {
+  async continueFromActiveTab(challenge?: ChallengeResponse, reason?: string): Promise<boolean> {
     const activeTab = await getActiveTab();
     if (!activeTab?.id) {
       return false;
     }
 
-    return this.continueFromTab(activeTab.id, activeTab.url);
+    return this.continueFromTab(activeTab.id, activeTab.url, undefined, challenge, reason);
   }
 
-  async continueFromBlockedPage(blockId: string): Promise<boolean> {
+  async continueFromBlockedPage(
+    blockId: string,
+    challenge?: ChallengeResponse,
+    reason?: string
+  ): Promise<boolean> {
     const pageState = await getBlockedPageState(blockId);
     if (!pageState) {
       return false;
     }
 
-    return this.continueFromTab(pageState.tabId, undefined, blockId);
+    return this.continueFromTab(pageState.tabId, undefined, blockId, challenge, reason);
   }
 
+  /**
+   * Continue past a block. When the block was issued a challenge, only a response answering it
+   * lets the tab through, so messaging the background directly skips nothing the block page asks.
+   * Once the group's daily allowance for the blocking filter is used up, Continue is refused, as
+   * is a Continue without a reason when the group asks for one. Every Continue is journaled.
+   */
   async continueFromTab(
     tabId: number,
     blockedPageUrl?: string,
-    blockId?: string
+    blockId?: string,
+    challenge?: ChallengeResponse,
+    reason?: string
   ): Promise<boolean> {
     const resolvedTarget = await this.resolveBlockedTarget(tabId, blockedPageUrl, blockId);
     if (!resolvedTarget) {
       return false;
     }
 
+    const issuedChallenge = await getIssuedChallenge(resolvedTarget.blockId);
+    if (issuedChallenge && !isChallengeAnswered(issuedChallenge, challenge)) {
+      return false;
+    }
+
     const targetTabId = resolvedTarget.tabId ?? tabId;
     const rules = await this.getRules();
-    const decision = rules.engine.evaluate(resolvedTarget.targetUrl);
+    const decision = await this.evaluate(rules, resolvedTarget.targetUrl);
     if (decision.action !== 'block') {
       return false;
     }
 
+    const group = rules.data.groups.find((candidate) => candidate.id === decision.groupId);
+    // A challenge the group asks for but that was never issued for this block cannot be answered.
+    if (group?.challenge && !issuedChallenge) {
+      return false;
+    }
+
+    const settings = group?.bypass;
+    const trimmedReason = reason?.trim() ?? '';
+    if (settings?.requireReason && !trimmedReason) {
+      return false;
+    }
+
+    if (group && !(await claimBypass(group))) {
+      return false;
+    }
+
+    const filter =
+      decision.reason === 'matched-filter'
+        ? rules.data.filters.find((candidate) => candidate.id === decision.filterId)
+        : undefined;
+    const journalEntry: BypassJournalEntry = {
+      at: Date.now(),
+      url: resolvedTarget.targetUrl,
+      groupId: decision.groupId,
+      ...(group ? { groupName: group.name } : {}),
+      ...(decision.reason === 'matched-filter' ? { filterId: decision.filterId } : {}),
+      ...(filter ? { filterPattern: filter.pattern } : {}),
+      ...(trimmedReason ? { reason: trimmedReason } : {}),
+    };
+
+    const scope = settings?.scope ?? 'page';
     await Promise.all([
       setBypassState(targetTabId, {
-        filterId: decision.filterId,
-        urlKey: getBypassUrlKey(resolvedTarget.targetUrl),
+        ...getBypassSource(decision),
+        scope,
+        urlKey: getBypassUrlKey(resolvedTarget.targetUrl, scope),
+        ...(settings?.minutes ? { expiresAt: Date.now() + settings.minutes * 60_000 } : {}),
       }),
       clearBlockedTabState(targetTabId),
+      clearIssuedChallenge(resolvedTarget.blockId),
       setLastAllowedUrl(targetTabId, resolvedTarget.targetUrl),
+      appendBypassJournalEntry(journalEntry),
     ]);
     await updateTabUrl(targetTabId, resolvedTarget.targetUrl);
     return true;
@@ -245,7 +333,7 @@ class TabController {
     }
 
     const rules = await this.getRules();
-    const decision = rules.engine.evaluate(resolvedTarget.targetUrl);
+    const decision = await this.evaluate(rules, resolvedTarget.targetUrl);
     const bypassed =
       decision.action === 'block' &&
       (await this.isBypassed(tabId, resolvedTarget.targetUrl, decision));
@@ -260,7 +348,7 @@ class TabController {
   private async blockTab(
     tabId: number,
     url: string,
-    decision: Extract<FilterDecision, { action: 'block' }>,
+    decision: BlockDecision,
     data: StorageData
   ): Promise<void> {
     const state = await this.ensureBlockedState(tabId, url, decision, data);
@@ -279,7 +367,7 @@ class TabController {
 
     if (!options?.preserveBypass) {
       const bypass = await getBypassState(tabId);
-      if (bypass && bypass.urlKey !== getBypassUrlKey(url)) {
+      if (bypass && (!isWithinBypassScope(bypass, url) || isBypassExpired(bypass))) {
         operations.push(clearBypassState(tabId));
       }
     }
@@ -290,7 +378,7 @@ class TabController {
   private async setBlockedState(
     tabId: number,
     targetUrl: string,
-    decision: Extract<FilterDecision, { action: 'block' }>,
+    decision: BlockDecision,
     data: StorageData
   ): Promise<BlockedStateResult> {
     const blockId = createBlockId();
@@ -299,24 +387,36 @@ class TabController {
       tabId,
       targetUrl,
       blockedAt: Date.now(),
-      blockedBy: {
-        filterId: decision.filterId,
-        groupId: decision.groupId,
-      },
+      blockedBy: getBlockedBy(decision),
     };
-    const filter = data.filters.find((entry) => entry.id === decision.filterId);
+    const filterId = decision.reason === 'matched-filter' ? decision.filterId : undefined;
+    const filter = filterId ? data.filters.find((entry) => entry.id === filterId) : undefined;
+    const group = data.groups.find((entry) => entry.id === decision.groupId);
+    const focusSessionUntil =
+      group && isGroupInFocusSession(group, data.focusSession)
+        ? data.focusSession?.until
+        : undefined;
+    const challenge = group?.challenge
+      ? issueChallenge(group.challenge, createBlockId(), tabState.blockedAt)
+      : undefined;
     const pageState: BlockedPageState = {
       ...tabState,
-      filter: createFilterSnapshot(filter, decision.filterId),
-      group: data.groups.find((entry) => entry.id === decision.groupId),
+      ...(filterId ? { filter: createFilterSnapshot(filter, filterId) } : {}),
+      group,
       effectiveState: {
         filterEnabled: filter?.enabled ?? true,
         groupActive: true,
         snoozeActive: false,
+        ...(focusSessionUntil !== undefined ? { focusSessionUntil } : {}),
       },
+      ...(challenge ? { challenge: challenge.prompt } : {}),
     };
 
-    await Promise.all([setBlockedTabState(tabState), setBlockedPageState(pageState)]);
+    await Promise.all([
+      setBlockedTabState(tabState),
+      setBlockedPageState(pageState),
+      ...(challenge ? [setIssuedChallenge(blockId, challenge.issued)] : []),
+    ]);
     return { tabState, pageState };
   }
 
@@ -331,6 +431,7 @@ class TabController {
       const pageState = await getBlockedPageState(blockId);
       if (pageState) {
         return {
+          blockId: pageState.blockId,
           targetUrl: pageState.targetUrl,
           tabId: pageState.tabId,
         };
@@ -339,6 +440,7 @@ class TabController {
 
     return existingState
       ? {
+          blockId: existingState.blockId,
           targetUrl: existingState.targetUrl,
           tabId: existingState.tabId,
         }
@@ -348,18 +450,20 @@ class TabController {
   /**
    * Reuse the existing block for repeat navigations to the same target (e.g. the browser back
    * button re-committing the blocked URL) so the tab returns to the same blocked page and keeps
-   * the snapshot from the original block instead of filtering again.
+   * the snapshot from the original block instead of filtering again. A block from before its group
+   * asked for a challenge is replaced, so Continue gets one to answer.
    */
   private async ensureBlockedState(
     tabId: number,
     targetUrl: string,
-    decision: Extract<FilterDecision, { action: 'block' }>,
+    decision: BlockDecision,
     data: StorageData
   ): Promise<BlockedStateResult> {
     const existingState = await getBlockedTabState(tabId);
     if (existingState?.targetUrl === targetUrl) {
       const pageState = await getBlockedPageState(existingState.blockId);
-      if (pageState) {
+      const group = data.groups.find((candidate) => candidate.id === decision.groupId);
+      if (pageState && (pageState.challenge !== undefined || !group?.challenge)) {
         return { tabState: existingState, pageState };
       }
     }
@@ -367,7 +471,10 @@ class TabController {
     return this.setBlockedState(tabId, targetUrl, decision, data);
   }
 
-  private queueReconcile(): void {
+  /**
+   * Re-evaluate every open tab after anything already queued. Safe to call from any event.
+   */
+  queueReconcile(): void {
     this.reconcileQueue = this.reconcileQueue
       .then(async () => {
         await this.getRules();
@@ -382,13 +489,92 @@ class TabController {
     return this.rulesProvider.loadCurrentRules();
   }
 
+  /**
+   * Evaluate against the current rules and today's budget usage, which lives outside the rules
+   * because it changes while the user browses.
+   */
+  private async evaluate(rules: CurrentRules, url: string): Promise<FilterDecision> {
+    const [budgetUsage, visitCounts] = await Promise.all([getBudgetUsage(), getVisitCounts()]);
+    return rules.engine.evaluate(url, undefined, budgetUsage, visitCounts);
+  }
+
+  /**
+   * A visit starts when the tab arrives from a page the filter does not match; navigating within
+   * the matching pages, or re-checking the page the tab already shows, continues the same visit.
+   */
+  private async getNewVisitFilters(
+    tabId: number,
+    filterIds: readonly string[],
+    data: StorageData
+  ): Promise<readonly Filter[]> {
+    const previousUrl = await getLastAllowedUrl(tabId);
+    return data.filters.filter(
+      (filter) =>
+        filterIds.includes(filter.id) &&
+        (previousUrl === undefined || !matchesPattern(previousUrl, filter))
+    );
+  }
+
+  /**
+   * Visits are counted one navigation at a time and each records the page it allowed, so quick
+   * navigations of a tab see each other and count a visit once.
+   */
+  private countNewVisits(
+    tabId: number,
+    url: string,
+    filterIds: readonly string[],
+    data: StorageData
+  ): Promise<void> {
+    const count = this.visitQueue.then(async () => {
+      const newVisits = await this.getNewVisitFilters(tabId, filterIds, data);
+      if (newVisits.length > 0) {
+        await addVisits(
+          data.filters,
+          data.groups,
+          newVisits.map((filter) => filter.id)
+        );
+      }
+      await setLastAllowedUrl(tabId, url);
+    });
+    this.visitQueue = count.catch(() => undefined);
+    return count;
+  }
+
+  /**
+   * Once the last visit of the day is counted, the filter blocks again, but the visit in progress
+   * may carry on until the tab leaves the matching pages.
+   */
+  private async isOngoingVisit(
+    tabId: number,
+    decision: BlockDecision,
+    data: StorageData
+  ): Promise<boolean> {
+    if (decision.reason !== 'matched-filter') {
+      return false;
+    }
+
+    const filter = data.filters.find((entry) => entry.id === decision.filterId);
+    if (filter?.maxVisitsPerDay === undefined) {
+      return false;
+    }
+
+    return (await this.getNewVisitFilters(tabId, [filter.id], data)).length === 0;
+  }
+
   private async isBypassed(
     tabId: number,
     targetUrl: string,
-    decision: Extract<FilterDecision, { action: 'block' }>
+    decision: BlockDecision
   ): Promise<boolean> {
     const bypass = await getBypassState(tabId);
-    return bypass?.filterId === decision.filterId && bypass.urlKey === getBypassUrlKey(targetUrl);
+    const source = getBypassSource(decision);
+    return (
+      bypass !== undefined &&
+      bypass.filterId === source.filterId &&
+      bypass.groupId === source.groupId &&
+      isWithinBypassScope(bypass, targetUrl) &&
+      !isBypassExpired(bypass)
+    );
   }
 }
 
@@ -423,29 +609,53 @@ function createBlockId(): string {
 }
 
 /**
- * Key the bypass to the exact page (without the fragment) so Continue only unlocks the page the
- * user saw blocked, not every other page on the same origin. Fragment navigations re-fire
- * evaluation but stay on the same page, so the hash is stripped.
+ * Key a page bypass to the exact page so Continue only unlocks the page the user saw blocked, not
+ * every other page on the same origin. The key is the canonical URL filters match against, so a
+ * fragment navigation or another spelling of the same page keeps the bypass exactly when it would
+ * still be blocked by the same filter. A site bypass is keyed by the canonical host instead, and a
+ * tab bypass keeps the page key only as a record of where it started.
  */
-function getBypassUrlKey(targetUrl: string): string {
-  try {
-    const parsed = new URL(targetUrl);
-    parsed.hash = '';
-    return parsed.toString();
-  } catch {
-    return targetUrl;
-  }
+function getBypassUrlKey(targetUrl: string, scope: BypassScope): string {
+  const canonical = canonicalizeUrl(targetUrl);
+  return (scope === 'site' ? canonical?.host : canonical?.href) ?? targetUrl;
+}
+
+function isWithinBypassScope(bypass: BypassState, url: string): boolean {
+  return bypass.scope === 'tab' || bypass.urlKey === getBypassUrlKey(url, bypass.scope);
+}
+
+function isBypassExpired(bypass: BypassState, now = Date.now()): boolean {
+  return bypass.expiresAt !== undefined && bypass.expiresAt <= now;
+}
+
+function getBlockedBy(decision: BlockDecision): BlockedBy {
+  return decision.reason === 'matched-filter'
+    ? { filterId: decision.filterId, groupId: decision.groupId }
+    : { groupId: decision.groupId };
+}
+
+/**
+ * A bypass is tied to whatever blocked the page: the filter, or for an allowlist block the group.
+ */
+function getBypassSource(
+  decision: BlockDecision
+): Omit<BypassState, 'scope' | 'urlKey' | 'expiresAt'> {
+  return decision.reason === 'matched-filter'
+    ? { filterId: decision.filterId }
+    : { groupId: decision.groupId };
 }
 
 function createFilterSnapshot(
   filter: Filter | undefined,
   fallbackFilterId: string
-): BlockedPageState['filter'] {
+): BlockedFilterSnapshot {
   return {
     id: filter?.id ?? fallbackFilterId,
     pattern: filter?.pattern ?? fallbackFilterId,
     matchMode: filter?.matchMode ?? 'contains',
+    ...(filter?.target && filter.target !== 'url' ? { target: filter.target } : {}),
     ...(filter?.description ? { description: filter.description } : {}),
+    ...(filter?.maxVisitsPerDay ? { maxVisitsPerDay: filter.maxVisitsPerDay } : {}),
   };
 }
 
@@ -3,23 +3,43 @@
  * Displays information about the blocked URL and provides navigation options
  */
 
+import { getBypassCounts } from '../../shared/api/bypasses';
 import { sendExtensionMessage } from '../../shared/api/messaging';
 import { openOptionsPage } from '../../shared/api/runtime';
 import { loadData } from '../../shared/api/storage';
 import {
   MessageType,
+  type BlockedFilterSnapshot,
   type BlockedPageState,
+  type BypassCounts,
+  type ChallengePrompt,
+  type FilterGroup,
   type FilterMatchMode,
   type GetBlockedPageStateResponse,
 } from '../../shared/types';
+import {
+  getGroupTransitions,
+  getNextBudgetReset,
+  getScheduleClock,
+  isGroupActive,
+} from '../../shared/filtering/schedules';
+import { getBypassesLeft } from '../../shared/filtering/bypasses';
+import { normalizeChallengeAnswer } from '../../shared/filtering/challenges';
+import { isValidMatchMode } from '../../shared/storage/guards';
 import { getElementByIdOrNull } from '../../shared/utils/dom';
-import { formatGroupScheduleSummary } from '../../shared/utils/schedules';
+import { formatDuration } from '../../shared/utils/helpers';
+import { formatGroupScheduleSummary, formatUpcomingInstant } from '../../shared/utils/schedules';
 
 interface BlockedPageViewModel {
   readonly targetUrl: string;
   readonly state?: BlockedPageState;
 }
 
+let currentBlock: BlockedPageState | undefined;
+let currentChallenge: ChallengePrompt | undefined;
+let continueLabel = 'Continue';
+let countdownTimer: number | undefined;
+
 /**
  * Initialize blocked page
  */
@@ -38,6 +58,25 @@ async function init(): Promise<void> {
     });
   });
 
+  const answerInput = getElementByIdOrNull<HTMLInputElement>('challenge-answer');
+  answerInput?.addEventListener('input', () => {
+    setChallengeError(null);
+    updateContinueAvailability();
+  });
+  // The answer is meant to be typed out, not pasted.
+  answerInput?.addEventListener('paste', (event) => {
+    event.preventDefault();
+  });
+  const reasonInput = getElementByIdOrNull<HTMLInputElement>('continue-reason');
+  reasonInput?.addEventListener('input', updateContinueAvailability);
+  for (const input of [answerInput, reasonInput]) {
+    input?.addEventListener('keydown', (event) => {
+      if (event.key === 'Enter' && continueButton instanceof HTMLButtonElement) {
+        if (!continueButton.disabled) continueButton.click();
+      }
+    });
+  }
+
   const learnMoreButton = getElementByIdOrNull('learn-more');
   learnMoreButton?.addEventListener('click', () => {
     setExtrasExpanded(true);
@@ -61,8 +100,10 @@ async function init(): Promise<void> {
 async function renderPage(): Promise<void> {
   const state = await getBlockedPageState();
   renderBlockedUrl(state);
+  renderBlockReason(state);
   renderResponsibleFilter(state);
   renderActions(state);
+  await renderBypassAllowance();
   await renderExtrasExpansion();
 }
 
@@ -202,13 +243,19 @@ function isBlockedPageStateResponse(response: unknown): response is GetBlockedPa
     response.state !== null &&
     'targetUrl' in response.state &&
     typeof response.state.targetUrl === 'string' &&
-    'filter' in response.state &&
-    typeof response.state.filter === 'object' &&
-    response.state.filter !== null &&
-    'pattern' in response.state.filter &&
-    typeof response.state.filter.pattern === 'string' &&
-    'matchMode' in response.state.filter &&
-    isFilterMatchMode(response.state.filter.matchMode)
+    // Allowlist blocks have no responsible filter.
+    (!('filter' in response.state) || isBlockedFilterSnapshot(response.state.filter))
+  );
+}
+
+function isBlockedFilterSnapshot(filter: unknown): filter is BlockedFilterSnapshot {
+  return (
+    typeof filter === 'object' &&
+    filter !== null &&
+    'pattern' in filter &&
+    typeof filter.pattern === 'string' &&
+    'matchMode' in filter &&
+    isValidMatchMode(filter.matchMode)
   );
 }
 
@@ -224,12 +271,29 @@ async function handleGoBack(): Promise<void> {
 
 async function handleContinue(): Promise<void> {
   const blockId = getBlockedPageBlockId();
+  const answer = getElementByIdOrNull<HTMLInputElement>('challenge-answer')?.value ?? '';
+  const reason = getElementByIdOrNull<HTMLInputElement>('continue-reason')?.value.trim() ?? '';
   const response = await sendExtensionMessage({
     type: MessageType.CONTINUE_ACTIVE_TAB,
     ...(blockId ? { blockId } : {}),
+    ...(currentChallenge
+      ? {
+          challenge: {
+            token: currentChallenge.token,
+            ...(currentChallenge.type === 'countdown' ? {} : { answer }),
+          },
+        }
+      : {}),
+    ...(reason ? { reason } : {}),
   });
 
   if (!response.continued) {
+    await renderBypassAllowance();
+    if (currentChallenge?.type === 'arithmetic') {
+      setChallengeError('That is not the right answer.');
+    } else if (currentChallenge?.type === 'phrase') {
+      setChallengeError('That does not match the phrase.');
+    }
     console.warn('[Teichos] No bypass is available for this tab.');
   }
 }
@@ -252,22 +316,258 @@ function renderResponsibleFilter(state: BlockedPageViewModel): void {
     return;
   }
 
-  setText('responsible-filter-name', getFilterDisplayName(state.state));
-  setText('responsible-filter-pattern', state.state.filter.pattern);
-  setText('responsible-filter-match', formatMatchMode(state.state.filter.matchMode));
+  const filter = state.state.filter;
+  for (const row of detailSection.querySelectorAll<HTMLElement>('[data-role="filter-detail"]')) {
+    row.hidden = !filter;
+  }
+  if (filter) {
+    setText('responsible-filter-name', getFilterDisplayName(filter));
+    setText('responsible-filter-pattern', filter.pattern);
+    setText('responsible-filter-match', formatMatchMode(filter.matchMode));
+    setText('responsible-filter-target', formatTarget(filter));
+  }
   setText('responsible-filter-group', state.state.group?.name ?? 'Unknown group');
-  setText(
-    'responsible-filter-schedule',
-    state.state.group ? formatGroupScheduleSummary(state.state.group) : 'Unavailable'
-  );
+  setText('responsible-filter-schedule', formatResponsibleSchedule(state.state));
+  renderUnblockTime(state.state);
 
   detailSection.hidden = false;
 }
 
+function formatResponsibleSchedule(state: BlockedPageState): string {
+  if (!state.group) {
+    return 'Unavailable';
+  }
+
+  const summary = formatGroupScheduleSummary(state.group);
+  const focusSessionUntil = state.effectiveState.focusSessionUntil;
+  return focusSessionUntil === undefined
+    ? summary
+    : `Focus session until ${formatUpcomingInstant(focusSessionUntil)}, then ${summary}`;
+}
+
+/**
+ * Show when the responsible group's schedule next ends, if it ends by itself.
+ */
+function renderUnblockTime(state: BlockedPageState): void {
+  const row = getElementByIdOrNull<HTMLElement>('responsible-filter-unblocks-row');
+  if (!row) {
+    return;
+  }
+
+  const deactivatesAt = state.group
+    ? getUnblocksAt(state.group, state.effectiveState.focusSessionUntil)
+    : null;
+  row.hidden = deactivatesAt === null;
+  if (deactivatesAt !== null) {
+    setText('responsible-filter-unblocks', formatUpcomingInstant(deactivatesAt));
+  }
+}
+
+/**
+ * When the group stops blocking by itself: when its schedule ends or, for a budgeted group, when
+ * its daily budget resets, whichever comes first. A focus session holds the group active until it
+ * ends, so the schedule is only consulted from then on.
+ */
+function getUnblocksAt(group: FilterGroup, focusSessionUntil?: number): number | null {
+  const from = focusSessionUntil ?? Date.now();
+  if (focusSessionUntil !== undefined && !isGroupActive(group, getScheduleClock(from))) {
+    return focusSessionUntil;
+  }
+
+  const { deactivatesAt } = getGroupTransitions(group, from);
+  if (!group.dailyBudget) {
+    return deactivatesAt;
+  }
+
+  const resetsAt = getNextBudgetReset(group, from);
+  return deactivatesAt === null ? resetsAt : Math.min(deactivatesAt, resetsAt);
+}
+
+function renderBlockReason(state: BlockedPageViewModel): void {
+  const group = state.state?.group;
+  if (group?.dailyBudget) {
+    setText(
+      'block-reason',
+      `Daily budget used up for "${group.name}". It resets at ${formatUpcomingInstant(getNextBudgetReset(group))}.`
+    );
+    return;
+  }
+
+  const maxVisits = state.state?.filter?.maxVisitsPerDay;
+  if (maxVisits !== undefined) {
+    setText(
+      'block-reason',
+      `Visit ${maxVisits} of ${maxVisits} used today. The visits reset at midnight.`
+    );
+    return;
+  }
+
+  if (!state.state || state.state.filter) {
+    return;
+  }
+
+  const groupName = state.state.group?.name;
+  setText(
+    'block-reason',
+    groupName
+      ? `This page is not on the allowlist for "${groupName}", which blocks every other page while it is active.`
+      : 'This page is not on the allowlist of an active group.'
+  );
+}
+
 function renderActions(state: BlockedPageViewModel): void {
   const continueButton = getElementByIdOrNull<HTMLButtonElement>('continue');
+  currentBlock = state.state;
+  continueLabel = getContinueLabel(state.state?.group);
   if (continueButton) {
     continueButton.hidden = !state.state;
+    continueButton.textContent = continueLabel;
+  }
+  renderReason(state.state);
+  renderChallenge(state.state?.challenge);
+}
+
+/**
+ * Ask why the user is continuing, for the journal; Continue waits for an answer when the group
+ * requires one.
+ */
+function renderReason(state: BlockedPageState | undefined): void {
+  const row = getElementByIdOrNull<HTMLElement>('continue-reason-row');
+  if (!row || !state) {
+    return;
+  }
+
+  setText(
+    'continue-reason-label',
+    state.group?.bypass?.requireReason ? 'Reason' : 'Reason (optional)'
+  );
+  row.hidden = false;
+  updateContinueAvailability();
+}
+
+/**
+ * Say how far Continue reaches when it is more than this page, or not for good.
+ */
+function getContinueLabel(group: FilterGroup | undefined): string {
+  const scope = group?.bypass?.scope ?? 'page';
+  const label =
+    scope === 'site'
+      ? 'Continue on this site'
+      : scope === 'tab'
+        ? 'Continue in this tab'
+        : 'Continue';
+  const minutes = group?.bypass?.minutes;
+  return minutes ? `${label} for ${formatDuration(minutes * 60_000)}` : label;
+}
+
+/**
+ * Hold Continue back until the block's challenge looks met: a countdown enables it by itself, a
+ * phrase once it is typed out, a sum once there is an answer. The background checks again.
+ */
+function renderChallenge(challenge: ChallengePrompt | undefined): void {
+  currentChallenge = challenge;
+  const container = getElementByIdOrNull<HTMLElement>('continue-challenge');
+  const prompt = getElementByIdOrNull('challenge-prompt');
+  const answerInput = getElementByIdOrNull<HTMLInputElement>('challenge-answer');
+  if (!challenge || !container || !prompt || !answerInput) {
+    return;
+  }
+
+  if (challenge.type === 'countdown') {
+    updateContinueAvailability();
+    countdownTimer = window.setInterval(updateContinueAvailability, 1000);
+    return;
+  }
+
+  const emphasis = document.createElement('strong');
+  if (challenge.type === 'phrase') {
+    emphasis.textContent = challenge.phrase;
+    prompt.replaceChildren('Type ', emphasis, ' to continue.');
+  } else {
+    emphasis.textContent = challenge.question;
+    prompt.replaceChildren('Work out ', emphasis, ' to continue.');
+    answerInput.inputMode = 'numeric';
+  }
+  container.hidden = false;
+  updateContinueAvailability();
+}
+
+/**
+ * Show how many continues the group's daily allowance has left for this block, and take Continue
+ * away once there are none; the background refuses it by then anyway.
+ */
+async function renderBypassAllowance(): Promise<void> {
+  const allowance = getElementByIdOrNull<HTMLElement>('bypass-allowance');
+  const group = currentBlock?.group;
+  const maxPerDay = group?.bypass?.maxPerDay;
+  if (!allowance || !group || maxPerDay === undefined) {
+    return;
+  }
+
+  let counts: BypassCounts = {};
+  try {
+    counts = await getBypassCounts();
+  } catch (error: unknown) {
+    console.warn('[Teichos] Failed to load continue counts:', error);
+  }
+
+  const left = getBypassesLeft(group, counts);
+  allowance.hidden = false;
+  allowance.textContent =
+    left === 0
+      ? 'No continues left today. They reset at midnight.'
+      : `${left} of ${maxPerDay} ${maxPerDay === 1 ? 'continue' : 'continues'} left today.`;
+  if (left === 0) {
+    const continueButton = getElementByIdOrNull<HTMLButtonElement>('continue');
+    const challenge = getElementByIdOrNull<HTMLElement>('continue-challenge');
+    const reason = getElementByIdOrNull<HTMLElement>('continue-reason-row');
+    if (continueButton) continueButton.hidden = true;
+    if (challenge) challenge.hidden = true;
+    if (reason) reason.hidden = true;
+  }
+}
+
+function updateContinueAvailability(): void {
+  const continueButton = getElementByIdOrNull<HTMLButtonElement>('continue');
+  const reason = getElementByIdOrNull<HTMLInputElement>('continue-reason')?.value ?? '';
+  if (!continueButton) {
+    return;
+  }
+
+  const challengeMet = updateChallengeProgress(continueButton);
+  const reasonMissing =
+    currentBlock?.group?.bypass?.requireReason === true && reason.trim().length === 0;
+  continueButton.disabled = !challengeMet || reasonMissing;
+}
+
+/**
+ * Whether the block's challenge looks met, counting a countdown down on the Continue button.
+ */
+function updateChallengeProgress(continueButton: HTMLButtonElement): boolean {
+  const answer = getElementByIdOrNull<HTMLInputElement>('challenge-answer')?.value ?? '';
+  if (!currentChallenge) {
+    return true;
+  }
+
+  if (currentChallenge.type === 'countdown') {
+    const secondsLeft = Math.ceil((currentChallenge.readyAt - Date.now()) / 1000);
+    continueButton.textContent = secondsLeft > 0 ? `Continue in ${secondsLeft}s` : continueLabel;
+    if (secondsLeft <= 0) {
+      window.clearInterval(countdownTimer);
+    }
+    return secondsLeft <= 0;
+  }
+
+  return currentChallenge.type === 'phrase'
+    ? normalizeChallengeAnswer(answer) === normalizeChallengeAnswer(currentChallenge.phrase)
+    : answer.trim().length > 0;
+}
+
+function setChallengeError(message: string | null): void {
+  const error = getElementByIdOrNull<HTMLElement>('challenge-error');
+  if (error) {
+    error.hidden = message === null;
+    error.textContent = message ?? '';
   }
 }
 
@@ -278,13 +578,31 @@ function setText(elementId: string, value: string): void {
   }
 }
 
-function getFilterDisplayName(state: BlockedPageState): string {
-  const name = state.filter.description?.trim();
+function getFilterDisplayName(filter: BlockedFilterSnapshot): string {
+  const name = filter.description?.trim();
   if (typeof name === 'string' && name.length > 0) {
     return name;
   }
 
-  return state.filter.pattern;
+  return filter.pattern;
+}
+
+function formatTarget(filter: BlockedFilterSnapshot): string {
+  // Domain filters always check the hostname.
+  const target = filter.matchMode === 'domain' ? 'host' : (filter.target ?? 'url');
+  if (target === 'host') {
+    return 'Hostname';
+  }
+
+  if (target === 'path') {
+    return 'Path';
+  }
+
+  if (target === 'query') {
+    return 'Query string';
+  }
+
+  return 'Full URL';
 }
 
 function formatMatchMode(matchMode: FilterMatchMode): string {
@@ -296,11 +614,19 @@ function formatMatchMode(matchMode: FilterMatchMode): string {
     return 'Exact URL';
   }
 
-  return 'Contains text';
-}
+  if (matchMode === 'domain') {
+    return 'Domain and subdomains';
+  }
+
+  if (matchMode === 'glob') {
+    return 'Wildcard';
+  }
 
-function isFilterMatchMode(value: unknown): value is FilterMatchMode {
-  return value === 'contains' || value === 'exact' || value === 'regex';
+  if (matchMode === 'adblock') {
+    return 'Adblock rule';
+  }
+
+  return 'Contains text';
 }
 
 // Initialize on load
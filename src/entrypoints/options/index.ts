@@ -8,11 +8,15 @@ import {
   addFilter,
   updateFilter,
   deleteFilter,
+  moveFilter,
   exportData,
   importData,
+  importAdblockList,
+  parseCalendarImport,
   updateData,
   purgeExpiredTemporaryFilters,
   SettingsSaveError,
+  type CalendarImport,
   addGroup,
   updateGroup,
   deleteGroup,
@@ -20,27 +24,80 @@ import {
   updateWhitelist,
   deleteWhitelist,
 } from '../../shared/api/storage';
+import { clearBypassJournal, getBypassJournal } from '../../shared/api/journal';
 import type {
+  BypassJournalEntry,
+  BypassSettings,
+  ContinueChallenge,
+  DailyBudget,
   Filter,
   FilterGroup,
   FilterMatchMode,
+  FilterTarget,
   StorageData,
   Whitelist,
+  MutableDateRange,
   MutableTimeSchedule,
 } from '../../shared/types';
-import { getRegexValidationError } from '../../shared/filtering/patterns';
+import type {
+  FilterDecision,
+  FilterExplanation,
+  FilterMatchExplanation,
+} from '../../shared/filtering/engine';
+import { getActiveLocks, LOCKED_OPERATIONS, type ActiveLock } from '../../shared/filtering/locks';
+import { getPatternMatchWarning, getPatternValidationError } from '../../shared/filtering/patterns';
+import {
+  isValidBypassScope,
+  isValidBypassSettings,
+  isValidContinueChallenge,
+  isValidDailyBudget,
+  isValidFilterTarget,
+  isValidMatchMode,
+  isValidMaxVisitsPerDay,
+  isValidTimeZone,
+} from '../../shared/storage/guards';
+import {
+  filterJournalEntries,
+  serializeJournalAsCsv,
+  serializeJournalAsJson,
+  type JournalQuery,
+} from '../../shared/storage/journal';
 import {
+  getFilterPriority,
+  isAllowlistGroup,
   isGroupEnabled,
   isSnoozeActive,
-  sortFiltersTemporaryFirst,
+  isTemporaryFilter,
+  sortFiltersForEvaluation,
 } from '../../shared/filtering/schedules';
-import { DEFAULT_GROUP_ID, isCloseInfoPanelMessage, STORAGE_KEY } from '../../shared/types';
+import {
+  BYPASS_JOURNAL_KEY,
+  DEFAULT_GROUP_ID,
+  isCloseInfoPanelMessage,
+  MessageType,
+  STORAGE_KEY,
+} from '../../shared/types';
 import { cloneTemplate, getElementByIdOrNull, querySelector } from '../../shared/utils/dom';
-import { generateId } from '../../shared/utils/helpers';
-import { formatGroupScheduleSummary } from '../../shared/utils/schedules';
+import { formatDateString, formatDuration, generateId } from '../../shared/utils/helpers';
+import {
+  formatActiveLock,
+  formatBypassSettings,
+  formatContinueChallenge,
+  formatDailyBudget,
+  formatGroupScheduleSummary,
+  formatScheduleSummary,
+  formatUpcomingInstant,
+  LOCKED_OPERATION_LABELS,
+} from '../../shared/utils/schedules';
+import { sendExtensionMessage } from '../../shared/api/messaging';
 import { getExtensionUrl } from '../../shared/api/runtime';
 import { createTab } from '../../shared/api/tabs';
-import { DAY_NAMES, DEFAULT_SCHEDULE, PAGES } from '../../shared/constants';
+import {
+  DAY_NAMES,
+  DEFAULT_CHALLENGE_PHRASE,
+  DEFAULT_SCHEDULE,
+  PAGES,
+} from '../../shared/constants';
 
 const FOCUSABLE_SELECTOR =
   'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
@@ -51,7 +108,10 @@ let currentEditingGroupId: string | null = null;
 let currentEditingWhitelistId: string | null = null;
 let currentFilterGroupId: string | null = null;
 let currentWhitelistGroupId: string | null = null;
+let adblockImportGroupId: string | null = null;
+let pendingCalendarImport: CalendarImport | null = null;
 let temporarySchedules: MutableTimeSchedule[] = [];
+let temporaryExcludedDates: MutableDateRange[] = [];
 let activeModal: HTMLElement | null = null;
 let lastFocusedElement: HTMLElement | null = null;
 let setInfoPopoverOpen: ((isOpen: boolean) => void) | null = null;
@@ -64,6 +124,7 @@ async function init(): Promise<void> {
   setupStorageSync();
   populateInfoPanel();
   await renderGroups();
+  await renderJournal();
   openFilterFromQuery();
   openInfoFromQuery();
   document.documentElement.dataset['optionsReady'] = 'true';
@@ -102,6 +163,21 @@ function setupEventListeners(): void {
       void handleImportSettings(event);
     }
   );
+  getElementByIdOrNull<HTMLInputElement>('import-adblock-input')?.addEventListener(
+    'change',
+    (event) => {
+      void handleImportAdblockList(event);
+    }
+  );
+  getElementByIdOrNull('import-calendar-btn')?.addEventListener('click', () => {
+    getElementByIdOrNull<HTMLInputElement>('import-calendar-input')?.click();
+  });
+  getElementByIdOrNull<HTMLInputElement>('import-calendar-input')?.addEventListener(
+    'change',
+    (event) => {
+      void handleImportCalendar(event);
+    }
+  );
   getElementByIdOrNull<HTMLInputElement>('global-expand-details')?.addEventListener(
     'change',
     () => {
@@ -121,6 +197,8 @@ function setupEventListeners(): void {
   getElementByIdOrNull('group-form')?.addEventListener('submit', handleGroupSubmit);
   getElementByIdOrNull('delete-group')?.addEventListener('click', handleGroupDelete);
   getElementByIdOrNull('add-schedule-btn')?.addEventListener('click', addScheduleToModal);
+  renderTimeZoneOptions();
+  getElementByIdOrNull('add-excluded-date-btn')?.addEventListener('click', addExcludedDateToModal);
   getElementByIdOrNull('group-24x7')?.addEventListener('change', (e: Event) => {
     const is24x7 = (e.target as HTMLInputElement).checked;
     const schedulesContainer = getElementByIdOrNull('schedules-container');
@@ -128,6 +206,20 @@ function setupEventListeners(): void {
       schedulesContainer.style.display = is24x7 ? 'none' : 'block';
     }
   });
+  getElementByIdOrNull('group-challenge')?.addEventListener('change', renderChallengeFields);
+
+  // Calendar import modal
+  getElementByIdOrNull('close-calendar-import-modal')?.addEventListener(
+    'click',
+    closeCalendarImportModal
+  );
+  getElementByIdOrNull('cancel-calendar-import')?.addEventListener(
+    'click',
+    closeCalendarImportModal
+  );
+  getElementByIdOrNull('calendar-import-form')?.addEventListener('submit', (event) => {
+    void handleCalendarImportSubmit(event);
+  });
 
   // Whitelist modal
   getElementByIdOrNull('close-whitelist-modal')?.addEventListener('click', closeWhitelistModal);
@@ -135,18 +227,53 @@ function setupEventListeners(): void {
   getElementByIdOrNull('whitelist-form')?.addEventListener('submit', handleWhitelistSubmit);
   getElementByIdOrNull('delete-whitelist')?.addEventListener('click', handleWhitelistDelete);
 
+  getElementByIdOrNull('url-test-form')?.addEventListener('submit', (event) => {
+    void handleUrlTestSubmit(event);
+  });
+
+  // Continue journal
+  for (const id of ['journal-group', 'journal-period', 'journal-search']) {
+    getElementByIdOrNull(id)?.addEventListener('input', () => {
+      void renderJournal();
+    });
+  }
+  getElementByIdOrNull('journal-export-json-btn')?.addEventListener('click', () => {
+    void handleExportJournal('json');
+  });
+  getElementByIdOrNull('journal-export-csv-btn')?.addEventListener('click', () => {
+    void handleExportJournal('csv');
+  });
+  getElementByIdOrNull('journal-clear-btn')?.addEventListener('click', () => {
+    void handleClearJournal();
+  });
+
   // Event delegation for list actions
   const groupsList = getElementByIdOrNull('groups-list');
   groupsList?.addEventListener('click', handleGroupsListClick);
   groupsList?.addEventListener('change', handleGroupsListChange);
   getElementByIdOrNull('schedules-list')?.addEventListener('click', handleSchedulesListClick);
   getElementByIdOrNull('schedules-list')?.addEventListener('change', handleSchedulesListClick);
+  getElementByIdOrNull('excluded-dates-list')?.addEventListener(
+    'click',
+    handleExcludedDatesListClick
+  );
+  getElementByIdOrNull('excluded-dates-list')?.addEventListener(
+    'change',
+    handleExcludedDatesListClick
+  );
 
   document.addEventListener('keydown', handleGlobalKeydown);
 }
 
 function setupStorageSync(): void {
   chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes[BYPASS_JOURNAL_KEY]) {
+      void renderJournal().catch((error: unknown) => {
+        console.error('Failed to refresh the continue journal:', error);
+      });
+      return;
+    }
+
     if (areaName !== 'sync') return;
     if (!changes[STORAGE_KEY]) return;
     void renderGroups().catch((error: unknown) => {
@@ -261,17 +388,21 @@ function setGlobalSettingsStatus(message: string, isError = false): void {
   status.classList.toggle('is-error', isError);
 }
 
-function createExportFileName(now = new Date()): string {
+function createExportFileName(kind = 'settings', extension = 'json', now = new Date()): string {
   const dateStamp = now.toISOString().slice(0, 10);
-  return `teichos-settings-${dateStamp}.json`;
+  return `teichos-${kind}-${dateStamp}.${extension}`;
 }
 
-function downloadSettingsFile(serialized: string): void {
-  const blob = new Blob([serialized], { type: 'application/json' });
+function downloadSettingsFile(
+  serialized: string,
+  type = 'application/json',
+  fileName = createExportFileName()
+): void {
+  const blob = new Blob([serialized], { type });
   const objectUrl = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = objectUrl;
-  link.download = createExportFileName();
+  link.download = fileName;
   link.click();
   window.setTimeout(() => {
     URL.revokeObjectURL(objectUrl);
@@ -310,6 +441,116 @@ async function handleImportSettings(event: Event): Promise<void> {
   }
 }
 
+function openAdblockListPicker(groupId: string): void {
+  adblockImportGroupId = groupId;
+  getElementByIdOrNull<HTMLInputElement>('import-adblock-input')?.click();
+}
+
+async function handleImportAdblockList(event: Event): Promise<void> {
+  const input = event.target as HTMLInputElement | null;
+  const file = input?.files?.[0];
+  const groupId = adblockImportGroupId;
+  if (!input || !file || !groupId) {
+    return;
+  }
+
+  try {
+    const result = await importAdblockList(await file.text(), groupId);
+    await renderGroups();
+    const skipped =
+      result.skippedRules > 0
+        ? ` Skipped ${pluralize(result.skippedRules, 'unsupported rule')}.`
+        : '';
+    alert(
+      `Imported ${pluralize(result.filters.length, 'filter')} and ${pluralize(result.whitelist.length, 'exception')}.${skipped}`
+    );
+  } catch (error) {
+    console.error('Failed to import adblock list:', error);
+    alert(error instanceof Error ? error.message : 'Failed to import adblock list.');
+  } finally {
+    adblockImportGroupId = null;
+    input.value = '';
+  }
+}
+
+async function handleImportCalendar(event: Event): Promise<void> {
+  const input = event.target as HTMLInputElement | null;
+  const file = input?.files?.[0];
+  if (!input || !file) {
+    return;
+  }
+
+  try {
+    const fallbackName = file.name.replace(/\.ics$/i, '') || 'Calendar';
+    openCalendarImportModal(parseCalendarImport(await file.text(), fallbackName));
+  } catch (error) {
+    console.error('Failed to read calendar:', error);
+    const message = error instanceof Error ? error.message : 'Failed to read calendar.';
+    setGlobalSettingsStatus(message, true);
+  } finally {
+    input.value = '';
+  }
+}
+
+/**
+ * Preview the group a calendar would become before it is saved.
+ */
+function openCalendarImportModal(calendarImport: CalendarImport): void {
+  const modal = getElementByIdOrNull('calendar-import-modal');
+  const nameInput = getElementByIdOrNull<HTMLInputElement>('calendar-import-name');
+  const summary = getElementByIdOrNull('calendar-import-summary');
+  const scheduleList = getElementByIdOrNull('calendar-import-schedules');
+  if (!modal || !nameInput || !summary || !scheduleList) return;
+
+  pendingCalendarImport = calendarImport;
+  const { group, importedEvents, skippedEvents } = calendarImport;
+  nameInput.value = group.name;
+  const skipped =
+    skippedEvents > 0
+      ? ` ${pluralize(skippedEvents, 'event')} with unsupported repeats will be left out.`
+      : '';
+  const timeZone = group.timeZone ? ` Times follow ${group.timeZone}.` : '';
+  summary.textContent = `${pluralize(importedEvents, 'event')} become ${pluralize(group.schedules.length, 'schedule')}.${timeZone}${skipped}`;
+  scheduleList.replaceChildren(
+    ...group.schedules.map((schedule) => {
+      const item = document.createElement('li');
+      item.textContent = formatScheduleSummary(schedule);
+      return item;
+    })
+  );
+
+  modal.classList.add('active');
+  activateModal(modal, '#calendar-import-name');
+}
+
+function closeCalendarImportModal(): void {
+  const modal = getElementByIdOrNull('calendar-import-modal');
+  if (modal?.classList.contains('active')) {
+    modal.classList.remove('active');
+    deactivateModal(modal);
+  }
+  pendingCalendarImport = null;
+}
+
+async function handleCalendarImportSubmit(event: Event): Promise<void> {
+  event.preventDefault();
+  const calendarImport = pendingCalendarImport;
+  const name = getElementByIdOrNull<HTMLInputElement>('calendar-import-name')?.value.trim() ?? '';
+  if (!calendarImport || !name) {
+    return;
+  }
+
+  try {
+    await addGroup({ ...calendarImport.group, name });
+    closeCalendarImportModal();
+    await renderGroups();
+    setGlobalSettingsStatus(`Calendar imported as the group "${name}".`);
+  } catch (error) {
+    console.error('Failed to import calendar:', error);
+    alert(describeSaveError(error, 'Failed to import calendar. Please try again.'));
+  }
+}
+
 /**
  * Open the block page in a new tab using representative sample data so users can preview how a
  * block looks without needing to actually trigger one.
@@ -326,6 +567,276 @@ async function handlePreviewBlockPage(): Promise<void> {
   }
 }
 
+// ============================================================================
+// URL Tester
+// ============================================================================
+
+async function handleUrlTestSubmit(event: Event): Promise<void> {
+  event.preventDefault();
+
+  const input = getElementByIdOrNull<HTMLInputElement>('url-test-input');
+  const rawUrl = input?.value.trim() ?? '';
+  if (!rawUrl) {
+    return;
+  }
+
+  // Accept a bare host like reddit.com the same way the address bar does.
+  const url = /^[a-z][a-z0-9+.-]*:/i.test(rawUrl) ? rawUrl : `https://${rawUrl}`;
+
+  try {
+    const [response, data] = await Promise.all([
+      sendExtensionMessage({ type: MessageType.EXPLAIN_URL, url }),
+      loadData(),
+    ]);
+    renderUrlTestResult(response.explanation, data);
+  } catch (error) {
+    console.error('Failed to test URL:', error);
+    renderUrlTestSummary('Could not test this URL. Please try again.');
+  }
+}
+
+function renderUrlTestSummary(summary: string): HTMLUListElement | null {
+  const result = getElementByIdOrNull<HTMLElement>('url-test-result');
+  const summaryElement = getElementByIdOrNull('url-test-summary');
+  const matchList = getElementByIdOrNull<HTMLUListElement>('url-test-matches');
+  if (!result || !summaryElement || !matchList) {
+    return null;
+  }
+
+  summaryElement.textContent = summary;
+  matchList.replaceChildren();
+  result.hidden = false;
+  return matchList;
+}
+
+function renderUrlTestResult(explanation: FilterExplanation, data: StorageData): void {
+  const filtersById = new Map(data.filters.map((filter) => [filter.id, filter]));
+  const groupsById = new Map(data.groups.map((group) => [group.id, group]));
+  const matchList = renderUrlTestSummary(
+    describeDecision(
+      explanation.decision,
+      (filterId) => {
+        const filter = filtersById.get(filterId);
+        return filter ? getEntryDisplayName(filter) : filterId;
+      },
+      (groupId) => groupsById.get(groupId)?.name ?? 'Unknown group'
+    )
+  );
+  if (!matchList) {
+    return;
+  }
+
+  for (const match of explanation.matches) {
+    const item = cloneTemplate<HTMLLIElement>('options-url-test-match-template');
+    const groupName = groupsById.get(match.filter.groupId)?.name ?? 'Unknown group';
+    item.classList.toggle('is-blocking', match.outcome === 'blocks');
+    querySelector<HTMLElement>('[data-role="match-filter"]', item).textContent =
+      `${getEntryDisplayName(match.filter)} (${groupName})`;
+    querySelector<HTMLElement>('[data-role="match-pattern"]', item).textContent =
+      match.filter.pattern;
+    querySelector<HTMLElement>('[data-role="match-outcome"]', item).textContent =
+      describeMatchOutcome(match, groupName, (filterId) => {
+        const filter = filtersById.get(filterId);
+        return filter ? getEntryDisplayName(filter) : filterId;
+      });
+    matchList.appendChild(item);
+  }
+}
+
+/**
+ * The journal entries the viewer's group, period and search filters select, newest first.
+ */
+async function loadFilteredJournal(): Promise<BypassJournalEntry[]> {
+  const groupId = getElementByIdOrNull<HTMLSelectElement>('journal-group')?.value ?? '';
+  const days = Number(getElementByIdOrNull<HTMLSelectElement>('journal-period')?.value ?? '');
+  const search = getElementByIdOrNull<HTMLInputElement>('journal-search')?.value ?? '';
+  const since = new Date();
+  since.setHours(0, 0, 0, 0);
+  since.setDate(since.getDate() - (days - 1));
+  const query: JournalQuery = {
+    ...(groupId ? { groupId } : {}),
+    ...(days > 0 ? { since: since.getTime() } : {}),
+    ...(search.trim() ? { search } : {}),
+  };
+  return filterJournalEntries(await getBypassJournal(), query);
+}
+
+async function renderJournal(): Promise<void> {
+  const summary = getElementByIdOrNull('journal-summary');
+  const list = getElementByIdOrNull<HTMLUListElement>('journal-entries');
+  if (!summary || !list) return;
+
+  const [journal, data] = await Promise.all([getBypassJournal(), loadData()]);
+  renderJournalGroupOptions(journal, data.groups);
+  const entries = await loadFilteredJournal();
+  summary.textContent =
+    journal.length === 0
+      ? 'No continues recorded yet.'
+      : `${pluralize(entries.length, 'continue')} shown of ${journal.length}.`;
+
+  list.replaceChildren(
+    ...entries.map((entry) => {
+      const item = cloneTemplate<HTMLLIElement>('options-journal-entry-template');
+      querySelector<HTMLElement>('[data-role="journal-reason"]', item).textContent =
+        entry.reason ?? 'No reason given';
+      querySelector<HTMLElement>('[data-role="journal-url"]', item).textContent = entry.url;
+      querySelector<HTMLElement>('[data-role="journal-meta"]', item).textContent = [
+        new Date(entry.at).toLocaleString(),
+        entry.groupName ?? 'Unknown group',
+        ...(entry.filterPattern ? [entry.filterPattern] : []),
+      ].join(' • ');
+      return item;
+    })
+  );
+}
+
+/**
+ * Offer every current group, plus deleted ones that still have entries under the name they had.
+ */
+function renderJournalGroupOptions(
+  journal: readonly BypassJournalEntry[],
+  groups: readonly FilterGroup[]
+): void {
+  const select = getElementByIdOrNull<HTMLSelectElement>('journal-group');
+  if (!select) return;
+
+  const names = new Map(groups.map((group) => [group.id, group.name]));
+  for (const entry of journal) {
+    if (!names.has(entry.groupId)) {
+      names.set(entry.groupId, entry.groupName ?? 'Unknown group');
+    }
+  }
+
+  const selected = select.value;
+  const allGroups = document.createElement('option');
+  allGroups.value = '';
+  allGroups.textContent = 'All groups';
+  select.replaceChildren(
+    allGroups,
+    ...[...names].map(([id, name]) => {
+      const option = document.createElement('option');
+      option.value = id;
+      option.textContent = name;
+      return option;
+    })
+  );
+  select.value = names.has(selected) ? selected : '';
+}
+
+async function handleExportJournal(format: 'json' | 'csv'): Promise<void> {
+  try {
+    const entries = await loadFilteredJournal();
+    if (format === 'csv') {
+      downloadSettingsFile(
+        serializeJournalAsCsv(entries),
+        'text/csv',
+        createExportFileName('journal', 'csv')
+      );
+    } else {
+      downloadSettingsFile(
+        serializeJournalAsJson(entries),
+        'application/json',
+        createExportFileName('journal')
+      );
+    }
+  } catch (error) {
+    console.error('Failed to export the continue journal:', error);
+    alert('Failed to export the continue journal.');
+  }
+}
+
+async function handleClearJournal(): Promise<void> {
+  if (!confirm('Clear every entry from the continue journal? This cannot be undone.')) {
+    return;
+  }
+
+  try {
+    await clearBypassJournal();
+    await renderJournal();
+  } catch (error) {
+    console.error('Failed to clear the continue journal:', error);
+    alert('Failed to clear the continue journal.');
+  }
+}
+
+function getEntryDisplayName(entry: Filter | Whitelist): string {
+  const description = entry.description?.trim();
+  if (typeof description === 'string' && description.length > 0) {
+    return description;
+  }
+
+  return entry.pattern;
+}
+
+function describeDecision(
+  decision: FilterDecision,
+  getFilterName: (filterId: string) => string,
+  getGroupName: (groupId: string) => string
+): string {
+  if (decision.action === 'block') {
+    return decision.reason === 'matched-filter'
+      ? `Blocked by "${getFilterName(decision.filterId)}".`
+      : `Blocked: not on the allowlist of "${getGroupName(decision.groupId)}".`;
+  }
+
+  switch (decision.reason) {
+    case 'within-budget':
+      return `Allowed for now: counts against the daily budget of ${decision.groupIds
+        .map((groupId) => `"${getGroupName(groupId)}"`)
+        .join(', ')}.`;
+    case 'within-visit-limit':
+      return `Allowed for now: counts as a visit against the daily limit of ${decision.filterIds
+        .map((filterId) => `"${getFilterName(filterId)}"`)
+        .join(', ')}.`;
+    case 'snoozed':
+      return 'Allowed: filtering is snoozed.';
+    case 'whitelisted':
+      return 'Allowed: an exception covers every active filter that matches.';
+    case 'group-inactive':
+      return "Allowed: the matching filters' groups are not active right now.";
+    case 'temporary-expired':
+      return 'Allowed: the matching temporary filter has expired.';
+    case 'filter-disabled':
+      return 'Allowed: the matching filters are turned off.';
+    case 'no-match':
+      return 'Allowed: no filter matches this URL.';
+  }
+}
+
+function describeMatchOutcome(
+  match: FilterMatchExplanation,
+  groupName: string,
+  getFilterName: (filterId: string) => string
+): string {
+  switch (match.outcome) {
+    case 'blocks':
+      return 'Blocks this URL.';
+    case 'allows':
+      return `Keeps this URL reachable: it is on the allowlist of "${groupName}".`;
+    case 'superseded':
+      return `Would block, but "${getFilterName(match.byFilterId)}" is checked first.`;
+    case 'disabled':
+      return 'Skipped: this filter is turned off.';
+    case 'expired':
+      return 'Skipped: this temporary filter has expired.';
+    case 'group-inactive':
+      if (!match.groupEnabled) {
+        return `Skipped: the group "${groupName}" is turned off.`;
+      }
+      return match.nextActivation
+        ? `Skipped: the group "${groupName}" is not scheduled now. It next starts ${formatUpcomingInstant(match.nextActivation)}.`
+        : `Skipped: the group "${groupName}" is not scheduled now.`;
+    case 'whitelisted':
+      return `Allowed by the exception "${getEntryDisplayName(match.exception)}".`;
+    case 'within-budget':
+      return `Allowed for now: the group "${groupName}" has ${formatDuration(match.remainingMs)} of its daily budget left.`;
+    case 'within-visit-limit':
+      return `Allowed for now: ${match.visitsUsed} of ${match.maxVisits} visits used today.`;
+    case 'snoozed':
+      return 'Skipped: filtering is snoozed.';
+  }
+}
+
 function renderGlobalSettings(data: StorageData): void {
   const expandDetailsCheckbox = getElementByIdOrNull<HTMLInputElement>('global-expand-details');
   if (expandDetailsCheckbox) {
@@ -504,10 +1015,13 @@ async function renderGroups(): Promise<void> {
   }
   const fragment = document.createDocumentFragment();
   const snoozeActive = isSnoozeActive(data.snooze);
+  const locksByGroup = new Map(getActiveLocks(data).map((lock) => [lock.groupId, lock]));
   for (const group of data.groups) {
-    const filters = sortFiltersTemporaryFirst(filtersByGroup.get(group.id) ?? []);
+    const filters = sortFiltersForEvaluation(filtersByGroup.get(group.id) ?? []);
     const whitelist = whitelistByGroup.get(group.id) ?? [];
-    fragment.appendChild(renderGroup(group, filters, whitelist, snoozeActive));
+    fragment.appendChild(
+      renderGroup(group, filters, whitelist, snoozeActive, locksByGroup.get(group.id))
+    );
   }
 
   groupsList.replaceChildren(fragment);
@@ -538,21 +1052,31 @@ function renderGroup(
   group: FilterGroup,
   filters: readonly Filter[],
   whitelist: readonly Whitelist[],
-  snoozeActive: boolean
+  snoozeActive: boolean,
+  lock?: ActiveLock
 ): HTMLDetailsElement {
   const isDefault = group.id === DEFAULT_GROUP_ID;
   const groupEnabled = isGroupEnabled(group);
   const scheduleSummary = formatGroupScheduleSummary(group);
   const filterSummary = pluralize(filters.length, 'filter');
   const exceptionSummary = pluralize(whitelist.length, 'exception', 'exceptions');
+  const bypassSummary = group.bypass ? formatBypassSettings(group.bypass) : null;
 
   const groupElement = cloneTemplate<HTMLDetailsElement>('options-group-template');
   groupElement.dataset['groupId'] = group.id;
   groupElement.classList.toggle('group-disabled', !groupEnabled);
 
   querySelector<HTMLElement>('[data-role="group-title"]', groupElement).textContent = group.name;
-  querySelector<HTMLElement>('[data-role="group-meta"]', groupElement).textContent =
-    `${scheduleSummary} • ${filterSummary} • ${exceptionSummary}`;
+  querySelector<HTMLElement>('[data-role="group-meta"]', groupElement).textContent = [
+    scheduleSummary,
+    ...(isAllowlistGroup(group) ? ['Allowlist'] : []),
+    ...(group.dailyBudget ? [formatDailyBudget(group.dailyBudget)] : []),
+    ...(group.challenge ? [formatContinueChallenge(group.challenge)] : []),
+    ...(bypassSummary ? [bypassSummary] : []),
+    ...(lock ? [formatActiveLock(lock)] : group.locked ? ['Locked while active'] : []),
+    filterSummary,
+    exceptionSummary,
+  ].join(' • ');
 
   const groupToggle = querySelector<HTMLLabelElement>('[data-role="group-toggle"]', groupElement);
   const groupToggleInput = querySelector<HTMLInputElement>(
@@ -585,15 +1109,28 @@ function renderGroup(
   );
 
   addFilterButton.dataset['groupId'] = group.id;
+  querySelector<HTMLButtonElement>(
+    'button[data-action="import-adblock-list"]',
+    groupElement
+  ).dataset['groupId'] = group.id;
   addWhitelistButton.dataset['groupId'] = group.id;
 
   if (filters.length === 0) {
     filterList.appendChild(createEmptyState('No filters in this group.'));
   } else {
     const filterFragment = document.createDocumentFragment();
-    for (const filter of filters) {
-      filterFragment.appendChild(renderFilterItem(filter));
-    }
+    filters.forEach((filter, index) => {
+      // Temporary filters always run first, so a filter only moves among its own kind.
+      const previous = filters[index - 1];
+      const next = filters[index + 1];
+      filterFragment.appendChild(
+        renderFilterItem(filter, {
+          canMoveUp:
+            previous !== undefined && isTemporaryFilter(previous) === isTemporaryFilter(filter),
+          canMoveDown: next !== undefined && isTemporaryFilter(next) === isTemporaryFilter(filter),
+        })
+      );
+    });
     filterList.appendChild(filterFragment);
   }
 
@@ -608,6 +1145,9 @@ function renderGroup(
   }
 
   setGroupReadonlyState(groupElement, snoozeActive || !groupEnabled);
+  if (lock) {
+    setGroupLockedState(groupElement, lock);
+  }
 
   return groupElement;
 }
@@ -633,6 +1173,25 @@ function setGroupReadonlyState(groupElement: HTMLElement, readonly: boolean): vo
     });
 }
 
+/**
+ * Show what an active commitment lock refuses and until when, and take away the controls that
+ * could only be refused: the group toggle and New Exception. Other edits may still tighten rules.
+ */
+function setGroupLockedState(groupElement: HTMLElement, lock: ActiveLock): void {
+  const notice = querySelector<HTMLElement>('[data-role="group-lock"]', groupElement);
+  const refused = LOCKED_OPERATIONS.map((operation) => LOCKED_OPERATION_LABELS[operation]);
+  notice.textContent = `${formatActiveLock(lock)}, so these are refused: ${refused.join(', ')}.`;
+  notice.hidden = false;
+
+  const lockedControls = groupElement.querySelectorAll<HTMLButtonElement | HTMLInputElement>(
+    'input[data-action="toggle-group"], button[data-action="add-whitelist"]'
+  );
+  for (const control of lockedControls) {
+    control.disabled = true;
+    control.title = formatActiveLock(lock);
+  }
+}
+
 function createEmptyState(message: string): HTMLParagraphElement {
   const element = document.createElement('p');
   element.className = 'empty-state';
@@ -650,27 +1209,35 @@ function describeSaveError(error: unknown, fallback: string): string {
 
 function getMatchModeSelectValue(selectId: string): FilterMatchMode {
   const value = getElementByIdOrNull<HTMLSelectElement>(selectId)?.value;
-  if (value === 'contains' || value === 'exact' || value === 'regex') {
-    return value;
-  }
-  return 'contains';
+  return isValidMatchMode(value) ? value : 'contains';
 }
 
-function ensureValidRegex(pattern: string, matchMode: FilterMatchMode): boolean {
-  if (matchMode !== 'regex') {
-    return true;
-  }
+function getTargetSelectValue(selectId: string): FilterTarget {
+  const value = getElementByIdOrNull<HTMLSelectElement>(selectId)?.value;
+  return isValidFilterTarget(value) ? value : 'url';
+}
+
+function getPriorityInputValue(inputId: string): number {
+  const value = Number.parseInt(getElementByIdOrNull<HTMLInputElement>(inputId)?.value ?? '', 10);
+  return Number.isFinite(value) ? value : 0;
+}
 
-  const error = getRegexValidationError(pattern);
+function ensureValidPattern(pattern: string, matchMode: FilterMatchMode): boolean {
+  const error = getPatternValidationError(pattern, matchMode);
   if (!error) {
     return true;
   }
 
-  alert(`Invalid regex pattern: ${error}`);
+  alert(matchMode === 'regex' ? `Invalid regex pattern: ${error}` : `Invalid pattern: ${error}`);
   return false;
 }
 
-function renderFilterItem(filter: Filter): HTMLElement {
+interface FilterItemMoves {
+  readonly canMoveUp: boolean;
+  readonly canMoveDown: boolean;
+}
+
+function renderFilterItem(filter: Filter, moves: FilterItemMoves): HTMLElement {
   const description = filter.description?.trim();
   const toggleLabel = description
     ? `Toggle filter ${description}`
@@ -681,6 +1248,16 @@ function renderFilterItem(filter: Filter): HTMLElement {
   const patternElement = querySelector<HTMLElement>('[data-role="filter-pattern"]', item);
   const toggleInput = querySelector<HTMLInputElement>('input[data-action="toggle-filter"]', item);
   const editButton = querySelector<HTMLButtonElement>('button[data-action="edit-filter"]', item);
+  const priorityElement = querySelector<HTMLElement>('[data-role="filter-priority"]', item);
+  const errorElement = querySelector<HTMLElement>('[data-role="filter-error"]', item);
+  const moveUpButton = querySelector<HTMLButtonElement>(
+    'button[data-action="move-filter-up"]',
+    item
+  );
+  const moveDownButton = querySelector<HTMLButtonElement>(
+    'button[data-action="move-filter-down"]',
+    item
+  );
 
   if (description) {
     titleElement.textContent = description;
@@ -688,7 +1265,26 @@ function renderFilterItem(filter: Filter): HTMLElement {
     titleElement.remove();
   }
 
+  const priority = getFilterPriority(filter);
+  const meta = [
+    ...(priority !== 0 ? [`Priority ${priority}`] : []),
+    ...(filter.maxVisitsPerDay ? [`${pluralize(filter.maxVisitsPerDay, 'visit')} a day`] : []),
+  ];
+  if (meta.length > 0) {
+    priorityElement.textContent = meta.join(' • ');
+  } else {
+    priorityElement.remove();
+  }
+
+  renderPatternError(errorElement, filter);
   patternElement.textContent = filter.pattern;
+  for (const [button, canMove] of [
+    [moveUpButton, moves.canMoveUp],
+    [moveDownButton, moves.canMoveDown],
+  ] as const) {
+    button.dataset['filterId'] = filter.id;
+    button.disabled = !canMove;
+  }
   toggleInput.checked = filter.enabled;
   toggleInput.dataset['filterId'] = filter.id;
   toggleInput.setAttribute('aria-label', toggleLabel);
@@ -711,6 +1307,7 @@ function renderWhitelistItem(entry: Whitelist): HTMLElement {
     item
   );
   const editButton = querySelector<HTMLButtonElement>('button[data-action="edit-whitelist"]', item);
+  const errorElement = querySelector<HTMLElement>('[data-role="whitelist-error"]', item);
 
   if (description) {
     titleElement.textContent = description;
@@ -718,6 +1315,7 @@ function renderWhitelistItem(entry: Whitelist): HTMLElement {
     titleElement.remove();
   }
 
+  renderPatternError(errorElement, entry);
   patternElement.textContent = entry.pattern;
   toggleInput.checked = entry.enabled;
   toggleInput.dataset['whitelistId'] = entry.id;
@@ -727,6 +1325,21 @@ function renderWhitelistItem(entry: Whitelist): HTMLElement {
   return item;
 }
 
+/**
+ * Flag a saved pattern that never matches until it is edited: one that no longer validates, such
+ * as a regex using lookaround from before the linear-time matcher, or one that needs a `#fragment`.
+ */
+function renderPatternError(errorElement: HTMLElement, entry: Filter | Whitelist): void {
+  const error =
+    getPatternValidationError(entry.pattern, entry.matchMode) ??
+    getPatternMatchWarning(entry.pattern, entry.matchMode, entry.target);
+  if (error) {
+    errorElement.textContent = `Never matches: ${error}`;
+  } else {
+    errorElement.remove();
+  }
+}
+
 function pluralize(count: number, singular: string, plural = `${singular}s`): string {
   return `${count} ${count === 1 ? singular : plural}`;
 }
@@ -746,6 +1359,12 @@ function renderSchedules(): void {
       'button[data-action="remove-schedule"]',
       item
     );
+    const recurrenceSelect = querySelector<HTMLSelectElement>(
+      'select[data-action="update-schedule-recurrence"]',
+      item
+    );
+    const validFromInput = querySelector<HTMLInputElement>('input[data-field="validFrom"]', item);
+    const validUntilInput = querySelector<HTMLInputElement>('input[data-field="validUntil"]', item);
 
     for (const [dayIndex, day] of DAY_NAMES.entries()) {
       const label = document.createElement('label');
@@ -773,12 +1392,79 @@ function renderSchedules(): void {
     removeButton.setAttribute('aria-label', `Delete schedule ${scheduleNumber}`);
     removeButton.title = `Delete schedule ${scheduleNumber}`;
 
+    const recurrence = getScheduleRecurrence(schedule);
+    if (![...recurrenceSelect.options].some((option) => option.value === recurrence)) {
+      // Imported schedules may use rules the select does not offer; keep them selectable.
+      const option = document.createElement('option');
+      option.value = recurrence;
+      option.textContent =
+        recurrence === 'custom' ? 'Custom repeat' : `Every ${schedule.weekInterval ?? 1} weeks`;
+      recurrenceSelect.appendChild(option);
+    }
+    recurrenceSelect.value = recurrence;
+    recurrenceSelect.dataset['scheduleIndex'] = String(index);
+    recurrenceSelect.setAttribute('aria-label', `Repeat schedule ${scheduleNumber}`);
+
+    validFromInput.value = schedule.validFrom ?? '';
+    validFromInput.dataset['scheduleIndex'] = String(index);
+    validFromInput.setAttribute('aria-label', `First day of schedule ${scheduleNumber}`);
+
+    validUntilInput.value = schedule.validUntil ?? '';
+    validUntilInput.min = schedule.validFrom ?? '';
+    validUntilInput.dataset['scheduleIndex'] = String(index);
+    validUntilInput.setAttribute('aria-label', `Last day of schedule ${scheduleNumber}`);
+
     fragment.appendChild(item);
   }
 
   schedulesList.replaceChildren(fragment);
 }
 
+/**
+ * The recurrence select value for a schedule: `weekly`, `interval-N`, `month-N`, or `custom` for
+ * combinations the select cannot express.
+ */
+function getScheduleRecurrence(schedule: MutableTimeSchedule): string {
+  const interval = schedule.weekInterval ?? 1;
+  if (schedule.weeksOfMonth === undefined) {
+    return interval > 1 ? `interval-${interval}` : 'weekly';
+  }
+  return schedule.weeksOfMonth.length === 1 && interval === 1
+    ? `month-${schedule.weeksOfMonth[0] ?? 1}`
+    : 'custom';
+}
+
+function renderExcludedDates(): void {
+  const excludedDatesList = getElementByIdOrNull('excluded-dates-list');
+  if (!excludedDatesList) return;
+
+  const fragment = document.createDocumentFragment();
+  for (const [index, range] of temporaryExcludedDates.entries()) {
+    const rangeNumber = index + 1;
+    const item = cloneTemplate<HTMLDivElement>('options-excluded-date-item-template');
+    const startInput = querySelector<HTMLInputElement>('input[data-field="start"]', item);
+    const endInput = querySelector<HTMLInputElement>('input[data-field="end"]', item);
+    const removeButton = querySelector<HTMLButtonElement>(
+      'button[data-action="remove-excluded-date"]',
+      item
+    );
+
+    startInput.value = range.start;
+    startInput.dataset['rangeIndex'] = String(index);
+    endInput.value = range.end;
+    endInput.min = range.start;
+    endInput.dataset['rangeIndex'] = String(index);
+
+    removeButton.dataset['rangeIndex'] = String(index);
+    removeButton.setAttribute('aria-label', `Delete days off ${rangeNumber}`);
+    removeButton.title = `Delete days off ${rangeNumber}`;
+
+    fragment.appendChild(item);
+  }
+
+  excludedDatesList.replaceChildren(fragment);
+}
+
 // ============================================================================
 // Filter Modal
 // ============================================================================
@@ -811,11 +1497,17 @@ function openFilterModal(filterId?: string, groupId?: string): void {
         const descInput = getElementByIdOrNull<HTMLInputElement>('filter-description');
         const enabledInput = getElementByIdOrNull<HTMLInputElement>('filter-enabled');
         const matchModeSelect = getElementByIdOrNull<HTMLSelectElement>('filter-match-mode');
+        const targetSelect = getElementByIdOrNull<HTMLSelectElement>('filter-target');
+        const priorityInput = getElementByIdOrNull<HTMLInputElement>('filter-priority');
+        const maxVisitsInput = getElementByIdOrNull<HTMLInputElement>('filter-max-visits');
 
         if (patternInput) patternInput.value = filter.pattern;
         if (descInput) descInput.value = filter.description ?? '';
         if (enabledInput) enabledInput.checked = filter.enabled;
         if (matchModeSelect) matchModeSelect.value = filter.matchMode ?? 'contains';
+        if (targetSelect) targetSelect.value = filter.target ?? 'url';
+        if (priorityInput) priorityInput.value = String(getFilterPriority(filter));
+        if (maxVisitsInput) maxVisitsInput.value = String(filter.maxVisitsPerDay ?? '');
       }
     })
     .catch((error: unknown) => {
@@ -844,8 +1536,18 @@ async function handleFilterSubmit(e: Event): Promise<void> {
   const groupId = currentFilterGroupId ?? DEFAULT_GROUP_ID;
   const enabled = getElementByIdOrNull<HTMLInputElement>('filter-enabled')?.checked ?? true;
   const matchMode = getMatchModeSelectValue('filter-match-mode');
+  const target = getTargetSelectValue('filter-target');
+  const priority = getPriorityInputValue('filter-priority');
+  const maxVisitsValue =
+    getElementByIdOrNull<HTMLInputElement>('filter-max-visits')?.value.trim() ?? '';
+  const maxVisitsPerDay = maxVisitsValue ? Number(maxVisitsValue) : undefined;
 
-  if (!ensureValidRegex(pattern, matchMode)) {
+  if (!ensureValidPattern(pattern, matchMode)) {
+    return;
+  }
+
+  if (maxVisitsPerDay !== undefined && !isValidMaxVisitsPerDay(maxVisitsPerDay)) {
+    alert('Visits per day needs a whole number between 1 and 1000.');
     return;
   }
 
@@ -862,6 +1564,9 @@ async function handleFilterSubmit(e: Event): Promise<void> {
     groupId,
     enabled,
     matchMode,
+    ...(target !== 'url' ? { target } : {}),
+    ...(priority !== 0 ? { priority } : {}),
+    ...(maxVisitsPerDay !== undefined ? { maxVisitsPerDay } : {}),
   };
   const filter: Filter = typeof expiresAt === 'number' ? { ...baseFilter, expiresAt } : baseFilter;
 
@@ -899,15 +1604,27 @@ async function handleFilterDelete(): Promise<void> {
 function openGroupModal(groupId?: string): void {
   currentEditingGroupId = groupId ?? null;
   temporarySchedules = [];
+  temporaryExcludedDates = [];
 
   const modal = getElementByIdOrNull('group-modal');
   const title = getElementByIdOrNull('group-modal-title');
   const form = getElementByIdOrNull<HTMLFormElement>('group-form');
   const schedulesContainer = getElementByIdOrNull('schedules-container');
   const is24x7Checkbox = getElementByIdOrNull<HTMLInputElement>('group-24x7');
+  const modeSelect = getElementByIdOrNull<HTMLSelectElement>('group-mode');
+  const timeZoneInput = getElementByIdOrNull<HTMLInputElement>('group-time-zone');
+  const budgetMinutesInput = getElementByIdOrNull<HTMLInputElement>('group-budget-minutes');
+  const budgetResetInput = getElementByIdOrNull<HTMLInputElement>('group-budget-reset');
+  const bypassScopeSelect = getElementByIdOrNull<HTMLSelectElement>('group-bypass-scope');
+  const bypassMinutesInput = getElementByIdOrNull<HTMLInputElement>('group-bypass-minutes');
+  const bypassMaxPerDayInput = getElementByIdOrNull<HTMLInputElement>('group-bypass-max-per-day');
+  const bypassReasonCheckbox = getElementByIdOrNull<HTMLInputElement>(
+    'group-bypass-require-reason'
+  );
+  const lockedCheckbox = getElementByIdOrNull<HTMLInputElement>('group-locked');
   const deleteButton = getElementByIdOrNull<HTMLButtonElement>('delete-group');
 
-  if (!modal || !title || !form || !schedulesContainer || !is24x7Checkbox) return;
+  if (!modal || !title || !form || !schedulesContainer || !is24x7Checkbox || !modeSelect) return;
 
   form.reset();
   title.textContent = groupId ? 'Edit Group' : 'Add Group';
@@ -925,13 +1642,33 @@ function openGroupModal(groupId?: string): void {
           const nameInput = getElementByIdOrNull<HTMLInputElement>('group-name');
           if (nameInput) nameInput.value = group.name;
           is24x7Checkbox.checked = group.is24x7;
-          temporarySchedules = group.schedules.map((s) => ({
-            daysOfWeek: [...s.daysOfWeek],
-            startTime: s.startTime,
-            endTime: s.endTime,
+          modeSelect.value = group.mode ?? 'blocklist';
+          if (timeZoneInput) timeZoneInput.value = group.timeZone ?? '';
+          if (budgetMinutesInput) {
+            budgetMinutesInput.value = group.dailyBudget ? String(group.dailyBudget.minutes) : '';
+          }
+          if (budgetResetInput) budgetResetInput.value = group.dailyBudget?.resetTime ?? '00:00';
+          fillChallengeFields(group.challenge);
+          if (bypassScopeSelect) bypassScopeSelect.value = group.bypass?.scope ?? 'page';
+          if (bypassMinutesInput) {
+            bypassMinutesInput.value = group.bypass?.minutes ? String(group.bypass.minutes) : '';
+          }
+          if (bypassMaxPerDayInput) {
+            bypassMaxPerDayInput.value = String(group.bypass?.maxPerDay ?? '');
+          }
+          if (bypassReasonCheckbox) {
+            bypassReasonCheckbox.checked = group.bypass?.requireReason === true;
+          }
+          if (lockedCheckbox) lockedCheckbox.checked = group.locked === true;
+          temporarySchedules = group.schedules.map(({ daysOfWeek, weeksOfMonth, ...s }) => ({
+            ...s,
+            daysOfWeek: [...daysOfWeek],
+            ...(weeksOfMonth ? { weeksOfMonth: [...weeksOfMonth] } : {}),
           }));
+          temporaryExcludedDates = (group.excludedDates ?? []).map((range) => ({ ...range }));
           schedulesContainer.style.display = group.is24x7 ? 'none' : 'block';
           renderSchedules();
+          renderExcludedDates();
         }
       })
       .catch((error: unknown) => {
@@ -940,12 +1677,51 @@ function openGroupModal(groupId?: string): void {
   } else {
     schedulesContainer.style.display = 'block';
     renderSchedules();
+    renderExcludedDates();
   }
+  fillChallengeFields(undefined);
 
   modal.classList.add('active');
   activateModal(modal, '#group-name');
 }
 
+function fillChallengeFields(challenge: ContinueChallenge | undefined): void {
+  const typeSelect = getElementByIdOrNull<HTMLSelectElement>('group-challenge');
+  const secondsInput = getElementByIdOrNull<HTMLInputElement>('group-challenge-seconds');
+  const phraseInput = getElementByIdOrNull<HTMLInputElement>('group-challenge-phrase');
+  if (!typeSelect || !secondsInput || !phraseInput) return;
+
+  typeSelect.value = challenge?.type ?? '';
+  secondsInput.value = String(challenge?.type === 'countdown' ? challenge.seconds : 30);
+  phraseInput.value = challenge?.type === 'phrase' ? (challenge.phrase ?? '') : '';
+  phraseInput.placeholder = DEFAULT_CHALLENGE_PHRASE;
+  renderChallengeFields();
+}
+
+function renderChallengeFields(): void {
+  const type = getElementByIdOrNull<HTMLSelectElement>('group-challenge')?.value;
+  const countdownRow = getElementByIdOrNull('group-challenge-countdown');
+  const phraseRow = getElementByIdOrNull('group-challenge-phrase-row');
+  if (countdownRow) countdownRow.style.display = type === 'countdown' ? 'flex' : 'none';
+  if (phraseRow) phraseRow.style.display = type === 'phrase' ? 'block' : 'none';
+}
+
+function readChallengeFields(): ContinueChallenge | undefined {
+  const type = getElementByIdOrNull<HTMLSelectElement>('group-challenge')?.value;
+  const seconds = getElementByIdOrNull<HTMLInputElement>('group-challenge-seconds')?.value ?? '';
+  const phrase = getElementByIdOrNull<HTMLInputElement>('group-challenge-phrase')?.value.trim();
+  switch (type) {
+    case 'countdown':
+      return { type, seconds: Number(seconds) };
+    case 'phrase':
+      return phrase ? { type, phrase } : { type };
+    case 'arithmetic':
+      return { type };
+    default:
+      return undefined;
+  }
+}
+
 function closeGroupModal(): void {
   const modal = getElementByIdOrNull('group-modal');
   if (modal?.classList.contains('active')) {
@@ -954,6 +1730,23 @@ function closeGroupModal(): void {
   }
   currentEditingGroupId = null;
   temporarySchedules = [];
+  temporaryExcludedDates = [];
+}
+
+/**
+ * Offer the browser's known time zones as suggestions for the group time zone field.
+ */
+function renderTimeZoneOptions(): void {
+  const datalist = getElementByIdOrNull('group-time-zone-options');
+  if (!datalist) return;
+
+  const fragment = document.createDocumentFragment();
+  for (const timeZone of Intl.supportedValuesOf('timeZone')) {
+    const option = document.createElement('option');
+    option.value = timeZone;
+    fragment.appendChild(option);
+  }
+  datalist.replaceChildren(fragment);
 }
 
 function addScheduleToModal(): void {
@@ -965,11 +1758,70 @@ function addScheduleToModal(): void {
   renderSchedules();
 }
 
+function addExcludedDateToModal(): void {
+  const today = formatDateString(new Date());
+  temporaryExcludedDates.push({ start: today, end: today });
+  renderExcludedDates();
+}
+
 async function handleGroupSubmit(e: Event): Promise<void> {
   e.preventDefault();
 
   const name = getElementByIdOrNull<HTMLInputElement>('group-name')?.value ?? '';
   const is24x7 = getElementByIdOrNull<HTMLInputElement>('group-24x7')?.checked ?? false;
+  const mode = getElementByIdOrNull<HTMLSelectElement>('group-mode')?.value;
+  const timeZone = getElementByIdOrNull<HTMLInputElement>('group-time-zone')?.value.trim() ?? '';
+
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    alert(`Unknown time zone "${timeZone}". Use a name such as Europe/London.`);
+    return;
+  }
+
+  const budgetMinutes =
+    getElementByIdOrNull<HTMLInputElement>('group-budget-minutes')?.value.trim() ?? '';
+  const budgetResetTime =
+    getElementByIdOrNull<HTMLInputElement>('group-budget-reset')?.value ?? '00:00';
+  const dailyBudget: DailyBudget | undefined = budgetMinutes
+    ? {
+        minutes: Number(budgetMinutes),
+        ...(budgetResetTime && budgetResetTime !== '00:00' ? { resetTime: budgetResetTime } : {}),
+      }
+    : undefined;
+  if (dailyBudget && !isValidDailyBudget(dailyBudget)) {
+    alert('The daily budget needs a whole number of minutes between 1 and 1440.');
+    return;
+  }
+
+  const challenge = readChallengeFields();
+  if (challenge && !isValidContinueChallenge(challenge)) {
+    alert('The countdown needs a whole number of seconds between 1 and 600.');
+    return;
+  }
+
+  const bypassScope = getElementByIdOrNull<HTMLSelectElement>('group-bypass-scope')?.value;
+  const scope = isValidBypassScope(bypassScope) && bypassScope !== 'page' ? bypassScope : null;
+  const bypassMinutes =
+    getElementByIdOrNull<HTMLInputElement>('group-bypass-minutes')?.value.trim() ?? '';
+  const bypassMaxPerDay =
+    getElementByIdOrNull<HTMLInputElement>('group-bypass-max-per-day')?.value.trim() ?? '';
+  const requireReason =
+    getElementByIdOrNull<HTMLInputElement>('group-bypass-require-reason')?.checked === true;
+  const locked = getElementByIdOrNull<HTMLInputElement>('group-locked')?.checked === true;
+  const bypass: BypassSettings | undefined =
+    scope || bypassMinutes || bypassMaxPerDay || requireReason
+      ? {
+          ...(scope ? { scope } : {}),
+          ...(bypassMinutes ? { minutes: Number(bypassMinutes) } : {}),
+          ...(bypassMaxPerDay ? { maxPerDay: Number(bypassMaxPerDay) } : {}),
+          ...(requireReason ? { requireReason } : {}),
+        }
+      : undefined;
+  if (bypass && !isValidBypassSettings(bypass)) {
+    alert(
+      'Continue needs a whole number of minutes between 1 and 1440, and of times a day between 0 and 100.'
+    );
+    return;
+  }
 
   // A schedule with no days can never activate, so the group would silently block nothing.
   if (!is24x7 && temporarySchedules.some((schedule) => schedule.daysOfWeek.length === 0)) {
@@ -977,11 +1829,38 @@ async function handleGroupSubmit(e: Event): Promise<void> {
     return;
   }
 
+  if (
+    !is24x7 &&
+    temporarySchedules.some(
+      (schedule) =>
+        schedule.validFrom !== undefined &&
+        schedule.validUntil !== undefined &&
+        schedule.validFrom > schedule.validUntil
+    )
+  ) {
+    alert('Each schedule needs its first day on or before its last day.');
+    return;
+  }
+
+  if (
+    temporaryExcludedDates.some((range) => !range.start || !range.end || range.start > range.end)
+  ) {
+    alert('Each days off entry needs a first day on or before its last day.');
+    return;
+  }
+
   const group: FilterGroup = {
     id: currentEditingGroupId ?? generateId(),
     name,
     is24x7,
     schedules: is24x7 ? [] : temporarySchedules,
+    ...(mode === 'allowlist' ? { mode } : {}),
+    ...(timeZone ? { timeZone } : {}),
+    ...(dailyBudget ? { dailyBudget } : {}),
+    ...(challenge ? { challenge } : {}),
+    ...(bypass ? { bypass } : {}),
+    ...(temporaryExcludedDates.length > 0 ? { excludedDates: temporaryExcludedDates } : {}),
+    ...(locked ? { locked } : {}),
   };
 
   try {
@@ -1043,11 +1922,13 @@ function openWhitelistModal(whitelistId?: string, groupId?: string): void {
         const descInput = getElementByIdOrNull<HTMLInputElement>('whitelist-description');
         const enabledInput = getElementByIdOrNull<HTMLInputElement>('whitelist-enabled');
         const matchModeSelect = getElementByIdOrNull<HTMLSelectElement>('whitelist-match-mode');
+        const targetSelect = getElementByIdOrNull<HTMLSelectElement>('whitelist-target');
 
         if (patternInput) patternInput.value = entry.pattern;
         if (descInput) descInput.value = entry.description ?? '';
         if (enabledInput) enabledInput.checked = entry.enabled;
         if (matchModeSelect) matchModeSelect.value = entry.matchMode ?? 'contains';
+        if (targetSelect) targetSelect.value = entry.target ?? 'url';
       }
     })
     .catch((error: unknown) => {
@@ -1076,8 +1957,9 @@ async function handleWhitelistSubmit(e: Event): Promise<void> {
   const groupId = currentWhitelistGroupId ?? DEFAULT_GROUP_ID;
   const enabled = getElementByIdOrNull<HTMLInputElement>('whitelist-enabled')?.checked ?? true;
   const matchMode = getMatchModeSelectValue('whitelist-match-mode');
+  const target = getTargetSelectValue('whitelist-target');
 
-  if (!ensureValidRegex(pattern, matchMode)) {
+  if (!ensureValidPattern(pattern, matchMode)) {
     return;
   }
 
@@ -1088,6 +1970,7 @@ async function handleWhitelistSubmit(e: Event): Promise<void> {
     groupId,
     enabled,
     matchMode,
+    ...(target !== 'url' ? { target } : {}),
   };
 
   try {
@@ -1141,12 +2024,18 @@ function handleGroupsListClick(e: Event): void {
     void deleteGroupConfirm(groupId);
   } else if (action === 'add-filter' && groupId) {
     openFilterModal(undefined, groupId);
+  } else if (action === 'import-adblock-list' && groupId) {
+    openAdblockListPicker(groupId);
   } else if (action === 'add-whitelist' && groupId) {
     openWhitelistModal(undefined, groupId);
   } else if (action === 'edit-filter' && filterId) {
     openFilterModal(filterId);
   } else if (action === 'delete-filter' && filterId) {
     void deleteFilterConfirm(filterId);
+  } else if (action === 'move-filter-up' && filterId) {
+    void moveFilterInList(filterId, 'up');
+  } else if (action === 'move-filter-down' && filterId) {
+    void moveFilterInList(filterId, 'down');
   } else if (action === 'edit-whitelist' && whitelistId) {
     openWhitelistModal(whitelistId);
   } else if (action === 'delete-whitelist' && whitelistId) {
@@ -1182,12 +2071,18 @@ function handleSchedulesListClick(e: Event): void {
   const target = e.target as HTMLElement;
   const button = target.closest('button[data-action]') as HTMLButtonElement | null;
   const input = target.closest('input[data-action]') as HTMLInputElement | null;
+  const select = target.closest('select[data-action]') as HTMLSelectElement | null;
 
   if (button?.dataset['action'] === 'remove-schedule') {
     const scheduleIndex = parseInt(button.dataset['scheduleIndex'] ?? '', 10);
     if (!isNaN(scheduleIndex)) {
       removeSchedule(scheduleIndex);
     }
+  } else if (select?.dataset['action'] === 'update-schedule-recurrence' && e.type === 'change') {
+    const scheduleIndex = parseInt(select.dataset['scheduleIndex'] ?? '', 10);
+    if (!isNaN(scheduleIndex)) {
+      updateScheduleRecurrence(scheduleIndex, select.value);
+    }
   } else if (input) {
     const action = input.dataset['action'];
     const scheduleIndex = parseInt(input.dataset['scheduleIndex'] ?? '', 10);
@@ -1204,6 +2099,30 @@ function handleSchedulesListClick(e: Event): void {
       if (field === 'startTime' || field === 'endTime') {
         updateScheduleTime(scheduleIndex, field, input.value);
       }
+    } else if (action === 'update-schedule-validity' && e.type === 'change') {
+      const field = input.dataset['field'];
+      if (field === 'validFrom' || field === 'validUntil') {
+        updateScheduleValidity(scheduleIndex, field, input.value);
+      }
+    }
+  }
+}
+
+function handleExcludedDatesListClick(e: Event): void {
+  const target = e.target as HTMLElement;
+  const button = target.closest('button[data-action]') as HTMLButtonElement | null;
+  const input = target.closest('input[data-action]') as HTMLInputElement | null;
+
+  if (button?.dataset['action'] === 'remove-excluded-date') {
+    const rangeIndex = parseInt(button.dataset['rangeIndex'] ?? '', 10);
+    if (!isNaN(rangeIndex)) {
+      removeExcludedDate(rangeIndex);
+    }
+  } else if (input?.dataset['action'] === 'update-excluded-date' && e.type === 'change') {
+    const rangeIndex = parseInt(input.dataset['rangeIndex'] ?? '', 10);
+    const field = input.dataset['field'];
+    if (!isNaN(rangeIndex) && (field === 'start' || field === 'end')) {
+      updateExcludedDate(rangeIndex, field, input.value);
     }
   }
 }
@@ -1219,6 +2138,7 @@ function handleGlobalKeydown(e: KeyboardEvent): void {
   const filterModal = getElementByIdOrNull('filter-modal');
   const groupModal = getElementByIdOrNull('group-modal');
   const whitelistModal = getElementByIdOrNull('whitelist-modal');
+  const calendarImportModal = getElementByIdOrNull('calendar-import-modal');
 
   if (filterModal?.classList.contains('active')) {
     closeFilterModal();
@@ -1226,6 +2146,8 @@ function handleGlobalKeydown(e: KeyboardEvent): void {
     closeGroupModal();
   } else if (whitelistModal?.classList.contains('active')) {
     closeWhitelistModal();
+  } else if (calendarImportModal?.classList.contains('active')) {
+    closeCalendarImportModal();
   }
 }
 
@@ -1237,24 +2159,48 @@ async function toggleFilter(filterId: string, enabled: boolean): Promise<void> {
   const data = await loadData();
   const filter = data.filters.find((f) => f.id === filterId);
   if (filter) {
-    await updateFilter({ ...filter, enabled });
+    await saveListChange(() => updateFilter({ ...filter, enabled }), 'Failed to update filter.');
+  }
+}
+
+/**
+ * Save a change made straight from the groups list. When it is refused, say why and re-render so
+ * the list shows what is stored rather than the refused change.
+ */
+async function saveListChange(save: () => Promise<void>, fallback: string): Promise<void> {
+  try {
+    await save();
+  } catch (error) {
+    console.error(fallback, error);
+    alert(describeSaveError(error, fallback));
+    await renderGroups();
   }
 }
 
 /**
  * Persist a group's enabled state through the normal storage save path so all views refresh.
  */
+async function moveFilterInList(filterId: string, direction: 'up' | 'down'): Promise<void> {
+  try {
+    await moveFilter(filterId, direction);
+    await renderGroups();
+  } catch (error) {
+    console.error('Failed to move filter:', error);
+    alert(describeSaveError(error, 'Failed to move filter. Please try again.'));
+  }
+}
+
 async function toggleGroupEnabled(groupId: string, enabled: boolean): Promise<void> {
   const data = await loadData();
   const group = data.groups.find((entry) => entry.id === groupId);
   if (group) {
-    await updateGroup({ ...group, enabled });
+    await saveListChange(() => updateGroup({ ...group, enabled }), 'Failed to update group.');
   }
 }
 
 async function deleteFilterConfirm(filterId: string): Promise<void> {
   if (confirm('Are you sure you want to delete this filter?')) {
-    await deleteFilter(filterId);
+    await saveListChange(() => deleteFilter(filterId), 'Failed to delete filter.');
     await renderGroups();
   }
 }
@@ -1265,7 +2211,7 @@ async function deleteGroupConfirm(groupId: string): Promise<void> {
       'Are you sure you want to delete this group? Filters and exceptions in this group will be moved to the default 24/7 group.'
     )
   ) {
-    await deleteGroup(groupId);
+    await saveListChange(() => deleteGroup(groupId), 'Failed to delete group.');
     await renderGroups();
   }
 }
@@ -1274,7 +2220,10 @@ async function toggleWhitelistEntry(whitelistId: string, enabled: boolean): Prom
   const data = await loadData();
   const entry = data.whitelist.find((w) => w.id === whitelistId);
   if (entry) {
-    await updateWhitelist({ ...entry, enabled });
+    await saveListChange(
+      () => updateWhitelist({ ...entry, enabled }),
+      'Failed to update exception.'
+    );
   }
 }
 
@@ -1309,11 +2258,61 @@ function updateScheduleTime(
   schedule[field] = value;
 }
 
+function updateScheduleRecurrence(scheduleIndex: number, recurrence: string): void {
+  const schedule = temporarySchedules[scheduleIndex];
+  if (!schedule || recurrence === 'custom') return;
+
+  delete schedule.weekInterval;
+  delete schedule.anchorDate;
+  delete schedule.weeksOfMonth;
+  const match = /^(interval|month)-(-?\d+)$/.exec(recurrence);
+  if (match?.[1] === 'interval') {
+    schedule.weekInterval = Number(match[2]);
+    schedule.anchorDate = formatDateString(new Date());
+  } else if (match?.[1] === 'month') {
+    schedule.weeksOfMonth = [Number(match[2])];
+  }
+}
+
+function updateScheduleValidity(
+  scheduleIndex: number,
+  field: 'validFrom' | 'validUntil',
+  value: string
+): void {
+  const schedule = temporarySchedules[scheduleIndex];
+  if (!schedule) return;
+
+  if (value) {
+    schedule[field] = value;
+  } else if (field === 'validFrom') {
+    delete schedule.validFrom;
+  } else {
+    delete schedule.validUntil;
+  }
+  renderSchedules();
+}
+
 function removeSchedule(scheduleIndex: number): void {
   temporarySchedules.splice(scheduleIndex, 1);
   renderSchedules();
 }
 
+function updateExcludedDate(rangeIndex: number, field: 'start' | 'end', value: string): void {
+  const range = temporaryExcludedDates[rangeIndex];
+  if (!range) return;
+  range[field] = value;
+  // Moving the first day past the last one turns the entry into a single day.
+  if (field === 'start' && range.end < value) {
+    range.end = value;
+  }
+  renderExcludedDates();
+}
+
+function removeExcludedDate(rangeIndex: number): void {
+  temporaryExcludedDates.splice(rangeIndex, 1);
+  renderExcludedDates();
+}
+
 // Initialize on load
 init().catch((error: unknown) => {
   console.error('Failed to initialize options page:', error);
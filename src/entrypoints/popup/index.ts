@@ -9,31 +9,57 @@ import {
   loadData,
   purgeExpiredTemporaryFilters,
   setSnooze,
+  startFocusSession,
   updateFilter,
   SettingsSaveError,
 } from '../../shared/api/storage';
+import { getBudgetUsage } from '../../shared/api/budgets';
+import { clearPomodoro, getPomodoro, startPomodoro, stopPomodoro } from '../../shared/api/pomodoro';
 import { sendExtensionMessage } from '../../shared/api/messaging';
 import { openOptionsPage, openOptionsPageWithParams } from '../../shared/api/runtime';
 import { getActiveTab } from '../../shared/api/tabs';
+import { getVisitCounts } from '../../shared/api/visits';
+import { getActiveLocks } from '../../shared/filtering/locks';
 import { matchesPattern } from '../../shared/filtering/patterns';
 import {
   buildGroupById,
+  getBudgetRemainingMs,
   getFilterEffectiveState,
-  getScheduleContext,
+  getFocusSessionRemainingMs,
+  getGroupTransitions,
+  getScheduleClock,
   getSnoozeRemainingMs,
   getTemporaryFilterRemainingMs,
+  getVisitsUsed,
+  isAllowlistGroup,
+  isFocusSessionActive,
+  isGroupInFocusSession,
   isSnoozeActive,
   isTemporaryFilter,
-  sortFiltersTemporaryFirst,
+  sortFiltersForEvaluation,
+  type GroupTransitions,
 } from '../../shared/filtering/schedules';
-import { DEFAULT_GROUP_ID, MessageType, STORAGE_KEY } from '../../shared/types';
+import { DEFAULT_POMODORO } from '../../shared/constants';
+import { DEFAULT_GROUP_ID, MessageType, POMODORO_KEY, STORAGE_KEY } from '../../shared/types';
 import { cloneTemplate, getElementByIdOrNull, querySelector } from '../../shared/utils/dom';
 import { formatDuration, generateId, isInternalUrl } from '../../shared/utils/helpers';
-import type { SnoozeState, StorageData } from '../../shared/types';
+import {
+  formatLockViolation,
+  formatUpcomingInstant,
+  formatVisitsUsed,
+} from '../../shared/utils/schedules';
+import type {
+  FocusSessionState,
+  PomodoroState,
+  SnoozeState,
+  StorageData,
+} from '../../shared/types';
 
 let cachedData: StorageData | null = null;
+let cachedPomodoro: PomodoroState | undefined;
 let snoozeTickerId: number | null = null;
 let lastSnoozeActive = false;
+let lastFocusSessionActive = false;
 
 function updateSnoozeCountdownTick(): void {
   const snooze = cachedData?.snooze;
@@ -53,6 +79,23 @@ function updateSnoozeCountdownTick(): void {
   }
 }
 
+function updateFocusSessionCountdownTick(): void {
+  if (!cachedData) {
+    return;
+  }
+
+  const wasActive = lastFocusSessionActive;
+  const isActive = isFocusSessionActive(cachedData.focusSession);
+  applyFocusSessionVisualState(cachedData);
+  lastFocusSessionActive = isActive;
+
+  if (wasActive && !isActive) {
+    void renderFilters().catch((error: unknown) => {
+      console.error('Failed to refresh filters after focus session ended:', error);
+    });
+  }
+}
+
 function ensureSnoozeCountdownTicker(): void {
   if (snoozeTickerId !== null) {
     return;
@@ -60,6 +103,7 @@ function ensureSnoozeCountdownTicker(): void {
 
   snoozeTickerId = window.setInterval(() => {
     updateSnoozeCountdownTick();
+    updateFocusSessionCountdownTick();
   }, 1000);
 
   window.addEventListener('unload', () => {
@@ -98,14 +142,17 @@ function setupEventListeners(): void {
       });
   });
   setupSnoozePopover();
+  setupFocusSessionDialog();
   setupQuickAdd();
   setupFilterListEvents();
 }
 
 function setupStorageSync(): void {
   chrome.storage.onChanged.addListener((changes, areaName) => {
-    if (areaName !== 'sync') return;
-    if (!changes[STORAGE_KEY]) return;
+    const changed =
+      (areaName === 'sync' && changes[STORAGE_KEY]) ||
+      (areaName === 'local' && changes[POMODORO_KEY]);
+    if (!changed) return;
     void renderFilters().catch((error: unknown) => {
       console.error('Failed to refresh filters:', error);
     });
@@ -349,7 +396,300 @@ async function applySnoozeSelection(value: number | 'off', onComplete: () => voi
     onComplete();
   } catch (error) {
     console.error('Failed to update snooze state:', error);
-    announceStatus('Failed to update snooze setting.');
+    announceStatus(
+      error instanceof SettingsSaveError ? error.message : 'Failed to update snooze setting.'
+    );
+  }
+}
+
+function describeFocusSessionStatus(session: FocusSessionState | undefined): string {
+  const remainingMs = getFocusSessionRemainingMs(session);
+  if (remainingMs === null || remainingMs <= 0) {
+    return 'No focus session running.';
+  }
+
+  const count = session?.groupIds?.length ?? 0;
+  return `Focusing on ${count} ${count === 1 ? 'group' : 'groups'} for ${formatDuration(remainingMs)} more.`;
+}
+
+function describePomodoroStatus(pomodoro: PomodoroState): string {
+  const remaining = formatDuration(Math.max(0, pomodoro.phaseEndsAt - Date.now()));
+  if (pomodoro.phase === 'focus') {
+    return `Pomodoro focus interval ${pomodoro.cycle} of ${pomodoro.cycles}, ${remaining} left.`;
+  }
+
+  const label = pomodoro.phase === 'long-break' ? 'long break' : 'short break';
+  return `Pomodoro ${label} after interval ${pomodoro.cycle} of ${pomodoro.cycles}, ${remaining} left.`;
+}
+
+function describePomodoroButtonLabel(pomodoro: PomodoroState): string {
+  const remaining = formatDuration(Math.max(0, pomodoro.phaseEndsAt - Date.now()));
+  return pomodoro.phase === 'focus'
+    ? `Focus ${pomodoro.cycle}/${pomodoro.cycles}: ${remaining}`
+    : `Break: ${remaining}`;
+}
+
+function applyFocusSessionVisualState(data: StorageData): void {
+  const session = data.focusSession;
+  const remainingMs = getFocusSessionRemainingMs(session);
+  const isActive = remainingMs !== null && remainingMs > 0;
+  const trigger = getElementByIdOrNull<HTMLButtonElement>('open-focus-session');
+  const label = getElementByIdOrNull('focus-session-label');
+  const status = getElementByIdOrNull('focus-status');
+  const endButton = document.querySelector<HTMLButtonElement>(
+    'button[data-action="end-focus-session"]'
+  );
+  // A Pomodoro run drives the focus session, so its phase says more than the session does.
+  const statusLabel = cachedPomodoro
+    ? describePomodoroStatus(cachedPomodoro)
+    : describeFocusSessionStatus(session);
+
+  if (label) {
+    if (cachedPomodoro) {
+      label.textContent = describePomodoroButtonLabel(cachedPomodoro);
+    } else {
+      label.textContent = isActive ? `Focus: ${formatDuration(remainingMs)}` : 'Focus';
+    }
+  }
+  if (trigger) {
+    const triggerLabel = isActive || cachedPomodoro ? statusLabel : 'Start a focus session';
+    trigger.setAttribute('aria-label', triggerLabel);
+    trigger.title = triggerLabel;
+  }
+  if (status) {
+    status.hidden = !isActive && !cachedPomodoro;
+    status.textContent = statusLabel;
+  }
+  if (endButton) {
+    endButton.hidden = !isActive && !cachedPomodoro;
+    endButton.textContent = cachedPomodoro ? 'Stop Pomodoro' : 'End focus session';
+  }
+}
+
+/**
+ * Take away what an active commitment lock would refuse anyway: snoozing, and ending a focus
+ * session that holds a locked group. Each dialog says which lock and until when.
+ */
+function applyLockVisualState(data: StorageData): void {
+  const locks = getActiveLocks(data);
+  const snoozeLock = isSnoozeActive(data.snooze) ? undefined : locks[0];
+  const focusLock = locks.find((lock) => data.focusSession?.groupIds?.includes(lock.groupId));
+
+  const snoozeNotice = getElementByIdOrNull('snooze-lock-notice');
+  if (snoozeNotice) {
+    snoozeNotice.hidden = !snoozeLock;
+    snoozeNotice.textContent = snoozeLock
+      ? formatLockViolation({ ...snoozeLock, operation: 'snooze' })
+      : '';
+  }
+  document
+    .querySelectorAll<HTMLButtonElement>(
+      'button[data-snooze-minutes], button[data-action="apply-custom-snooze"]'
+    )
+    .forEach((button) => {
+      button.disabled = snoozeLock !== undefined;
+    });
+
+  const focusNotice = getElementByIdOrNull('focus-lock-notice');
+  const focusActive = isFocusSessionActive(data.focusSession);
+  if (focusNotice) {
+    focusNotice.hidden = !focusActive || !focusLock;
+    focusNotice.textContent =
+      focusActive && focusLock
+        ? formatLockViolation({ ...focusLock, operation: 'end-focus-session' })
+        : '';
+  }
+  const endButton = document.querySelector<HTMLButtonElement>(
+    'button[data-action="end-focus-session"]'
+  );
+  if (endButton) {
+    endButton.disabled = focusActive && focusLock !== undefined;
+  }
+}
+
+/**
+ * List the groups a focus session can cover, keeping the current choice, or the running session's
+ * groups when the dialog opens.
+ */
+function renderFocusSessionGroups(data: StorageData, selectedGroupIds: ReadonlySet<string>): void {
+  const container = getElementByIdOrNull('focus-groups');
+  if (!container) {
+    return;
+  }
+
+  const fragment = document.createDocumentFragment();
+  for (const group of data.groups) {
+    const option = cloneTemplate<HTMLLabelElement>('popup-focus-group-template');
+    const checkbox = querySelector<HTMLInputElement>('input[type="checkbox"]', option);
+    checkbox.value = group.id;
+    checkbox.checked = selectedGroupIds.has(group.id);
+    querySelector<HTMLElement>('.focus-group-name', option).textContent = group.name;
+    fragment.appendChild(option);
+  }
+  container.replaceChildren(fragment);
+}
+
+function setupFocusSessionDialog(): void {
+  const trigger = getElementByIdOrNull<HTMLButtonElement>('open-focus-session');
+  const dialog = getElementByIdOrNull('focus-dialog');
+  if (!trigger || !dialog) {
+    return;
+  }
+
+  const setOpen = (isOpen: boolean, returnFocus = false): void => {
+    dialog.classList.toggle('is-open', isOpen);
+    trigger.setAttribute('aria-expanded', String(isOpen));
+    dialog.setAttribute('aria-hidden', String(!isOpen));
+    if (isOpen) {
+      dialog.removeAttribute('inert');
+    } else {
+      dialog.setAttribute('inert', '');
+      if (returnFocus) {
+        trigger.focus();
+      }
+    }
+  };
+
+  const getSelectedGroupIds = (): string[] =>
+    Array.from(
+      dialog.querySelectorAll<HTMLInputElement>('input[name="focus-group"]:checked'),
+      (checkbox) => checkbox.value
+    );
+
+  const pomodoroSummary = getElementByIdOrNull('pomodoro-summary');
+  if (pomodoroSummary) {
+    pomodoroSummary.textContent = `${DEFAULT_POMODORO.focusMinutes}-minute focus intervals with ${DEFAULT_POMODORO.shortBreakMinutes}-minute breaks, and a ${DEFAULT_POMODORO.longBreakMinutes}-minute break after every ${DEFAULT_POMODORO.longBreakEvery} intervals.`;
+  }
+
+  trigger.addEventListener('click', () => {
+    if (dialog.classList.contains('is-open')) {
+      setOpen(false, true);
+      return;
+    }
+
+    void loadData()
+      .then((data) => {
+        cachedData = data;
+        const session = isFocusSessionActive(data.focusSession) ? data.focusSession : undefined;
+        renderFocusSessionGroups(
+          data,
+          new Set(cachedPomodoro?.groupIds ?? session?.groupIds ?? [])
+        );
+        applyFocusSessionVisualState(data);
+        setOpen(true);
+        dialog.querySelector<HTMLElement>('input[type="checkbox"]')?.focus();
+      })
+      .catch((error: unknown) => {
+        console.error('Failed to open focus session dialog:', error);
+      });
+  });
+
+  dialog.addEventListener('click', (event) => {
+    const target = event.target as HTMLElement;
+    const action = target.closest<HTMLElement>('[data-action]')?.dataset['action'];
+    if (action === 'close-focus-dialog') {
+      setOpen(false, true);
+      return;
+    }
+    if (action === 'end-focus-session') {
+      void applyFocusSessionSelection('off', [], () => setOpen(false, true));
+      return;
+    }
+    if (action === 'start-pomodoro') {
+      const cyclesInput = getElementByIdOrNull<HTMLInputElement>('pomodoro-cycles');
+      const cycles = cyclesInput ? Number(cyclesInput.value) : Number.NaN;
+      if (!Number.isInteger(cycles) || cycles < 1 || cycles > 12) {
+        announceStatus('Enter between 1 and 12 focus intervals.');
+        cyclesInput?.focus();
+        return;
+      }
+      const groupIds = getSelectedGroupIds();
+      if (groupIds.length === 0) {
+        announceStatus('Choose at least one group to focus on.');
+        dialog.querySelector<HTMLElement>('input[name="focus-group"]')?.focus();
+        return;
+      }
+      void applyPomodoroSelection(groupIds, cycles, () => setOpen(false, true));
+      return;
+    }
+
+    const minutesRaw = target.closest<HTMLButtonElement>('button[data-focus-minutes]')?.dataset[
+      'focusMinutes'
+    ];
+    const minutes = minutesRaw ? Number.parseInt(minutesRaw, 10) : Number.NaN;
+    if (!Number.isFinite(minutes) || minutes <= 0) {
+      return;
+    }
+
+    const groupIds = getSelectedGroupIds();
+    if (groupIds.length === 0) {
+      announceStatus('Choose at least one group to focus on.');
+      dialog.querySelector<HTMLElement>('input[name="focus-group"]')?.focus();
+      return;
+    }
+    void applyFocusSessionSelection(minutes, groupIds, () => setOpen(false, true));
+  });
+
+  document.addEventListener('keydown', (event) => {
+    if (event.key !== 'Escape' || !dialog.classList.contains('is-open')) {
+      return;
+    }
+    setOpen(false, dialog.contains(document.activeElement));
+  });
+}
+
+async function applyFocusSessionSelection(
+  value: number | 'off',
+  groupIds: readonly string[],
+  onComplete: () => void
+): Promise<void> {
+  try {
+    // A manual session replaces a running Pomodoro run instead of fighting it for the session.
+    if (value === 'off') {
+      await stopPomodoro();
+    } else {
+      await clearPomodoro();
+      await startFocusSession(groupIds, Date.now() + value * 60_000);
+    }
+
+    const latestData = await loadData();
+    cachedData = latestData;
+    cachedPomodoro = undefined;
+    announceStatus(
+      isFocusSessionActive(latestData.focusSession)
+        ? describeFocusSessionStatus(latestData.focusSession)
+        : 'Focus session ended.'
+    );
+
+    await renderFilters();
+    onComplete();
+  } catch (error) {
+    console.error('Failed to update focus session:', error);
+    announceStatus(
+      error instanceof SettingsSaveError ? error.message : 'Failed to update focus session.'
+    );
+  }
+}
+
+async function applyPomodoroSelection(
+  groupIds: readonly string[],
+  cycles: number,
+  onComplete: () => void
+): Promise<void> {
+  try {
+    await startPomodoro({ ...DEFAULT_POMODORO, groupIds, cycles });
+    cachedPomodoro = await getPomodoro();
+    if (cachedPomodoro) {
+      announceStatus(describePomodoroStatus(cachedPomodoro));
+    }
+
+    await renderFilters();
+    onComplete();
+  } catch (error) {
+    console.error('Failed to start Pomodoro run:', error);
+    announceStatus(
+      error instanceof SettingsSaveError ? error.message : 'Failed to start Pomodoro run.'
+    );
   }
 }
 
@@ -629,14 +969,20 @@ async function handleDeleteFilter(filterId: string): Promise<void> {
   }
 }
 
-function createInactiveSummary(inactiveCount: number): HTMLElement | null {
+function createInactiveSummary(
+  inactiveCount: number,
+  nextActivation: number | null
+): HTMLElement | null {
   if (inactiveCount <= 0) {
     return null;
   }
 
   const summary = cloneTemplate<HTMLDivElement>('popup-inactive-summary-template');
   const label = inactiveCount === 1 ? 'filter' : 'filters';
-  summary.textContent = `${inactiveCount} more inactive ${label}`;
+  summary.textContent =
+    nextActivation === null
+      ? `${inactiveCount} more inactive ${label}`
+      : `${inactiveCount} more inactive ${label} - next starts ${formatUpcomingInstant(nextActivation)}`;
   return summary;
 }
 
@@ -647,8 +993,12 @@ async function renderFilters(): Promise<void> {
   let data = await loadData();
   data = await purgeExpiredTemporaryFilters(data);
   cachedData = data;
+  cachedPomodoro = await getPomodoro();
   lastSnoozeActive = isSnoozeActive(data.snooze);
   applySnoozeVisualState(data.snooze);
+  lastFocusSessionActive = isFocusSessionActive(data.focusSession);
+  applyFocusSessionVisualState(data);
+  applyLockVisualState(data);
   const filterList = getElementByIdOrNull('filter-list');
 
   if (!filterList) {
@@ -667,20 +1017,43 @@ async function renderFilters(): Promise<void> {
   const isUrlEligible = Boolean(activeUrl) && activeUrl ? !isInternalUrl(activeUrl) : false;
 
   const groupsById = buildGroupById(data.groups);
-  const scheduleContext = getScheduleContext();
+  const now = Date.now();
+  const scheduleClock = getScheduleClock(now);
+  const [budgetUsage, visitCounts] = await Promise.all([getBudgetUsage(), getVisitCounts()]);
   const whitelistedGroups = new Set<string>();
   if (isUrlEligible && activeUrl) {
     const activeUrlLower = activeUrl.toLowerCase();
     for (const entry of data.whitelist) {
       if (!entry.enabled) continue;
-      if (matchesPattern(activeUrl, entry.pattern, entry.matchMode, activeUrlLower)) {
+      if (matchesPattern(activeUrl, entry, undefined, activeUrlLower)) {
         whitelistedGroups.add(entry.groupId);
       }
     }
   }
 
+  const transitionsByGroup = new Map<string, GroupTransitions | null>();
+  const getTransitions = (groupId: string): GroupTransitions | null => {
+    let transitions = transitionsByGroup.get(groupId);
+    if (transitions === undefined) {
+      const group = groupsById.get(groupId);
+      transitions = group ? getGroupTransitions(group) : null;
+      transitionsByGroup.set(groupId, transitions);
+    }
+    return transitions;
+  };
+
+  let nextActivation: number | null = null;
   const visibleFilters = data.filters.filter((filter) => {
-    if (!getFilterEffectiveState(filter, groupsById, scheduleContext).groupActive) {
+    if (
+      !getFilterEffectiveState(filter, groupsById, scheduleClock, now, data.focusSession)
+        .groupActive
+    ) {
+      const activatesAt = isTemporaryFilter(filter)
+        ? null
+        : (getTransitions(filter.groupId)?.activatesAt ?? null);
+      if (activatesAt !== null && (nextActivation === null || activatesAt < nextActivation)) {
+        nextActivation = activatesAt;
+      }
       return false;
     }
     if (!isTemporaryFilter(filter) && isUrlEligible && whitelistedGroups.has(filter.groupId)) {
@@ -690,7 +1063,7 @@ async function renderFilters(): Promise<void> {
   });
   const inactiveCount = data.filters.length - visibleFilters.length;
 
-  const orderedFilters = sortFiltersTemporaryFirst(visibleFilters);
+  const orderedFilters = sortFiltersForEvaluation(visibleFilters);
 
   const fragment = document.createDocumentFragment();
   for (const filter of orderedFilters) {
@@ -726,7 +1099,28 @@ async function renderFilters(): Promise<void> {
     if (metaElement) {
       metaElement.remove();
     }
-    let groupLabel = groupName;
+    // Filters in allowlist groups keep pages reachable rather than blocking them.
+    let groupLabel = isAllowlistGroup(group) ? `${groupName} - allowed` : groupName;
+    const deactivatesAt = getTransitions(filter.groupId)?.deactivatesAt ?? null;
+    const focusSessionUntil =
+      group && isGroupInFocusSession(group, data.focusSession, now)
+        ? data.focusSession?.until
+        : undefined;
+    if (focusSessionUntil !== undefined) {
+      groupLabel = `${groupLabel} - focus until ${formatUpcomingInstant(focusSessionUntil)}`;
+    } else if (deactivatesAt !== null) {
+      groupLabel = `${groupLabel} - until ${formatUpcomingInstant(deactivatesAt)}`;
+    }
+    const budgetRemainingMs = group ? getBudgetRemainingMs(group, budgetUsage) : null;
+    if (budgetRemainingMs !== null) {
+      groupLabel =
+        budgetRemainingMs > 0
+          ? `${groupLabel} - ${formatDuration(budgetRemainingMs)} left today`
+          : `${groupLabel} - budget used up`;
+    }
+    if (filter.maxVisitsPerDay !== undefined) {
+      groupLabel = `${groupLabel} - ${formatVisitsUsed(getVisitsUsed(filter, group, visitCounts), filter.maxVisitsPerDay)}`;
+    }
     if (remainingMs !== null) {
       if (remainingMs <= 0) {
         groupLabel = 'Temporary expired';
@@ -757,7 +1151,7 @@ async function renderFilters(): Promise<void> {
     fragment.appendChild(item);
   }
 
-  const inactiveSummary = createInactiveSummary(inactiveCount);
+  const inactiveSummary = createInactiveSummary(inactiveCount, nextActivation);
   if (inactiveSummary) {
     fragment.appendChild(inactiveSummary);
   }
@@ -0,0 +1,59 @@
+/**
+ * Typed wrapper for daily budget usage in chrome.storage.local
+ */
+
+import { getBudgetDay, getBudgetUsedMs } from '../filtering/schedules';
+import { BUDGET_USAGE_KEY } from '../types';
+import type { BudgetUsage, BudgetUsageEntry, FilterGroup } from '../types';
+
+function normalizeBudgetUsage(value: unknown): BudgetUsage {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  const usage: Record<string, BudgetUsageEntry> = {};
+  for (const [groupId, entry] of Object.entries(value as Record<string, unknown>)) {
+    const candidate = entry as Partial<Record<keyof BudgetUsageEntry, unknown>> | null;
+    if (
+      typeof candidate?.day === 'string' &&
+      typeof candidate.usedMs === 'number' &&
+      Number.isFinite(candidate.usedMs)
+    ) {
+      usage[groupId] = { day: candidate.day, usedMs: Math.max(0, candidate.usedMs) };
+    }
+  }
+  return usage;
+}
+
+export async function getBudgetUsage(): Promise<BudgetUsage> {
+  const result = await chrome.storage.local.get(BUDGET_USAGE_KEY);
+  return normalizeBudgetUsage(result[BUDGET_USAGE_KEY]);
+}
+
+/**
+ * Count `elapsedMs` against the budgets of `groupIds` and return the updated usage. Only groups
+ * that still have a budget are kept, and each starts over on its first use after a reset.
+ */
+export async function addBudgetTime(
+  groups: readonly FilterGroup[],
+  groupIds: readonly string[],
+  elapsedMs: number,
+  now = Date.now()
+): Promise<BudgetUsage> {
+  const usage = await getBudgetUsage();
+  const nextUsage: Record<string, BudgetUsageEntry> = {};
+  for (const group of groups) {
+    if (!group.dailyBudget) {
+      continue;
+    }
+
+    const usedMs = getBudgetUsedMs(group, usage, now);
+    nextUsage[group.id] = {
+      day: getBudgetDay(group, now),
+      usedMs: groupIds.includes(group.id) ? usedMs + Math.max(0, elapsedMs) : usedMs,
+    };
+  }
+
+  await chrome.storage.local.set({ [BUDGET_USAGE_KEY]: nextUsage });
+  return nextUsage;
+}
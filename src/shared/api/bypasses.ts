@@ -0,0 +1,72 @@
+/**
+ * Typed wrapper for daily Continue counts in chrome.storage.local
+ */
+
+import { getBypassDay, getBypassesLeft, getBypassesUsed } from '../filtering/bypasses';
+import { shiftDateString } from '../filtering/schedules';
+import { BYPASS_COUNTS_KEY } from '../types';
+import type { BypassCountEntry, BypassCounts, FilterGroup } from '../types';
+
+function normalizeBypassCounts(value: unknown): BypassCounts {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  const counts: Record<string, BypassCountEntry> = {};
+  for (const [groupId, entry] of Object.entries(value as Record<string, unknown>)) {
+    const candidate = entry as Partial<Record<keyof BypassCountEntry, unknown>> | null;
+    if (
+      typeof candidate?.day === 'string' &&
+      typeof candidate.bypasses === 'number' &&
+      Number.isInteger(candidate.bypasses) &&
+      candidate.bypasses >= 0
+    ) {
+      counts[groupId] = { day: candidate.day, bypasses: candidate.bypasses };
+    }
+  }
+  return counts;
+}
+
+export async function getBypassCounts(): Promise<BypassCounts> {
+  const result = await chrome.storage.local.get(BYPASS_COUNTS_KEY);
+  return normalizeBypassCounts(result[BYPASS_COUNTS_KEY]);
+}
+
+// Counts are read, checked and written back, so overlapping Continues could both pass the check.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Count one Continue against a group's allowance, checking and counting in one step so Continues
+ * arriving together cannot go over it. Resolves to false, counting nothing, once the allowance is
+ * used up; groups without a limit always get true and are not counted.
+ */
+export function claimBypass(group: FilterGroup, now = Date.now()): Promise<boolean> {
+  const claim = writeQueue.then(() => writeBypass(group, now));
+  writeQueue = claim.catch(() => undefined);
+  return claim;
+}
+
+async function writeBypass(group: FilterGroup, now: number): Promise<boolean> {
+  const counts = await getBypassCounts();
+  const left = getBypassesLeft(group, counts, now);
+  if (left === null) {
+    return true;
+  }
+  if (left === 0) {
+    return false;
+  }
+
+  // Days differ by time zone, so keep yesterday's counts for groups that have not reached today.
+  const day = getBypassDay(group, now);
+  const oldestDay = shiftDateString(day, -1);
+  const nextCounts: Record<string, BypassCountEntry> = {};
+  for (const [id, entry] of Object.entries(counts)) {
+    if (entry && entry.day >= oldestDay) {
+      nextCounts[id] = entry;
+    }
+  }
+  nextCounts[group.id] = { day, bypasses: getBypassesUsed(group, counts, now) + 1 };
+
+  await chrome.storage.local.set({ [BYPASS_COUNTS_KEY]: nextCounts });
+  return true;
+}
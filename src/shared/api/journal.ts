@@ -0,0 +1,34 @@
+/**
+ * Typed wrapper for the Continue journal in chrome.storage.local
+ */
+
+import { BYPASS_JOURNAL_KEY } from '../types';
+import type { BypassJournalEntry } from '../types';
+import { normalizeJournalEntries } from '../storage/journal';
+
+/** Oldest entries are dropped past this many, so the journal cannot grow without bound. */
+const MAX_JOURNAL_ENTRIES = 1000;
+
+export async function getBypassJournal(): Promise<readonly BypassJournalEntry[]> {
+  const result = await chrome.storage.local.get(BYPASS_JOURNAL_KEY);
+  return normalizeJournalEntries(result[BYPASS_JOURNAL_KEY]);
+}
+
+// The journal is read, extended and written back, so overlapping appends would drop entries.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export function appendBypassJournalEntry(
+  entry: BypassJournalEntry
+): Promise<readonly BypassJournalEntry[]> {
+  const update = writeQueue.then(async () => {
+    const entries = [...(await getBypassJournal()), entry].slice(-MAX_JOURNAL_ENTRIES);
+    await chrome.storage.local.set({ [BYPASS_JOURNAL_KEY]: entries });
+    return entries;
+  });
+  writeQueue = update.catch(() => undefined);
+  return update;
+}
+
+export async function clearBypassJournal(): Promise<void> {
+  await chrome.storage.local.remove(BYPASS_JOURNAL_KEY);
+}
@@ -0,0 +1,80 @@
+/**
+ * Typed wrapper for the running Pomodoro run in chrome.storage.local
+ */
+
+import { createPomodoroState } from '../filtering/pomodoro';
+import { POMODORO_KEY } from '../types';
+import type { PomodoroPhase, PomodoroSettings, PomodoroState } from '../types';
+import { endFocusSession, startFocusSession } from './storage';
+
+const POMODORO_PHASES: readonly PomodoroPhase[] = ['focus', 'short-break', 'long-break'];
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function normalizePomodoroState(value: unknown): PomodoroState | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const candidate = value as Partial<Record<keyof PomodoroState, unknown>>;
+  const groupIds = Array.isArray(candidate.groupIds)
+    ? candidate.groupIds.filter((groupId): groupId is string => typeof groupId === 'string')
+    : [];
+  if (
+    groupIds.length === 0 ||
+    !isPositiveInteger(candidate.focusMinutes) ||
+    !isPositiveInteger(candidate.shortBreakMinutes) ||
+    !isPositiveInteger(candidate.longBreakMinutes) ||
+    !isPositiveInteger(candidate.longBreakEvery) ||
+    !isPositiveInteger(candidate.cycles) ||
+    !isPositiveInteger(candidate.cycle) ||
+    !POMODORO_PHASES.includes(candidate.phase as PomodoroPhase) ||
+    typeof candidate.phaseEndsAt !== 'number' ||
+    !Number.isFinite(candidate.phaseEndsAt)
+  ) {
+    return undefined;
+  }
+
+  return {
+    groupIds,
+    focusMinutes: candidate.focusMinutes,
+    shortBreakMinutes: candidate.shortBreakMinutes,
+    longBreakMinutes: candidate.longBreakMinutes,
+    longBreakEvery: candidate.longBreakEvery,
+    cycles: candidate.cycles,
+    phase: candidate.phase as PomodoroPhase,
+    cycle: candidate.cycle,
+    phaseEndsAt: candidate.phaseEndsAt,
+  };
+}
+
+export async function getPomodoro(): Promise<PomodoroState | undefined> {
+  const result = await chrome.storage.local.get(POMODORO_KEY);
+  return normalizePomodoroState(result[POMODORO_KEY]);
+}
+
+export async function setPomodoro(state: PomodoroState): Promise<void> {
+  await chrome.storage.local.set({ [POMODORO_KEY]: state });
+}
+
+export async function clearPomodoro(): Promise<void> {
+  await chrome.storage.local.remove(POMODORO_KEY);
+}
+
+/**
+ * Start a Pomodoro run with its first focus interval. The background moves it on from there.
+ */
+export async function startPomodoro(settings: PomodoroSettings, now = Date.now()): Promise<void> {
+  const state = createPomodoroState(settings, now);
+  await Promise.all([setPomodoro(state), startFocusSession(state.groupIds, state.phaseEndsAt)]);
+}
+
+/**
+ * End the run. The focus session ends first, so a run a commitment lock keeps going stays intact.
+ */
+export async function stopPomodoro(): Promise<void> {
+  await endFocusSession();
+  await clearPomodoro();
+}
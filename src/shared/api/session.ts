@@ -8,17 +8,31 @@ import type {
   BlockedGroupSnapshot,
   BlockedPageState,
   BlockedTabState,
+  BudgetTrackingState,
   BypassState,
-  FilterMatchMode,
+  ChallengePrompt,
+  IssuedChallenge,
   SnoozeState,
   TimeSchedule,
 } from '../types';
+import {
+  isValidBypassScope,
+  isValidBypassSettings,
+  isValidDailyBudget,
+  isValidDateRange,
+  isValidFilterTarget,
+  isValidGroupMode,
+  isValidMatchMode,
+  isValidMaxVisitsPerDay,
+} from '../storage/guards';
 
 const LAST_ALLOWED_URL_KEY_PREFIX = 'last_allowed_url_' as const;
 const SNOOZE_OVERRIDE_KEY = 'snooze_override' as const;
 const BLOCKED_TAB_STATE_KEY_PREFIX = 'blocked_tab_state_' as const;
 const BLOCKED_PAGE_STATE_KEY_PREFIX = 'blocked_page_state_' as const;
 const BYPASS_KEY_PREFIX = 'bypass_' as const;
+const BUDGET_TRACKING_KEY = 'budget_tracking' as const;
+const CHALLENGE_KEY_PREFIX = 'challenge_' as const;
 
 function lastAllowedUrlKey(tabId: number): string {
   return `${LAST_ALLOWED_URL_KEY_PREFIX}${tabId}`;
@@ -36,6 +50,10 @@ function bypassKey(tabId: number): string {
   return `${BYPASS_KEY_PREFIX}${tabId}`;
 }
 
+function challengeKey(blockId: string): string {
+  return `${CHALLENGE_KEY_PREFIX}${blockId}`;
+}
+
 /**
  * Store the last allowed URL for a tab in session storage
  */
@@ -65,7 +83,8 @@ function normalizeBlockedTabState(value: unknown): BlockedTabState | undefined {
     typeof candidate.targetUrl !== 'string' ||
     typeof candidate.blockedAt !== 'number' ||
     !candidate.blockedBy ||
-    typeof candidate.blockedBy.filterId !== 'string' ||
+    (candidate.blockedBy.filterId !== undefined &&
+      typeof candidate.blockedBy.filterId !== 'string') ||
     typeof candidate.blockedBy.groupId !== 'string'
   ) {
     return undefined;
@@ -77,7 +96,9 @@ function normalizeBlockedTabState(value: unknown): BlockedTabState | undefined {
     targetUrl: candidate.targetUrl,
     blockedAt: candidate.blockedAt,
     blockedBy: {
-      filterId: candidate.blockedBy.filterId,
+      ...(candidate.blockedBy.filterId !== undefined
+        ? { filterId: candidate.blockedBy.filterId }
+        : {}),
       groupId: candidate.blockedBy.groupId,
     },
   };
@@ -103,13 +124,21 @@ function normalizeBypassState(value: unknown): BypassState | undefined {
   }
 
   const candidate = value as Partial<BypassState>;
-  if (typeof candidate.filterId !== 'string' || typeof candidate.urlKey !== 'string') {
+  if (
+    (typeof candidate.filterId !== 'string' && typeof candidate.groupId !== 'string') ||
+    typeof candidate.urlKey !== 'string'
+  ) {
     return undefined;
   }
 
   return {
-    filterId: candidate.filterId,
+    ...(typeof candidate.filterId === 'string' ? { filterId: candidate.filterId } : {}),
+    ...(typeof candidate.groupId === 'string' ? { groupId: candidate.groupId } : {}),
+    scope: isValidBypassScope(candidate.scope) ? candidate.scope : 'page',
     urlKey: candidate.urlKey,
+    ...(typeof candidate.expiresAt === 'number' && Number.isFinite(candidate.expiresAt)
+      ? { expiresAt: candidate.expiresAt }
+      : {}),
   };
 }
 
@@ -127,8 +156,19 @@ export async function clearBypassState(tabId: number): Promise<void> {
   await chrome.storage.session.remove(bypassKey(tabId));
 }
 
-function isFilterMatchMode(value: unknown): value is FilterMatchMode {
-  return value === 'contains' || value === 'exact' || value === 'regex';
+export function isBypassStateKey(key: string): boolean {
+  return key.startsWith(BYPASS_KEY_PREFIX);
+}
+
+/**
+ * Every tab's bypass, for work that spans tabs such as arming the expiry alarm.
+ */
+export async function getBypassStates(): Promise<BypassState[]> {
+  const result = await chrome.storage.session.get(null);
+  return Object.entries(result)
+    .filter(([key]) => isBypassStateKey(key))
+    .map(([, value]) => normalizeBypassState(value))
+    .filter((state): state is BypassState => state !== undefined);
 }
 
 function normalizeBlockedFilterSnapshot(value: unknown): BlockedFilterSnapshot | undefined {
@@ -140,7 +180,7 @@ function normalizeBlockedFilterSnapshot(value: unknown): BlockedFilterSnapshot |
   if (
     typeof candidate.id !== 'string' ||
     typeof candidate.pattern !== 'string' ||
-    !isFilterMatchMode(candidate.matchMode)
+    !isValidMatchMode(candidate.matchMode)
   ) {
     return undefined;
   }
@@ -149,7 +189,11 @@ function normalizeBlockedFilterSnapshot(value: unknown): BlockedFilterSnapshot |
     id: candidate.id,
     pattern: candidate.pattern,
     matchMode: candidate.matchMode,
+    ...(isValidFilterTarget(candidate.target) ? { target: candidate.target } : {}),
     ...(typeof candidate.description === 'string' ? { description: candidate.description } : {}),
+    ...(isValidMaxVisitsPerDay(candidate.maxVisitsPerDay)
+      ? { maxVisitsPerDay: candidate.maxVisitsPerDay }
+      : {}),
   };
 }
 
@@ -172,6 +216,11 @@ function normalizeSchedule(value: unknown): TimeSchedule | undefined {
     daysOfWeek: candidate.daysOfWeek,
     startTime: candidate.startTime,
     endTime: candidate.endTime,
+    ...(typeof candidate.validFrom === 'string' ? { validFrom: candidate.validFrom } : {}),
+    ...(typeof candidate.validUntil === 'string' ? { validUntil: candidate.validUntil } : {}),
+    ...(typeof candidate.weekInterval === 'number' ? { weekInterval: candidate.weekInterval } : {}),
+    ...(typeof candidate.anchorDate === 'string' ? { anchorDate: candidate.anchorDate } : {}),
+    ...(Array.isArray(candidate.weeksOfMonth) ? { weeksOfMonth: candidate.weeksOfMonth } : {}),
   };
 }
 
@@ -199,6 +248,13 @@ function normalizeBlockedGroupSnapshot(value: unknown): BlockedGroupSnapshot | u
     name: candidate.name,
     is24x7: candidate.is24x7,
     enabled: typeof candidate.enabled === 'boolean' ? candidate.enabled : true,
+    ...(isValidGroupMode(candidate.mode) ? { mode: candidate.mode } : {}),
+    ...(typeof candidate.timeZone === 'string' ? { timeZone: candidate.timeZone } : {}),
+    ...(isValidDailyBudget(candidate.dailyBudget) ? { dailyBudget: candidate.dailyBudget } : {}),
+    ...(isValidBypassSettings(candidate.bypass) ? { bypass: candidate.bypass } : {}),
+    ...(Array.isArray(candidate.excludedDates)
+      ? { excludedDates: candidate.excludedDates.filter(isValidDateRange) }
+      : {}),
     schedules: schedules.filter((schedule): schedule is TimeSchedule => Boolean(schedule)),
   };
 }
@@ -221,9 +277,41 @@ function normalizeBlockedEffectiveState(value: unknown): BlockedEffectiveState |
     filterEnabled: candidate.filterEnabled,
     groupActive: candidate.groupActive,
     snoozeActive: candidate.snoozeActive,
+    ...(typeof candidate.focusSessionUntil === 'number' &&
+    Number.isFinite(candidate.focusSessionUntil)
+      ? { focusSessionUntil: candidate.focusSessionUntil }
+      : {}),
   };
 }
 
+function normalizeChallengePrompt(value: unknown): ChallengePrompt | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const candidate = value as Partial<Record<string, unknown>>;
+  const token = candidate['token'];
+  if (typeof token !== 'string') {
+    return undefined;
+  }
+
+  const readyAt = candidate['readyAt'];
+  const phrase = candidate['phrase'];
+  const question = candidate['question'];
+  switch (candidate['type']) {
+    case 'countdown':
+      return typeof readyAt === 'number' && Number.isFinite(readyAt)
+        ? { type: 'countdown', token, readyAt }
+        : undefined;
+    case 'phrase':
+      return typeof phrase === 'string' ? { type: 'phrase', token, phrase } : undefined;
+    case 'arithmetic':
+      return typeof question === 'string' ? { type: 'arithmetic', token, question } : undefined;
+    default:
+      return undefined;
+  }
+}
+
 function normalizeBlockedPageState(value: unknown): BlockedPageState | undefined {
   if (!value || typeof value !== 'object') {
     return undefined;
@@ -233,15 +321,18 @@ function normalizeBlockedPageState(value: unknown): BlockedPageState | undefined
   const tabState = normalizeBlockedTabState(candidate);
   const filter = normalizeBlockedFilterSnapshot(candidate.filter);
   const effectiveState = normalizeBlockedEffectiveState(candidate.effectiveState);
-  if (!tabState || !filter || !effectiveState) {
+  const challenge = normalizeChallengePrompt(candidate.challenge);
+  // Only allowlist blocks, which carry no filter id, come without a filter snapshot.
+  if (!tabState || (!filter && tabState.blockedBy.filterId !== undefined) || !effectiveState) {
     return undefined;
   }
 
   return {
     ...tabState,
-    filter,
+    ...(filter ? { filter } : {}),
     group: normalizeBlockedGroupSnapshot(candidate.group),
     effectiveState,
+    ...(challenge ? { challenge } : {}),
   };
 }
 
@@ -259,6 +350,42 @@ export async function clearBlockedPageState(blockId: string): Promise<void> {
   await chrome.storage.session.remove(blockedPageStateKey(blockId));
 }
 
+function normalizeIssuedChallenge(value: unknown): IssuedChallenge | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const candidate = value as Partial<IssuedChallenge>;
+  if (typeof candidate.token !== 'string') {
+    return undefined;
+  }
+
+  return {
+    token: candidate.token,
+    ...(typeof candidate.readyAt === 'number' && Number.isFinite(candidate.readyAt)
+      ? { readyAt: candidate.readyAt }
+      : {}),
+    ...(typeof candidate.answer === 'string' ? { answer: candidate.answer } : {}),
+  };
+}
+
+export async function setIssuedChallenge(
+  blockId: string,
+  challenge: IssuedChallenge
+): Promise<void> {
+  await chrome.storage.session.set({ [challengeKey(blockId)]: challenge });
+}
+
+export async function getIssuedChallenge(blockId: string): Promise<IssuedChallenge | undefined> {
+  const key = challengeKey(blockId);
+  const result = await chrome.storage.session.get(key);
+  return normalizeIssuedChallenge(result[key]);
+}
+
+export async function clearIssuedChallenge(blockId: string): Promise<void> {
+  await chrome.storage.session.remove(challengeKey(blockId));
+}
+
 function normalizeSessionSnooze(value: unknown): SnoozeState | undefined {
   if (!value || typeof value !== 'object') {
     return undefined;
@@ -288,3 +415,40 @@ export async function getSessionSnooze(): Promise<SnoozeState | undefined> {
   const result = await chrome.storage.session.get(SNOOZE_OVERRIDE_KEY);
   return normalizeSessionSnooze(result[SNOOZE_OVERRIDE_KEY]);
 }
+
+function normalizeBudgetTrackingState(value: unknown): BudgetTrackingState | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const candidate = value as Partial<Record<keyof BudgetTrackingState, unknown>>;
+  if (
+    typeof candidate.tabId !== 'number' ||
+    typeof candidate.since !== 'number' ||
+    !Number.isFinite(candidate.since) ||
+    !Array.isArray(candidate.groupIds)
+  ) {
+    return undefined;
+  }
+
+  return {
+    tabId: candidate.tabId,
+    groupIds: candidate.groupIds.filter(
+      (groupId): groupId is string => typeof groupId === 'string'
+    ),
+    since: candidate.since,
+  };
+}
+
+export async function setBudgetTracking(state: BudgetTrackingState): Promise<void> {
+  await chrome.storage.session.set({ [BUDGET_TRACKING_KEY]: state });
+}
+
+export async function getBudgetTracking(): Promise<BudgetTrackingState | undefined> {
+  const result = await chrome.storage.session.get(BUDGET_TRACKING_KEY);
+  return normalizeBudgetTrackingState(result[BUDGET_TRACKING_KEY]);
+}
+
+export async function clearBudgetTracking(): Promise<void> {
+  await chrome.storage.session.remove(BUDGET_TRACKING_KEY);
+}
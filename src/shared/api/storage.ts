@@ -5,21 +5,56 @@
 
 import type { StorageData, FilterGroup, Filter, Whitelist, SnoozeState } from '../types';
 import { STORAGE_KEY, DEFAULT_GROUP_ID } from '../types';
-import { isTemporaryFilterExpired } from '../filtering/schedules';
-import { parseImportedData, serializeDataForExport } from '../storage/importExport';
+import {
+  getFilterPriority,
+  isTemporaryFilter,
+  isTemporaryFilterExpired,
+  sortFiltersForEvaluation,
+} from '../filtering/schedules';
+import { getLockViolations, type LockViolation } from '../filtering/locks';
+import {
+  parseAdblockList,
+  parseCalendarImport,
+  parseImportedData,
+  serializeDataForExport,
+  type AdblockListImport,
+  type CalendarImport,
+} from '../storage/importExport';
 import { normalizeStoredData, type LegacyStorageData } from '../storage/normalize';
 import { createDefaultGroup } from '../storage/defaults';
+import { formatLockViolation } from '../utils/schedules';
 import { setSessionSnooze } from './session';
 
 export { createDefaultGroup };
 export { normalizeStoredData };
-export { serializeDataForExport, parseImportedData };
+export { serializeDataForExport, parseImportedData, parseAdblockList, parseCalendarImport };
+export type { AdblockListImport, CalendarImport };
 
 /**
  * A settings write failed for a reason the user can act on; the message is safe to display.
  */
 export class SettingsSaveError extends Error {}
 
+/**
+ * A write was refused because it would loosen a group under an active commitment lock.
+ */
+export class CommitmentLockError extends SettingsSaveError {
+  constructor(readonly violation: LockViolation) {
+    super(formatLockViolation(violation));
+  }
+}
+
+/**
+ * The one place commitment locks are enforced: every write of the settings passes its diff
+ * against the stored data through here, whichever surface or code path made it.
+ */
+function assertWithinCommitmentLocks(current: StorageData, next: StorageData): void {
+  const [violation] = getLockViolations(current, next);
+  if (violation) {
+    throw new CommitmentLockError(violation);
+  }
+}
+
 const SYNC_QUOTA_MESSAGE =
   'Browser sync storage is full, so the change could not be saved. Remove some filters or exceptions, or shorten long patterns, and try again.';
 
@@ -55,6 +90,7 @@ export async function exportData(): Promise<string> {
  * Prefer updateData for read-modify-write edits so concurrent writers cannot clobber each other.
  */
 export async function saveData(data: StorageData): Promise<void> {
+  assertWithinCommitmentLocks(await loadData(), data);
   const storedRulesVersion = await readStoredRulesVersion();
   const previousRulesVersion =
     storedRulesVersion ??
@@ -114,6 +150,8 @@ export async function updateData(
       return updatedData;
     }
 
+    assertWithinCommitmentLocks(data, updatedData);
+
     if (await saveDataIfUnchanged(updatedData, data.rulesVersion)) {
       return updatedData;
     }
@@ -145,10 +183,58 @@ export async function purgeExpiredTemporaryFilters(data: StorageData): Promise<S
 
 export async function importData(serialized: string): Promise<StorageData> {
   const data = parseImportedData(serialized);
-  await Promise.all([saveData(data), setSessionSnooze(data.snooze)]);
+  await saveData(data);
+  await setSessionSnooze(data.snooze);
   return data;
 }
 
+/**
+ * Add the rules of an adblock filter list to a group, skipping rules the group already has.
+ * Resolves with the entries that were actually added.
+ */
+export async function importAdblockList(text: string, groupId: string): Promise<AdblockListImport> {
+  const parsed = parseAdblockList(text, groupId);
+  let added: AdblockListImport = { ...parsed, filters: [], whitelist: [] };
+
+  await updateData((data) => {
+    if (!data.groups.some((group) => group.id === groupId)) {
+      throw new SettingsSaveError('The group was deleted before the list could be imported.');
+    }
+
+    const existingFilters = new Set(
+      data.filters
+        .filter((filter) => filter.groupId === groupId && filter.matchMode === 'adblock')
+        .map((filter) => filter.pattern.toLowerCase())
+    );
+    const existingExceptions = new Set(
+      data.whitelist
+        .filter((entry) => entry.groupId === groupId && entry.matchMode === 'adblock')
+        .map((entry) => entry.pattern.toLowerCase())
+    );
+    added = {
+      ...parsed,
+      filters: parsed.filters.filter(
+        (filter) => !existingFilters.has(filter.pattern.toLowerCase())
+      ),
+      whitelist: parsed.whitelist.filter(
+        (entry) => !existingExceptions.has(entry.pattern.toLowerCase())
+      ),
+    };
+
+    if (added.filters.length === 0 && added.whitelist.length === 0) {
+      return data;
+    }
+
+    return {
+      ...data,
+      filters: [...data.filters, ...added.filters],
+      whitelist: [...data.whitelist, ...added.whitelist],
+    };
+  });
+
+  return added;
+}
+
 // Group operations
 
 export async function addGroup(group: FilterGroup): Promise<void> {
@@ -212,6 +298,40 @@ export async function updateFilter(filter: Filter): Promise<void> {
   });
 }
 
+/**
+ * Move a filter one place up or down in its group's evaluation order. The filter takes its
+ * neighbour's priority and is stored right next to it, so the move also holds against filters in
+ * other groups. Temporary filters always run first and only move among themselves.
+ */
+export async function moveFilter(filterId: string, direction: 'up' | 'down'): Promise<void> {
+  await updateData((data) => {
+    const filter = data.filters.find((f) => f.id === filterId);
+    if (!filter) {
+      return data;
+    }
+
+    const siblings = sortFiltersForEvaluation(
+      data.filters.filter(
+        (f) => f.groupId === filter.groupId && isTemporaryFilter(f) === isTemporaryFilter(filter)
+      )
+    );
+    const index = siblings.findIndex((f) => f.id === filterId);
+    const neighbour = siblings[direction === 'up' ? index - 1 : index + 1];
+    if (!neighbour) {
+      return data;
+    }
+
+    const { priority: _priority, ...rest } = filter;
+    const neighbourPriority = getFilterPriority(neighbour);
+    const movedFilter: Filter =
+      neighbourPriority !== 0 ? { ...rest, priority: neighbourPriority } : rest;
+    const newFilters = data.filters.filter((f) => f.id !== filterId);
+    const neighbourIndex = newFilters.findIndex((f) => f.id === neighbour.id);
+    newFilters.splice(direction === 'up' ? neighbourIndex : neighbourIndex + 1, 0, movedFilter);
+    return { ...data, filters: newFilters };
+  });
+}
+
 export async function deleteFilter(filterId: string): Promise<void> {
   await updateData((data) => ({
     ...data,
@@ -249,16 +369,43 @@ export async function deleteWhitelist(whitelistId: string): Promise<void> {
   }));
 }
 
+/**
+ * Store the snooze, then mirror it to the session once the write has gone through, so a snooze a
+ * commitment lock refuses never takes effect.
+ */
 export async function setSnooze(snooze: SnoozeState): Promise<void> {
-  await Promise.all([
-    updateData((data) => ({
-      ...data,
-      snooze,
-    })),
-    setSessionSnooze(snooze),
-  ]);
+  await updateData((data) => ({
+    ...data,
+    snooze,
+  }));
+  await setSessionSnooze(snooze);
 }
 
 export async function clearSnooze(): Promise<void> {
   await setSnooze({ active: false });
 }
+
+/**
+ * Start a focus session that keeps the given groups active until `until`, replacing any running
+ * session.
+ */
+export async function startFocusSession(groupIds: readonly string[], until: number): Promise<void> {
+  await updateData((data) => ({
+    ...data,
+    focusSession: { active: true, groupIds, until },
+  }));
+}
+
+/**
+ * End the running focus session. With `until`, only a session set to end then is ended, so the
+ * caller leaves a session someone else started alone.
+ */
+export async function endFocusSession(until?: number): Promise<void> {
+  await updateData((data) => {
+    if (!data.focusSession || (until !== undefined && data.focusSession.until !== until)) {
+      return data;
+    }
+    const { focusSession: _focusSession, ...rest } = data;
+    return rest;
+  });
+}
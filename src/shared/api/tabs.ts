@@ -92,6 +92,20 @@ export async function getActiveTab(): Promise<chrome.tabs.Tab | undefined> {
   return tab;
 }
 
+/**
+ * Get the active tab of the focused browser window, or undefined when no browser window has focus
+ */
+export function getFocusedActiveTab(): Promise<chrome.tabs.Tab | undefined> {
+  return new Promise((resolve, reject) => {
+    chrome.windows.getLastFocused({ populate: true }, (window) => {
+      if (handleRuntimeError(reject)) {
+        return;
+      }
+      resolve(window.focused ? window.tabs?.find((tab) => tab.active) : undefined);
+    });
+  });
+}
+
 /**
  * Get a tab by ID
  */
@@ -0,0 +1,77 @@
+/**
+ * Typed wrapper for daily visit counts in chrome.storage.local
+ */
+
+import { buildGroupById, getVisitDay, getVisitsUsed } from '../filtering/schedules';
+import { VISIT_COUNTS_KEY } from '../types';
+import type { Filter, FilterGroup, VisitCountEntry, VisitCounts } from '../types';
+
+function normalizeVisitCounts(value: unknown): VisitCounts {
+  if (!value || typeof value !== 'object') {
+    return {};
+  }
+
+  const counts: Record<string, VisitCountEntry> = {};
+  for (const [filterId, entry] of Object.entries(value as Record<string, unknown>)) {
+    const candidate = entry as Partial<Record<keyof VisitCountEntry, unknown>> | null;
+    if (
+      typeof candidate?.day === 'string' &&
+      typeof candidate.visits === 'number' &&
+      Number.isInteger(candidate.visits) &&
+      candidate.visits >= 0
+    ) {
+      counts[filterId] = { day: candidate.day, visits: candidate.visits };
+    }
+  }
+  return counts;
+}
+
+export async function getVisitCounts(): Promise<VisitCounts> {
+  const result = await chrome.storage.local.get(VISIT_COUNTS_KEY);
+  return normalizeVisitCounts(result[VISIT_COUNTS_KEY]);
+}
+
+// Counts are read, updated and written back, so overlapping updates would drop visits.
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Count one visit against the daily limit of each filter in `filterIds`. Only filters that still
+ * have a limit are kept, and each starts over on its first visit of a new day in its group's time
+ * zone. Updates run one at a time.
+ */
+export function addVisits(
+  filters: readonly Filter[],
+  groups: readonly FilterGroup[],
+  filterIds: readonly string[],
+  now = Date.now()
+): Promise<VisitCounts> {
+  const update = writeQueue.then(() => writeVisits(filters, groups, filterIds, now));
+  writeQueue = update.catch(() => undefined);
+  return update;
+}
+
+async function writeVisits(
+  filters: readonly Filter[],
+  groups: readonly FilterGroup[],
+  filterIds: readonly string[],
+  now: number
+): Promise<VisitCounts> {
+  const counts = await getVisitCounts();
+  const groupsById = buildGroupById(groups);
+  const nextCounts: Record<string, VisitCountEntry> = {};
+  for (const filter of filters) {
+    if (filter.maxVisitsPerDay === undefined) {
+      continue;
+    }
+
+    const group = groupsById.get(filter.groupId);
+    const visits = getVisitsUsed(filter, group, counts, now);
+    nextCounts[filter.id] = {
+      day: getVisitDay(group, now),
+      visits: filterIds.includes(filter.id) ? visits + 1 : visits,
+    };
+  }
+
+  await chrome.storage.local.set({ [VISIT_COUNTS_KEY]: nextCounts });
+  return nextCounts;
+}
@@ -20,4 +20,20 @@ export const PAGES = {
 
 export const ALARMS = {
   SNOOZE_EXPIRATION: 'snooze-expiration',
+  SCHEDULE_BOUNDARY: 'schedule-boundary',
+  BUDGET_TICK: 'budget-tick',
+  FOCUS_SESSION_END: 'focus-session-end',
+  POMODORO_PHASE_END: 'pomodoro-phase-end',
+  BYPASS_EXPIRATION: 'bypass-expiration',
+} as const;
+
+/** Phrase a group's phrase challenge asks for unless it sets its own */
+export const DEFAULT_CHALLENGE_PHRASE = 'I choose to spend my time on this page';
+
+export const DEFAULT_POMODORO = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+  cycles: 4,
 } as const;
@@ -0,0 +1,129 @@
+import { isSeparatorChar, type WildcardMatcher, type WildcardToken } from './wildcard';
+
+const MAX_ADBLOCK_PATTERN_LENGTH = 1024;
+
+/**
+ * Explain why a uBlock Origin / Adblock Plus network rule cannot be used as a Teichos pattern.
+ * Only the URL part of a rule is supported: `||` host anchors, `|` start and end anchors, `^`
+ * separators and `*` wildcards. Options after `$`, element hiding and `/regex/` rules are not.
+ */
+export function getAdblockValidationError(pattern: string): string | null {
+  const source = pattern.trim();
+  if (!source || !stripAnchors(source)) {
+    return 'Enter a pattern such as ||example.com^.';
+  }
+
+  if (source.length > MAX_ADBLOCK_PATTERN_LENGTH) {
+    return `Pattern is longer than ${MAX_ADBLOCK_PATTERN_LENGTH} characters.`;
+  }
+
+  if (source.startsWith('@@')) {
+    return 'Remove the leading @@ and add the rule as an exception instead.';
+  }
+
+  if (/#[@?$]?#/.test(source)) {
+    return 'Element hiding rules are not supported.';
+  }
+
+  if (source.includes('$')) {
+    return 'Rule options after $ are not supported.';
+  }
+
+  if (source.length > 2 && source.startsWith('/') && source.endsWith('/')) {
+    return 'Use regex mode for /regular expression/ rules.';
+  }
+
+  return null;
+}
+
+/**
+ * Compile an adblock network rule to a wildcard matcher. `||example.com^` matches example.com and
+ * its subdomains on any scheme, a leading `|` anchors the rule to the start of the URL, a trailing
+ * `|` to its end, and unanchored rules match anywhere in the URL. Matching is case-insensitive, so
+ * the rule is lowercased and expects a lowercased URL.
+ */
+export function compileAdblock(pattern: string): WildcardMatcher | null {
+  if (getAdblockValidationError(pattern)) {
+    return null;
+  }
+
+  const source = pattern.trim().toLowerCase();
+  let start: WildcardMatcher['start'] = 'anywhere';
+  if (source.startsWith('||')) {
+    start = getHostLabelOffsets;
+  } else if (source.startsWith('|')) {
+    start = 'start';
+  }
+
+  const tokens: WildcardToken[] = [];
+  for (const char of stripAnchors(source)) {
+    if (char === '*') {
+      if (tokens[tokens.length - 1]?.kind !== 'star') {
+        tokens.push({ kind: 'star' });
+      }
+    } else if (char === '^') {
+      tokens.push({ kind: 'separator' });
+    } else {
+      tokens.push({ kind: 'literal', char });
+    }
+  }
+
+  return {
+    tokens,
+    anchorEnd: source.length > 1 && source.endsWith('|'),
+    start,
+  };
+}
+
+/**
+ * The hostname a `||` rule is pinned to, when the rule spells it out in full: `||example.com^`
+ * and `||example.com/ads` can only match where a host label starts with exactly `example.com`
+ * followed by a separator. Returns null for rules that could match more loosely, such as
+ * `||example.com*` or `||example.co`, so callers can fall back to testing them directly.
+ */
+export function getAdblockHostKey(pattern: string): string | null {
+  const source = pattern.trim().toLowerCase();
+  if (!source.startsWith('||') || getAdblockValidationError(pattern)) {
+    return null;
+  }
+
+  const body = source.slice(2);
+  let end = 0;
+  while (end < body.length && !isSeparatorChar(body[end] ?? '')) {
+    end += 1;
+  }
+
+  const terminator = body[end];
+  if (end === 0 || terminator === undefined || terminator === '*' || terminator === '|') {
+    return null;
+  }
+
+  return body.slice(0, end);
+}
+
+function stripAnchors(source: string): string {
+  return source.replace(/^\|\|?/, '').replace(/\|$/, '');
+}
+
+/**
+ * Offsets where a `||` rule may start: the beginning of the hostname and of every label after it,
+ * so `||example.com` matches `www.example.com` but not `notexample.com`. Text without a scheme is
+ * a rule's host target when it is a bare hostname, and otherwise has no host to anchor to.
+ */
+export function getHostLabelOffsets(input: string): readonly number[] {
+  const schemeMatch = /^[a-z][a-z0-9+.-]*:\/\//.exec(input);
+  const hostStart = schemeMatch ? schemeMatch[0].length : 0;
+  const hostEndMatch = /[/?#:]/.exec(input.slice(hostStart));
+  const hostEnd = hostEndMatch ? hostStart + hostEndMatch.index : input.length;
+  if (!schemeMatch && !/^[a-z0-9._-]+$/.test(input.slice(0, hostEnd))) {
+    return [];
+  }
+
+  const offsets = [hostStart];
+  for (let i = hostStart; i < hostEnd; i++) {
+    if (input[i] === '.') {
+      offsets.push(i + 1);
+    }
+  }
+  return offsets;
+}
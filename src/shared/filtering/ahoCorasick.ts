@@ -0,0 +1,107 @@
+/**
+ * Aho-Corasick automaton for finding which of many substrings occur in a text in a single pass,
+ * so checking a URL against thousands of `contains` patterns costs O(URL length + matches).
+ */
+
+export interface SubstringMatcher {
+  /**
+   * Call `onMatch` with the index of every pattern that occurs in `text`, possibly repeatedly,
+   * and the offset just past that occurrence.
+   */
+  forEachMatch: (text: string, onMatch: (patternIndex: number, end: number) => void) => void;
+}
+
+interface AutomatonNode {
+  readonly next: Map<string, number>;
+  fail: number;
+  /** Nearest node on the failure chain that ends a pattern, or -1. */
+  outputLink: number;
+  readonly outputs: number[];
+}
+
+function createNode(): AutomatonNode {
+  return { next: new Map(), fail: 0, outputLink: -1, outputs: [] };
+}
+
+export function createSubstringMatcher(patterns: readonly string[]): SubstringMatcher {
+  const nodes: AutomatonNode[] = [createNode()];
+
+  patterns.forEach((pattern, patternIndex) => {
+    let state = 0;
+    for (const char of pattern) {
+      const node = nodes[state];
+      if (!node) {
+        return;
+      }
+      let nextState = node.next.get(char);
+      if (nextState === undefined) {
+        nextState = nodes.length;
+        nodes.push(createNode());
+        node.next.set(char, nextState);
+      }
+      state = nextState;
+    }
+    nodes[state]?.outputs.push(patternIndex);
+  });
+
+  // Breadth-first so every failure target is finished before the nodes that depend on it.
+  const queue: number[] = [];
+  for (const child of nodes[0]?.next.values() ?? []) {
+    queue.push(child);
+  }
+  // Array iteration also visits the children pushed while the loop runs.
+  for (const state of queue) {
+    const node = nodes[state];
+    if (!node) {
+      continue;
+    }
+
+    for (const [char, child] of node.next) {
+      const childNode = nodes[child];
+      if (!childNode) {
+        continue;
+      }
+
+      childNode.fail = transition(nodes, node.fail, char);
+      const failNode = nodes[childNode.fail];
+      childNode.outputLink =
+        failNode && failNode.outputs.length > 0 ? childNode.fail : (failNode?.outputLink ?? -1);
+      queue.push(child);
+    }
+  }
+
+  const rootOutputs = nodes[0]?.outputs ?? [];
+
+  return {
+    forEachMatch(text, onMatch): void {
+      // Empty patterns occur in every text, reported at its end.
+      for (const patternIndex of rootOutputs) {
+        onMatch(patternIndex, text.length);
+      }
+
+      let state = 0;
+      let end = 0;
+      for (const char of text) {
+        state = transition(nodes, state, char);
+        end += char.length;
+        for (let output = state; output > 0; output = nodes[output]?.outputLink ?? -1) {
+          for (const patternIndex of nodes[output]?.outputs ?? []) {
+            onMatch(patternIndex, end);
+          }
+        }
+      }
+    },
+  };
+}
+
+function transition(nodes: readonly AutomatonNode[], state: number, char: string): number {
+  for (let current = state; ; current = nodes[current]?.fail ?? 0) {
+    const nextState = nodes[current]?.next.get(char);
+    if (nextState !== undefined) {
+      return nextState;
+    }
+    if (current === 0) {
+      return 0;
+    }
+  }
+}
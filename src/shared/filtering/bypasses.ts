@@ -0,0 +1,37 @@
+import type { BypassCounts, FilterGroup } from '../types';
+import { getScheduleContextAt } from './schedules';
+
+/**
+ * The day a group's Continue allowance counts in: the date at `now` in the group's time zone.
+ */
+export function getBypassDay(group: FilterGroup, now = Date.now()): string {
+  return getScheduleContextAt(now, group.timeZone).date;
+}
+
+/**
+ * Continues used today against a group's allowance; counts from an earlier day count as none.
+ */
+export function getBypassesUsed(
+  group: FilterGroup,
+  counts: BypassCounts | undefined,
+  now = Date.now()
+): number {
+  const entry = counts?.[group.id];
+  return entry?.day === getBypassDay(group, now) ? entry.bypasses : 0;
+}
+
+/**
+ * Continues left today under the group's allowance, or null when it sets no limit.
+ */
+export function getBypassesLeft(
+  group: FilterGroup,
+  counts: BypassCounts | undefined,
+  now = Date.now()
+): number | null {
+  const maxPerDay = group.bypass?.maxPerDay;
+  if (maxPerDay === undefined) {
+    return null;
+  }
+
+  return Math.max(0, maxPerDay - getBypassesUsed(group, counts, now));
+}
@@ -0,0 +1,325 @@
+import type { FilterTarget } from '../types';
+
+/**
+ * A URL reduced to one spelling per page, so `exact` and `contains` patterns do not miss URLs
+ * that differ only in how they are written. The host is lowercase Unicode without a leading
+ * `www.`, default ports and the fragment are dropped, the path has no trailing slash, and
+ * percent-encoding is decoded wherever that does not change the meaning of the URL.
+ */
+export interface CanonicalUrl {
+  /** The whole canonical URL, e.g. `https://bücher.de/a b` becomes `https://bücher.de/a%20b`. */
+  readonly href: string;
+  readonly host: string;
+  /** The path without its trailing slash, so the root path is empty. */
+  readonly path: string;
+  /** The query string without its leading `?`. */
+  readonly query: string;
+}
+
+/**
+ * An `exact` or `contains` pattern in canonical form. A trailing slash cannot be compared
+ * directly because canonical paths drop it, so `contains` patterns ending in `/` instead require
+ * the text to continue with another path segment, the query, or nothing at all.
+ */
+export interface CanonicalPattern {
+  readonly text: string;
+  readonly atPathEnd: boolean;
+}
+
+const SCHEME_PATTERN = /^[a-z][a-z0-9+.-]*:\/\//i;
+// `www.` where a fragment starts a host: at its start, or after a leading `//` or `scheme://`.
+const FRAGMENT_WWW_PATTERN = /^((?:[a-z][a-z0-9+.-]*)?:\/\/|\/\/)?www\.(?=[^./?#]+\.)/i;
+const PUNYCODE_LABEL_PATTERN = /(?<![a-z0-9-])xn--[a-z0-9-]+/gi;
+const PERCENT_RUN_PATTERN = /(?:%[0-9a-f]{2})+/gi;
+// Characters the URL parser always escapes; patterns may spell them out literally.
+const ALWAYS_ESCAPED_PATTERN = /[ "<>`]/g;
+const UNRESERVED_PATTERN = /^[a-z0-9\-._~]$/i;
+
+let lastCanonicalized: { readonly url: string; readonly canonical: CanonicalUrl | null } | null =
+  null;
+
+/**
+ * Canonicalize a URL. Returns null when it cannot be parsed. The previous result is kept, since
+ * every pattern checked during one navigation asks about the same URL.
+ */
+export function canonicalizeUrl(url: string): CanonicalUrl | null {
+  if (lastCanonicalized?.url !== url) {
+    lastCanonicalized = { url, canonical: parseCanonicalUrl(url) };
+  }
+  return lastCanonicalized.canonical;
+}
+
+function parseCanonicalUrl(url: string): CanonicalUrl | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const query = normalizePercentEncoding(parsed.search.slice(1));
+
+  // URLs without a host, such as `about:blank` or `data:`, have no path structure to normalize.
+  if (!parsed.host) {
+    parsed.hash = '';
+    return {
+      href: parsed.href,
+      host: '',
+      path: normalizePercentEncoding(parsed.pathname),
+      query,
+    };
+  }
+
+  const host = canonicalizeHost(parsed.hostname);
+  const path = canonicalizePath(parsed.pathname);
+  const credentials = parsed.username
+    ? `${parsed.username}${parsed.password ? `:${parsed.password}` : ''}@`
+    : '';
+  const port = parsed.port ? `:${parsed.port}` : '';
+  return {
+    href: `${parsed.protocol}//${credentials}${host}${port}${path}${query ? `?${query}` : ''}`,
+    host,
+    path,
+    query,
+  };
+}
+
+/**
+ * The part of a canonical URL a pattern targets, mirroring `getUrlComponent`.
+ */
+export function getCanonicalComponent(canonical: CanonicalUrl, target: FilterTarget): string {
+  if (target === 'host') {
+    return canonical.host;
+  }
+  if (target === 'path') {
+    return canonical.path;
+  }
+  if (target === 'query') {
+    return canonical.query;
+  }
+  return canonical.href;
+}
+
+/**
+ * Bring an `exact` or `contains` pattern into the same form as the part of the URL it targets.
+ * Full URLs are canonicalized like any other URL; fragments such as `www.example.com/videos/`
+ * get the same host, percent-encoding and trailing slash treatment.
+ */
+export function canonicalizePattern(
+  pattern: string,
+  matchMode: 'exact' | 'contains',
+  target: FilterTarget = 'url'
+): CanonicalPattern {
+  if (target === 'host') {
+    return { text: canonicalizeHost(pattern.toLowerCase()), atPathEnd: false };
+  }
+
+  if (target === 'query') {
+    return { text: normalizePercentEncoding(pattern), atPathEnd: false };
+  }
+
+  if (target === 'path') {
+    const path = normalizePercentEncoding(pattern);
+    return matchMode === 'exact'
+      ? { text: path.replace(/\/+$/, ''), atPathEnd: false }
+      : toContainsPattern(path);
+  }
+
+  const canonical = SCHEME_PATTERN.test(pattern) ? parseCanonicalUrl(pattern) : null;
+  if (matchMode === 'exact') {
+    return { text: canonical?.href ?? normalizeUrlFragment(pattern), atPathEnd: false };
+  }
+
+  if (canonical) {
+    // Parsing always adds a root path, so only a slash the user typed asks for a path boundary.
+    const endsWithSlash = !canonical.query && /\/$/.test(pattern.split(/[?#]/)[0] ?? '');
+    return { text: canonical.href, atPathEnd: endsWithSlash };
+  }
+
+  return toContainsPattern(normalizeUrlFragment(pattern));
+}
+
+/**
+ * Whether a `contains` pattern occurs in canonical text, honoring its path boundary.
+ */
+export function containsCanonicalPattern(text: string, pattern: CanonicalPattern): boolean {
+  if (!pattern.atPathEnd) {
+    return text.includes(pattern.text);
+  }
+
+  for (let index = text.indexOf(pattern.text); index !== -1;) {
+    if (isPathBoundary(text, index + pattern.text.length)) {
+      return true;
+    }
+    index = text.indexOf(pattern.text, index + 1);
+  }
+  return false;
+}
+
+/**
+ * Whether a canonical path could have had a slash at `offset`: another segment, the query or the
+ * end of the text follows.
+ */
+export function isPathBoundary(text: string, offset: number): boolean {
+  const next = text[offset];
+  return next === undefined || next === '/' || next === '?';
+}
+
+function toContainsPattern(text: string): CanonicalPattern {
+  // A slash right before the query is the end of the path, which canonical URLs drop.
+  const queryStart = text.indexOf('?');
+  const withoutQuerySlash =
+    queryStart > 0 && text[queryStart - 1] === '/'
+      ? `${text.slice(0, queryStart - 1)}${text.slice(queryStart)}`
+      : text;
+
+  if (withoutQuerySlash.endsWith('/')) {
+    return { text: withoutQuerySlash.slice(0, -1), atPathEnd: true };
+  }
+  return { text: withoutQuerySlash, atPathEnd: false };
+}
+
+function normalizeUrlFragment(fragment: string): string {
+  // Same rule as canonicalizeHost, so `www.com/...` keeps its `www.`.
+  const withoutWww = fragment.replace(FRAGMENT_WWW_PATTERN, '$1');
+  return normalizePercentEncoding(
+    withoutWww.replace(PUNYCODE_LABEL_PATTERN, (label) => decodePunycodeLabel(label.toLowerCase()))
+  );
+}
+
+function canonicalizeHost(hostname: string): string {
+  const host = hostname.replace(/\.$/, '').split('.').map(decodePunycodeLabel).join('.');
+  // `www.example.com` is the same site as `example.com`, but `www.com` is not `com`.
+  return /^www\.[^.]+\./.test(host) ? host.slice(4) : host;
+}
+
+function canonicalizePath(pathname: string): string {
+  return normalizePercentEncoding(pathname).replace(/\/+$/, '');
+}
+
+/**
+ * Decode percent-escapes of unreserved and non-ASCII characters, and write every other escape in
+ * uppercase. Escaped delimiters such as `%2F` stay escaped because decoding them would change
+ * where the path or query parameters split.
+ */
+function normalizePercentEncoding(text: string): string {
+  return text
+    .replace(PERCENT_RUN_PATTERN, (run) => {
+      let decoded: string;
+      try {
+        decoded = decodeURIComponent(run);
+      } catch {
+        // Not valid UTF-8, so the bytes cannot be decoded to characters.
+        return run.toUpperCase();
+      }
+
+      let normalized = '';
+      for (const char of decoded) {
+        const code = char.codePointAt(0) ?? 0;
+        normalized += code > 0x7f || UNRESERVED_PATTERN.test(char) ? char : percentEncode(code);
+      }
+      return normalized;
+    })
+    .replace(ALWAYS_ESCAPED_PATTERN, (char) => percentEncode(char.charCodeAt(0)));
+}
+
+function percentEncode(asciiCode: number): string {
+  return `%${asciiCode.toString(16).toUpperCase().padStart(2, '0')}`;
+}
+
+// Punycode (RFC 3492) parameters for IDNA host labels.
+const PUNYCODE_BASE = 36;
+const PUNYCODE_TMIN = 1;
+const PUNYCODE_TMAX = 26;
+const PUNYCODE_SKEW = 38;
+const PUNYCODE_DAMP = 700;
+const PUNYCODE_INITIAL_BIAS = 72;
+const PUNYCODE_INITIAL_N = 128;
+const MAX_CODE_POINT = 0x10ffff;
+
+/**
+ * Decode an `xn--` host label to Unicode. Other labels, and labels that are not valid Punycode,
+ * are returned unchanged.
+ */
+function decodePunycodeLabel(label: string): string {
+  if (!label.startsWith('xn--')) {
+    return label;
+  }
+  return decodePunycode(label.slice(4)) ?? label;
+}
+
+function decodePunycode(input: string): string | null {
+  const output: number[] = [];
+  const delimiter = input.lastIndexOf('-');
+  for (let index = 0; index < delimiter; index++) {
+    const code = input.charCodeAt(index);
+    if (code >= 0x80) {
+      return null;
+    }
+    output.push(code);
+  }
+
+  let codePoint = PUNYCODE_INITIAL_N;
+  let bias = PUNYCODE_INITIAL_BIAS;
+  let insertAt = 0;
+  for (let index = delimiter > 0 ? delimiter + 1 : 0; index < input.length;) {
+    const previousInsertAt = insertAt;
+    for (let weight = 1, k = PUNYCODE_BASE; ; k += PUNYCODE_BASE) {
+      if (index >= input.length) {
+        return null;
+      }
+      const digit = decodePunycodeDigit(input.charCodeAt(index));
+      index += 1;
+      if (digit >= PUNYCODE_BASE) {
+        return null;
+      }
+
+      insertAt += digit * weight;
+      const threshold =
+        k <= bias ? PUNYCODE_TMIN : k >= bias + PUNYCODE_TMAX ? PUNYCODE_TMAX : k - bias;
+      if (digit < threshold) {
+        break;
+      }
+      weight *= PUNYCODE_BASE - threshold;
+      if (insertAt > MAX_CODE_POINT * (output.length + 1) || weight > MAX_CODE_POINT) {
+        return null;
+      }
+    }
+
+    const length = output.length + 1;
+    bias = adaptPunycodeBias(insertAt - previousInsertAt, length, previousInsertAt === 0);
+    codePoint += Math.floor(insertAt / length);
+    insertAt %= length;
+    if (codePoint > MAX_CODE_POINT) {
+      return null;
+    }
+    output.splice(insertAt, 0, codePoint);
+    insertAt += 1;
+  }
+
+  return String.fromCodePoint(...output).toLowerCase();
+}
+
+function decodePunycodeDigit(code: number): number {
+  if (code >= 0x30 && code <= 0x39) {
+    return code - 0x30 + 26;
+  }
+  if (code >= 0x61 && code <= 0x7a) {
+    return code - 0x61;
+  }
+  if (code >= 0x41 && code <= 0x5a) {
+    return code - 0x41;
+  }
+  return PUNYCODE_BASE;
+}
+
+function adaptPunycodeBias(delta: number, length: number, firstTime: boolean): number {
+  let scaled = firstTime ? Math.floor(delta / PUNYCODE_DAMP) : Math.floor(delta / 2);
+  scaled += Math.floor(scaled / length);
+  let k = 0;
+  while (scaled > ((PUNYCODE_BASE - PUNYCODE_TMIN) * PUNYCODE_TMAX) / 2) {
+    scaled = Math.floor(scaled / (PUNYCODE_BASE - PUNYCODE_TMIN));
+    k += PUNYCODE_BASE;
+  }
+  return k + Math.floor(((PUNYCODE_BASE - PUNYCODE_TMIN + 1) * scaled) / (scaled + PUNYCODE_SKEW));
+}
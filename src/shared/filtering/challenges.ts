@@ -0,0 +1,65 @@
+import { DEFAULT_CHALLENGE_PHRASE } from '../constants';
+import type {
+  ChallengePrompt,
+  ChallengeResponse,
+  ContinueChallenge,
+  IssuedChallenge,
+} from '../types';
+
+/**
+ * Issue `challenge` for a block made at `now`: the prompt goes to the block page, the issued
+ * challenge stays with the background to check the page's response against.
+ */
+export function issueChallenge(
+  challenge: ContinueChallenge,
+  token: string,
+  now = Date.now(),
+  random: () => number = Math.random
+): { readonly prompt: ChallengePrompt; readonly issued: IssuedChallenge } {
+  switch (challenge.type) {
+    case 'countdown': {
+      const readyAt = now + challenge.seconds * 1000;
+      return { prompt: { type: 'countdown', token, readyAt }, issued: { token, readyAt } };
+    }
+    case 'phrase': {
+      const phrase = challenge.phrase ?? DEFAULT_CHALLENGE_PHRASE;
+      return { prompt: { type: 'phrase', token, phrase }, issued: { token, answer: phrase } };
+    }
+    case 'arithmetic': {
+      // A one-digit by two-digit product: quick on paper, too slow to answer on autopilot.
+      const left = 3 + Math.floor(random() * 7);
+      const right = 12 + Math.floor(random() * 18);
+      return {
+        prompt: { type: 'arithmetic', token, question: `${left} × ${right}` },
+        issued: { token, answer: String(left * right) },
+      };
+    }
+  }
+}
+
+/**
+ * Whether `response` answers the issued challenge: it names the same token, comes after any
+ * countdown, and carries the expected answer when there is one.
+ */
+export function isChallengeAnswered(
+  issued: IssuedChallenge,
+  response: ChallengeResponse | undefined,
+  now = Date.now()
+): boolean {
+  if (response?.token !== issued.token) {
+    return false;
+  }
+
+  if (issued.readyAt !== undefined && now < issued.readyAt) {
+    return false;
+  }
+
+  return (
+    issued.answer === undefined ||
+    normalizeChallengeAnswer(response.answer ?? '') === normalizeChallengeAnswer(issued.answer)
+  );
+}
+
+export function normalizeChallengeAnswer(answer: string): string {
+  return answer.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -0,0 +1,102 @@
+import { PUBLIC_SUFFIX_RULES } from './publicSuffixList';
+
+const exactSuffixRules = new Set<string>();
+const wildcardSuffixRules = new Set<string>();
+const exceptionSuffixRules = new Set<string>();
+
+for (const rule of PUBLIC_SUFFIX_RULES) {
+  if (rule.startsWith('!')) {
+    exceptionSuffixRules.add(rule.slice(1));
+  } else if (rule.startsWith('*.')) {
+    wildcardSuffixRules.add(rule.slice(2));
+  } else {
+    exactSuffixRules.add(rule);
+  }
+}
+
+/**
+ * Whether a hostname is itself a public suffix such as `com` or `co.uk`, following the Public
+ * Suffix List algorithm: exception rules win over wildcards, and any single label is a suffix.
+ */
+export function isPublicSuffix(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  if (!host) {
+    return false;
+  }
+
+  if (exceptionSuffixRules.has(host)) {
+    return false;
+  }
+
+  if (!host.includes('.') || exactSuffixRules.has(host)) {
+    return true;
+  }
+
+  const parentDomain = host.slice(host.indexOf('.') + 1);
+  return wildcardSuffixRules.has(parentDomain);
+}
+
+/**
+ * Reduce a user-entered domain to a bare, lowercase, punycode hostname. Users paste anything from
+ * `Example.com` to `https://www.example.com/path`, so the scheme, credentials, port, path, a
+ * leading `*.` wildcard and a trailing root dot are all stripped. Returns null when nothing
+ * host-like is left.
+ */
+export function normalizeDomainPattern(pattern: string): string | null {
+  let candidate = pattern.trim();
+  if (!candidate) {
+    return null;
+  }
+
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(candidate)) {
+    candidate = `http://${candidate.replace(/^\*\./, '')}`;
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(candidate).hostname;
+  } catch {
+    return null;
+  }
+
+  hostname = hostname.replace(/^\*\./, '').replace(/\.$/, '');
+  if (!hostname || hostname.startsWith('.') || hostname.includes('..')) {
+    return null;
+  }
+
+  return hostname;
+}
+
+export function getDomainValidationError(pattern: string): string | null {
+  const domain = normalizeDomainPattern(pattern);
+  if (!domain) {
+    return 'Enter a domain such as example.com.';
+  }
+
+  if (isPublicSuffix(domain)) {
+    return `"${domain}" is a public suffix shared by unrelated sites. Enter a specific domain such as example.${domain}.`;
+  }
+
+  return null;
+}
+
+/**
+ * Extract the hostname a domain pattern is compared against. Non-hierarchical URLs such as
+ * `data:` have no hostname and never match a domain pattern.
+ */
+export function getUrlHostname(url: string): string | null {
+  try {
+    const hostname = new URL(url).hostname.replace(/\.$/, '');
+    return hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Match a hostname against a normalized domain and all of its subdomains, on label boundaries only,
+ * so `x.com` matches `x.com` and `api.x.com` but never `netflix.com`.
+ */
+export function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
@@ -1,15 +1,35 @@
-import type { Filter, FilterGroup, StorageData, Whitelist } from '../types';
+import type {
+  BudgetUsage,
+  Filter,
+  FilterGroup,
+  FocusSessionState,
+  StorageData,
+  VisitCounts,
+  Whitelist,
+} from '../types';
+import { isInternalUrl } from '../utils/helpers';
+import { getUrlHostname } from './domains';
+import { createPatternIndex, type PatternIndex } from './patternIndex';
 import { matchesPattern } from './patterns';
 import {
   buildGroupById,
   buildWhitelistByGroup,
+  getBudgetRemainingMs,
   getFilterEffectiveState,
-  getScheduleContext,
+  getGroupTransitions,
+  getScheduleClock,
+  getScheduleTimeInstant,
+  getVisitsUsed,
+  hasBudgetLeft,
+  hasVisitsLeft,
+  isAllowlistGroup,
+  isGroupInFocusSession,
+  isGroupActive,
   isSnoozeActive,
   isTemporaryFilter,
   isTemporaryFilterExpired,
-  sortFiltersTemporaryFirst,
-  type ScheduleContext,
+  sortFiltersForEvaluation,
+  type ScheduleTime,
 } from './schedules';
 
 export type FilterDecisionAllowReason =
@@ -22,18 +42,77 @@ export type FilterDecisionAllowReason =
 
 export type FilterDecision =
   | { readonly action: 'allow'; readonly reason: FilterDecisionAllowReason }
+  | {
+      readonly action: 'allow';
+      readonly reason: 'within-budget';
+      /** Groups that would block the URL and whose daily budget the visit counts against. */
+      readonly groupIds: readonly string[];
+    }
+  | {
+      readonly action: 'allow';
+      readonly reason: 'within-visit-limit';
+      /** Filters that would block the URL and whose daily visits a new visit counts against. */
+      readonly filterIds: readonly string[];
+    }
   | {
       readonly action: 'block';
       readonly filterId: string;
       readonly groupId: string;
       readonly reason: 'matched-filter';
-    };
+    }
+  | { readonly action: 'block'; readonly groupId: string; readonly reason: 'not-allowlisted' };
+
+/**
+ * What one matching filter did for a URL. Only the first filter that reaches `blocks` decides;
+ * later ones that would also block are `superseded`. Filters in an active allowlist group
+ * `allow` the URL instead.
+ */
+export type FilterMatchOutcome =
+  | { readonly outcome: 'blocks' }
+  | { readonly outcome: 'allows' }
+  | { readonly outcome: 'superseded'; readonly byFilterId: string }
+  | { readonly outcome: 'disabled' }
+  | { readonly outcome: 'expired' }
+  | {
+      readonly outcome: 'group-inactive';
+      readonly groupEnabled: boolean;
+      /** When the group next turns on, in epoch ms, or null if it never does by itself. */
+      readonly nextActivation: number | null;
+    }
+  | { readonly outcome: 'whitelisted'; readonly exception: Whitelist }
+  | { readonly outcome: 'within-budget'; readonly remainingMs: number }
+  | {
+      readonly outcome: 'within-visit-limit';
+      readonly visitsUsed: number;
+      readonly maxVisits: number;
+    }
+  | { readonly outcome: 'snoozed' };
+
+export type FilterMatchExplanation = FilterMatchOutcome & { readonly filter: Filter };
+
+export interface FilterExplanation {
+  readonly url: string;
+  readonly decision: FilterDecision;
+  /** Every filter whose pattern matched the URL, in evaluation order. */
+  readonly matches: readonly FilterMatchExplanation[];
+}
 
 export interface FilteringEngine {
   readonly data: StorageData;
   readonly groupsById: ReadonlyMap<string, FilterGroup>;
   readonly whitelistByGroup: ReadonlyMap<string, readonly Whitelist[]>;
-  evaluate: (url: string, context?: ScheduleContext) => FilterDecision;
+  evaluate: (
+    url: string,
+    context?: ScheduleTime,
+    budgetUsage?: BudgetUsage,
+    visitCounts?: VisitCounts
+  ) => FilterDecision;
+  explain: (
+    url: string,
+    context?: ScheduleTime,
+    budgetUsage?: BudgetUsage,
+    visitCounts?: VisitCounts
+  ) => FilterExplanation;
 }
 
 const FILTER_DECISION_REASON_PRIORITY: Record<FilterDecisionAllowReason, number> = {
@@ -45,30 +124,150 @@ const FILTER_DECISION_REASON_PRIORITY: Record<FilterDecisionAllowReason, number>
   snoozed: 5,
 };
 
+/**
+ * Build an engine for one rules version. Filters and exceptions are indexed up front so each
+ * navigation only looks at entries whose pattern can match; `evaluateFilterDecision` remains the
+ * straightforward scan the indexed path must agree with.
+ */
 export function createFilteringEngine(data: StorageData): FilteringEngine {
   const groupsById = buildGroupById(data.groups);
+  const allowlistGroups = data.groups.filter(isAllowlistGroup);
   const whitelistByGroup = buildWhitelistByGroup(data.whitelist);
-  const orderedFilters = sortFiltersTemporaryFirst(data.filters);
+  const filterIndex = createPatternIndex(sortFiltersForEvaluation(data.filters));
+  const whitelistIndexByGroup = new Map<string, PatternIndex<Whitelist>>();
+  for (const [groupId, entries] of whitelistByGroup) {
+    whitelistIndexByGroup.set(groupId, createPatternIndex(entries));
+  }
+
+  const evaluate = (
+    url: string,
+    context: ScheduleTime = getScheduleClock(),
+    budgetUsage: BudgetUsage = {},
+    visitCounts: VisitCounts = {}
+  ): FilterDecision => {
+    if (isSnoozeActive(data.snooze)) {
+      return { action: 'allow', reason: 'snoozed' };
+    }
+
+    const urlLower = url.toLowerCase();
+    const urlHostname = getUrlHostname(url);
+    const whitelistedGroups = new Map<string, boolean>();
+
+    return decideForMatchingFilters(
+      url,
+      filterIndex.findMatches(url, urlLower, urlHostname),
+      (groupId) => {
+        let whitelisted = whitelistedGroups.get(groupId);
+        if (whitelisted === undefined) {
+          whitelisted =
+            whitelistIndexByGroup.get(groupId)?.hasMatch(url, urlLower, urlHostname) ?? false;
+          whitelistedGroups.set(groupId, whitelisted);
+        }
+        return whitelisted;
+      },
+      {
+        context,
+        budgetUsage,
+        visitCounts,
+        groupsById,
+        allowlistGroups,
+        focusSession: data.focusSession,
+      }
+    );
+  };
 
   return {
     data,
     groupsById,
     whitelistByGroup,
-    evaluate(url, context = getScheduleContext()): FilterDecision {
-      return evaluateFilterDecision(url, data, {
-        context,
-        filters: orderedFilters,
-        groupsById,
-        whitelistByGroup,
-      });
+    evaluate,
+    explain(
+      url,
+      context = getScheduleClock(),
+      budgetUsage = {},
+      visitCounts = {}
+    ): FilterExplanation {
+      const urlLower = url.toLowerCase();
+      const urlHostname = getUrlHostname(url);
+      const snoozed = isSnoozeActive(data.snooze);
+      const now = Date.now();
+      let blockingFilterId: string | null = null;
+
+      const getOutcome = (filter: Filter): FilterMatchOutcome => {
+        if (snoozed) {
+          return { outcome: 'snoozed' };
+        }
+        if (!filter.enabled) {
+          return { outcome: 'disabled' };
+        }
+        if (isTemporaryFilterExpired(filter, now)) {
+          return { outcome: 'expired' };
+        }
+
+        const group = groupsById.get(filter.groupId);
+        const state = getFilterEffectiveState(filter, groupsById, context, now, data.focusSession);
+        if (!state.groupActive) {
+          return {
+            outcome: 'group-inactive',
+            groupEnabled: state.groupEnabled,
+            nextActivation: group
+              ? getGroupTransitions(group, getScheduleTimeInstant(group, context, now)).activatesAt
+              : null,
+          };
+        }
+        if (isAllowlistGroup(group)) {
+          return { outcome: 'allows' };
+        }
+
+        // Temporary filters are quick blocks that exceptions do not override.
+        const exception = isTemporaryFilter(filter)
+          ? undefined
+          : whitelistIndexByGroup.get(filter.groupId)?.findMatches(url, urlLower, urlHostname)[0];
+        if (exception) {
+          return { outcome: 'whitelisted', exception };
+        }
+
+        const remainingMs =
+          group && !isTemporaryFilter(filter)
+            ? getBudgetRemainingMs(group, budgetUsage, now)
+            : null;
+        if (remainingMs !== null && remainingMs > 0) {
+          return { outcome: 'within-budget', remainingMs };
+        }
+        if (!isTemporaryFilter(filter) && hasVisitsLeft(filter, group, visitCounts, now)) {
+          return {
+            outcome: 'within-visit-limit',
+            visitsUsed: getVisitsUsed(filter, group, visitCounts, now),
+            maxVisits: filter.maxVisitsPerDay ?? 0,
+          };
+        }
+
+        if (blockingFilterId !== null) {
+          return { outcome: 'superseded', byFilterId: blockingFilterId };
+        }
+        blockingFilterId = filter.id;
+        return { outcome: 'blocks' };
+      };
+
+      const matches = filterIndex
+        .findMatches(url, urlLower, urlHostname)
+        .map((filter): FilterMatchExplanation => ({ ...getOutcome(filter), filter }));
+
+      return { url, decision: evaluate(url, context, budgetUsage, visitCounts), matches };
     },
   };
 }
 
 interface EvaluationOptions {
-  readonly context: ScheduleContext;
+  /** When to evaluate schedules; a fixed context applies as-is to groups in any time zone. */
+  readonly context: ScheduleTime;
+  /** Daily budget usage; groups with budget left let their matches through. */
+  readonly budgetUsage: BudgetUsage;
+  /** Daily visit counts; filters with visits left let their matches through. */
+  readonly visitCounts: VisitCounts;
   readonly filters: readonly Filter[];
   readonly groupsById: ReadonlyMap<string, FilterGroup>;
+  readonly allowlistGroups: readonly FilterGroup[];
   readonly whitelistByGroup: ReadonlyMap<string, readonly Whitelist[]>;
 }
 
@@ -81,16 +280,59 @@ export function evaluateFilterDecision(
     return { action: 'allow', reason: 'snoozed' };
   }
 
-  const context = options?.context ?? getScheduleContext();
-  const filters = options?.filters ?? sortFiltersTemporaryFirst(data.filters);
+  const context = options?.context ?? getScheduleClock();
+  const budgetUsage = options?.budgetUsage ?? {};
+  const visitCounts = options?.visitCounts ?? {};
+  const filters = options?.filters ?? sortFiltersForEvaluation(data.filters);
   const groupsById = options?.groupsById ?? buildGroupById(data.groups);
+  const allowlistGroups = options?.allowlistGroups ?? data.groups.filter(isAllowlistGroup);
   const whitelistByGroup = options?.whitelistByGroup ?? buildWhitelistByGroup(data.whitelist);
   const urlLower = url.toLowerCase();
+  const urlHostname = getUrlHostname(url);
+
+  return decideForMatchingFilters(
+    url,
+    filters.filter((filter) => matchesPattern(url, filter, undefined, urlLower, urlHostname)),
+    (groupId) =>
+      whitelistByGroup
+        .get(groupId)
+        ?.some((entry) => matchesPattern(url, entry, undefined, urlLower, urlHostname)) ?? false,
+    {
+      context,
+      budgetUsage,
+      visitCounts,
+      groupsById,
+      allowlistGroups,
+      focusSession: data.focusSession,
+    }
+  );
+}
+
+/**
+ * Decide from the filters whose pattern matched, in evaluation order: the first one that is
+ * enabled, unexpired, in an active blocklist group, not excepted and within neither its group's
+ * daily budget nor its own daily visits blocks. Failing that, an active allowlist group blocks the
+ * URL unless one of its filters or exceptions matched or it has budget left; otherwise a group
+ * with budget left, a filter with visits left, or the most specific reason any filter was skipped
+ * explains the allow.
+ */
+function decideForMatchingFilters(
+  url: string,
+  matchingFilters: readonly Filter[],
+  isWhitelisted: (groupId: string) => boolean,
+  options: Pick<
+    EvaluationOptions,
+    'context' | 'budgetUsage' | 'visitCounts' | 'groupsById' | 'allowlistGroups'
+  > & { readonly focusSession: FocusSessionState | undefined }
+): FilterDecision {
   const now = Date.now();
   let fallbackReason: FilterDecisionAllowReason = 'no-match';
+  const budgetedGroupIds = new Set<string>();
+  const visitLimitedFilterIds: string[] = [];
 
-  for (const filter of filters) {
-    if (!matchesPattern(url, filter, undefined, urlLower)) {
+  for (const filter of matchingFilters) {
+    // Filters in allowlist groups list pages to keep, so they never block.
+    if (isAllowlistGroup(options.groupsById.get(filter.groupId))) {
       continue;
     }
 
@@ -104,17 +346,34 @@ export function evaluateFilterDecision(
       continue;
     }
 
-    if (!getFilterEffectiveState(filter, groupsById, context, now).groupActive) {
+    if (
+      !getFilterEffectiveState(
+        filter,
+        options.groupsById,
+        options.context,
+        now,
+        options.focusSession
+      ).groupActive
+    ) {
       fallbackReason = selectHigherPriorityReason(fallbackReason, 'group-inactive');
       continue;
     }
 
-    if (!isTemporaryFilter(filter)) {
-      const groupWhitelist = whitelistByGroup.get(filter.groupId);
-      if (groupWhitelist?.some((entry) => matchesPattern(url, entry, undefined, urlLower))) {
-        fallbackReason = selectHigherPriorityReason(fallbackReason, 'whitelisted');
-        continue;
-      }
+    if (!isTemporaryFilter(filter) && isWhitelisted(filter.groupId)) {
+      fallbackReason = selectHigherPriorityReason(fallbackReason, 'whitelisted');
+      continue;
+    }
+
+    // Temporary filters are quick blocks, so budgets and visit limits do not meter them either.
+    const group = options.groupsById.get(filter.groupId);
+    if (!isTemporaryFilter(filter) && group && hasBudgetLeft(group, options.budgetUsage, now)) {
+      budgetedGroupIds.add(group.id);
+      continue;
+    }
+
+    if (!isTemporaryFilter(filter) && hasVisitsLeft(filter, group, options.visitCounts, now)) {
+      visitLimitedFilterIds.push(filter.id);
+      continue;
     }
 
     return {
@@ -125,9 +384,58 @@ export function evaluateFilterDecision(
     };
   }
 
+  const allowlistGroups = findBlockingAllowlistGroups(url, matchingFilters, isWhitelisted, {
+    ...options,
+    now,
+  });
+  for (const group of allowlistGroups) {
+    if (!hasBudgetLeft(group, options.budgetUsage, now)) {
+      return { action: 'block', groupId: group.id, reason: 'not-allowlisted' };
+    }
+    budgetedGroupIds.add(group.id);
+  }
+
+  if (budgetedGroupIds.size > 0) {
+    return { action: 'allow', reason: 'within-budget', groupIds: [...budgetedGroupIds] };
+  }
+  if (visitLimitedFilterIds.length > 0) {
+    return { action: 'allow', reason: 'within-visit-limit', filterIds: visitLimitedFilterIds };
+  }
   return { action: 'allow', reason: fallbackReason };
 }
 
+/**
+ * The active allowlist groups that none of the matching filters or exceptions allow. Browser and
+ * extension pages are never blocked this way, so an allowlist cannot lock the user out of
+ * settings.
+ */
+function findBlockingAllowlistGroups(
+  url: string,
+  matchingFilters: readonly Filter[],
+  isWhitelisted: (groupId: string) => boolean,
+  options: Pick<EvaluationOptions, 'context' | 'allowlistGroups'> & {
+    readonly focusSession: FocusSessionState | undefined;
+    readonly now: number;
+  }
+): readonly FilterGroup[] {
+  if (options.allowlistGroups.length === 0 || isInternalUrl(url)) {
+    return [];
+  }
+
+  return options.allowlistGroups.filter(
+    (group) =>
+      (isGroupInFocusSession(group, options.focusSession, options.now) ||
+        isGroupActive(group, options.context)) &&
+      !matchingFilters.some(
+        (filter) =>
+          filter.groupId === group.id &&
+          filter.enabled &&
+          !isTemporaryFilterExpired(filter, options.now)
+      ) &&
+      !isWhitelisted(group.id)
+  );
+}
+
 function selectHigherPriorityReason(
   current: FilterDecisionAllowReason,
   candidate: FilterDecisionAllowReason
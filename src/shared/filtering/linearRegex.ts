@@ -0,0 +1,638 @@
+/**
+ * Linear-time regular expressions for regex filters.
+ *
+ * Filters run on every navigation inside the service worker, so a backtracking engine can freeze
+ * every block/allow decision on a pattern like `(a|a)*b`. Patterns here are compiled to a Thompson
+ * NFA and run as a Pike VM that advances all threads one character at a time, so a test costs at
+ * most O(input length x program size). The supported syntax is the part of JavaScript regex syntax
+ * that needs no backtracking: literals, `.`, character classes and `\d \w \s`, groups, alternation,
+ * greedy and lazy quantifiers, and `^ $ \b \B`. Backreferences and lookaround are rejected.
+ *
+ * Matching follows `new RegExp(pattern).test(input)` without flags: case-sensitive and over UTF-16
+ * code units.
+ */
+
+export interface LinearRegex {
+  readonly test: (input: string) => boolean;
+  /** Characters every match contains, usable as a cheap prefilter; empty when none are known. */
+  readonly requiredLiteral: string;
+}
+
+type CharRange = readonly [number, number];
+
+type RegexNode =
+  | { readonly type: 'empty' }
+  | { readonly type: 'char'; readonly ranges: readonly CharRange[] }
+  | { readonly type: 'concat'; readonly items: readonly RegexNode[] }
+  | { readonly type: 'alternation'; readonly options: readonly RegexNode[] }
+  | {
+      readonly type: 'repeat';
+      readonly node: RegexNode;
+      readonly min: number;
+      readonly max: number;
+    }
+  | { readonly type: 'assertion'; readonly kind: AssertionKind };
+
+type AssertionKind = 'start' | 'end' | 'word-boundary' | 'not-word-boundary';
+
+/** Try `next` and `alternate` in parallel; targets are patched once the code after is emitted. */
+interface SplitInstruction {
+  readonly op: 'split';
+  next: number;
+  alternate: number;
+}
+
+interface JumpInstruction {
+  readonly op: 'jump';
+  next: number;
+}
+
+type Instruction =
+  | { readonly op: 'char'; readonly ranges: readonly CharRange[] }
+  | SplitInstruction
+  | JumpInstruction
+  | { readonly op: 'assertion'; readonly kind: AssertionKind }
+  | { readonly op: 'match' };
+
+const MAX_CODE_UNIT = 0xffff;
+const MAX_PROGRAM_SIZE = 10_000;
+
+const DIGIT_RANGES: readonly CharRange[] = [[0x30, 0x39]];
+const WORD_RANGES: readonly CharRange[] = [
+  [0x30, 0x39],
+  [0x41, 0x5a],
+  [0x5f, 0x5f],
+  [0x61, 0x7a],
+];
+const SPACE_RANGES: readonly CharRange[] = [
+  [0x09, 0x0d],
+  [0x20, 0x20],
+  [0xa0, 0xa0],
+  [0x1680, 0x1680],
+  [0x2000, 0x200a],
+  [0x2028, 0x2029],
+  [0x202f, 0x202f],
+  [0x205f, 0x205f],
+  [0x3000, 0x3000],
+  [0xfeff, 0xfeff],
+];
+const LINE_TERMINATOR_RANGES: readonly CharRange[] = [
+  [0x0a, 0x0a],
+  [0x0d, 0x0d],
+  [0x2028, 0x2029],
+];
+const DOT_RANGES = complementRanges(LINE_TERMINATOR_RANGES);
+
+const CONTROL_ESCAPES: Readonly<Record<string, number>> = {
+  f: 0x0c,
+  n: 0x0a,
+  r: 0x0d,
+  t: 0x09,
+  v: 0x0b,
+};
+
+/** A pattern uses syntax outside the linear-time subset; the message is safe to display. */
+class UnsupportedRegexError extends Error {}
+
+/**
+ * Explain why a pattern cannot run as a linear-time regex, or null when it can. Callers are
+ * expected to have checked that the pattern is valid JavaScript regex syntax first.
+ */
+export function getLinearRegexError(pattern: string): string | null {
+  try {
+    compileProgram(pattern);
+    return null;
+  } catch (error) {
+    return error instanceof UnsupportedRegexError ? error.message : 'Pattern is not valid.';
+  }
+}
+
+/** Compile a pattern, or return null when it is invalid or outside the supported subset. */
+export function compileLinearRegex(pattern: string): LinearRegex | null {
+  let compiled: CompiledProgram;
+  try {
+    compiled = compileProgram(pattern);
+  } catch {
+    return null;
+  }
+
+  const { program, requiredLiteral } = compiled;
+  return {
+    test: (input) =>
+      (!requiredLiteral || input.includes(requiredLiteral)) && runProgram(program, input),
+    requiredLiteral,
+  };
+}
+
+interface CompiledProgram {
+  readonly program: readonly Instruction[];
+  readonly requiredLiteral: string;
+}
+
+function compileProgram(pattern: string): CompiledProgram {
+  const node = new RegexParser(pattern).parse();
+  const program: Instruction[] = [];
+  emitNode(node, program);
+  program.push({ op: 'match' });
+  return { program, requiredLiteral: getRequiredLiteral(node) };
+}
+
+/** The longest run of single characters at the top level of the pattern. */
+function getRequiredLiteral(node: RegexNode): string {
+  const items = node.type === 'concat' ? node.items : [node];
+  let longest = '';
+  let current = '';
+  for (const item of items) {
+    const range = item.type === 'char' && item.ranges.length === 1 ? item.ranges[0] : undefined;
+    if (range && range[0] === range[1]) {
+      current += String.fromCharCode(range[0]);
+      if (current.length > longest.length) {
+        longest = current;
+      }
+    } else {
+      current = '';
+    }
+  }
+  return longest;
+}
+
+class RegexParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): RegexNode {
+    const node = this.parseAlternation();
+    if (this.position < this.source.length) {
+      throw new Error('Unmatched ).');
+    }
+    return node;
+  }
+
+  private peek(offset = 0): string | undefined {
+    return this.source[this.position + offset];
+  }
+
+  private parseAlternation(): RegexNode {
+    const options = [this.parseConcatenation()];
+    while (this.peek() === '|') {
+      this.position += 1;
+      options.push(this.parseConcatenation());
+    }
+    return options.length === 1
+      ? (options[0] ?? { type: 'empty' })
+      : { type: 'alternation', options };
+  }
+
+  private parseConcatenation(): RegexNode {
+    const items: RegexNode[] = [];
+    for (
+      let char = this.peek();
+      char !== undefined && char !== '|' && char !== ')';
+      char = this.peek()
+    ) {
+      items.push(this.parseQuantifier(this.parseAtom()));
+    }
+    if (items.length === 0) {
+      return { type: 'empty' };
+    }
+    return items.length === 1 ? (items[0] ?? { type: 'empty' }) : { type: 'concat', items };
+  }
+
+  private parseQuantifier(node: RegexNode): RegexNode {
+    const char = this.peek();
+    let min: number;
+    let max: number;
+
+    if (char === '*') {
+      [min, max] = [0, Infinity];
+      this.position += 1;
+    } else if (char === '+') {
+      [min, max] = [1, Infinity];
+      this.position += 1;
+    } else if (char === '?') {
+      [min, max] = [0, 1];
+      this.position += 1;
+    } else if (char === '{') {
+      const bounds = /^\{(\d+)(?:(,)(\d*))?\}/.exec(this.source.slice(this.position));
+      if (!bounds) {
+        return node;
+      }
+      min = Number(bounds[1]);
+      max = bounds[2] === undefined ? min : bounds[3] ? Number(bounds[3]) : Infinity;
+      this.position += bounds[0].length;
+    } else {
+      return node;
+    }
+
+    if (node.type === 'assertion') {
+      throw new Error('Nothing to repeat.');
+    }
+
+    // Lazy and greedy quantifiers accept the same inputs; only the match they report differs.
+    if (this.peek() === '?') {
+      this.position += 1;
+    }
+
+    return { type: 'repeat', node, min, max };
+  }
+
+  private parseAtom(): RegexNode {
+    const char = this.peek() ?? '';
+    this.position += 1;
+
+    switch (char) {
+      case '(':
+        return this.parseGroup();
+      case '[':
+        return this.parseClass();
+      case '.':
+        return { type: 'char', ranges: DOT_RANGES };
+      case '^':
+        return { type: 'assertion', kind: 'start' };
+      case '$':
+        return { type: 'assertion', kind: 'end' };
+      case '\\':
+        return this.parseEscape();
+      default:
+        return literal(char.charCodeAt(0));
+    }
+  }
+
+  private parseGroup(): RegexNode {
+    if (this.peek() === '?') {
+      const marker = this.source.slice(this.position, this.position + 3);
+      if (marker.startsWith('?=') || marker.startsWith('?!')) {
+        throw new UnsupportedRegexError('Lookahead like (?=...) is not supported.');
+      }
+      if (marker === '?<=' || marker === '?<!') {
+        throw new UnsupportedRegexError('Lookbehind like (?<=...) is not supported.');
+      }
+      if (marker.startsWith('?:')) {
+        this.position += 2;
+      } else if (marker.startsWith('?<')) {
+        const close = this.source.indexOf('>', this.position);
+        if (close === -1) {
+          throw new Error('Invalid group name.');
+        }
+        this.position = close + 1;
+      } else {
+        throw new UnsupportedRegexError('Inline modifiers like (?i) are not supported.');
+      }
+    }
+
+    const node = this.parseAlternation();
+    if (this.peek() !== ')') {
+      throw new Error('Unterminated group.');
+    }
+    this.position += 1;
+    return node;
+  }
+
+  private parseEscape(): RegexNode {
+    const char = this.peek();
+    if (char === undefined) {
+      throw new Error('\\ at end of pattern.');
+    }
+
+    if (char === 'b') {
+      this.position += 1;
+      return { type: 'assertion', kind: 'word-boundary' };
+    }
+    if (char === 'B') {
+      this.position += 1;
+      return { type: 'assertion', kind: 'not-word-boundary' };
+    }
+    if (/[1-9]/.test(char) || char === 'k') {
+      throw new UnsupportedRegexError('Backreferences like \\1 are not supported.');
+    }
+
+    return { type: 'char', ranges: this.parseCharacterEscape(false) };
+  }
+
+  /** Parse the escape after a backslash into the ranges it matches. */
+  private parseCharacterEscape(inClass: boolean): readonly CharRange[] {
+    const char = this.peek() ?? '';
+    this.position += 1;
+
+    switch (char) {
+      case 'd':
+        return DIGIT_RANGES;
+      case 'D':
+        return complementRanges(DIGIT_RANGES);
+      case 'w':
+        return WORD_RANGES;
+      case 'W':
+        return complementRanges(WORD_RANGES);
+      case 's':
+        return SPACE_RANGES;
+      case 'S':
+        return complementRanges(SPACE_RANGES);
+      case 'x':
+      case 'u': {
+        const digits = char === 'x' ? 2 : 4;
+        const hex = this.source.slice(this.position, this.position + digits);
+        if (!new RegExp(`^[0-9a-fA-F]{${digits}}$`).test(hex)) {
+          throw new UnsupportedRegexError(`Incomplete escape \\${char} is not supported.`);
+        }
+        this.position += digits;
+        return singleRange(parseInt(hex, 16));
+      }
+      case '0':
+        if (/[0-9]/.test(this.peek() ?? '')) {
+          throw new UnsupportedRegexError('Octal escapes like \\01 are not supported.');
+        }
+        return singleRange(0);
+      case 'b':
+        // Inside a class \b is a backspace, not a word boundary.
+        if (inClass) {
+          return singleRange(0x08);
+        }
+        break;
+      default:
+        break;
+    }
+
+    const control = CONTROL_ESCAPES[char];
+    if (control !== undefined) {
+      return singleRange(control);
+    }
+
+    if (/[A-Za-z0-9]/.test(char)) {
+      throw new UnsupportedRegexError(`Escape \\${char} is not supported.`);
+    }
+
+    return singleRange(char.charCodeAt(0));
+  }
+
+  private parseClass(): RegexNode {
+    const negated = this.peek() === '^';
+    if (negated) {
+      this.position += 1;
+    }
+
+    const ranges: CharRange[] = [];
+    while (this.peek() !== ']') {
+      if (this.peek() === undefined) {
+        throw new Error('Unterminated character class.');
+      }
+
+      const start = this.parseClassAtom();
+      if (this.peek() === '-' && this.peek(1) !== ']' && this.peek(1) !== undefined) {
+        this.position += 1;
+        const end = this.parseClassAtom();
+        const [low] = start;
+        const [high] = end;
+        // A class escape such as \d next to a dash makes the dash literal.
+        if (
+          start.length === 1 &&
+          end.length === 1 &&
+          low &&
+          high &&
+          low[0] === low[1] &&
+          high[0] === high[1]
+        ) {
+          if (low[0] > high[0]) {
+            throw new Error('Range out of order in character class.');
+          }
+          ranges.push([low[0], high[0]]);
+        } else {
+          ranges.push(...start, [0x2d, 0x2d], ...end);
+        }
+      } else {
+        ranges.push(...start);
+      }
+    }
+    this.position += 1;
+
+    const normalized = normalizeRanges(ranges);
+    return { type: 'char', ranges: negated ? complementRanges(normalized) : normalized };
+  }
+
+  private parseClassAtom(): readonly CharRange[] {
+    const char = this.peek() ?? '';
+    this.position += 1;
+    if (char !== '\\') {
+      return singleRange(char.charCodeAt(0));
+    }
+    if (/[1-9]/.test(this.peek() ?? '')) {
+      throw new UnsupportedRegexError('Octal escapes like \\1 are not supported.');
+    }
+    return this.parseCharacterEscape(true);
+  }
+}
+
+function literal(code: number): RegexNode {
+  return { type: 'char', ranges: singleRange(code) };
+}
+
+function singleRange(code: number): readonly CharRange[] {
+  return [[code, code]];
+}
+
+function normalizeRanges(ranges: readonly CharRange[]): CharRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: CharRange[] = [];
+  for (const [low, high] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && low <= last[1] + 1) {
+      merged[merged.length - 1] = [last[0], Math.max(last[1], high)];
+    } else {
+      merged.push([low, high]);
+    }
+  }
+  return merged;
+}
+
+function complementRanges(ranges: readonly CharRange[]): CharRange[] {
+  const complement: CharRange[] = [];
+  let next = 0;
+  for (const [low, high] of normalizeRanges(ranges)) {
+    if (low > next) {
+      complement.push([next, low - 1]);
+    }
+    next = high + 1;
+  }
+  if (next <= MAX_CODE_UNIT) {
+    complement.push([next, MAX_CODE_UNIT]);
+  }
+  return complement;
+}
+
+function emit(program: Instruction[], instruction: Instruction): number {
+  if (program.length >= MAX_PROGRAM_SIZE) {
+    throw new UnsupportedRegexError(
+      'Pattern is too large to match safely. Use smaller {n,m} repeat counts.'
+    );
+  }
+  program.push(instruction);
+  return program.length - 1;
+}
+
+function emitNode(node: RegexNode, program: Instruction[]): void {
+  switch (node.type) {
+    case 'empty':
+      return;
+    case 'char':
+      emit(program, { op: 'char', ranges: node.ranges });
+      return;
+    case 'assertion':
+      emit(program, { op: 'assertion', kind: node.kind });
+      return;
+    case 'concat':
+      for (const item of node.items) {
+        emitNode(item, program);
+      }
+      return;
+    case 'alternation': {
+      const jumps: JumpInstruction[] = [];
+      node.options.forEach((option, index) => {
+        if (index === node.options.length - 1) {
+          emitNode(option, program);
+          return;
+        }
+        const split: SplitInstruction = { op: 'split', next: program.length + 1, alternate: 0 };
+        emit(program, split);
+        emitNode(option, program);
+        const jump: JumpInstruction = { op: 'jump', next: 0 };
+        emit(program, jump);
+        jumps.push(jump);
+        split.alternate = program.length;
+      });
+      for (const jump of jumps) {
+        jump.next = program.length;
+      }
+      return;
+    }
+    case 'repeat': {
+      for (let i = 0; i < node.min; i++) {
+        emitNode(node.node, program);
+      }
+
+      if (node.max === Infinity) {
+        const split: SplitInstruction = { op: 'split', next: program.length + 1, alternate: 0 };
+        const loopStart = emit(program, split);
+        emitNode(node.node, program);
+        emit(program, { op: 'jump', next: loopStart });
+        split.alternate = program.length;
+        return;
+      }
+
+      const splits: SplitInstruction[] = [];
+      for (let i = node.min; i < node.max; i++) {
+        const split: SplitInstruction = { op: 'split', next: program.length + 1, alternate: 0 };
+        emit(program, split);
+        splits.push(split);
+        emitNode(node.node, program);
+      }
+      for (const split of splits) {
+        split.alternate = program.length;
+      }
+      return;
+    }
+  }
+}
+
+function isWordCodeUnit(code: number): boolean {
+  return WORD_RANGES.some(([low, high]) => code >= low && code <= high);
+}
+
+function matchesRanges(ranges: readonly CharRange[], code: number): boolean {
+  for (const [low, high] of ranges) {
+    if (code < low) {
+      return false;
+    }
+    if (code <= high) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function runProgram(program: readonly Instruction[], input: string): boolean {
+  let current: number[] = [];
+  let next: number[] = [];
+  // The step at which each instruction was last added, so each is visited once per step.
+  const addedAt = new Int32Array(program.length).fill(-1);
+  let step = 0;
+  const stack: number[] = [];
+
+  const addThread = (threads: number[], pc: number, position: number): boolean => {
+    stack.length = 0;
+    stack.push(pc);
+    while (stack.length > 0) {
+      const index = stack.pop() ?? 0;
+      if (addedAt[index] === step) {
+        continue;
+      }
+      addedAt[index] = step;
+
+      const instruction = program[index];
+      switch (instruction?.op) {
+        case 'match':
+          return true;
+        case 'jump':
+          stack.push(instruction.next);
+          break;
+        case 'split':
+          stack.push(instruction.alternate, instruction.next);
+          break;
+        case 'assertion':
+          if (checkAssertion(instruction.kind, input, position)) {
+            stack.push(index + 1);
+          }
+          break;
+        case 'char':
+          threads.push(index);
+          break;
+        default:
+          break;
+      }
+    }
+    return false;
+  };
+
+  for (let position = 0; position <= input.length; position++) {
+    // Unanchored search: a new attempt starts at every position.
+    if (addThread(current, 0, position)) {
+      return true;
+    }
+
+    if (position === input.length) {
+      break;
+    }
+
+    const code = input.charCodeAt(position);
+    step += 1;
+    for (const pc of current) {
+      const instruction = program[pc];
+      if (
+        instruction?.op === 'char' &&
+        matchesRanges(instruction.ranges, code) &&
+        addThread(next, pc + 1, position + 1)
+      ) {
+        return true;
+      }
+    }
+
+    [current, next] = [next, current];
+    next.length = 0;
+  }
+
+  return false;
+}
+
+function checkAssertion(kind: AssertionKind, input: string, position: number): boolean {
+  switch (kind) {
+    case 'start':
+      return position === 0;
+    case 'end':
+      return position === input.length;
+    case 'word-boundary':
+    case 'not-word-boundary': {
+      const before = position > 0 && isWordCodeUnit(input.charCodeAt(position - 1));
+      const after = position < input.length && isWordCodeUnit(input.charCodeAt(position));
+      return (before !== after) === (kind === 'word-boundary');
+    }
+  }
+}
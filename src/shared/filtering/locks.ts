@@ -0,0 +1,302 @@
+import type {
+  ContinueChallenge,
+  DailyBudget,
+  Filter,
+  FilterGroup,
+  StorageData,
+  TimeSchedule,
+  Whitelist,
+} from '../types';
+import {
+  getGroupTransitions,
+  getScheduleClock,
+  isAllowlistGroup,
+  isGroupActive,
+  isGroupEnabled,
+  isGroupInFocusSession,
+  isSnoozeActive,
+  isTemporaryFilterExpired,
+} from './schedules';
+
+/** A change a commitment lock refuses while its group is active. */
+export type LockedOperation =
+  | 'disable-group'
+  | 'loosen-filters'
+  | 'add-exceptions'
+  | 'loosen-schedule'
+  | 'loosen-continue'
+  | 'snooze'
+  | 'end-focus-session';
+
+export const LOCKED_OPERATIONS: readonly LockedOperation[] = [
+  'disable-group',
+  'loosen-filters',
+  'add-exceptions',
+  'loosen-schedule',
+  'loosen-continue',
+  'snooze',
+  'end-focus-session',
+];
+
+export interface ActiveLock {
+  readonly groupId: string;
+  readonly groupName: string;
+  /** When the group next turns off and the lock lifts, or null if it stays on. */
+  readonly until: number | null;
+}
+
+export interface LockViolation extends ActiveLock {
+  readonly operation: LockedOperation;
+}
+
+/**
+ * The locked groups that are on at `now`, by schedule or by a running focus session. A snooze
+ * does not lift a lock: the lock is about the rules, not whether they apply this minute.
+ */
+export function getActiveLocks(data: StorageData, now = Date.now()): ActiveLock[] {
+  const clock = getScheduleClock(now);
+  return data.groups
+    .filter(
+      (group) =>
+        group.locked === true &&
+        isGroupEnabled(group) &&
+        (isGroupActive(group, clock) || isGroupInFocusSession(group, data.focusSession, now))
+    )
+    .map((group) => ({
+      groupId: group.id,
+      groupName: group.name,
+      until: getLockedUntil(group, data, now),
+    }));
+}
+
+/**
+ * When a group that is on now turns off: when its schedule ends or, while a focus session holds
+ * it on, when the session ends, if the schedule is off by then.
+ */
+function getLockedUntil(group: FilterGroup, data: StorageData, now: number): number | null {
+  const focusUntil = isGroupInFocusSession(group, data.focusSession, now)
+    ? data.focusSession?.until
+    : undefined;
+  if (focusUntil !== undefined && !isGroupActive(group, getScheduleClock(focusUntil))) {
+    return focusUntil;
+  }
+
+  return getGroupTransitions(group, focusUntil ?? now).deactivatesAt;
+}
+
+/**
+ * Every way `next` loosens a group that is locked and active in `current`. Changes that only make
+ * the rules stricter, and changes to groups that are not locked or not on, pass.
+ */
+export function getLockViolations(
+  current: StorageData,
+  next: StorageData,
+  now = Date.now()
+): LockViolation[] {
+  const violations: LockViolation[] = [];
+  for (const lock of getActiveLocks(current, now)) {
+    const before = current.groups.find((group) => group.id === lock.groupId);
+    const after = next.groups.find((group) => group.id === lock.groupId);
+    if (!before) {
+      continue;
+    }
+
+    const operations = new Set<LockedOperation>();
+    if (!after || !isGroupEnabled(after) || after.locked !== true) {
+      operations.add('disable-group');
+    }
+    if (after && loosensSchedule(before, after)) {
+      operations.add('loosen-schedule');
+    }
+    if (after && loosensContinue(before, after)) {
+      operations.add('loosen-continue');
+    }
+    if (loosensFilters(before, current, next, now)) {
+      operations.add('loosen-filters');
+    }
+    if (addsExceptions(before, current, next)) {
+      operations.add('add-exceptions');
+    }
+    if (isSnoozeActive(next.snooze, now) && extendsSnooze(current, next, now)) {
+      operations.add('snooze');
+    }
+    if (
+      isGroupInFocusSession(before, current.focusSession, now) &&
+      !(
+        isGroupInFocusSession(before, next.focusSession, now) &&
+        (next.focusSession?.until ?? 0) >= (current.focusSession?.until ?? 0)
+      )
+    ) {
+      operations.add('end-focus-session');
+    }
+
+    for (const operation of operations) {
+      violations.push({ ...lock, operation });
+    }
+  }
+  return violations;
+}
+
+function extendsSnooze(current: StorageData, next: StorageData, now: number): boolean {
+  return (
+    !isSnoozeActive(current.snooze, now) ||
+    (next.snooze.until ?? Infinity) > (current.snooze.until ?? Infinity)
+  );
+}
+
+/**
+ * A schedule may gain stretches but not lose any: existing schedules stay as they are, no new
+ * days off, and no more daily budget.
+ */
+function loosensSchedule(before: FilterGroup, after: FilterGroup): boolean {
+  if ((before.mode ?? 'blocklist') !== (after.mode ?? 'blocklist')) {
+    return true;
+  }
+
+  if (before.is24x7 && !after.is24x7) {
+    return true;
+  }
+
+  if (
+    !after.is24x7 &&
+    (before.timeZone !== after.timeZone ||
+      !isSubset(before.schedules, after.schedules, getScheduleKey))
+  ) {
+    return true;
+  }
+
+  return (
+    !isSubset(after.excludedDates ?? [], before.excludedDates ?? [], JSON.stringify) ||
+    loosensBudget(before.dailyBudget, after.dailyBudget)
+  );
+}
+
+function loosensBudget(before: DailyBudget | undefined, after: DailyBudget | undefined): boolean {
+  if (!after) {
+    return false;
+  }
+
+  return (
+    !before ||
+    after.minutes > before.minutes ||
+    (after.resetTime ?? '00:00') !== (before.resetTime ?? '00:00')
+  );
+}
+
+/**
+ * Continue may ask for more, not less: a challenge stays, or a countdown only grows, and the
+ * bypass reaches no further, lasts no longer and is allowed no more often.
+ */
+function loosensContinue(before: FilterGroup, after: FilterGroup): boolean {
+  if (before.challenge && loosensChallenge(before.challenge, after.challenge)) {
+    return true;
+  }
+
+  const previous = before.bypass ?? {};
+  const updated = after.bypass ?? {};
+  return (
+    ((updated.scope ?? 'page') !== 'page' && updated.scope !== previous.scope) ||
+    (previous.minutes !== undefined &&
+      (updated.minutes === undefined || updated.minutes > previous.minutes)) ||
+    (previous.maxPerDay !== undefined &&
+      (updated.maxPerDay === undefined || updated.maxPerDay > previous.maxPerDay)) ||
+    (previous.requireReason === true && updated.requireReason !== true)
+  );
+}
+
+function loosensChallenge(
+  before: ContinueChallenge,
+  after: ContinueChallenge | undefined
+): boolean {
+  if (before.type === 'countdown') {
+    return after?.type !== 'countdown' || after.seconds < before.seconds;
+  }
+
+  return JSON.stringify(after) !== JSON.stringify(before);
+}
+
+/**
+ * Whether an entry that blocks for the group — an enabled filter of a blocklist group — is
+ * removed, moved, switched off, or changed to block less. Expired temporary filters may go.
+ */
+function loosensFilters(
+  group: FilterGroup,
+  current: StorageData,
+  next: StorageData,
+  now: number
+): boolean {
+  if (isAllowlistGroup(group)) {
+    return false;
+  }
+
+  const nextById = new Map(next.filters.map((filter) => [filter.id, filter]));
+  return current.filters.some((filter) => {
+    if (filter.groupId !== group.id || !filter.enabled || isTemporaryFilterExpired(filter, now)) {
+      return false;
+    }
+
+    const updated = nextById.get(filter.id);
+    return (
+      !updated ||
+      !updated.enabled ||
+      !isSameEntryRule(filter, updated) ||
+      (updated.expiresAt !== undefined &&
+        (filter.expiresAt === undefined || updated.expiresAt < filter.expiresAt)) ||
+      (updated.maxVisitsPerDay !== undefined &&
+        (filter.maxVisitsPerDay === undefined || updated.maxVisitsPerDay > filter.maxVisitsPerDay))
+    );
+  });
+}
+
+/**
+ * Whether an entry that lets pages through for the group — an exception, or a filter of an
+ * allowlist group — is added, moved in, switched on, or changed to match something else.
+ */
+function addsExceptions(group: FilterGroup, current: StorageData, next: StorageData): boolean {
+  const loosens = <T extends Filter | Whitelist>(
+    previous: readonly T[],
+    updated: readonly T[]
+  ): boolean => {
+    const previousById = new Map(previous.map((entry) => [entry.id, entry]));
+    return updated.some((entry) => {
+      if (entry.groupId !== group.id || !entry.enabled) {
+        return false;
+      }
+
+      const before = previousById.get(entry.id);
+      return !before?.enabled || !isSameEntryRule(before, entry);
+    });
+  };
+
+  return (
+    loosens(current.whitelist, next.whitelist) ||
+    (isAllowlistGroup(group) && loosens(current.filters, next.filters))
+  );
+}
+
+function isSameEntryRule(a: Filter | Whitelist, b: Filter | Whitelist): boolean {
+  return (
+    a.groupId === b.groupId &&
+    a.pattern === b.pattern &&
+    a.matchMode === b.matchMode &&
+    (a.target ?? 'url') === (b.target ?? 'url')
+  );
+}
+
+function isSubset<T>(items: readonly T[], of: readonly T[], getKey: (item: T) => string): boolean {
+  const keys = new Set(of.map(getKey));
+  return items.every((item) => keys.has(getKey(item)));
+}
+
+function getScheduleKey(schedule: TimeSchedule): string {
+  return JSON.stringify([
+    [...schedule.daysOfWeek].sort((a, b) => a - b),
+    schedule.startTime,
+    schedule.endTime,
+    schedule.validFrom,
+    schedule.validUntil,
+    schedule.weekInterval,
+    schedule.anchorDate,
+    schedule.weeksOfMonth,
+  ]);
+}
@@ -0,0 +1,280 @@
+import type { FilterMatchMode, FilterTarget } from '../types';
+import { getAdblockHostKey, getHostLabelOffsets } from './adblock';
+import { createSubstringMatcher, type SubstringMatcher } from './ahoCorasick';
+import { isPathBoundary } from './canonicalUrl';
+import {
+  getCanonicalUrlText,
+  getUrlComponent,
+  matchesPattern,
+  preparePattern,
+  type PreparedPattern,
+} from './patterns';
+import { getRequiredLiteral, isSeparatorChar } from './wildcard';
+
+interface IndexablePattern {
+  readonly pattern: string;
+  readonly matchMode: FilterMatchMode;
+  readonly target?: FilterTarget;
+}
+
+/**
+ * Finds which of many patterns match a URL without testing each one. Built once per rules
+ * version; every lookup returns exactly the entries `matchesPattern` would accept.
+ */
+export interface PatternIndex<T> {
+  /** Matching entries in the order they were given to `createPatternIndex`. */
+  readonly findMatches: (url: string, urlLower: string, urlHostname: string | null) => T[];
+  readonly hasMatch: (url: string, urlLower: string, urlHostname: string | null) => boolean;
+}
+
+interface IndexedEntry {
+  readonly position: number;
+  readonly prepared: PreparedPattern;
+}
+
+interface PrefilteredEntry {
+  readonly entry: IndexedEntry;
+  /** Text every match contains; empty when the pattern must always be tested. */
+  readonly literal: string;
+}
+
+/**
+ * Call `onCandidate` for each entry whose required literal occurs in the text, plus every entry
+ * that has no literal to look for.
+ */
+type CandidateFinder = (text: string, onCandidate: (entry: IndexedEntry) => void) => void;
+
+function createCandidateFinder(prefiltered: readonly PrefilteredEntry[]): CandidateFinder {
+  const withLiteral = prefiltered.filter(({ literal }) => literal);
+  const withoutLiteral = prefiltered.filter(({ literal }) => !literal).map(({ entry }) => entry);
+  const matcher =
+    withLiteral.length > 0
+      ? createSubstringMatcher(withLiteral.map(({ literal }) => literal))
+      : null;
+
+  return (text, onCandidate) => {
+    matcher?.forEachMatch(text, (literalIndex) => {
+      const candidate = withLiteral[literalIndex];
+      if (candidate) {
+        onCandidate(candidate.entry);
+      }
+    });
+    withoutLiteral.forEach(onCandidate);
+  };
+}
+
+/**
+ * Add the positions of the entries matching one URL component to `positions`. `exact` and
+ * `contains` patterns look at the lowercased canonical component instead of the text as written.
+ * With `stopAtFirst`, stop looking once any position has been added.
+ */
+type ComponentMatcher = (
+  text: string,
+  textLower: string,
+  canonicalText: string,
+  urlHostname: string | null,
+  positions: Set<number>,
+  stopAtFirst: boolean
+) => void;
+
+export function createPatternIndex<T extends IndexablePattern>(
+  entries: readonly T[]
+): PatternIndex<T> {
+  // Entries are indexed separately per URL component so each component is extracted once.
+  const entriesByTarget = new Map<FilterTarget, IndexablePattern[]>();
+  const positionsByTarget = new Map<FilterTarget, number[]>();
+  entries.forEach((entry, position) => {
+    // Domain patterns always look at the hostname, whatever their target says.
+    const target = entry.matchMode === 'domain' ? 'url' : (entry.target ?? 'url');
+    addToBucket(entriesByTarget, target, { ...entry, target });
+    addToBucket(positionsByTarget, target, position);
+  });
+
+  const componentMatchers = [...entriesByTarget].map(
+    ([target, targetEntries]) =>
+      [target, createComponentMatcher(targetEntries, positionsByTarget.get(target) ?? [])] as const
+  );
+
+  const findPositions = (
+    url: string,
+    urlLower: string,
+    urlHostname: string | null,
+    stopAtFirst: boolean
+  ): number[] => {
+    const positions = new Set<number>();
+    for (const [target, matchComponent] of componentMatchers) {
+      if (stopAtFirst && positions.size > 0) {
+        break;
+      }
+      if (target === 'url') {
+        const canonicalUrl = getCanonicalUrlText(url, target) ?? urlLower;
+        matchComponent(url, urlLower, canonicalUrl, urlHostname, positions, stopAtFirst);
+        continue;
+      }
+      const component = getUrlComponent(url, target);
+      const canonicalComponent = getCanonicalUrlText(url, target);
+      if (component !== null && canonicalComponent !== null) {
+        matchComponent(
+          component,
+          component.toLowerCase(),
+          canonicalComponent,
+          null,
+          positions,
+          stopAtFirst
+        );
+      }
+    }
+    return [...positions];
+  };
+
+  return {
+    findMatches(url, urlLower, urlHostname): T[] {
+      return findPositions(url, urlLower, urlHostname, false)
+        .sort((a, b) => a - b)
+        .flatMap((position) => {
+          const entry = entries[position];
+          return entry ? [entry] : [];
+        });
+    },
+    hasMatch(url, urlLower, urlHostname): boolean {
+      return findPositions(url, urlLower, urlHostname, true).length > 0;
+    },
+  };
+}
+
+function createComponentMatcher(
+  entries: readonly IndexablePattern[],
+  entryPositions: readonly number[]
+): ComponentMatcher {
+  const exactPatterns = new Map<string, number[]>();
+  const domainPatterns = new Map<string, number[]>();
+  const adblockHostPatterns = new Map<string, IndexedEntry[]>();
+  const containsPatterns: string[] = [];
+  const containsEntries: { readonly position: number; readonly atPathEnd: boolean }[] = [];
+  // Wildcards match the lowercased URL, while regexes are case-sensitive and match it as is.
+  const wildcardEntries: PrefilteredEntry[] = [];
+  const regexEntries: PrefilteredEntry[] = [];
+
+  entries.forEach((entry, index) => {
+    const position = entryPositions[index] ?? index;
+    const prepared: PreparedPattern = {
+      pattern: entry.pattern,
+      matchMode: entry.matchMode,
+      ...preparePattern(entry.pattern, entry.matchMode, entry.target),
+    };
+
+    // Patterns that failed to compile can never match, so they are left out entirely.
+    switch (entry.matchMode) {
+      case 'exact':
+        if (prepared.canonical) {
+          addToBucket(exactPatterns, prepared.canonical.text, position);
+        }
+        break;
+      case 'contains':
+        if (prepared.canonical) {
+          containsPatterns.push(prepared.canonical.text);
+          containsEntries.push({ position, atPathEnd: prepared.canonical.atPathEnd });
+        }
+        break;
+      case 'domain':
+        if (prepared.domain) {
+          addToBucket(domainPatterns, prepared.domain, position);
+        }
+        break;
+      case 'adblock': {
+        const hostKey = getAdblockHostKey(entry.pattern);
+        if (hostKey) {
+          addToBucket(adblockHostPatterns, hostKey, { position, prepared });
+        } else if (prepared.adblock) {
+          wildcardEntries.push({
+            entry: { position, prepared },
+            literal: getRequiredLiteral(prepared.adblock),
+          });
+        }
+        break;
+      }
+      case 'glob':
+        if (prepared.glob) {
+          wildcardEntries.push({
+            entry: { position, prepared },
+            literal: getRequiredLiteral(prepared.glob),
+          });
+        }
+        break;
+      case 'regex':
+        if (prepared.regex) {
+          regexEntries.push({
+            entry: { position, prepared },
+            literal: prepared.regex.requiredLiteral,
+          });
+        }
+        break;
+    }
+  });
+
+  const containsMatcher: SubstringMatcher | null =
+    containsPatterns.length > 0 ? createSubstringMatcher(containsPatterns) : null;
+  const findWildcardCandidates = createCandidateFinder(wildcardEntries);
+  const findRegexCandidates = createCandidateFinder(regexEntries);
+
+  return (url, urlLower, canonicalText, urlHostname, positions, stopAtFirst) => {
+    const add = (position: number): void => {
+      positions.add(position);
+    };
+    const test = (candidate: IndexedEntry): void => {
+      if (
+        !(stopAtFirst && positions.size > 0) &&
+        !positions.has(candidate.position) &&
+        matchesPattern(url, candidate.prepared, undefined, urlLower, urlHostname)
+      ) {
+        positions.add(candidate.position);
+      }
+    };
+
+    exactPatterns.get(canonicalText)?.forEach(add);
+
+    if (urlHostname !== null && domainPatterns.size > 0) {
+      domainPatterns.get(urlHostname)?.forEach(add);
+      for (
+        let dot = urlHostname.indexOf('.');
+        dot !== -1;
+        dot = urlHostname.indexOf('.', dot + 1)
+      ) {
+        domainPatterns.get(urlHostname.slice(dot + 1))?.forEach(add);
+      }
+    }
+
+    if (stopAtFirst && positions.size > 0) {
+      return;
+    }
+
+    containsMatcher?.forEachMatch(canonicalText, (patternIndex, end) => {
+      const containsEntry = containsEntries[patternIndex];
+      if (containsEntry && (!containsEntry.atPathEnd || isPathBoundary(canonicalText, end))) {
+        positions.add(containsEntry.position);
+      }
+    });
+
+    if (adblockHostPatterns.size > 0) {
+      for (const offset of getHostLabelOffsets(urlLower)) {
+        let end = offset;
+        while (end < urlLower.length && !isSeparatorChar(urlLower[end] ?? '')) {
+          end += 1;
+        }
+        adblockHostPatterns.get(urlLower.slice(offset, end))?.forEach(test);
+      }
+    }
+
+    findWildcardCandidates(urlLower, test);
+    findRegexCandidates(url, test);
+  };
+}
+
+function addToBucket<K, V>(buckets: Map<K, V[]>, key: K, value: V): void {
+  const bucket = buckets.get(key);
+  if (bucket) {
+    bucket.push(value);
+  } else {
+    buckets.set(key, [value]);
+  }
+}
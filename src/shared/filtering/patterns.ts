@@ -1,10 +1,37 @@
-import type { FilterMatchMode } from '../types';
+import type { FilterMatchMode, FilterTarget } from '../types';
+import {
+  getDomainValidationError,
+  getUrlHostname,
+  isPublicSuffix,
+  matchesDomain,
+  normalizeDomainPattern,
+} from './domains';
+import { compileAdblock, getAdblockValidationError } from './adblock';
+import {
+  canonicalizePattern,
+  canonicalizeUrl,
+  containsCanonicalPattern,
+  getCanonicalComponent,
+  type CanonicalPattern,
+} from './canonicalUrl';
+import { compileLinearRegex, getLinearRegexError, type LinearRegex } from './linearRegex';
+import {
+  compileGlob,
+  getGlobValidationError,
+  matchesWildcard,
+  type WildcardMatcher,
+} from './wildcard';
 
 export interface PreparedPattern {
   readonly pattern: string;
   readonly matchMode: FilterMatchMode;
-  readonly patternLower?: string;
-  readonly regex?: RegExp | null;
+  readonly target?: FilterTarget;
+  /** Lowercased canonical form of an `exact` or `contains` pattern. */
+  readonly canonical?: CanonicalPattern;
+  readonly regex?: LinearRegex | null;
+  readonly domain?: string | null;
+  readonly glob?: WildcardMatcher | null;
+  readonly adblock?: WildcardMatcher | null;
 }
 
 const MAX_REGEX_PATTERN_LENGTH = 512;
@@ -20,142 +47,211 @@ export function getRegexValidationError(pattern: string): string | null {
     return error instanceof Error ? error.message : String(error);
   }
 
-  if (hasNestedUnboundedQuantifier(pattern)) {
-    return 'Nested unbounded repetition like (a+)+ can hang the browser while matching. Simplify the pattern.';
-  }
+  return getLinearRegexError(pattern);
+}
 
+/**
+ * Validate a pattern for its match mode. Returns a user-facing message, or null when the pattern
+ * can be saved. Plain-text modes accept anything.
+ */
+export function getPatternValidationError(
+  pattern: string,
+  matchMode: FilterMatchMode
+): string | null {
+  if (matchMode === 'regex') {
+    return getRegexValidationError(pattern);
+  }
+  if (matchMode === 'domain') {
+    return getDomainValidationError(pattern);
+  }
+  if (matchMode === 'glob') {
+    return getGlobValidationError(pattern);
+  }
+  if (matchMode === 'adblock') {
+    return getAdblockValidationError(pattern);
+  }
   return null;
 }
 
 /**
- * Detect a repeated group that itself contains an unbounded repeat, e.g. (a+)+ or (a*){2,}.
- * These patterns can backtrack exponentially, and filters run on every navigation inside the
- * service worker, so a catastrophic pattern freezes all block/allow decisions. The pattern is
- * known to compile before this runs, so parentheses outside character classes are balanced.
+ * Why a pattern that validates still never matches, or null. Pages are matched without their
+ * `#fragment`, so `exact`, `contains` and regex patterns that need a `#` find nothing.
  */
-function hasNestedUnboundedQuantifier(pattern: string): boolean {
-  const containsUnbounded: boolean[] = [false];
-  let inCharacterClass = false;
-
-  for (let i = 0; i < pattern.length; i++) {
-    const char = pattern[i];
+export function getPatternMatchWarning(
+  pattern: string,
+  matchMode: FilterMatchMode,
+  target?: FilterTarget
+): string | null {
+  const needsFragment =
+    matchMode === 'exact' || matchMode === 'contains'
+      ? canonicalizePattern(pattern, matchMode, target).text.includes('#')
+      : matchMode === 'regex' && (compileRegex(pattern)?.requiredLiteral.includes('#') ?? false);
+  return needsFragment
+    ? 'Pages are matched without the part after #, so remove it from the pattern.'
+    : null;
+}
 
-    if (char === '\\') {
-      i += 1;
-      continue;
-    }
+// Callers that pass plain pattern strings would otherwise re-parse every regex on every call.
+const MAX_COMPILED_REGEX_CACHE_SIZE = 1000;
+const compiledRegexCache = new Map<string, LinearRegex | null>();
 
-    if (inCharacterClass) {
-      if (char === ']') {
-        inCharacterClass = false;
-      }
-      continue;
-    }
+/**
+ * Compile a regex filter to the linear-time matcher. Stored patterns that are invalid or use
+ * syntax outside its subset never match, the same as a pattern that fails to compile.
+ */
+export function compileRegex(pattern: string): LinearRegex | null {
+  const cached = compiledRegexCache.get(pattern);
+  if (cached !== undefined) {
+    return cached;
+  }
 
-    switch (char) {
-      case '[':
-        inCharacterClass = true;
-        break;
-      case '(':
-        containsUnbounded.push(false);
-        break;
-      case ')': {
-        const groupHadUnbounded = containsUnbounded.pop() ?? false;
-        const quantifier = readQuantifier(pattern, i + 1);
-        if (groupHadUnbounded && quantifier.unbounded) {
-          return true;
-        }
-        if (groupHadUnbounded || quantifier.unbounded) {
-          containsUnbounded[containsUnbounded.length - 1] = true;
-        }
-        i += quantifier.length;
-        break;
-      }
-      case '+':
-      case '*':
-        containsUnbounded[containsUnbounded.length - 1] = true;
-        break;
-      case '{': {
-        const quantifier = readBraceQuantifier(pattern, i);
-        if (quantifier) {
-          if (quantifier.unbounded) {
-            containsUnbounded[containsUnbounded.length - 1] = true;
-          }
-          i += quantifier.length - 1;
-        }
-        break;
-      }
-    }
+  let compiled: LinearRegex | null;
+  try {
+    new RegExp(pattern);
+    compiled = compileLinearRegex(pattern);
+  } catch {
+    compiled = null;
   }
 
-  return false;
+  if (compiledRegexCache.size >= MAX_COMPILED_REGEX_CACHE_SIZE) {
+    compiledRegexCache.clear();
+  }
+  compiledRegexCache.set(pattern, compiled);
+  return compiled;
 }
 
-interface QuantifierScan {
-  readonly unbounded: boolean;
-  readonly length: number;
+/**
+ * Resolve a domain pattern to the hostname it matches, or null when it can never match. A bare
+ * public suffix is rejected at save time, but stored data may predate that check, and letting
+ * `co.uk` match would block every site under it.
+ */
+export function compileDomain(pattern: string): string | null {
+  const domain = normalizeDomainPattern(pattern);
+  return domain && !isPublicSuffix(domain) ? domain : null;
 }
 
-function readQuantifier(pattern: string, index: number): QuantifierScan {
-  const char = pattern[index];
-  if (char === '+' || char === '*') {
-    return { unbounded: true, length: 1 };
+export function preparePattern(
+  pattern: string,
+  matchMode: FilterMatchMode,
+  target: FilterTarget = 'url'
+): Pick<PreparedPattern, 'canonical' | 'regex' | 'domain' | 'glob' | 'adblock'> {
+  if (matchMode === 'regex') {
+    return { regex: compileRegex(pattern) };
   }
-  if (char === '{') {
-    const brace = readBraceQuantifier(pattern, index);
-    if (brace) {
-      return brace;
-    }
+  if (matchMode === 'domain') {
+    return { domain: compileDomain(pattern) };
+  }
+  if (matchMode === 'glob') {
+    return { glob: compileGlob(pattern) };
   }
-  return { unbounded: false, length: 0 };
+  if (matchMode === 'adblock') {
+    return { adblock: compileAdblock(pattern) };
+  }
+  return { canonical: prepareCanonicalPattern(pattern, matchMode, target) };
 }
 
-function readBraceQuantifier(pattern: string, index: number): QuantifierScan | null {
-  const match = /^\{(\d+)(?:,(\d*))?\}/.exec(pattern.slice(index));
-  if (!match) {
-    return null;
-  }
-  // {n,} has no upper bound; {n} and {n,m} are bounded.
-  return { unbounded: match[2] === '', length: match[0].length };
+function prepareCanonicalPattern(
+  pattern: string,
+  matchMode: 'exact' | 'contains',
+  target: FilterTarget
+): CanonicalPattern {
+  const canonical = canonicalizePattern(pattern, matchMode, target);
+  return { ...canonical, text: canonical.text.toLowerCase() };
 }
 
-export function compileRegex(pattern: string): RegExp | null {
+function isCanonicalMatchMode(matchMode: FilterMatchMode): matchMode is 'exact' | 'contains' {
+  return matchMode === 'exact' || matchMode === 'contains';
+}
+
+/**
+ * Extract the part of a URL a pattern targets: the hostname, the path, or the query string
+ * without its leading `?`. Returns null when the URL cannot be parsed.
+ */
+export function getUrlComponent(url: string, target: FilterTarget): string | null {
+  if (target === 'url') {
+    return url;
+  }
+
+  let parsed: URL;
   try {
-    return new RegExp(pattern);
+    parsed = new URL(url);
   } catch {
     return null;
   }
+
+  if (target === 'host') {
+    return parsed.hostname.replace(/\.$/, '');
+  }
+  if (target === 'path') {
+    return parsed.pathname;
+  }
+  return parsed.search.slice(1);
 }
 
-export function preparePattern(
-  pattern: string,
-  matchMode: FilterMatchMode
-): Pick<PreparedPattern, 'patternLower' | 'regex'> {
-  if (matchMode === 'regex') {
-    return { regex: compileRegex(pattern) };
+/**
+ * The lowercased canonical text `exact` and `contains` patterns are compared against: the whole
+ * canonical URL or the part of it a pattern targets. A URL that cannot be parsed is compared as
+ * is, but has no parts to target.
+ */
+export function getCanonicalUrlText(url: string, target: FilterTarget): string | null {
+  const canonical = canonicalizeUrl(url);
+  if (!canonical) {
+    return target === 'url' ? url.toLowerCase() : null;
   }
-  return { patternLower: pattern.toLowerCase() };
+  return getCanonicalComponent(canonical, target).toLowerCase();
 }
 
+/**
+ * Test a URL against a pattern, or against the part of it the pattern targets. `exact` and
+ * `contains` patterns compare canonical forms, while the other modes see the URL as written.
+ * Callers checking many patterns against one URL can pass the lowercased URL and its hostname
+ * (null when the URL has none) so they are derived only once.
+ */
 export function matchesPattern(
   url: string,
   pattern: string | PreparedPattern,
   matchMode: FilterMatchMode = 'contains',
-  urlLower?: string
+  urlLower?: string,
+  urlHostname?: string | null
 ): boolean {
   let resolvedPattern: string;
   let resolvedMode: FilterMatchMode;
-  let patternLower: string | undefined;
-  let regex: RegExp | null | undefined;
+  let target: FilterTarget = 'url';
+  let canonical: CanonicalPattern | undefined;
+  let regex: LinearRegex | null | undefined;
+  let domain: string | null | undefined;
+  let glob: WildcardMatcher | null | undefined;
+  let adblock: WildcardMatcher | null | undefined;
 
   if (typeof pattern === 'string') {
     resolvedPattern = pattern;
     resolvedMode = matchMode;
   } else {
+    // Domain patterns always look at the hostname, so a target only narrows the other modes.
+    if (
+      pattern.target &&
+      pattern.target !== 'url' &&
+      pattern.matchMode !== 'domain' &&
+      !isCanonicalMatchMode(pattern.matchMode)
+    ) {
+      const component = getUrlComponent(url, pattern.target);
+      return component !== null && matchesPattern(component, { ...pattern, target: 'url' });
+    }
+
     resolvedPattern = pattern.pattern;
     resolvedMode = pattern.matchMode;
-    patternLower = pattern.patternLower;
+    target = pattern.target ?? 'url';
+    canonical = pattern.canonical;
     regex = pattern.regex;
+    domain = pattern.domain;
+    glob = pattern.glob;
+    adblock = pattern.adblock;
+  }
+
+  if (resolvedMode === 'domain') {
+    const resolvedDomain = domain === undefined ? compileDomain(resolvedPattern) : domain;
+    const hostname = urlHostname === undefined ? getUrlHostname(url) : urlHostname;
+    return resolvedDomain !== null && hostname !== null && matchesDomain(hostname, resolvedDomain);
   }
 
   if (resolvedMode === 'regex') {
@@ -170,11 +266,27 @@ export function matchesPattern(
   }
 
   const normalizedUrl = urlLower ?? url.toLowerCase();
-  const normalizedPattern = patternLower ?? resolvedPattern.toLowerCase();
 
+  if (resolvedMode === 'glob') {
+    const resolvedGlob = glob === undefined ? compileGlob(resolvedPattern) : glob;
+    return resolvedGlob !== null && matchesWildcard(resolvedGlob, normalizedUrl);
+  }
+
+  if (resolvedMode === 'adblock') {
+    const resolvedAdblock = adblock === undefined ? compileAdblock(resolvedPattern) : adblock;
+    return resolvedAdblock !== null && matchesWildcard(resolvedAdblock, normalizedUrl);
+  }
+
+  const canonicalText = getCanonicalUrlText(url, target);
+  if (canonicalText === null) {
+    return false;
+  }
+
+  const canonicalPattern =
+    canonical ?? prepareCanonicalPattern(resolvedPattern, resolvedMode, target);
   if (resolvedMode === 'exact') {
-    return normalizedUrl === normalizedPattern;
+    return canonicalText === canonicalPattern.text;
   }
 
-  return normalizedUrl.includes(normalizedPattern);
+  return containsCanonicalPattern(canonicalText, canonicalPattern);
 }
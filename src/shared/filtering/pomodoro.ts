@@ -0,0 +1,62 @@
+import type { PomodoroPhase, PomodoroSettings, PomodoroState } from '../types';
+
+function getPhaseMinutes(settings: PomodoroSettings, phase: PomodoroPhase): number {
+  switch (phase) {
+    case 'focus':
+      return settings.focusMinutes;
+    case 'short-break':
+      return settings.shortBreakMinutes;
+    case 'long-break':
+      return settings.longBreakMinutes;
+  }
+}
+
+/**
+ * Begin a Pomodoro run with its first focus interval.
+ */
+export function createPomodoroState(settings: PomodoroSettings, now = Date.now()): PomodoroState {
+  return {
+    ...settings,
+    phase: 'focus',
+    cycle: 1,
+    phaseEndsAt: now + settings.focusMinutes * 60_000,
+  };
+}
+
+/**
+ * The phase that follows `state`, starting when it ends: a break after each focus interval, with
+ * a long one after every `longBreakEvery`th, and the next focus interval after a break. The run
+ * ends after its last focus interval, so `null` means it is over.
+ */
+export function getNextPomodoroState(state: PomodoroState): PomodoroState | null {
+  let phase: PomodoroPhase;
+  let cycle = state.cycle;
+  if (state.phase !== 'focus') {
+    phase = 'focus';
+    cycle += 1;
+  } else if (state.cycle >= state.cycles) {
+    return null;
+  } else {
+    phase = state.cycle % state.longBreakEvery === 0 ? 'long-break' : 'short-break';
+  }
+
+  return {
+    ...state,
+    phase,
+    cycle,
+    phaseEndsAt: state.phaseEndsAt + getPhaseMinutes(state, phase) * 60_000,
+  };
+}
+
+/**
+ * Move a run on to the phase running at `now`, stepping through any that ended while the service
+ * worker was asleep. Returns `state` itself while its phase is still running and `null` once the
+ * run is over.
+ */
+export function advancePomodoro(state: PomodoroState, now = Date.now()): PomodoroState | null {
+  let current: PomodoroState | null = state;
+  while (current && current.phaseEndsAt <= now) {
+    current = getNextPomodoroState(current);
+  }
+  return current;
+}
@@ -0,0 +1,252 @@
+/**
+ * Bundled subset of the ICANN section of the Public Suffix List (https://publicsuffix.org/).
+ *
+ * Every single-label TLD is implicitly a public suffix (the list's default `*` rule), so only
+ * multi-label suffixes need to be listed here. Rules use the list's own syntax: `*.` marks a
+ * wildcard label and a leading `!` marks an exception to a wildcard.
+ */
+export const PUBLIC_SUFFIX_RULES: readonly string[] = [
+  // Argentina
+  'com.ar',
+  'edu.ar',
+  'gob.ar',
+  'gov.ar',
+  'net.ar',
+  'org.ar',
+  // Austria
+  'ac.at',
+  'co.at',
+  'gv.at',
+  'or.at',
+  // Australia
+  'asn.au',
+  'com.au',
+  'edu.au',
+  'gov.au',
+  'id.au',
+  'net.au',
+  'org.au',
+  // Belgium / Bangladesh
+  'ac.be',
+  '*.bd',
+  // Brazil
+  'art.br',
+  'blog.br',
+  'com.br',
+  'edu.br',
+  'gov.br',
+  'net.br',
+  'org.br',
+  // Canada
+  'ab.ca',
+  'bc.ca',
+  'on.ca',
+  'qc.ca',
+  // Chile / China
+  'gob.cl',
+  'ac.cn',
+  'com.cn',
+  'edu.cn',
+  'gov.cn',
+  'net.cn',
+  'org.cn',
+  // Colombia
+  'com.co',
+  'edu.co',
+  'gov.co',
+  'net.co',
+  'org.co',
+  // Cook Islands
+  '*.ck',
+  '!www.ck',
+  // Egypt
+  'com.eg',
+  'edu.eg',
+  'gov.eg',
+  // Spain
+  'com.es',
+  'edu.es',
+  'gob.es',
+  'nom.es',
+  'org.es',
+  // France
+  'asso.fr',
+  'com.fr',
+  'gouv.fr',
+  'nom.fr',
+  // Greece
+  'com.gr',
+  'edu.gr',
+  'gov.gr',
+  'org.gr',
+  // Hong Kong
+  'com.hk',
+  'edu.hk',
+  'gov.hk',
+  'net.hk',
+  'org.hk',
+  // Indonesia
+  'ac.id',
+  'co.id',
+  'go.id',
+  'or.id',
+  'web.id',
+  // Ireland / Israel
+  'gov.ie',
+  'ac.il',
+  'co.il',
+  'gov.il',
+  'org.il',
+  // India
+  'ac.in',
+  'co.in',
+  'edu.in',
+  'firm.in',
+  'gen.in',
+  'gov.in',
+  'ind.in',
+  'net.in',
+  'nic.in',
+  'org.in',
+  'res.in',
+  // Italy
+  'gov.it',
+  // Japan
+  'ac.jp',
+  'ad.jp',
+  'co.jp',
+  'ed.jp',
+  'go.jp',
+  'gr.jp',
+  'lg.jp',
+  'ne.jp',
+  'or.jp',
+  // Kenya
+  'ac.ke',
+  'co.ke',
+  'go.ke',
+  'or.ke',
+  // South Korea
+  'ac.kr',
+  'co.kr',
+  'go.kr',
+  'ne.kr',
+  'or.kr',
+  're.kr',
+  // Mexico
+  'com.mx',
+  'edu.mx',
+  'gob.mx',
+  'net.mx',
+  'org.mx',
+  // Malaysia
+  'com.my',
+  'edu.my',
+  'gov.my',
+  'net.my',
+  'org.my',
+  // Nigeria
+  'com.ng',
+  'edu.ng',
+  'gov.ng',
+  'org.ng',
+  // New Zealand
+  'ac.nz',
+  'co.nz',
+  'geek.nz',
+  'govt.nz',
+  'net.nz',
+  'org.nz',
+  'school.nz',
+  // Peru / Philippines / Pakistan
+  'com.pe',
+  'gob.pe',
+  'com.ph',
+  'gov.ph',
+  'com.pk',
+  'gov.pk',
+  // Poland
+  'com.pl',
+  'edu.pl',
+  'gov.pl',
+  'net.pl',
+  'org.pl',
+  // Portugal
+  'com.pt',
+  'gov.pt',
+  'org.pt',
+  // Russia
+  'com.ru',
+  'net.ru',
+  'org.ru',
+  'msk.ru',
+  'spb.ru',
+  // Saudi Arabia / Singapore
+  'com.sa',
+  'gov.sa',
+  'com.sg',
+  'edu.sg',
+  'gov.sg',
+  'net.sg',
+  'org.sg',
+  // Thailand
+  'ac.th',
+  'co.th',
+  'go.th',
+  'in.th',
+  'or.th',
+  // Turkey
+  'av.tr',
+  'bel.tr',
+  'com.tr',
+  'edu.tr',
+  'gen.tr',
+  'gov.tr',
+  'net.tr',
+  'org.tr',
+  // Taiwan
+  'com.tw',
+  'edu.tw',
+  'gov.tw',
+  'net.tw',
+  'org.tw',
+  // Ukraine
+  'com.ua',
+  'gov.ua',
+  'in.ua',
+  'net.ua',
+  'org.ua',
+  // United Kingdom
+  'ac.uk',
+  'co.uk',
+  'gov.uk',
+  'ltd.uk',
+  'me.uk',
+  'net.uk',
+  'nhs.uk',
+  'org.uk',
+  'plc.uk',
+  'police.uk',
+  'sch.uk',
+  // United States
+  'fed.us',
+  'isa.us',
+  'nsn.us',
+  // Uruguay / Venezuela / Vietnam
+  'com.uy',
+  'gub.uy',
+  'com.ve',
+  'gob.ve',
+  'com.vn',
+  'edu.vn',
+  'gov.vn',
+  'net.vn',
+  'org.vn',
+  // South Africa
+  'ac.za',
+  'co.za',
+  'gov.za',
+  'net.za',
+  'org.za',
+  'web.za',
+];
@@ -1,5 +1,14 @@
-import type { Filter, FilterGroup, SnoozeState, TimeSchedule, Whitelist } from '../types';
-import { getCurrentDayOfWeek, getCurrentTimeString } from '../utils/helpers';
+import type {
+  BudgetUsage,
+  Filter,
+  FilterGroup,
+  FocusSessionState,
+  SnoozeState,
+  TimeSchedule,
+  VisitCounts,
+  Whitelist,
+} from '../types';
+import { formatTime } from '../utils/helpers';
 
 export type WhitelistByGroup<T extends Whitelist = Whitelist> = ReadonlyMap<string, readonly T[]>;
 export type GroupById = ReadonlyMap<string, FilterGroup>;
@@ -8,13 +17,27 @@ export type GroupLookup = GroupById | readonly FilterGroup[];
 export interface ScheduleContext {
   readonly dayOfWeek: number;
   readonly time: string;
+  /** Calendar day as YYYY-MM-DD; contexts without one ignore excluded dates and recurrence rules. */
+  readonly date?: string;
 }
 
+/**
+ * Reads the moment a group's schedules are checked against from one instant, in the group's own
+ * time zone.
+ */
+export type ScheduleClock = (group: FilterGroup) => ScheduleContext;
+
+/**
+ * Either a clock, or a fixed wall-clock moment that applies to every group whatever its time zone.
+ */
+export type ScheduleTime = ScheduleContext | ScheduleClock;
+
 export interface FilterEffectiveState {
   readonly filterEnabled: boolean;
   readonly groupEnabled: boolean;
   readonly groupActive: boolean;
   readonly active: boolean;
+  readonly focused?: boolean; // A focus session forces the group active
 }
 
 export function isTemporaryFilter(filter: Filter): filter is Filter & { expiresAt: number } {
@@ -66,6 +89,43 @@ export function isSnoozeExpired(snooze: SnoozeState | undefined, now = Date.now(
   return remaining !== null && remaining <= 0;
 }
 
+export function getFocusSessionRemainingMs(
+  session: FocusSessionState | undefined,
+  now = Date.now()
+): number | null {
+  if (!session?.active || typeof session.until !== 'number' || !Number.isFinite(session.until)) {
+    return null;
+  }
+
+  return session.until - now;
+}
+
+export function isFocusSessionActive(
+  session: FocusSessionState | undefined,
+  now = Date.now()
+): boolean {
+  const remaining = getFocusSessionRemainingMs(session, now);
+  return remaining !== null && remaining > 0;
+}
+
+export function isFocusSessionExpired(
+  session: FocusSessionState | undefined,
+  now = Date.now()
+): boolean {
+  return session?.active === true && !isFocusSessionActive(session, now);
+}
+
+/**
+ * Whether a running focus session forces the group active, whatever its schedule says.
+ */
+export function isGroupInFocusSession(
+  group: FilterGroup,
+  session: FocusSessionState | undefined,
+  now = Date.now()
+): boolean {
+  return isFocusSessionActive(session, now) && (session?.groupIds ?? []).includes(group.id);
+}
+
 export function sortFiltersTemporaryFirst<T extends Filter>(filters: readonly T[]): T[] {
   const temporary: T[] = [];
   const nonTemporary: T[] = [];
@@ -81,13 +141,78 @@ export function sortFiltersTemporaryFirst<T extends Filter>(filters: readonly T[
   return [...temporary, ...nonTemporary];
 }
 
-export function getScheduleContext(): ScheduleContext {
+export function getFilterPriority(filter: Filter): number {
+  return filter.priority ?? 0;
+}
+
+/**
+ * Order filters the way they are evaluated: temporary filters first, then by descending priority,
+ * keeping the stored order between filters of equal priority. The first match in this order is
+ * the filter that blocks and is shown on the blocked page.
+ */
+export function sortFiltersForEvaluation<T extends Filter>(filters: readonly T[]): T[] {
+  return [...filters].sort(
+    (a, b) =>
+      Number(isTemporaryFilter(b)) - Number(isTemporaryFilter(a)) ||
+      getFilterPriority(b) - getFilterPriority(a)
+  );
+}
+
+export function getScheduleContext(timeZone?: string): ScheduleContext {
+  return getScheduleContextAt(Date.now(), timeZone);
+}
+
+/**
+ * The schedule context of an instant in an IANA time zone, or in local time when the zone is
+ * omitted or unknown.
+ */
+export function getScheduleContextAt(
+  instant: number,
+  timeZone?: string
+): Required<ScheduleContext> {
+  const clock = getWallClock(instant, timeZone);
+  const date = new Date(Date.UTC(clock.year, clock.month - 1, clock.day));
   return {
-    dayOfWeek: getCurrentDayOfWeek(),
-    time: getCurrentTimeString(),
+    dayOfWeek: date.getUTCDay(),
+    time: formatTime(clock.hours, clock.minutes),
+    date: date.toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * A clock that reads `now` in each group's time zone.
+ */
+export function getScheduleClock(now = Date.now()): ScheduleClock {
+  const contextByTimeZone = new Map<string | undefined, ScheduleContext>();
+  return (group) => {
+    let context = contextByTimeZone.get(group.timeZone);
+    if (!context) {
+      context = getScheduleContextAt(now, group.timeZone);
+      contextByTimeZone.set(group.timeZone, context);
+    }
+    return context;
   };
 }
 
+export function resolveScheduleContext(group: FilterGroup, time: ScheduleTime): ScheduleContext {
+  return typeof time === 'function' ? time(group) : time;
+}
+
+/**
+ * The instant at which a group's clock reads `time`: on the context's own date when it has one,
+ * otherwise on that weekday in the week of `now`.
+ */
+export function getScheduleTimeInstant(
+  group: FilterGroup,
+  time: ScheduleTime,
+  now = Date.now()
+): number {
+  const context = resolveScheduleContext(group, time);
+  const today = getScheduleContextAt(now, group.timeZone);
+  const date = context.date ?? shiftDateString(today.date, context.dayOfWeek - today.dayOfWeek);
+  return getZonedInstant(date, parseTimeToMinutes(context.time), group.timeZone);
+}
+
 export function buildGroupById(groups: readonly FilterGroup[]): GroupById {
   return new Map(groups.map((group) => [group.id, group]));
 }
@@ -115,27 +240,46 @@ export function isGroupEnabled(group: FilterGroup | undefined): boolean {
   return group?.enabled !== false;
 }
 
+export function isAllowlistGroup(group: FilterGroup | undefined): boolean {
+  return group?.mode === 'allowlist';
+}
+
+/**
+ * Whether a group is enabled and inside one of its schedules.
+ */
+export function isGroupActive(
+  group: FilterGroup,
+  time: ScheduleTime = getScheduleClock()
+): boolean {
+  return isGroupEnabled(group) && isGroupScheduleActive(group, resolveScheduleContext(group, time));
+}
+
 export function isFilterActive(
   filter: Filter,
   groups: GroupLookup,
-  context: ScheduleContext = getScheduleContext()
+  time: ScheduleTime = getScheduleClock()
 ): boolean {
-  return getFilterEffectiveState(filter, groups, context).active;
+  return getFilterEffectiveState(filter, groups, time).active;
 }
 
 export function isFilterScheduledActive(
   filter: Filter,
   groups: GroupLookup,
-  context: ScheduleContext = getScheduleContext()
+  time: ScheduleTime = getScheduleClock()
 ): boolean {
-  return getFilterEffectiveState(filter, groups, context).groupActive;
+  return getFilterEffectiveState(filter, groups, time).groupActive;
 }
 
+/**
+ * Whether the filter and its group are on right now. A running focus session forces its groups
+ * active, even outside their schedules.
+ */
 export function getFilterEffectiveState(
   filter: Filter,
   groups: GroupLookup,
-  context: ScheduleContext = getScheduleContext(),
-  now = Date.now()
+  time: ScheduleTime = getScheduleClock(),
+  now = Date.now(),
+  focusSession?: FocusSessionState
 ): FilterEffectiveState {
   const expired = isTemporaryFilterExpired(filter, now);
   if (expired) {
@@ -158,14 +302,444 @@ export function getFilterEffectiveState(
   }
 
   const groupEnabled = isGroupEnabled(group);
-  const groupActive = groupEnabled && isGroupScheduleActive(group, context);
+  const focused = isGroupInFocusSession(group, focusSession, now);
+  const groupActive = focused || isGroupActive(group, time);
 
   return {
     filterEnabled: filter.enabled,
     groupEnabled,
     groupActive,
     active: filter.enabled && groupActive,
+    ...(focused ? { focused } : {}),
+  };
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+/**
+ * The epoch ms of the next moment after `now` at which a group schedule starts or ends, an excluded
+ * date range starts or ends, a daily budget resets, or a temporary filter expires, i.e. when a
+ * decision made now may stop being true. Returns null when nothing changes by itself. Schedules
+ * include their end minute, so a group switches off one minute after its end time.
+ */
+export function getNextScheduleBoundary(
+  groups: readonly FilterGroup[],
+  filters: readonly Filter[],
+  now = Date.now()
+): number | null {
+  let soonest: number | null = null;
+  const consider = (candidate: number): void => {
+    if (candidate > now && (soonest === null || candidate < soonest)) {
+      soonest = candidate;
+    }
   };
+
+  for (const group of groups) {
+    if (isGroupEnabled(group)) {
+      getScheduleBoundaries(group, now).forEach(consider);
+      getExcludedDateBoundaries(group, now).forEach(consider);
+      if (group.dailyBudget) {
+        consider(getNextBudgetReset(group, now));
+      }
+    }
+  }
+
+  for (const filter of filters) {
+    if (isTemporaryFilter(filter)) {
+      consider(filter.expiresAt);
+    }
+  }
+
+  return soonest;
+}
+
+/**
+ * The budget day `now` falls in: the date of the most recent reset, in the group's time zone.
+ */
+export function getBudgetDay(group: FilterGroup, now = Date.now()): string {
+  const context = getScheduleContextAt(now, group.timeZone);
+  return context.time >= (group.dailyBudget?.resetTime ?? '00:00')
+    ? context.date
+    : shiftDateString(context.date, -1);
+}
+
+/**
+ * The epoch ms of a group's next budget reset after `now`.
+ */
+export function getNextBudgetReset(group: FilterGroup, now = Date.now()): number {
+  const resetMinute = parseTimeToMinutes(group.dailyBudget?.resetTime ?? '00:00');
+  return getZonedInstant(shiftDateString(getBudgetDay(group, now), 1), resetMinute, group.timeZone);
+}
+
+/**
+ * Budget time a group has used so far today; usage from an earlier budget day counts as none.
+ */
+export function getBudgetUsedMs(
+  group: FilterGroup,
+  usage: BudgetUsage | undefined,
+  now = Date.now()
+): number {
+  const entry = usage?.[group.id];
+  return entry?.day === getBudgetDay(group, now) ? entry.usedMs : 0;
+}
+
+/**
+ * Budget time a group has left today, or null for groups without a daily budget.
+ */
+export function getBudgetRemainingMs(
+  group: FilterGroup,
+  usage: BudgetUsage | undefined,
+  now = Date.now()
+): number | null {
+  if (!group.dailyBudget) {
+    return null;
+  }
+  return Math.max(0, group.dailyBudget.minutes * 60_000 - getBudgetUsedMs(group, usage, now));
+}
+
+export function hasBudgetLeft(
+  group: FilterGroup,
+  usage: BudgetUsage | undefined,
+  now = Date.now()
+): boolean {
+  const remaining = getBudgetRemainingMs(group, usage, now);
+  return remaining !== null && remaining > 0;
+}
+
+/**
+ * The day visit limits count in: the date at `now` in the filter group's time zone.
+ */
+export function getVisitDay(group: FilterGroup | undefined, now = Date.now()): string {
+  return getScheduleContextAt(now, group?.timeZone).date;
+}
+
+/**
+ * Visits counted against a filter's daily limit so far today; counts from an earlier day count as
+ * none.
+ */
+export function getVisitsUsed(
+  filter: Filter,
+  group: FilterGroup | undefined,
+  counts: VisitCounts | undefined,
+  now = Date.now()
+): number {
+  const entry = counts?.[filter.id];
+  return entry?.day === getVisitDay(group, now) ? entry.visits : 0;
+}
+
+export function hasVisitsLeft(
+  filter: Filter,
+  group: FilterGroup | undefined,
+  counts: VisitCounts | undefined,
+  now = Date.now()
+): boolean {
+  return (
+    filter.maxVisitsPerDay !== undefined &&
+    getVisitsUsed(filter, group, counts, now) < filter.maxVisitsPerDay
+  );
+}
+
+export interface GroupTransitions {
+  /** When the group next turns on, or null if it never does by itself. */
+  readonly activatesAt: number | null;
+  /** When the group next turns off, or null if it stays on. */
+  readonly deactivatesAt: number | null;
+}
+
+/**
+ * The next instants after `now` at which a group turns on and off. Back-to-back or overlapping
+ * schedules count as one stretch, so a group running 09:00-12:00 and 12:00-17:00 turns off at
+ * 17:01. 24/7 groups only turn off for excluded dates and disabled groups never turn on.
+ */
+export function getGroupTransitions(group: FilterGroup, now = Date.now()): GroupTransitions {
+  if (!isGroupEnabled(group)) {
+    return { activatesAt: null, deactivatesAt: null };
+  }
+
+  const horizon = getRecurrenceHorizon(group, now);
+  const findNextChange = (from: number, active: boolean): number | null => {
+    // Plain weekly schedules repeat every week, so each boundary's next occurrence is the only one
+    // to check. Excluded dates and recurrence rules break that pattern until the horizon, so step
+    // a week at a time until then.
+    for (let cursor = from; ;) {
+      const weekly = getScheduleBoundaries(group, cursor);
+      const windowEnd = weekly.length > 0 ? Math.max(...weekly) : Infinity;
+      const boundaries = [
+        ...weekly,
+        ...getExcludedDateBoundaries(group, cursor).filter((boundary) => boundary <= windowEnd),
+      ].sort((a, b) => a - b);
+      for (const boundary of boundaries) {
+        if (isGroupActive(group, getScheduleContextAt(boundary, group.timeZone)) !== active) {
+          return boundary;
+        }
+      }
+      if (windowEnd === Infinity || horizon <= cursor) {
+        return null;
+      }
+      cursor = windowEnd;
+    }
+  };
+
+  if (isGroupActive(group, getScheduleContextAt(now, group.timeZone))) {
+    const deactivatesAt = findNextChange(now, true);
+    return {
+      activatesAt: deactivatesAt === null ? null : findNextChange(deactivatesAt, false),
+      deactivatesAt,
+    };
+  }
+
+  const activatesAt = findNextChange(now, false);
+  return {
+    activatesAt,
+    deactivatesAt: activatesAt === null ? null : findNextChange(activatesAt, true),
+  };
+}
+
+/**
+ * The next occurrence after `now` of every schedule start and end in a group, whether or not it
+ * changes the group's state. 24/7 groups have none.
+ */
+function getScheduleBoundaries(group: FilterGroup, now: number): number[] {
+  if (group.is24x7) {
+    return [];
+  }
+
+  const context = getScheduleContextAt(now, group.timeZone);
+  const currentMinute = context.dayOfWeek * MINUTES_PER_DAY + parseTimeToMinutes(context.time);
+  const boundaries: number[] = [];
+  for (const schedule of group.schedules) {
+    const startMinute = parseTimeToMinutes(schedule.startTime);
+    const endMinute = parseTimeToMinutes(schedule.endTime);
+    // Overnight schedules end on the following day.
+    const endOffset = endMinute + 1 + (startMinute > endMinute ? MINUTES_PER_DAY : 0);
+    for (const day of schedule.daysOfWeek) {
+      for (const boundary of [startMinute, endOffset]) {
+        const offset = getMinutesUntilWeeklyMinute(day * MINUTES_PER_DAY + boundary, currentMinute);
+        boundaries.push(addWallClockMinutes(context, offset, group.timeZone));
+      }
+    }
+  }
+  return boundaries;
+}
+
+/**
+ * The instant after which a group's weekly pattern no longer changes from week to week: past its
+ * last excluded date and first validFrom day, plus one full cycle of any alternate-week or
+ * day-of-month rule. -Infinity for plain weekly groups.
+ */
+function getRecurrenceHorizon(group: FilterGroup, now: number): number {
+  let base = Math.max(-Infinity, ...getExcludedDateBoundaries(group, now));
+  let cycleWeeks = 1;
+  for (const schedule of group.is24x7 ? [] : group.schedules) {
+    if (schedule.validFrom !== undefined) {
+      base = Math.max(base, now, getZonedInstant(schedule.validFrom, 0, group.timeZone));
+    }
+    if (schedule.weeksOfMonth !== undefined) {
+      // Every nth-weekday pattern recurs within a year, e.g. a fifth Monday.
+      cycleWeeks = Math.max(cycleWeeks, 53);
+    } else if (schedule.weekInterval !== undefined) {
+      cycleWeeks = Math.max(cycleWeeks, schedule.weekInterval);
+    }
+  }
+  if (cycleWeeks > 1) {
+    base = Math.max(base, now);
+  }
+  return base + (cycleWeeks - 1) * 7 * MINUTES_PER_DAY * 60_000;
+}
+
+/**
+ * The midnights after `now`, in the group's time zone, at which one of its excluded date ranges
+ * starts or ends.
+ */
+function getExcludedDateBoundaries(group: FilterGroup, now: number): number[] {
+  const boundaries: number[] = [];
+  for (const range of group.excludedDates ?? []) {
+    for (const boundary of [
+      getZonedInstant(range.start, 0, group.timeZone),
+      getZonedInstant(shiftDateString(range.end, 1), 0, group.timeZone),
+    ]) {
+      if (boundary > now) {
+        boundaries.push(boundary);
+      }
+    }
+  }
+  return boundaries;
+}
+
+/**
+ * Minutes from `currentMinute` to the next occurrence of a minute of the week. A minute equal to
+ * the current one has already happened, so it next comes a week later.
+ */
+function getMinutesUntilWeeklyMinute(minuteOfWeek: number, currentMinute: number): number {
+  const offset = (minuteOfWeek - currentMinute) % MINUTES_PER_WEEK;
+  return offset <= 0 ? offset + MINUTES_PER_WEEK : offset;
+}
+
+/**
+ * The start of the wall-clock minute `minutes` after the one in `from`, in a time zone. Counting
+ * days and minutes on the calendar rather than adding milliseconds keeps the result on the right
+ * wall-clock time across daylight saving changes.
+ */
+function addWallClockMinutes(
+  from: Required<ScheduleContext>,
+  minutes: number,
+  timeZone: string | undefined
+): number {
+  const totalMinutes = parseTimeToMinutes(from.time) + minutes;
+  return getZonedInstant(
+    shiftDateString(from.date, Math.floor(totalMinutes / MINUTES_PER_DAY)),
+    totalMinutes % MINUTES_PER_DAY,
+    timeZone
+  );
+}
+
+interface WallClock {
+  readonly year: number;
+  readonly month: number;
+  readonly day: number;
+  readonly hours: number;
+  readonly minutes: number;
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+/**
+ * A cached formatter for an IANA time zone, or null when the zone is unknown.
+ */
+function getZonedFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  let formatter = zonedFormatters.get(timeZone);
+  if (formatter === undefined) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+      });
+    } catch {
+      formatter = null;
+    }
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getWallClock(instant: number, timeZone: string | undefined): WallClock {
+  const formatter = timeZone === undefined ? null : getZonedFormatter(timeZone);
+  if (!formatter) {
+    const date = new Date(instant);
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hours: date.getHours(),
+      minutes: date.getMinutes(),
+    };
+  }
+
+  const parts = new Map(formatter.formatToParts(instant).map((part) => [part.type, part.value]));
+  return {
+    year: Number(parts.get('year')),
+    month: Number(parts.get('month')),
+    day: Number(parts.get('day')),
+    hours: Number(parts.get('hour')),
+    minutes: Number(parts.get('minute')),
+  };
+}
+
+/**
+ * The epoch ms at which a YYYY-MM-DD date reaches a minute of the day in a time zone. A time that
+ * a daylight saving change skips resolves to the same instant later in the day, as local Date
+ * arithmetic does; a time that happens twice resolves to the first.
+ */
+export function getZonedInstant(
+  date: string,
+  minuteOfDay: number,
+  timeZone: string | undefined
+): number {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+  const hours = Math.floor(minuteOfDay / 60);
+  const minutes = minuteOfDay % 60;
+  if (timeZone === undefined || !getZonedFormatter(timeZone)) {
+    return new Date(year, month - 1, day, hours, minutes).getTime();
+  }
+
+  // Read the wall-clock time as UTC, then correct by the zone's offset. The offset can differ
+  // between the guess and the answer around a change, so correct a second time.
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hours, minutes);
+  const firstGuess = wallClockAsUtc - getZoneOffset(wallClockAsUtc, timeZone);
+  const secondGuess = wallClockAsUtc - getZoneOffset(firstGuess, timeZone);
+  const clock = getWallClock(secondGuess, timeZone);
+  return clock.hours === hours && clock.minutes === minutes
+    ? secondGuess
+    : Math.max(firstGuess, secondGuess);
+}
+
+/**
+ * How far a time zone's wall clock is ahead of UTC at an instant, in ms.
+ */
+function getZoneOffset(instant: number, timeZone: string): number {
+  const clock = getWallClock(instant, timeZone);
+  const minuteStart = instant - (((instant % 60_000) + 60_000) % 60_000);
+  return Date.UTC(clock.year, clock.month - 1, clock.day, clock.hours, clock.minutes) - minuteStart;
+}
+
+/**
+ * Whether a schedule's recurrence rules let it start on a YYYY-MM-DD date. The weekday itself is
+ * checked against daysOfWeek separately.
+ */
+export function isScheduleOnDate(schedule: TimeSchedule, date: string): boolean {
+  if (
+    (schedule.validFrom !== undefined && date < schedule.validFrom) ||
+    (schedule.validUntil !== undefined && date > schedule.validUntil)
+  ) {
+    return false;
+  }
+
+  const interval = schedule.weekInterval ?? 1;
+  if (interval > 1 && schedule.anchorDate !== undefined) {
+    const weeksSinceAnchor = getWeekNumber(date) - getWeekNumber(schedule.anchorDate);
+    if (((weeksSinceAnchor % interval) + interval) % interval !== 0) {
+      return false;
+    }
+  }
+
+  if (schedule.weeksOfMonth !== undefined) {
+    const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    const nth = Math.ceil(day / 7);
+    const isLast = day + 7 > daysInMonth;
+    return schedule.weeksOfMonth.some((week) => week === nth || (week === -1 && isLast));
+  }
+
+  return true;
+}
+
+/**
+ * The number of Sunday-to-Saturday weeks between the epoch and a YYYY-MM-DD date.
+ */
+function getWeekNumber(date: string): number {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+  const daysSinceEpoch = Date.UTC(year, month - 1, day) / (MINUTES_PER_DAY * 60_000);
+  // 1970-01-01 was a Thursday, so shift by four days to start each week on Sunday.
+  return Math.floor((daysSinceEpoch + 4) / 7);
+}
+
+/**
+ * The YYYY-MM-DD date `days` calendar days after another.
+ */
+export function shiftDateString(date: string, days: number): string {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function parseTimeToMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
 }
 
 function getGroupFromLookup(groupId: string, groups: GroupLookup): FilterGroup | undefined {
@@ -175,32 +749,58 @@ function getGroupFromLookup(groupId: string, groups: GroupLookup): FilterGroup |
   return (groups as GroupById).get(groupId);
 }
 
+/**
+ * Whether a group's schedules cover the given moment. Excluded dates and recurrence rules apply to
+ * the day a schedule starts, so an overnight stretch that begins the evening before a holiday
+ * still runs into the holiday morning. Contexts without a date only check weekdays and times.
+ */
 function isGroupScheduleActive(group: FilterGroup, context: ScheduleContext): boolean {
   if (group.is24x7) {
-    return true;
+    return !isDateExcluded(group, context.date);
   }
 
-  return group.schedules.some((schedule) => isScheduleActive(schedule, context));
+  return group.schedules.some((schedule) => {
+    const startDay = getActiveScheduleStartDay(schedule, context);
+    if (startDay === null || context.date === undefined) {
+      return startDay !== null;
+    }
+
+    const startDate = startDay === 'same-day' ? context.date : shiftDateString(context.date, -1);
+    return !isDateExcluded(group, startDate) && isScheduleOnDate(schedule, startDate);
+  });
+}
+
+function isDateExcluded(group: FilterGroup, date: string | undefined): boolean {
+  if (date === undefined) {
+    return false;
+  }
+  return (group.excludedDates ?? []).some((range) => range.start <= date && date <= range.end);
 }
 
 /**
- * Whether a schedule covers the given moment. A schedule whose start time is later than its end
- * time crosses midnight: it runs from startTime on each scheduled day until endTime the following
- * morning, so the post-midnight portion belongs to the previous day's schedule entry.
+ * Which day's entry of a schedule covers the given moment, if any. A schedule whose start time is
+ * later than its end time crosses midnight: it runs from startTime on each scheduled day until
+ * endTime the following morning, so the post-midnight portion belongs to the previous day's
+ * schedule entry.
  */
-function isScheduleActive(schedule: TimeSchedule, context: ScheduleContext): boolean {
+function getActiveScheduleStartDay(
+  schedule: TimeSchedule,
+  context: ScheduleContext
+): 'same-day' | 'previous-day' | null {
   if (schedule.startTime <= schedule.endTime) {
-    return (
-      schedule.daysOfWeek.includes(context.dayOfWeek) &&
+    return schedule.daysOfWeek.includes(context.dayOfWeek) &&
       context.time >= schedule.startTime &&
       context.time <= schedule.endTime
-    );
+      ? 'same-day'
+      : null;
   }
 
   if (schedule.daysOfWeek.includes(context.dayOfWeek) && context.time >= schedule.startTime) {
-    return true;
+    return 'same-day';
   }
 
   const previousDay = (context.dayOfWeek + 6) % 7;
-  return schedule.daysOfWeek.includes(previousDay) && context.time <= schedule.endTime;
+  return schedule.daysOfWeek.includes(previousDay) && context.time <= schedule.endTime
+    ? 'previous-day'
+    : null;
 }
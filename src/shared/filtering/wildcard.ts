@@ -0,0 +1,196 @@
+/**
+ * Wildcard patterns compiled to a token list and matched by simulating all pattern positions at
+ * once, so matching costs at most O(input length x pattern length) no matter how many wildcards a
+ * pattern has. Unlike an equivalent RegExp, no pattern can backtrack catastrophically.
+ */
+
+export type WildcardToken =
+  | { readonly kind: 'literal'; readonly char: string }
+  | { readonly kind: 'any' }
+  | { readonly kind: 'star' }
+  | { readonly kind: 'separator' };
+
+export interface WildcardMatcher {
+  readonly tokens: readonly WildcardToken[];
+  /** Require the match to end at the end of the input. */
+  readonly anchorEnd: boolean;
+  /**
+   * Offsets where a match may start. `'start'` allows only offset 0 and `'anywhere'` allows every
+   * offset; a function receives the input and returns the permitted offsets.
+   */
+  readonly start: 'start' | 'anywhere' | ((input: string) => readonly number[]);
+}
+
+const MAX_WILDCARD_PATTERN_LENGTH = 1024;
+
+/**
+ * Characters that end a "separator" token in adblock-style patterns: anything except a letter,
+ * digit, or one of `_ - . %`.
+ */
+export function isSeparatorChar(char: string): boolean {
+  return !/[\p{L}\p{N}_\-.%]/u.test(char);
+}
+
+export function matchesWildcard(matcher: WildcardMatcher, input: string): boolean {
+  const { tokens, anchorEnd, start } = matcher;
+  const acceptState = tokens.length;
+  const startOffsets = typeof start === 'function' ? new Set(start(input)) : null;
+  let current = new Uint8Array(acceptState + 1);
+  let next = new Uint8Array(acceptState + 1);
+
+  const addState = (states: Uint8Array, state: number): void => {
+    // A star may match an empty run, so entering it also enters the state after it.
+    while (state <= acceptState && !states[state]) {
+      states[state] = 1;
+      if (tokens[state]?.kind !== 'star') {
+        return;
+      }
+      state += 1;
+    }
+  };
+
+  const canStartAt = (offset: number): boolean => {
+    if (start === 'anywhere') {
+      return true;
+    }
+    if (start === 'start') {
+      return offset === 0;
+    }
+    return startOffsets?.has(offset) ?? false;
+  };
+
+  for (let offset = 0; offset <= input.length; offset++) {
+    if (canStartAt(offset)) {
+      addState(current, 0);
+    }
+
+    if (current[acceptState] && !anchorEnd) {
+      return true;
+    }
+
+    if (offset === input.length) {
+      break;
+    }
+
+    const char = input[offset] ?? '';
+    next.fill(0);
+    for (let state = 0; state < acceptState; state++) {
+      if (!current[state]) {
+        continue;
+      }
+
+      const token = tokens[state];
+      if (!token) {
+        continue;
+      }
+
+      switch (token.kind) {
+        case 'literal':
+          if (token.char === char) {
+            addState(next, state + 1);
+          }
+          break;
+        case 'any':
+          addState(next, state + 1);
+          break;
+        case 'star':
+          addState(next, state);
+          break;
+        case 'separator':
+          if (isSeparatorChar(char)) {
+            addState(next, state + 1);
+          }
+          break;
+      }
+    }
+
+    [current, next] = [next, current];
+  }
+
+  // A trailing separator also matches the end of the input.
+  for (let state = 0; state < acceptState; state++) {
+    if (current[state] && tokens[state]?.kind === 'separator') {
+      addState(current, state + 1);
+    }
+  }
+
+  return current[acceptState] === 1;
+}
+
+/**
+ * The longest run of plain characters every match must contain, usable as a cheap prefilter
+ * before running the matcher. Empty when the pattern is all wildcards.
+ */
+export function getRequiredLiteral(matcher: WildcardMatcher): string {
+  let longest = '';
+  let current = '';
+  for (const token of matcher.tokens) {
+    if (token.kind === 'literal') {
+      current += token.char;
+      if (current.length > longest.length) {
+        longest = current;
+      }
+    } else {
+      current = '';
+    }
+  }
+  return longest;
+}
+
+export function getGlobValidationError(pattern: string): string | null {
+  if (!pattern.trim()) {
+    return 'Enter a pattern such as *.example.com/*.';
+  }
+
+  if (pattern.length > MAX_WILDCARD_PATTERN_LENGTH) {
+    return `Pattern is longer than ${MAX_WILDCARD_PATTERN_LENGTH} characters.`;
+  }
+
+  const trailingBackslashes = /\\*$/.exec(pattern)?.[0].length ?? 0;
+  if (trailingBackslashes % 2 === 1) {
+    return 'Pattern ends with an unfinished \\ escape.';
+  }
+
+  return null;
+}
+
+/**
+ * Compile a glob where `*` matches any run of characters, `?` matches one character, and `\`
+ * escapes either. The glob must match the whole URL; a glob without a scheme (`://`) is matched
+ * against the URL after its scheme so `*.example.com/*` works without spelling out `https://`.
+ * Matching is case-insensitive, so the glob is lowercased and expects a lowercased URL.
+ */
+export function compileGlob(pattern: string): WildcardMatcher | null {
+  if (getGlobValidationError(pattern)) {
+    return null;
+  }
+
+  const source = pattern.trim().toLowerCase();
+  const tokens: WildcardToken[] = [];
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i] ?? '';
+    if (char === '\\') {
+      i += 1;
+      tokens.push({ kind: 'literal', char: source[i] ?? '' });
+    } else if (char === '*') {
+      if (tokens[tokens.length - 1]?.kind !== 'star') {
+        tokens.push({ kind: 'star' });
+      }
+    } else if (char === '?') {
+      tokens.push({ kind: 'any' });
+    } else {
+      tokens.push({ kind: 'literal', char });
+    }
+  }
+
+  return {
+    tokens,
+    anchorEnd: true,
+    start: source.includes('://') ? 'start' : getOffsetAfterScheme,
+  };
+}
+
+function getOffsetAfterScheme(input: string): readonly number[] {
+  const schemeMatch = /^[a-z][a-z0-9+.-]*:(?:\/\/)?/.exec(input);
+  return [schemeMatch ? schemeMatch[0].length : 0];
+}
@@ -1,7 +1,14 @@
 import type {
+  BypassScope,
+  BypassSettings,
+  ContinueChallenge,
+  DailyBudget,
+  DateRange,
   Filter,
   FilterGroup,
   FilterMatchMode,
+  FilterTarget,
+  GroupMode,
   SnoozeState,
   TimeSchedule,
   Whitelist,
@@ -26,12 +33,25 @@ export interface SnoozeLike {
   readonly until?: number;
 }
 
+export interface FocusSessionLike {
+  readonly active?: boolean;
+  readonly groupIds?: readonly string[];
+  readonly until?: number;
+}
+
 export function isObject(value: unknown): value is JsonObject {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
 export function isValidMatchMode(value: unknown): value is FilterMatchMode {
-  return value === 'contains' || value === 'exact' || value === 'regex';
+  return (
+    value === 'contains' ||
+    value === 'exact' ||
+    value === 'regex' ||
+    value === 'domain' ||
+    value === 'glob' ||
+    value === 'adblock'
+  );
 }
 
 function isOptionalString(value: unknown): value is string | undefined {
@@ -50,16 +70,147 @@ function isValidDayOfWeek(value: unknown): value is number {
   return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 6;
 }
 
+function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+
+  // Reject dates such as 2025-02-30 that Date would roll over into the next month.
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function isOptionalDateString(value: unknown): value is string | undefined {
+  return value === undefined || isValidDateString(value);
+}
+
+function isValidWeekOfMonth(value: unknown): value is number {
+  return (
+    value === -1 ||
+    (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5)
+  );
+}
+
 export function isValidSchedule(value: unknown): value is TimeSchedule {
   if (!isObject(value)) {
     return false;
   }
 
+  const validFrom = value['validFrom'];
+  const validUntil = value['validUntil'];
+  const weekInterval = value['weekInterval'];
+  const weeksOfMonth = value['weeksOfMonth'];
   return (
     Array.isArray(value['daysOfWeek']) &&
     value['daysOfWeek'].every(isValidDayOfWeek) &&
     typeof value['startTime'] === 'string' &&
-    typeof value['endTime'] === 'string'
+    typeof value['endTime'] === 'string' &&
+    isOptionalDateString(validFrom) &&
+    isOptionalDateString(validUntil) &&
+    (validFrom === undefined || validUntil === undefined || validFrom <= validUntil) &&
+    (weekInterval === undefined ||
+      (typeof weekInterval === 'number' && Number.isInteger(weekInterval) && weekInterval >= 1)) &&
+    // Alternate weeks need a reference week to count from.
+    (weekInterval === undefined || weekInterval === 1
+      ? isOptionalDateString(value['anchorDate'])
+      : isValidDateString(value['anchorDate'])) &&
+    (weeksOfMonth === undefined ||
+      (Array.isArray(weeksOfMonth) &&
+        weeksOfMonth.length > 0 &&
+        weeksOfMonth.every(isValidWeekOfMonth)))
+  );
+}
+
+export function isValidDateRange(value: unknown): value is DateRange {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  return (
+    isValidDateString(value['start']) &&
+    isValidDateString(value['end']) &&
+    value['start'] <= value['end']
+  );
+}
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length === 0) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidDailyBudget(value: unknown): value is DailyBudget {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  const minutes = value['minutes'];
+  const resetTime = value['resetTime'];
+  return (
+    typeof minutes === 'number' &&
+    Number.isInteger(minutes) &&
+    minutes > 0 &&
+    minutes <= 24 * 60 &&
+    (resetTime === undefined ||
+      (typeof resetTime === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(resetTime)))
+  );
+}
+
+export function isValidContinueChallenge(value: unknown): value is ContinueChallenge {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  const seconds = value['seconds'];
+  const phrase = value['phrase'];
+  switch (value['type']) {
+    case 'countdown':
+      return (
+        typeof seconds === 'number' && Number.isInteger(seconds) && seconds > 0 && seconds <= 600
+      );
+    case 'phrase':
+      return (
+        phrase === undefined ||
+        (typeof phrase === 'string' && phrase.trim().length > 0 && phrase.length <= 200)
+      );
+    case 'arithmetic':
+      return true;
+    default:
+      return false;
+  }
+}
+
+export function isValidBypassScope(value: unknown): value is BypassScope {
+  return value === 'page' || value === 'site' || value === 'tab';
+}
+
+export function isValidBypassSettings(value: unknown): value is BypassSettings {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  const minutes = value['minutes'];
+  const maxPerDay = value['maxPerDay'];
+  return (
+    (value['scope'] === undefined || isValidBypassScope(value['scope'])) &&
+    (minutes === undefined ||
+      (typeof minutes === 'number' &&
+        Number.isInteger(minutes) &&
+        minutes > 0 &&
+        minutes <= 24 * 60)) &&
+    (maxPerDay === undefined ||
+      (typeof maxPerDay === 'number' &&
+        Number.isInteger(maxPerDay) &&
+        maxPerDay >= 0 &&
+        maxPerDay <= 100)) &&
+    isOptionalBoolean(value['requireReason'])
   );
 }
 
@@ -73,11 +224,27 @@ export function isValidGroup(value: unknown): value is FilterGroup {
     typeof value['name'] === 'string' &&
     typeof value['is24x7'] === 'boolean' &&
     isOptionalBoolean(value['enabled']) &&
+    isOptionalBoolean(value['locked']) &&
+    (value['mode'] === undefined || isValidGroupMode(value['mode'])) &&
+    (value['timeZone'] === undefined || isValidTimeZone(value['timeZone'])) &&
+    (value['dailyBudget'] === undefined || isValidDailyBudget(value['dailyBudget'])) &&
+    (value['challenge'] === undefined || isValidContinueChallenge(value['challenge'])) &&
+    (value['bypass'] === undefined || isValidBypassSettings(value['bypass'])) &&
     Array.isArray(value['schedules']) &&
-    value['schedules'].every(isValidSchedule)
+    value['schedules'].every(isValidSchedule) &&
+    (value['excludedDates'] === undefined ||
+      (Array.isArray(value['excludedDates']) && value['excludedDates'].every(isValidDateRange)))
   );
 }
 
+export function isValidGroupMode(value: unknown): value is GroupMode {
+  return value === 'blocklist' || value === 'allowlist';
+}
+
+export function isValidFilterTarget(value: unknown): value is FilterTarget {
+  return value === 'url' || value === 'host' || value === 'path' || value === 'query';
+}
+
 export function isValidFilterLike(value: unknown): value is FilterLike {
   if (!isObject(value)) {
     return false;
@@ -89,13 +256,20 @@ export function isValidFilterLike(value: unknown): value is FilterLike {
     typeof value['groupId'] === 'string' &&
     typeof value['enabled'] === 'boolean' &&
     (value['matchMode'] === undefined || isValidMatchMode(value['matchMode'])) &&
+    (value['target'] === undefined || isValidFilterTarget(value['target'])) &&
     isOptionalString(value['blockType']) &&
     isOptionalBoolean(value['isRegex']) &&
     isOptionalString(value['description']) &&
-    isOptionalFiniteNumber(value['expiresAt'])
+    isOptionalFiniteNumber(value['expiresAt']) &&
+    isOptionalFiniteNumber(value['priority']) &&
+    (value['maxVisitsPerDay'] === undefined || isValidMaxVisitsPerDay(value['maxVisitsPerDay']))
   );
 }
 
+export function isValidMaxVisitsPerDay(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= 1000;
+}
+
 export function isValidWhitelistLike(value: unknown): value is WhitelistLike {
   if (!isObject(value)) {
     return false;
@@ -107,6 +281,7 @@ export function isValidWhitelistLike(value: unknown): value is WhitelistLike {
     typeof value['enabled'] === 'boolean' &&
     isOptionalString(value['groupId']) &&
     (value['matchMode'] === undefined || isValidMatchMode(value['matchMode'])) &&
+    (value['target'] === undefined || isValidFilterTarget(value['target'])) &&
     isOptionalBoolean(value['isRegex']) &&
     isOptionalString(value['description'])
   );
@@ -124,6 +299,24 @@ export function isValidSnooze(value: unknown): value is SnoozeLike | undefined {
   return isOptionalBoolean(value['active']) && isOptionalFiniteNumber(value['until']);
 }
 
+export function isValidFocusSession(value: unknown): value is FocusSessionLike | undefined {
+  if (value === undefined) {
+    return true;
+  }
+
+  if (!isObject(value)) {
+    return false;
+  }
+
+  return (
+    isOptionalBoolean(value['active']) &&
+    isOptionalFiniteNumber(value['until']) &&
+    (value['groupIds'] === undefined ||
+      (Array.isArray(value['groupIds']) &&
+        value['groupIds'].every((groupId) => typeof groupId === 'string')))
+  );
+}
+
 export function isValidSnoozeState(value: unknown): value is SnoozeState {
   if (!isObject(value)) {
     return false;
@@ -0,0 +1,624 @@
+/**
+ * Reads the events of an iCalendar (.ics) file as group schedules. Weekly, daily and nth-weekday
+ * monthly recurrences become recurring schedules, one-off events become schedules limited to
+ * their dates, and excluded or moved occurrences split a recurring schedule around them.
+ */
+
+import {
+  getScheduleContextAt,
+  getZonedInstant,
+  isScheduleOnDate,
+  shiftDateString,
+} from '../filtering/schedules';
+import type { TimeSchedule } from '../types';
+import { formatDateString, formatTime } from '../utils/helpers';
+import { isValidTimeZone } from './guards';
+
+const MINUTES_PER_DAY = 24 * 60;
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6] as const;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+const SUPPORTED_RULE_PARTS = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL', 'COUNT', 'WKST']);
+/** How far COUNT-limited rules are followed to find their last occurrence. */
+const MAX_RULE_DAYS = 10 * 366;
+
+interface CalendarProperty {
+  readonly name: string;
+  readonly params: ReadonlyMap<string, string>;
+  readonly value: string;
+}
+
+/** A calendar date with a minute of the day, or none for all-day dates, in its own time zone. */
+interface CalendarTime {
+  readonly date: string; // YYYY-MM-DD
+  readonly minute: number | null;
+  readonly timeZone: string | undefined; // Omitted for floating and all-day times
+}
+
+/** A date and minute of the day on the wall clock of the imported group. */
+interface WallTime {
+  readonly date: string;
+  readonly minute: number;
+}
+
+interface CalendarEvent {
+  readonly uid: string | undefined;
+  readonly start: CalendarTime;
+  readonly end: CalendarTime;
+  readonly rule: ReadonlyMap<string, string> | undefined;
+  readonly excludedStarts: readonly CalendarTime[];
+  readonly recurrenceId: CalendarTime | undefined;
+  readonly cancelled: boolean;
+}
+
+export interface CalendarSchedules {
+  readonly name?: string; // X-WR-CALNAME, when the file has one
+  readonly timeZone?: string; // Shared by every timed event; omitted means the browser's
+  readonly schedules: readonly TimeSchedule[];
+  readonly importedEvents: number;
+  /** Events whose recurrence Teichos cannot express, such as yearly or by-month-day rules. */
+  readonly skippedEvents: number;
+}
+
+/**
+ * Convert the VEVENTs of an iCalendar file into schedules. Events that ended before `today` are
+ * left out, and timed events are converted to one time zone when the file mixes several.
+ */
+export function parseICalendar(
+  text: string,
+  today = formatDateString(new Date())
+): CalendarSchedules {
+  const lines = unfoldLines(text);
+  if (!lines.some((line) => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('File is not an iCalendar (.ics) file.');
+  }
+
+  const { name, events } = readEvents(lines);
+  const timeZone = getSharedTimeZone(events);
+  const excludedByUid = new Map<string, CalendarTime[]>();
+  for (const event of events) {
+    if (event.recurrenceId && event.uid !== undefined) {
+      excludedByUid.set(event.uid, [...(excludedByUid.get(event.uid) ?? []), event.recurrenceId]);
+    }
+  }
+
+  const schedules: TimeSchedule[] = [];
+  let importedEvents = 0;
+  let skippedEvents = 0;
+  for (const event of events) {
+    if (event.cancelled) {
+      continue;
+    }
+
+    // A moved occurrence is a one-off event; the series it came from skips its original date.
+    const rule = event.recurrenceId ? undefined : event.rule;
+    const excludedStarts = [
+      ...event.excludedStarts,
+      ...(event.recurrenceId || event.uid === undefined
+        ? []
+        : (excludedByUid.get(event.uid) ?? [])),
+    ];
+    const eventSchedules = convertEvent({ ...event, rule, excludedStarts }, timeZone ?? undefined);
+    if (!eventSchedules) {
+      skippedEvents += 1;
+      continue;
+    }
+
+    const upcoming = eventSchedules.filter(
+      (schedule) => schedule.validUntil === undefined || schedule.validUntil >= today
+    );
+    if (upcoming.length > 0) {
+      schedules.push(...upcoming);
+      importedEvents += 1;
+    }
+  }
+
+  return {
+    ...(name ? { name } : {}),
+    ...(timeZone ? { timeZone } : {}),
+    schedules,
+    importedEvents,
+    skippedEvents,
+  };
+}
+
+function unfoldLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    if ((line.startsWith(' ') || line.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      lines.push(line.trim());
+    }
+  }
+  return lines;
+}
+
+function parseProperty(line: string): CalendarProperty | null {
+  let inQuotes = false;
+  let separator = -1;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ':' && !inQuotes) {
+      separator = index;
+      break;
+    }
+  }
+  if (separator <= 0) {
+    return null;
+  }
+
+  const [name = '', ...rawParams] = line.slice(0, separator).split(';');
+  const params = new Map<string, string>();
+  for (const rawParam of rawParams) {
+    const equals = rawParam.indexOf('=');
+    if (equals > 0) {
+      params.set(
+        rawParam.slice(0, equals).toUpperCase(),
+        rawParam.slice(equals + 1).replace(/"/g, '')
+      );
+    }
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+function readEvents(lines: readonly string[]): {
+  name: string | undefined;
+  events: CalendarEvent[];
+} {
+  let name: string | undefined;
+  const events: CalendarEvent[] = [];
+  let eventProperties: CalendarProperty[] | null = null;
+  let nestedDepth = 0;
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) {
+      continue;
+    }
+
+    const value = property.value.toUpperCase();
+    if (property.name === 'BEGIN' && value === 'VEVENT' && !eventProperties) {
+      eventProperties = [];
+    } else if (property.name === 'END' && value === 'VEVENT' && eventProperties) {
+      const event = readEvent(eventProperties);
+      if (event) {
+        events.push(event);
+      }
+      eventProperties = null;
+    } else if (eventProperties && property.name === 'BEGIN') {
+      // Alarms and other components nested in an event have properties of their own.
+      nestedDepth += 1;
+    } else if (eventProperties && property.name === 'END') {
+      nestedDepth = Math.max(0, nestedDepth - 1);
+    } else if (eventProperties && nestedDepth === 0) {
+      eventProperties.push(property);
+    } else if (!eventProperties && property.name === 'X-WR-CALNAME') {
+      name = unescapeText(property.value).trim() || undefined;
+    }
+  }
+
+  return { name, events };
+}
+
+function readEvent(properties: readonly CalendarProperty[]): CalendarEvent | null {
+  const find = (name: string): CalendarProperty | undefined =>
+    properties.find((property) => property.name === name);
+  const startProperty = find('DTSTART');
+  const start = startProperty ? parseCalendarTime(startProperty.value, startProperty.params) : null;
+  if (!start) {
+    return null;
+  }
+
+  const endProperty = find('DTEND');
+  const durationProperty = find('DURATION');
+  const durationMinutes = durationProperty ? parseDuration(durationProperty.value) : null;
+  let end: CalendarTime | null;
+  if (endProperty) {
+    end = parseCalendarTime(endProperty.value, endProperty.params);
+  } else if (durationMinutes !== null) {
+    end = addMinutes(start, durationMinutes);
+  } else {
+    // Without an end, an all-day event lasts its day and a timed one has no length.
+    end = start.minute === null ? addMinutes(start, MINUTES_PER_DAY) : start;
+  }
+  if (!end) {
+    return null;
+  }
+
+  const ruleProperty = find('RRULE');
+  const recurrenceIdProperty = find('RECURRENCE-ID');
+  const excludedStarts = properties
+    .filter((property) => property.name === 'EXDATE')
+    .flatMap((property) =>
+      property.value.split(',').map((value) => parseCalendarTime(value, property.params))
+    )
+    .filter((time): time is CalendarTime => time !== null);
+
+  return {
+    uid: find('UID')?.value,
+    start,
+    end,
+    rule: ruleProperty ? parseRule(ruleProperty.value) : undefined,
+    excludedStarts,
+    recurrenceId: recurrenceIdProperty
+      ? (parseCalendarTime(recurrenceIdProperty.value, recurrenceIdProperty.params) ?? undefined)
+      : undefined,
+    cancelled: find('STATUS')?.value.toUpperCase() === 'CANCELLED',
+  };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([,;\\nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? ' ' : char
+  );
+}
+
+/**
+ * Parse a DATE (`20250113`) or DATE-TIME (`20250113T090000`, with `Z` for UTC) value. Times in a
+ * zone the browser does not know, such as Windows zone names, are read as floating times.
+ */
+function parseCalendarTime(
+  value: string,
+  params: ReadonlyMap<string, string>
+): CalendarTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, year = '', month = '', day = '', hours, minutes, , utc] = match;
+  const date = `${year}-${month}-${day}`;
+  if (shiftDateString(date, 0) !== date) {
+    return null;
+  }
+  if (hours === undefined || minutes === undefined) {
+    return { date, minute: null, timeZone: undefined };
+  }
+
+  const minute = Number(hours) * 60 + Number(minutes);
+  if (Number(hours) > 23 || Number(minutes) > 59) {
+    return null;
+  }
+  const zone = utc ? 'UTC' : params.get('TZID');
+  return { date, minute, timeZone: zone && isValidTimeZone(zone) ? zone : undefined };
+}
+
+/**
+ * Parse a DURATION such as `PT1H30M` or `P1D` into whole minutes.
+ */
+function parseDuration(value: string): number | null {
+  const match = /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    value.trim()
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, weeks = '0', days = '0', hours = '0', minutes = '0'] = match;
+  return ((Number(weeks) * 7 + Number(days)) * 24 + Number(hours)) * 60 + Number(minutes);
+}
+
+function parseRule(value: string): ReadonlyMap<string, string> {
+  const rule = new Map<string, string>();
+  for (const part of value.split(';')) {
+    const equals = part.indexOf('=');
+    if (equals > 0) {
+      rule.set(part.slice(0, equals).toUpperCase(), part.slice(equals + 1).toUpperCase());
+    }
+  }
+  return rule;
+}
+
+function addMinutes(time: CalendarTime, minutes: number): CalendarTime {
+  const total = (time.minute ?? 0) + minutes;
+  const date = shiftDateString(time.date, Math.floor(total / MINUTES_PER_DAY));
+  return time.minute === null
+    ? { ...time, date }
+    : { ...time, date, minute: total % MINUTES_PER_DAY };
+}
+
+/**
+ * The time zone every timed event is written in, `undefined` for floating times, or `null` when
+ * the events disagree and are converted to the browser's time zone instead.
+ */
+function getSharedTimeZone(events: readonly CalendarEvent[]): string | undefined | null {
+  const zones = new Set(
+    events.filter((event) => event.start.minute !== null).map((event) => event.start.timeZone)
+  );
+  if (zones.size > 1) {
+    return null;
+  }
+  const [zone] = zones;
+  return zone;
+}
+
+/**
+ * Read a calendar time on the wall clock of `timeZone`. All-day and floating times read the same
+ * everywhere.
+ */
+function toWallTime(time: CalendarTime, timeZone: string | undefined): WallTime {
+  if (time.minute === null || time.timeZone === undefined || time.timeZone === timeZone) {
+    return { date: time.date, minute: time.minute ?? 0 };
+  }
+
+  const context = getScheduleContextAt(
+    getZonedInstant(time.date, time.minute, time.timeZone),
+    timeZone
+  );
+  const [hours = 0, minutes = 0] = context.time.split(':').map(Number);
+  return { date: context.date, minute: hours * 60 + minutes };
+}
+
+function getDayOfWeek(date: string): number {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function getDaysBetween(from: string, to: string): number {
+  const [fromYear = 0, fromMonth = 1, fromDay = 1] = from.split('-').map(Number);
+  const [toYear = 0, toMonth = 1, toDay = 1] = to.split('-').map(Number);
+  return Math.round(
+    (Date.UTC(toYear, toMonth - 1, toDay) - Date.UTC(fromYear, fromMonth - 1, fromDay)) /
+      (MINUTES_PER_DAY * 60_000)
+  );
+}
+
+function formatMinute(minute: number): string {
+  return formatTime(Math.floor(minute / 60), minute % 60);
+}
+
+/**
+ * The schedules an event needs, or null when its recurrence cannot be expressed. Schedule end
+ * times are inclusive, so an event ending at 10:00 runs until 09:59.
+ */
+function convertEvent(event: CalendarEvent, timeZone: string | undefined): TimeSchedule[] | null {
+  const start = toWallTime(event.start, timeZone);
+  const end = toWallTime(event.end, timeZone);
+  const lengthMinutes =
+    getDaysBetween(start.date, end.date) * MINUTES_PER_DAY + end.minute - start.minute;
+  if (lengthMinutes <= 0) {
+    return null;
+  }
+
+  if (!event.rule) {
+    return getOneOffSchedules(start, end, lengthMinutes);
+  }
+  if (lengthMinutes > MINUTES_PER_DAY) {
+    return null;
+  }
+
+  const times = {
+    startTime: formatMinute(start.minute),
+    endTime: formatMinute((start.minute + lengthMinutes - 1) % MINUTES_PER_DAY),
+  };
+  const patterns = getRecurrencePatterns(event.rule, start.date);
+  if (!patterns) {
+    return null;
+  }
+
+  const validUntil = getRuleEnd(event.rule, patterns, start.date, timeZone);
+  const excludedDates = [
+    ...new Set(event.excludedStarts.map((time) => toWallTime(time, timeZone).date)),
+  ].sort();
+  return splitAroundDates(start.date, validUntil, excludedDates).flatMap(
+    ({ validFrom, validUntil: rangeEnd }) =>
+      patterns.map((pattern) => ({
+        ...pattern,
+        ...times,
+        validFrom,
+        ...(rangeEnd !== undefined ? { validUntil: rangeEnd } : {}),
+      }))
+  );
+}
+
+/**
+ * Schedules limited to the dates of a single event. An event longer than a day is split into its
+ * first day, the whole days in between and its last day.
+ */
+function getOneOffSchedules(start: WallTime, end: WallTime, lengthMinutes: number): TimeSchedule[] {
+  const window = (
+    from: string,
+    until: string,
+    startMinute: number,
+    endMinute: number
+  ): TimeSchedule => ({
+    daysOfWeek: from === until ? [getDayOfWeek(from)] : [...ALL_DAYS],
+    startTime: formatMinute(startMinute),
+    endTime: formatMinute(endMinute),
+    validFrom: from,
+    validUntil: until,
+  });
+
+  if (lengthMinutes <= MINUTES_PER_DAY) {
+    return [
+      window(
+        start.date,
+        start.date,
+        start.minute,
+        (start.minute + lengthMinutes - 1) % MINUTES_PER_DAY
+      ),
+    ];
+  }
+
+  const schedules: TimeSchedule[] = [];
+  let firstWholeDay = start.date;
+  if (start.minute > 0) {
+    schedules.push(window(start.date, start.date, start.minute, MINUTES_PER_DAY - 1));
+    firstWholeDay = shiftDateString(start.date, 1);
+  }
+  const lastWholeDay = shiftDateString(end.date, -1);
+  if (firstWholeDay <= lastWholeDay) {
+    schedules.push(window(firstWholeDay, lastWholeDay, 0, MINUTES_PER_DAY - 1));
+  }
+  if (end.minute > 0) {
+    schedules.push(window(end.date, end.date, 0, end.minute - 1));
+  }
+  return schedules;
+}
+
+type RecurrencePattern = Omit<TimeSchedule, 'startTime' | 'endTime' | 'validFrom' | 'validUntil'>;
+
+/**
+ * The weekly patterns a recurrence rule follows, or null when it needs more than daysOfWeek,
+ * weekInterval and weeksOfMonth can say.
+ */
+function getRecurrencePatterns(
+  rule: ReadonlyMap<string, string>,
+  startDate: string
+): RecurrencePattern[] | null {
+  if ([...rule.keys()].some((part) => !SUPPORTED_RULE_PARTS.has(part))) {
+    return null;
+  }
+
+  const interval = Number(rule.get('INTERVAL') ?? '1');
+  if (!Number.isInteger(interval) || interval < 1) {
+    return null;
+  }
+
+  const byDay = rule.get('BYDAY')?.split(',') ?? [];
+  const weekdays = byDay.map(parseWeekday);
+  if (weekdays.some((weekday) => weekday === null)) {
+    return null;
+  }
+  const parsedDays = weekdays.filter((weekday) => weekday !== null);
+  const plainDays = parsedDays.every((weekday) => weekday.week === null)
+    ? [...new Set(parsedDays.map((weekday) => weekday.day))].sort((a, b) => a - b)
+    : null;
+
+  switch (rule.get('FREQ')) {
+    case 'WEEKLY': {
+      if (!plainDays) {
+        return null;
+      }
+      const days = plainDays.length > 0 ? plainDays : [getDayOfWeek(startDate)];
+      return interval === 1
+        ? [{ daysOfWeek: days }]
+        : getAlternateWeekPatterns(days, interval, startDate, rule.get('WKST') ?? 'MO');
+    }
+    case 'DAILY':
+      return interval === 1 && plainDays
+        ? [{ daysOfWeek: plainDays.length > 0 ? plainDays : [...ALL_DAYS] }]
+        : null;
+    case 'MONTHLY': {
+      if (interval !== 1 || parsedDays.length === 0 || parsedDays.some((d) => d.week === null)) {
+        return null;
+      }
+      const weeksByDay = new Map<number, number[]>();
+      for (const { day, week } of parsedDays) {
+        weeksByDay.set(day, [...(weeksByDay.get(day) ?? []), week ?? 1]);
+      }
+      return [...weeksByDay].map(([day, weeks]) => ({ daysOfWeek: [day], weeksOfMonth: weeks }));
+    }
+    default:
+      return null;
+  }
+}
+
+function parseWeekday(value: string): { day: number; week: number | null } | null {
+  const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const day = WEEKDAY_CODES.indexOf(match[2] as (typeof WEEKDAY_CODES)[number]);
+  if (match[1] === undefined) {
+    return { day, week: null };
+  }
+  const week = Number(match[1]);
+  return week === -1 || (week >= 1 && week <= 5) ? { day, week } : null;
+}
+
+/**
+ * Every-N-weeks patterns. Schedules count weeks from Sunday, while calendars count them from
+ * WKST (Monday by default), so a Sunday in a Monday-based week belongs to the next Sunday-based
+ * week and gets its own anchor.
+ */
+function getAlternateWeekPatterns(
+  days: readonly number[],
+  interval: number,
+  startDate: string,
+  weekStart: string
+): RecurrencePattern[] {
+  const weekStartDay = Math.max(
+    0,
+    WEEKDAY_CODES.indexOf(weekStart as (typeof WEEKDAY_CODES)[number])
+  );
+  const offset = (getDayOfWeek(startDate) - weekStartDay + 7) % 7;
+  const firstWeekStart = shiftDateString(startDate, -offset);
+  const patterns = new Map<string, number[]>();
+  for (const day of days) {
+    const dayInFirstWeek = shiftDateString(firstWeekStart, (day - weekStartDay + 7) % 7);
+    // Any date in the right Sunday-based week works as the anchor.
+    const anchorDate = shiftDateString(dayInFirstWeek, -getDayOfWeek(dayInFirstWeek));
+    patterns.set(anchorDate, [...(patterns.get(anchorDate) ?? []), day]);
+  }
+  return [...patterns].map(([anchorDate, daysOfWeek]) => ({
+    daysOfWeek,
+    weekInterval: interval,
+    anchorDate,
+  }));
+}
+
+/**
+ * The last date a rule starts an occurrence on, from UNTIL or by counting COUNT occurrences, or
+ * undefined when it repeats forever.
+ */
+function getRuleEnd(
+  rule: ReadonlyMap<string, string>,
+  patterns: readonly RecurrencePattern[],
+  startDate: string,
+  timeZone: string | undefined
+): string | undefined {
+  const until = rule.get('UNTIL');
+  if (until !== undefined) {
+    const untilTime = parseCalendarTime(until, new Map());
+    return untilTime ? toWallTime(untilTime, timeZone).date : undefined;
+  }
+
+  const count = Number(rule.get('COUNT'));
+  if (!Number.isInteger(count) || count < 1) {
+    return undefined;
+  }
+
+  let remaining = count;
+  for (let offset = 0; offset < MAX_RULE_DAYS; offset++) {
+    const date = shiftDateString(startDate, offset);
+    const day = getDayOfWeek(date);
+    const matches = patterns.some(
+      (pattern) =>
+        pattern.daysOfWeek.includes(day) &&
+        isScheduleOnDate({ ...pattern, startTime: '00:00', endTime: '23:59' }, date)
+    );
+    if (matches && --remaining === 0) {
+      return date;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Split the range from `from` to `until` into the stretches between excluded dates.
+ */
+function splitAroundDates(
+  from: string,
+  until: string | undefined,
+  excludedDates: readonly string[]
+): { validFrom: string; validUntil: string | undefined }[] {
+  const ranges: { validFrom: string; validUntil: string | undefined }[] = [];
+  let rangeStart = from;
+  for (const excluded of excludedDates) {
+    if (excluded < rangeStart || (until !== undefined && excluded > until)) {
+      continue;
+    }
+    if (excluded > rangeStart) {
+      ranges.push({ validFrom: rangeStart, validUntil: shiftDateString(excluded, -1) });
+    }
+    rangeStart = shiftDateString(excluded, 1);
+  }
+  if (until === undefined || rangeStart <= until) {
+    ranges.push({ validFrom: rangeStart, validUntil: until });
+  }
+  return ranges;
+}
@@ -1,9 +1,11 @@
-import type { Filter, FilterGroup, StorageData, Whitelist } from '../types';
+import type { Filter, FilterGroup, FilterMatchMode, StorageData, Whitelist } from '../types';
 import { DEFAULT_GROUP_ID } from '../types';
-import { getRegexValidationError } from '../filtering/patterns';
+import { getPatternValidationError } from '../filtering/patterns';
+import { generateId } from '../utils/helpers';
 import {
   isObject,
   isValidFilterLike,
+  isValidFocusSession,
   isValidGroup,
   isValidSnooze,
   isValidWhitelistLike,
@@ -11,6 +13,7 @@ import {
   type JsonObject,
 } from './guards';
 import { createDefaultGroup } from './defaults';
+import { parseICalendar } from './icalendar';
 import { normalizeStoredData, type LegacyStorageData } from './normalize';
 
 function assertUniqueIds(
@@ -54,27 +57,32 @@ function assertKnownGroupReferences(
   }
 }
 
-function assertValidRegexEntries(
+const MATCH_MODE_LABELS: Record<FilterMatchMode, string> = {
+  contains: 'text',
+  exact: 'exact URL',
+  regex: 'regex',
+  domain: 'domain',
+  glob: 'wildcard',
+  adblock: 'adblock',
+};
+
+function assertValidPatternEntries(
   filters: readonly Filter[],
   whitelist: readonly Whitelist[]
 ): void {
   for (const filter of filters) {
-    if (filter.matchMode !== 'regex') {
-      continue;
-    }
-
-    if (getRegexValidationError(filter.pattern)) {
-      throw new Error(`Imported filter "${filter.id}" has an invalid regex pattern.`);
+    if (getPatternValidationError(filter.pattern, filter.matchMode)) {
+      throw new Error(
+        `Imported filter "${filter.id}" has an invalid ${MATCH_MODE_LABELS[filter.matchMode]} pattern.`
+      );
     }
   }
 
   for (const entry of whitelist) {
-    if (entry.matchMode !== 'regex') {
-      continue;
-    }
-
-    if (getRegexValidationError(entry.pattern)) {
-      throw new Error(`Imported exception "${entry.id}" has an invalid regex pattern.`);
+    if (getPatternValidationError(entry.pattern, entry.matchMode)) {
+      throw new Error(
+        `Imported exception "${entry.id}" has an invalid ${MATCH_MODE_LABELS[entry.matchMode]} pattern.`
+      );
     }
   }
 }
@@ -115,6 +123,10 @@ function validateImportedStorageShape(raw: JsonObject): void {
     throw new Error('Settings file contains an invalid snooze state.');
   }
 
+  if (!isValidFocusSession(raw['focusSession'])) {
+    throw new Error('Settings file contains an invalid focus session.');
+  }
+
   if (!isOptionalFiniteNumber(raw['rulesVersion'])) {
     throw new Error('Settings file contains an invalid rules version.');
   }
@@ -163,6 +175,14 @@ export function parseImportedData(serialized: string): StorageData {
     throw new Error('Settings file must contain a JSON object.');
   }
 
+  return parseImportedObject(parsed);
+}
+
+/**
+ * Validate and normalize imported settings. Everything that enters storage from a file goes
+ * through here, whatever format it was read from.
+ */
+function parseImportedObject(parsed: JsonObject): StorageData {
   validateImportedStorageShape(parsed);
   assertKnownRawFilterGroupReferences(parsed);
 
@@ -177,7 +197,103 @@ export function parseImportedData(serialized: string): StorageData {
   assertUniqueIds(importedData.filters, 'filter');
   assertUniqueIds(importedData.whitelist, 'exception');
   assertKnownGroupReferences(importedData.filters, importedData.whitelist, importedData.groups);
-  assertValidRegexEntries(importedData.filters, importedData.whitelist);
+  assertValidPatternEntries(importedData.filters, importedData.whitelist);
 
   return importedData;
 }
+
+export interface CalendarImport {
+  readonly group: FilterGroup;
+  readonly importedEvents: number;
+  /** Events whose recurrence cannot be expressed as schedules. */
+  readonly skippedEvents: number;
+}
+
+/**
+ * Turn the upcoming events of an iCalendar (.ics) file into a new group, named after the calendar
+ * or `fallbackName`, and check it like any imported group.
+ */
+export function parseCalendarImport(text: string, fallbackName: string): CalendarImport {
+  const calendar = parseICalendar(text);
+  if (calendar.schedules.length === 0) {
+    throw new Error('Calendar file does not contain any upcoming events that can be scheduled.');
+  }
+
+  const group: FilterGroup = {
+    id: generateId(),
+    name: calendar.name ?? fallbackName,
+    schedules: calendar.schedules,
+    is24x7: false,
+    enabled: true,
+    ...(calendar.timeZone ? { timeZone: calendar.timeZone } : {}),
+  };
+  const imported = parseImportedObject({ groups: [group], filters: [], whitelist: [] });
+  const importedGroup = imported.groups.find((entry) => entry.id === group.id);
+  if (!importedGroup) {
+    throw new Error('Calendar file contains invalid schedules.');
+  }
+
+  return {
+    group: importedGroup,
+    importedEvents: calendar.importedEvents,
+    skippedEvents: calendar.skippedEvents,
+  };
+}
+
+export interface AdblockListImport {
+  readonly filters: readonly Filter[];
+  readonly whitelist: readonly Whitelist[];
+  /** Rules that were recognized but cannot be represented, such as element hiding or `$` options. */
+  readonly skippedRules: number;
+}
+
+/**
+ * Convert a uBlock Origin / Adblock Plus filter list into filters for one group. Network rules
+ * become `adblock` filters and `@@` rules become exceptions in the same group; comments and list
+ * headers are ignored, and rules Teichos cannot represent are counted instead of failing the list.
+ */
+export function parseAdblockList(text: string, groupId: string): AdblockListImport {
+  const filters: Filter[] = [];
+  const whitelist: Whitelist[] = [];
+  const seenPatterns = new Set<string>();
+  let skippedRules = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!') || (line.startsWith('[') && line.endsWith(']'))) {
+      continue;
+    }
+
+    const isException = line.startsWith('@@');
+    const pattern = isException ? line.slice(2) : line;
+    if (getPatternValidationError(pattern, 'adblock')) {
+      skippedRules += 1;
+      continue;
+    }
+
+    const key = `${isException ? '@@' : ''}${pattern.toLowerCase()}`;
+    if (seenPatterns.has(key)) {
+      continue;
+    }
+    seenPatterns.add(key);
+
+    const entry = {
+      id: generateId(),
+      pattern,
+      groupId,
+      enabled: true,
+      matchMode: 'adblock' as const,
+    };
+    if (isException) {
+      whitelist.push(entry);
+    } else {
+      filters.push(entry);
+    }
+  }
+
+  if (filters.length === 0 && whitelist.length === 0) {
+    throw new Error('Filter list does not contain any supported rules.');
+  }
+
+  return { filters, whitelist, skippedRules };
+}
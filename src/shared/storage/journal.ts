@@ -0,0 +1,91 @@
+import type { BypassJournalEntry } from '../types';
+
+export interface JournalQuery {
+  readonly groupId?: string;
+  readonly since?: number; // Epoch ms; entries before it are left out
+  readonly search?: string; // Matched case-insensitively against URL, reason and names
+}
+
+const CSV_COLUMNS = [
+  'at',
+  'url',
+  'groupId',
+  'groupName',
+  'filterId',
+  'filterPattern',
+  'reason',
+] as const satisfies readonly (keyof BypassJournalEntry)[];
+
+export function normalizeJournalEntries(value: unknown): readonly BypassJournalEntry[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const entries: BypassJournalEntry[] = [];
+  for (const item of value as unknown[]) {
+    const candidate = item as Partial<Record<keyof BypassJournalEntry, unknown>> | null;
+    if (
+      typeof candidate?.at !== 'number' ||
+      !Number.isFinite(candidate.at) ||
+      typeof candidate.url !== 'string' ||
+      typeof candidate.groupId !== 'string'
+    ) {
+      continue;
+    }
+
+    entries.push({
+      at: candidate.at,
+      url: candidate.url,
+      groupId: candidate.groupId,
+      ...(typeof candidate.groupName === 'string' ? { groupName: candidate.groupName } : {}),
+      ...(typeof candidate.filterId === 'string' ? { filterId: candidate.filterId } : {}),
+      ...(typeof candidate.filterPattern === 'string'
+        ? { filterPattern: candidate.filterPattern }
+        : {}),
+      ...(typeof candidate.reason === 'string' ? { reason: candidate.reason } : {}),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Entries matching every part of `query`, newest first.
+ */
+export function filterJournalEntries(
+  entries: readonly BypassJournalEntry[],
+  query: JournalQuery
+): BypassJournalEntry[] {
+  const search = query.search?.trim().toLowerCase() ?? '';
+  return entries
+    .filter(
+      (entry) =>
+        (query.groupId === undefined || entry.groupId === query.groupId) &&
+        (query.since === undefined || entry.at >= query.since) &&
+        (!search ||
+          [entry.url, entry.reason, entry.groupName, entry.filterPattern].some((text) =>
+            text?.toLowerCase().includes(search)
+          ))
+    )
+    .sort((a, b) => b.at - a.at);
+}
+
+export function serializeJournalAsJson(entries: readonly BypassJournalEntry[]): string {
+  return `${JSON.stringify(entries, null, 2)}\n`;
+}
+
+/**
+ * One row per entry with an ISO timestamp, quoting fields as RFC 4180 asks so reasons may hold
+ * commas, quotes and line breaks.
+ */
+export function serializeJournalAsCsv(entries: readonly BypassJournalEntry[]): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) =>
+      column === 'at' ? new Date(entry.at).toISOString() : formatCsvField(entry[column] ?? '')
+    ).join(',')
+  );
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+}
+
+function formatCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -2,12 +2,14 @@ import type {
   Filter,
   FilterGroup,
   FilterMatchMode,
+  FocusSessionState,
   SnoozeState,
   StorageData,
   Whitelist,
 } from '../types';
 import { DEFAULT_GROUP_ID } from '../types';
 import { createDefaultData, createDefaultGroup } from './defaults';
+import { isValidMatchMode } from './guards';
 
 export type LegacyFilter = Omit<Filter, 'matchMode'> & {
   readonly matchMode?: FilterMatchMode;
@@ -32,13 +34,18 @@ export interface LegacyStorageData {
     readonly active?: boolean;
     readonly until?: number;
   };
+  readonly focusSession?: {
+    readonly active?: boolean;
+    readonly groupIds?: readonly string[];
+    readonly until?: number;
+  };
 }
 
 function resolveMatchMode(
   matchMode: FilterMatchMode | undefined,
   isRegex?: boolean
 ): FilterMatchMode {
-  if (matchMode === 'contains' || matchMode === 'exact' || matchMode === 'regex') {
+  if (isValidMatchMode(matchMode)) {
     return matchMode;
   }
   return isRegex ? 'regex' : 'contains';
@@ -81,6 +88,26 @@ function normalizeSnooze(snooze: LegacyStorageData['snooze']): SnoozeState {
   return { active: true };
 }
 
+/**
+ * Keep a running focus session only while it names groups that still exist and has an end time.
+ */
+function normalizeFocusSession(
+  focusSession: LegacyStorageData['focusSession'],
+  groupIds: ReadonlySet<string>
+): FocusSessionState | undefined {
+  const sessionGroupIds = (focusSession?.groupIds ?? []).filter((groupId) => groupIds.has(groupId));
+  if (
+    focusSession?.active !== true ||
+    typeof focusSession.until !== 'number' ||
+    !Number.isFinite(focusSession.until) ||
+    sessionGroupIds.length === 0
+  ) {
+    return undefined;
+  }
+
+  return { active: true, groupIds: sessionGroupIds, until: focusSession.until };
+}
+
 function normalizeGroups(groups: readonly FilterGroup[] | undefined): FilterGroup[] {
   return (groups && groups.length > 0 ? groups : [createDefaultGroup()]).map((group) => ({
     ...group,
@@ -104,6 +131,7 @@ export function normalizeStoredData(raw: LegacyStorageData | undefined): Storage
       whitelist.some((entry) => entry.groupId === DEFAULT_GROUP_ID));
   const groups = needsDefaultGroup ? [createDefaultGroup(), ...normalizedGroups] : normalizedGroups;
   const snooze = normalizeSnooze(raw.snooze);
+  const focusSession = normalizeFocusSession(raw.focusSession, groupIds);
   const rulesVersion =
     typeof raw.rulesVersion === 'number' && Number.isFinite(raw.rulesVersion)
       ? raw.rulesVersion
@@ -115,6 +143,7 @@ export function normalizeStoredData(raw: LegacyStorageData | undefined): Storage
     filters,
     whitelist,
     snooze,
+    ...(focusSession ? { focusSession } : {}),
     expandBlockPageDetails,
     rulesVersion,
   };
@@ -3,11 +3,13 @@
  * Uses discriminated unions for type-safe message handling
  */
 
+import type { FilterExplanation } from '../filtering/engine';
 import type { BlockedPageState, StorageData } from './storage';
 
 export const MessageType = {
   GET_DATA: 'GET_DATA',
   CHECK_URL: 'CHECK_URL',
+  EXPLAIN_URL: 'EXPLAIN_URL',
   GET_BLOCKED_PAGE_STATE: 'GET_BLOCKED_PAGE_STATE',
   GO_BACK_ACTIVE_TAB: 'GO_BACK_ACTIVE_TAB',
   CONTINUE_ACTIVE_TAB: 'CONTINUE_ACTIVE_TAB',
@@ -25,6 +27,11 @@ export interface CheckUrlMessage {
   readonly url: string;
 }
 
+export interface ExplainUrlMessage {
+  readonly type: typeof MessageType.EXPLAIN_URL;
+  readonly url: string;
+}
+
 export interface GoBackActiveTabMessage {
   readonly type: typeof MessageType.GO_BACK_ACTIVE_TAB;
 }
@@ -32,6 +39,14 @@ export interface GoBackActiveTabMessage {
 export interface ContinueActiveTabMessage {
   readonly type: typeof MessageType.CONTINUE_ACTIVE_TAB;
   readonly blockId?: string;
+  readonly challenge?: ChallengeResponse;
+  readonly reason?: string; // Why the user is continuing, for the journal
+}
+
+/** The block page's reply to the challenge it was issued */
+export interface ChallengeResponse {
+  readonly token: string;
+  readonly answer?: string;
 }
 
 export interface GetBlockedPageStateMessage {
@@ -48,6 +63,10 @@ export interface CheckUrlResponse {
   readonly blocked: boolean;
 }
 
+export interface ExplainUrlResponse {
+  readonly explanation: FilterExplanation;
+}
+
 export interface GoBackActiveTabResponse {
   readonly restored: boolean;
 }
@@ -72,6 +91,7 @@ export interface CloseInfoPanelMessage {
 export type ExtensionMessage =
   | GetDataMessage
   | CheckUrlMessage
+  | ExplainUrlMessage
   | GoBackActiveTabMessage
   | ContinueActiveTabMessage
   | GetBlockedPageStateMessage
@@ -81,13 +101,15 @@ export type MessageResponse<T extends ExtensionMessage> = T extends GetDataMessa
   ? GetDataResponse
   : T extends CheckUrlMessage
     ? CheckUrlResponse
-    : T extends GoBackActiveTabMessage
-      ? GoBackActiveTabResponse
-      : T extends ContinueActiveTabMessage
-        ? ContinueActiveTabResponse
-        : T extends GetBlockedPageStateMessage
-          ? GetBlockedPageStateResponse
-          : undefined;
+    : T extends ExplainUrlMessage
+      ? ExplainUrlResponse
+      : T extends GoBackActiveTabMessage
+        ? GoBackActiveTabResponse
+        : T extends ContinueActiveTabMessage
+          ? ContinueActiveTabResponse
+          : T extends GetBlockedPageStateMessage
+            ? GetBlockedPageStateResponse
+            : undefined;
 
 export function isGetDataMessage(msg: unknown): msg is GetDataMessage {
   return (
@@ -106,6 +128,17 @@ export function isCheckUrlMessage(msg: unknown): msg is CheckUrlMessage {
   );
 }
 
+export function isExplainUrlMessage(msg: unknown): msg is ExplainUrlMessage {
+  return (
+    typeof msg === 'object' &&
+    msg !== null &&
+    'type' in msg &&
+    msg.type === MessageType.EXPLAIN_URL &&
+    'url' in msg &&
+    typeof msg.url === 'string'
+  );
+}
+
 export function isGoBackActiveTabMessage(msg: unknown): msg is GoBackActiveTabMessage {
   return (
     typeof msg === 'object' &&
@@ -121,7 +154,19 @@ export function isContinueActiveTabMessage(msg: unknown): msg is ContinueActiveT
     msg !== null &&
     'type' in msg &&
     msg.type === MessageType.CONTINUE_ACTIVE_TAB &&
-    (!('blockId' in msg) || typeof msg.blockId === 'string')
+    (!('blockId' in msg) || typeof msg.blockId === 'string') &&
+    (!('challenge' in msg) || isChallengeResponse(msg.challenge)) &&
+    (!('reason' in msg) || typeof msg.reason === 'string')
+  );
+}
+
+function isChallengeResponse(value: unknown): value is ChallengeResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'token' in value &&
+    typeof value.token === 'string' &&
+    (!('answer' in value) || typeof value.answer === 'string')
   );
 }
 
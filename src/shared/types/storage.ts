@@ -3,11 +3,19 @@
  * All data structures stored in extension storage
  */
 
-/** Time schedule for filter groups */
+/**
+ * Time schedule for filter groups. The optional recurrence rules narrow which of the scheduled
+ * days the schedule starts on; an overnight schedule is judged by the day it starts.
+ */
 export interface TimeSchedule {
   readonly daysOfWeek: readonly number[]; // 0-6, Sunday-Saturday
   readonly startTime: string; // HH:MM format
   readonly endTime: string; // HH:MM format
+  readonly validFrom?: string; // YYYY-MM-DD, first day the schedule applies
+  readonly validUntil?: string; // YYYY-MM-DD, last day the schedule applies
+  readonly weekInterval?: number; // Repeat every N weeks; omitted means every week
+  readonly anchorDate?: string; // YYYY-MM-DD in the first week of the weekInterval cycle
+  readonly weeksOfMonth?: readonly number[]; // 1-5 for the nth such weekday of the month, -1 for the last
 }
 
 /** Mutable version of TimeSchedule for internal editing */
@@ -15,6 +23,58 @@ export interface MutableTimeSchedule {
   daysOfWeek: number[];
   startTime: string;
   endTime: string;
+  validFrom?: string;
+  validUntil?: string;
+  weekInterval?: number;
+  anchorDate?: string;
+  weeksOfMonth?: number[];
+}
+
+/** Inclusive range of local calendar days on which a group's schedules are suspended */
+export interface DateRange {
+  readonly start: string; // YYYY-MM-DD format
+  readonly end: string; // YYYY-MM-DD format
+}
+
+/** Mutable version of DateRange for internal editing */
+export interface MutableDateRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * How a group treats URLs while it is active: a blocklist blocks what its filters match, an
+ * allowlist blocks everything its filters and exceptions do not match.
+ */
+export type GroupMode = 'blocklist' | 'allowlist';
+
+/**
+ * Daily allowance of time on pages a group would block. Until it is used up, the group's blocks
+ * turn into metered visits.
+ */
+export interface DailyBudget {
+  readonly minutes: number;
+  readonly resetTime?: string; // HH:MM in the group's time zone; omitted means midnight
+}
+
+/**
+ * Friction the block page puts in front of Continue for a group's blocks: a wait before the
+ * button enables, a phrase to type out, or a sum to solve.
+ */
+export type ContinueChallenge =
+  | { readonly type: 'countdown'; readonly seconds: number }
+  | { readonly type: 'phrase'; readonly phrase?: string } // Omitted phrase means the default one
+  | { readonly type: 'arithmetic' };
+
+/** How far a Continue past one of a group's blocks reaches: the page, its site, or the whole tab */
+export type BypassScope = 'page' | 'site' | 'tab';
+
+/** What Continue unlocks for a group's blocks, for how long, how often, and what it asks */
+export interface BypassSettings {
+  readonly scope?: BypassScope; // Omitted means 'page'
+  readonly minutes?: number; // Omitted means until the tab leaves the scope
+  readonly maxPerDay?: number; // Continues allowed each day across the group; omitted means no limit
+  readonly requireReason?: boolean; // Continue needs a reason for the journal
 }
 
 /** Filter group with optional time-based scheduling */
@@ -24,10 +84,20 @@ export interface FilterGroup {
   readonly schedules: readonly TimeSchedule[];
   readonly is24x7: boolean;
   readonly enabled?: boolean;
+  readonly mode?: GroupMode; // Omitted means 'blocklist'
+  readonly excludedDates?: readonly DateRange[]; // Holidays and other days the group stays off
+  readonly timeZone?: string; // IANA zone its schedules follow; omitted means the browser's
+  readonly dailyBudget?: DailyBudget;
+  readonly challenge?: ContinueChallenge; // Omitted means Continue works straight away
+  readonly bypass?: BypassSettings;
+  readonly locked?: boolean; // Commitment lock: while the group is on, its rules only get stricter
 }
 
 /** URL matching modes for filters and whitelist entries */
-export type FilterMatchMode = 'contains' | 'exact' | 'regex';
+export type FilterMatchMode = 'contains' | 'exact' | 'regex' | 'domain' | 'glob' | 'adblock';
+
+/** Part of the URL a pattern is matched against; omitted means the full URL */
+export type FilterTarget = 'url' | 'host' | 'path' | 'query';
 
 /** URL filter pattern */
 export interface Filter {
@@ -36,8 +106,11 @@ export interface Filter {
   readonly groupId: string;
   readonly enabled: boolean;
   readonly matchMode: FilterMatchMode;
+  readonly target?: FilterTarget;
   readonly description?: string;
   readonly expiresAt?: number; // Epoch ms when a temporary filter expires
+  readonly priority?: number; // Higher is checked first, across groups; omitted means 0
+  readonly maxVisitsPerDay?: number; // Visits allowed each day before the filter blocks
 }
 
 /** Whitelist entry scoped to a filter group */
@@ -47,6 +120,7 @@ export interface Whitelist {
   readonly groupId: string;
   readonly enabled: boolean;
   readonly matchMode: FilterMatchMode;
+  readonly target?: FilterTarget;
   readonly description?: string;
 }
 
@@ -56,8 +130,15 @@ export interface SnoozeState {
   readonly until?: number; // Epoch ms when snooze expires; omitted means "Always"
 }
 
+/** Focus session that forces selected groups active until an end time */
+export interface FocusSessionState {
+  readonly active: boolean;
+  readonly groupIds?: readonly string[]; // Groups forced active while the session runs
+  readonly until?: number; // Epoch ms when the session ends
+}
+
 export interface BlockedBy {
-  readonly filterId: string;
+  readonly filterId?: string; // Omitted when the URL is not on an allowlist group's list
   readonly groupId: string;
 }
 
@@ -73,7 +154,9 @@ export interface BlockedFilterSnapshot {
   readonly id: string;
   readonly pattern: string;
   readonly matchMode: FilterMatchMode;
+  readonly target?: FilterTarget;
   readonly description?: string;
+  readonly maxVisitsPerDay?: number;
 }
 
 export type BlockedGroupSnapshot = FilterGroup;
@@ -82,18 +165,53 @@ export interface BlockedEffectiveState {
   readonly filterEnabled: boolean;
   readonly groupActive: boolean;
   readonly snoozeActive: boolean;
+  readonly focusSessionUntil?: number; // Set when a focus session forced the group active
+}
+
+/**
+ * A challenge as issued to one block page. The token names the issued challenge; the answer stays
+ * in the background's {@link IssuedChallenge}.
+ */
+export type ChallengePrompt =
+  | { readonly type: 'countdown'; readonly token: string; readonly readyAt: number }
+  | { readonly type: 'phrase'; readonly token: string; readonly phrase: string }
+  | { readonly type: 'arithmetic'; readonly token: string; readonly question: string };
+
+/** What Continue must present for a block, kept in session storage by block ID */
+export interface IssuedChallenge {
+  readonly token: string;
+  readonly readyAt?: number; // Epoch ms before which Continue is refused
+  readonly answer?: string; // Expected answer, compared ignoring case and extra spaces
 }
 
 export interface BlockedPageState extends BlockedTabState {
-  readonly filter: BlockedFilterSnapshot;
+  readonly filter?: BlockedFilterSnapshot; // Omitted when an allowlist group blocked the URL
   readonly group: BlockedGroupSnapshot | undefined;
   readonly effectiveState: BlockedEffectiveState;
+  readonly challenge?: ChallengePrompt; // Omitted when the group asks nothing before Continue
 }
 
-/** Per-tab record of a block the user chose to continue past. */
+/**
+ * Per-tab record of a block the user chose to continue past. Filter blocks are keyed by the
+ * filter; allowlist blocks, which have no filter, by the group. Within the tab the bypass covers
+ * the page or site in `urlKey`, or with the tab scope every page, until it expires.
+ */
 export interface BypassState {
-  readonly filterId: string;
-  readonly urlKey: string;
+  readonly filterId?: string;
+  readonly groupId?: string;
+  readonly scope: BypassScope;
+  readonly urlKey: string; // Canonical page URL, or canonical host for the site scope
+  readonly expiresAt?: number; // Epoch ms when the bypass ends; omitted means it does not
+}
+
+/**
+ * The focused tab whose time currently counts against daily budgets, and since when. Time is
+ * added to the budgets of `groupIds` when tracking moves or stops.
+ */
+export interface BudgetTrackingState {
+  readonly tabId: number;
+  readonly groupIds: readonly string[];
+  readonly since: number;
 }
 
 /** Root storage schema */
@@ -102,12 +220,85 @@ export interface StorageData {
   readonly filters: readonly Filter[];
   readonly whitelist: readonly Whitelist[];
   readonly snooze: SnoozeState;
+  readonly focusSession?: FocusSessionState; // Omitted means no session is running
   readonly expandBlockPageDetails?: boolean;
   readonly rulesVersion: number;
 }
 
+/** Time counted against one group's daily budget */
+export interface BudgetUsageEntry {
+  readonly day: string; // YYYY-MM-DD budget day the time belongs to, which starts at the reset time
+  readonly usedMs: number;
+}
+
+/** Budget usage by group ID, kept in chrome.storage.local */
+export type BudgetUsage = Readonly<Partial<Record<string, BudgetUsageEntry>>>;
+
+/** Visits counted against one filter's daily limit */
+export interface VisitCountEntry {
+  readonly day: string; // YYYY-MM-DD local date the visits belong to
+  readonly visits: number;
+}
+
+/** Visit counts by filter ID, kept in chrome.storage.local */
+export type VisitCounts = Readonly<Partial<Record<string, VisitCountEntry>>>;
+
+/** Continues counted against a daily bypass allowance */
+export interface BypassCountEntry {
+  readonly day: string; // YYYY-MM-DD date in the group's time zone the continues belong to
+  readonly bypasses: number;
+}
+
+/** Continue counts by group ID, kept in chrome.storage.local */
+export type BypassCounts = Readonly<Partial<Record<string, BypassCountEntry>>>;
+
+export type PomodoroPhase = 'focus' | 'short-break' | 'long-break';
+
+/** Shape of a Pomodoro run: lengths are in minutes */
+export interface PomodoroSettings {
+  readonly groupIds: readonly string[]; // Groups forced active during focus intervals
+  readonly focusMinutes: number;
+  readonly shortBreakMinutes: number;
+  readonly longBreakMinutes: number;
+  readonly longBreakEvery: number; // Focus intervals between long breaks
+  readonly cycles: number; // Focus intervals in the run
+}
+
+/** A running Pomodoro run, kept in chrome.storage.local */
+export interface PomodoroState extends PomodoroSettings {
+  readonly phase: PomodoroPhase;
+  readonly cycle: number; // 1-based focus interval the phase follows or belongs to
+  readonly phaseEndsAt: number;
+}
+
 /** Default group ID constant */
 export const DEFAULT_GROUP_ID = 'default-24x7' as const;
 
 /** Storage key constant */
 export const STORAGE_KEY = 'pageblock_data' as const;
+
+/** Local storage key for daily budget usage */
+export const BUDGET_USAGE_KEY = 'budget_usage' as const;
+
+/** Local storage key for daily visit counts */
+export const VISIT_COUNTS_KEY = 'visit_counts' as const;
+
+/** Local storage key for daily Continue counts */
+export const BYPASS_COUNTS_KEY = 'bypass_counts' as const;
+
+/** One Continue past a block, appended to the journal in chrome.storage.local */
+export interface BypassJournalEntry {
+  readonly at: number; // Epoch ms of the Continue
+  readonly url: string;
+  readonly groupId: string;
+  readonly groupName?: string; // Names at the time, so the entry still reads after edits
+  readonly filterId?: string; // Omitted for allowlist blocks
+  readonly filterPattern?: string;
+  readonly reason?: string;
+}
+
+/** Local storage key for the Continue journal */
+export const BYPASS_JOURNAL_KEY = 'bypass_journal' as const;
+
+/** Local storage key for the running Pomodoro run */
+export const POMODORO_KEY = 'pomodoro' as const;
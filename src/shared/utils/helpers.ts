@@ -61,6 +61,15 @@ export function getCurrentTimeString(): string {
   return formatTime(now.getHours(), now.getMinutes());
 }
 
+/**
+ * Format a date's local calendar day as YYYY-MM-DD
+ */
+export function formatDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(
+    date.getDate()
+  ).padStart(2, '0')}`;
+}
+
 /**
  * Format a duration in milliseconds into a compact label.
  */
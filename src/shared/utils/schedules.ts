@@ -1,20 +1,195 @@
 import { DAY_NAMES } from '../constants';
-import type { FilterGroup, TimeSchedule } from '../types';
+import type { ActiveLock, LockedOperation, LockViolation } from '../filtering/locks';
+import { getScheduleContextAt, type ScheduleContext } from '../filtering/schedules';
+import type {
+  BypassSettings,
+  ContinueChallenge,
+  DailyBudget,
+  DateRange,
+  FilterGroup,
+  TimeSchedule,
+} from '../types';
+import { formatDateString, formatDuration } from './helpers';
+
+/**
+ * Summarize a group's schedules, followed by any excluded dates that have not passed yet and the
+ * time zone they follow when it is not the browser's.
+ */
+export function formatGroupScheduleSummary(
+  group: FilterGroup,
+  today = formatDateString(new Date())
+): string {
+  const upcomingExclusions = (group.excludedDates ?? []).filter((range) => range.end >= today);
+  const exclusionSummary =
+    upcomingExclusions.length > 0
+      ? `, except ${upcomingExclusions.map(formatDateRange).join(', ')}`
+      : '';
 
-export function formatGroupScheduleSummary(group: FilterGroup): string {
   if (group.is24x7) {
-    return 'Always Active';
+    return upcomingExclusions.length > 0
+      ? `Always Active${exclusionSummary}${formatTimeZoneSuffix(group)}`
+      : 'Always Active';
   }
 
   if (group.schedules.length === 0) {
     return '0 schedules';
   }
 
-  return group.schedules.map(formatScheduleSummary).join(', ');
+  return `${group.schedules.map(formatScheduleSummary).join(', ')}${exclusionSummary}${formatTimeZoneSuffix(group)}`;
+}
+
+function formatTimeZoneSuffix(group: FilterGroup): string {
+  return group.timeZone ? ` (${group.timeZone})` : '';
+}
+
+export function formatDateRange(range: DateRange): string {
+  return range.start === range.end ? range.start : `${range.start} to ${range.end}`;
 }
 
+/**
+ * Summarize a schedule, e.g. `Mo-Fr 09:00-17:00` or, with recurrence rules,
+ * `1st, 3rd Mo 18:00-20:00 (until 2025-12-19)`.
+ */
 export function formatScheduleSummary(schedule: TimeSchedule): string {
-  return `${formatScheduleDays(schedule.daysOfWeek)} ${schedule.startTime}-${schedule.endTime}`;
+  const weeksOfMonth = schedule.weeksOfMonth?.map(formatWeekOfMonth).join(', ');
+  const days = formatScheduleDays(schedule.daysOfWeek);
+  const summary = `${weeksOfMonth ? `${weeksOfMonth} ${days}` : days} ${schedule.startTime}-${schedule.endTime}`;
+  const qualifiers = [formatScheduleInterval(schedule), formatScheduleValidity(schedule)].filter(
+    (qualifier): qualifier is string => qualifier !== null
+  );
+  return qualifiers.length > 0 ? `${summary} (${qualifiers.join(', ')})` : summary;
+}
+
+function formatScheduleInterval(schedule: TimeSchedule): string | null {
+  return schedule.weekInterval !== undefined && schedule.weekInterval > 1
+    ? `every ${schedule.weekInterval} weeks`
+    : null;
+}
+
+function formatScheduleValidity(schedule: TimeSchedule): string | null {
+  if (schedule.validFrom !== undefined && schedule.validUntil !== undefined) {
+    return formatDateRange({ start: schedule.validFrom, end: schedule.validUntil });
+  }
+  if (schedule.validFrom !== undefined) {
+    return `from ${schedule.validFrom}`;
+  }
+  if (schedule.validUntil !== undefined) {
+    return `until ${schedule.validUntil}`;
+  }
+  return null;
+}
+
+function formatWeekOfMonth(week: number): string {
+  if (week === -1) {
+    return 'last';
+  }
+  const suffix = week === 1 ? 'st' : week === 2 ? 'nd' : week === 3 ? 'rd' : 'th';
+  return `${week}${suffix}`;
+}
+
+/**
+ * Summarize a daily budget, e.g. `30m a day` or `1h 30m a day from 04:00`.
+ */
+export function formatDailyBudget(budget: DailyBudget): string {
+  const allowance = `${formatDuration(budget.minutes * 60_000)} a day`;
+  return budget.resetTime && budget.resetTime !== '00:00'
+    ? `${allowance} from ${budget.resetTime}`
+    : allowance;
+}
+
+/**
+ * Summarize what Continue asks for, e.g. `30s wait to continue`.
+ */
+export function formatContinueChallenge(challenge: ContinueChallenge): string {
+  switch (challenge.type) {
+    case 'countdown':
+      return `${challenge.seconds}s wait to continue`;
+    case 'phrase':
+      return 'Phrase to continue';
+    case 'arithmetic':
+      return 'Sum to continue';
+  }
+}
+
+/**
+ * Summarize what Continue unlocks when it is more than the page, not for good, not always, or not
+ * without a reason, e.g. `Continue per site for 10m, 2x a day, with a reason`.
+ */
+export function formatBypassSettings(settings: BypassSettings): string | null {
+  const scope = settings.scope ?? 'page';
+  const reach = scope === 'page' ? 'Continue' : `Continue per ${scope}`;
+  const duration =
+    settings.minutes !== undefined ? ` for ${formatDuration(settings.minutes * 60_000)}` : '';
+  const reason = settings.requireReason ? ', with a reason' : '';
+  if (settings.maxPerDay === 0) {
+    return 'No Continue';
+  }
+  if (settings.maxPerDay !== undefined) {
+    return `${reach}${duration}, ${settings.maxPerDay}x a day${reason}`;
+  }
+  return scope === 'page' && !duration && !reason ? null : `${reach}${duration}${reason}`;
+}
+
+/**
+ * What a commitment lock stops, as a noun phrase for the list of locked operations.
+ */
+export const LOCKED_OPERATION_LABELS: Readonly<Record<LockedOperation, string>> = {
+  'disable-group': 'disabling, deleting or unlocking the group',
+  'loosen-filters': 'removing, switching off or loosening its filters',
+  'add-exceptions': 'adding exceptions',
+  'loosen-schedule': 'shortening its schedules',
+  'loosen-continue': 'making Continue easier',
+  snooze: 'snoozing',
+  'end-focus-session': 'ending its focus session early',
+};
+
+/**
+ * Say how long a lock holds, e.g. `Locked until 17:00` or `Locked until Fr 17:00`.
+ */
+export function formatActiveLock(lock: ActiveLock, now = Date.now()): string {
+  return lock.until === null
+    ? 'Locked while it stays active'
+    : `Locked until ${formatUpcomingInstant(lock.until, now)}`;
+}
+
+/**
+ * Explain a refused change, e.g. `"Work" is locked until 17:00, which rules out snoozing.`
+ */
+export function formatLockViolation(violation: LockViolation, now = Date.now()): string {
+  const duration =
+    violation.until === null
+      ? 'for as long as it stays active'
+      : `until ${formatUpcomingInstant(violation.until, now)}`;
+  return `"${violation.groupName}" is locked ${duration}, which rules out ${LOCKED_OPERATION_LABELS[violation.operation]}.`;
+}
+
+/**
+ * Summarize a filter's visits today, e.g. `visit 2 of 3 used`, or `3 visits a day` before the
+ * first one.
+ */
+export function formatVisitsUsed(visitsUsed: number, maxVisits: number): string {
+  if (visitsUsed === 0) {
+    return `${maxVisits} ${maxVisits === 1 ? 'visit' : 'visits'} a day`;
+  }
+  return `visit ${Math.min(visitsUsed, maxVisits)} of ${maxVisits} used`;
+}
+
+/**
+ * Format a weekly moment such as a group's next activation, e.g. `Mo 09:00`.
+ */
+export function formatScheduleMoment(moment: ScheduleContext): string {
+  return `${DAY_NAMES[moment.dayOfWeek] ?? 'Unknown'} ${moment.time}`;
+}
+
+/**
+ * Format an upcoming instant such as a group transition: just the time when it falls on the same
+ * day as `now`, otherwise the weekday and time.
+ */
+export function formatUpcomingInstant(instant: number, now = Date.now()): string {
+  const moment = getScheduleContextAt(instant);
+  return new Date(instant).toDateString() === new Date(now).toDateString()
+    ? moment.time
+    : formatScheduleMoment(moment);
 }
 
 export function formatScheduleDays(daysOfWeek: readonly number[]): string {
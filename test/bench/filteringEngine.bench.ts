@@ -0,0 +1,27 @@
+import { bench, describe } from 'vitest';
+
+import { createFilteringEngine, evaluateFilterDecision } from '../../src/shared/filtering/engine';
+import { createLargeRuleSet } from '../fixtures/ruleSets';
+
+const context = { dayOfWeek: 1, time: '19:00' } as const;
+const { data, urls } = createLargeRuleSet(42, 5000);
+const engine = createFilteringEngine(data);
+
+describe('evaluating 400 urls against 5000 filters', () => {
+  bench('indexed engine', () => {
+    for (const url of urls) {
+      engine.evaluate(url, context);
+    }
+  });
+
+  // The scan takes seconds per round, so a few rounds are enough to compare.
+  bench(
+    'reference scan',
+    () => {
+      for (const url of urls) {
+        evaluateFilterDecision(url, data, { context });
+      }
+    },
+    { iterations: 3, time: 0, warmupIterations: 0, warmupTime: 0 }
+  );
+});
@@ -40,6 +40,18 @@ interface ChromeMock {
       addListener: ReturnType<typeof vi.fn>;
       removeListener: ReturnType<typeof vi.fn>;
     };
+    onActivated: {
+      addListener: ReturnType<typeof vi.fn>;
+      removeListener: ReturnType<typeof vi.fn>;
+    };
+  };
+  windows: {
+    WINDOW_ID_NONE: number;
+    getLastFocused: ReturnType<typeof vi.fn>;
+    onFocusChanged: {
+      addListener: ReturnType<typeof vi.fn>;
+      removeListener: ReturnType<typeof vi.fn>;
+    };
   };
   webNavigation: {
     onBeforeNavigate: {
@@ -97,9 +109,9 @@ function createMockStorage(): MockStorage {
   return {
     _data: data,
     _reset: () => data.clear(),
-    get: vi.fn((keys: string | string[]) => {
+    get: vi.fn((keys: string | string[] | null) => {
       const result: Record<string, unknown> = {};
-      const keyArray = Array.isArray(keys) ? keys : [keys];
+      const keyArray = keys === null ? [...data.keys()] : Array.isArray(keys) ? keys : [keys];
       keyArray.forEach((key) => {
         if (data.has(key)) {
           result[key] = data.get(key);
@@ -170,6 +182,30 @@ export function createChromeMock(): ChromeMock {
         addListener: vi.fn(),
         removeListener: vi.fn(),
       },
+      onActivated: {
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+      },
+    },
+    windows: {
+      WINDOW_ID_NONE: -1,
+      getLastFocused: vi.fn(
+        (_: chrome.windows.QueryOptions, callback?: (window: chrome.windows.Window) => void) => {
+          callback?.({
+            alwaysOnTop: false,
+            focused: false,
+            id: 1,
+            incognito: false,
+            state: 'normal',
+            tabs: [],
+            type: 'normal',
+          });
+        }
+      ),
+      onFocusChanged: {
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+      },
     },
     webNavigation: {
       onBeforeNavigate: {
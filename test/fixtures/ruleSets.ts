@@ -0,0 +1,119 @@
+import type {
+  Filter,
+  FilterMatchMode,
+  FilterTarget,
+  StorageData,
+  Whitelist,
+} from '../../src/shared/types';
+import { DEFAULT_GROUP_ID } from '../../src/shared/types';
+
+/** Small deterministic PRNG so generated rule sets are identical on every run. */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const WORDS = ['news', 'video', 'shop', 'mail', 'social', 'play', 'docs', 'cdn', 'ads', 'feed'];
+const TLDS = ['com', 'net', 'org', 'co.uk', 'io'];
+const TARGETS: readonly FilterTarget[] = ['url', 'host', 'path', 'query'];
+
+/**
+ * A seeded mix of every match mode, target, group kind and exception, with URLs that hit some of
+ * them, for checking and timing the indexed engine against the reference scan.
+ */
+export function createLargeRuleSet(
+  seed: number,
+  filterCount: number
+): { readonly data: StorageData; readonly urls: readonly string[] } {
+  const random = createRandom(seed);
+  const pick = <T>(items: readonly T[]): T => items[Math.floor(random() * items.length)] as T;
+  const host = (): string => `${pick(WORDS)}${Math.floor(random() * 50)}.${pick(TLDS)}`;
+  const url = (): string =>
+    `${pick(['https', 'http'])}://${random() < 0.3 ? 'www.' : ''}${host()}/${pick(WORDS)}/${Math.floor(random() * 5)}${random() < 0.3 ? `?u=${pick(WORDS)}` : ''}`;
+  const groupIds = [DEFAULT_GROUP_ID, 'evenings', 'mornings-allowlist'];
+  const patternFor = (matchMode: FilterMatchMode): string => {
+    switch (matchMode) {
+      case 'exact':
+        return url();
+      case 'domain':
+        return host();
+      case 'regex':
+        return `${pick(WORDS)}\\d+\\.${pick(TLDS)}/${pick(WORDS)}`;
+      case 'glob':
+        return `*.${host()}/*`;
+      case 'adblock':
+        return pick([
+          `||${host()}^`,
+          `||${host()}/${pick(WORDS)}`,
+          `|https://${host()}`,
+          `/${pick(WORDS)}/1^`,
+        ]);
+      default:
+        return pick([host(), `/${pick(WORDS)}/`, pick(WORDS)]);
+    }
+  };
+  const matchModes: readonly FilterMatchMode[] = [
+    'contains',
+    'exact',
+    'domain',
+    'regex',
+    'glob',
+    'adblock',
+  ];
+
+  const filters: Filter[] = Array.from({ length: filterCount }, (_, index) => {
+    const matchMode = pick(matchModes);
+    return {
+      id: `filter-${index}`,
+      pattern: patternFor(matchMode),
+      groupId: pick(groupIds),
+      enabled: random() > 0.1,
+      matchMode,
+      ...(random() < 0.2 ? { target: pick(TARGETS) } : {}),
+      ...(random() < 0.05 ? { expiresAt: random() < 0.5 ? 0 : Date.now() + 60_000 } : {}),
+      ...(random() < 0.1 ? { priority: Math.floor(random() * 5) - 2 } : {}),
+    };
+  });
+  const whitelist: Whitelist[] = Array.from({ length: Math.ceil(filterCount / 10) }, (_, index) => {
+    const matchMode = pick(matchModes);
+    return {
+      id: `exception-${index}`,
+      pattern: patternFor(matchMode),
+      groupId: pick(groupIds),
+      enabled: true,
+      matchMode,
+      ...(random() < 0.2 ? { target: pick(TARGETS) } : {}),
+    };
+  });
+
+  return {
+    data: {
+      groups: [
+        { id: DEFAULT_GROUP_ID, name: '24/7', schedules: [], is24x7: true },
+        {
+          id: 'evenings',
+          name: 'Evenings',
+          schedules: [{ daysOfWeek: [1], startTime: '18:00', endTime: '23:00' }],
+          is24x7: false,
+        },
+        {
+          id: 'mornings-allowlist',
+          name: 'Mornings',
+          schedules: [{ daysOfWeek: [1], startTime: '09:00', endTime: '12:00' }],
+          is24x7: false,
+          mode: 'allowlist',
+        },
+      ],
+      filters,
+      whitelist,
+      snooze: { active: false },
+      rulesVersion: 0,
+    },
+    urls: Array.from({ length: 400 }, url),
+  };
+}
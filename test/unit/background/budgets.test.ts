@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createMockTab, getChromeMock } from '../../fixtures/chrome-mocks';
+import { ALARMS } from '../../../src/shared/constants';
+import type { FilterDecision } from '../../../src/shared/filtering/engine';
+import { BUDGET_USAGE_KEY, DEFAULT_GROUP_ID, STORAGE_KEY } from '../../../src/shared/types';
+
+const mocks = vi.hoisted(() => ({
+  getUrlDecision: vi.fn(),
+  queueReconcile: vi.fn(),
+}));
+
+vi.mock('../../../src/background/tabController', () => ({
+  getTabController: (): {
+    getUrlDecision: typeof mocks.getUrlDecision;
+    queueReconcile: typeof mocks.queueReconcile;
+  } => ({
+    getUrlDecision: mocks.getUrlDecision,
+    queueReconcile: mocks.queueReconcile,
+  }),
+}));
+
+const withinBudget: FilterDecision = {
+  action: 'allow',
+  reason: 'within-budget',
+  groupIds: ['social'],
+};
+
+function setFocusedTab(url: string | null): void {
+  getChromeMock().windows.getLastFocused.mockImplementation(
+    (_: chrome.windows.QueryOptions, callback: (window: chrome.windows.Window) => void) => {
+      callback({
+        alwaysOnTop: false,
+        focused: url !== null,
+        id: 1,
+        incognito: false,
+        state: 'normal',
+        tabs: url === null ? [] : [createMockTab({ id: 7, active: true, url })],
+        type: 'normal',
+      });
+    }
+  );
+}
+
+/**
+ * Wait for the queued sync without letting the faked clock move on, so the elapsed time it counts
+ * stays exact.
+ */
+async function waitForSync(callback: () => void): Promise<void> {
+  await vi.waitFor(callback, { interval: 0 });
+}
+
+async function waitForTracking(): Promise<void> {
+  await waitForSync(() => {
+    expect(getChromeMock().alarms.create).toHaveBeenCalled();
+  });
+}
+
+describe('registerBudgetHandlers', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    mocks.getUrlDecision.mockReset().mockResolvedValue(withinBudget);
+    mocks.queueReconcile.mockReset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 13, 10, 0));
+    getChromeMock().storage.sync._data.set(STORAGE_KEY, {
+      groups: [
+        { id: DEFAULT_GROUP_ID, name: '24/7', schedules: [], is24x7: true },
+        {
+          id: 'social',
+          name: 'Social',
+          schedules: [],
+          is24x7: true,
+          dailyBudget: { minutes: 5 },
+        },
+      ],
+      filters: [],
+      whitelist: [],
+      snooze: { active: false },
+      rulesVersion: 1,
+    });
+    setFocusedTab('https://social.example.com/feed');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('registers listeners once and starts tracking a focused page within budget', async () => {
+    const chromeMock = getChromeMock();
+
+    const { registerBudgetHandlers } = await import('../../../src/background/budgets');
+    registerBudgetHandlers();
+    registerBudgetHandlers();
+
+    expect(chromeMock.tabs.onActivated.addListener).toHaveBeenCalledTimes(1);
+    expect(chromeMock.windows.onFocusChanged.addListener).toHaveBeenCalledTimes(1);
+    expect(chromeMock.alarms.onAlarm.addListener).toHaveBeenCalledTimes(1);
+    await waitForTracking();
+    expect(mocks.getUrlDecision).toHaveBeenCalledWith('https://social.example.com/feed');
+    expect(chromeMock.alarms.create).toHaveBeenCalledWith(ALARMS.BUDGET_TICK, {
+      when: Date.now() + 60_000,
+    });
+    expect(chromeMock.storage.session._data.get('budget_tracking')).toEqual({
+      tabId: 7,
+      groupIds: ['social'],
+      since: Date.now(),
+    });
+  });
+
+  it('counts tracked time on each tick, ignoring gaps from sleep', async () => {
+    const chromeMock = getChromeMock();
+    const { registerBudgetHandlers } = await import('../../../src/background/budgets');
+    registerBudgetHandlers();
+    await waitForTracking();
+
+    const onAlarm = chromeMock.alarms.onAlarm.addListener.mock.calls[0]?.[0];
+    expect(onAlarm).toBeTypeOf('function');
+    chromeMock.alarms.create.mockClear();
+    vi.setSystemTime(new Date(2025, 0, 13, 10, 1));
+    onAlarm?.({ name: ALARMS.BUDGET_TICK });
+    await waitForTracking();
+
+    expect(chromeMock.storage.local._data.get(BUDGET_USAGE_KEY)).toEqual({
+      social: { day: '2025-01-13', usedMs: 60_000 },
+    });
+
+    chromeMock.alarms.create.mockClear();
+    vi.setSystemTime(new Date(2025, 0, 13, 12, 0));
+    onAlarm?.({ name: ALARMS.BUDGET_TICK });
+    await waitForTracking();
+
+    expect(chromeMock.storage.local._data.get(BUDGET_USAGE_KEY)).toEqual({
+      social: { day: '2025-01-13', usedMs: 180_000 },
+    });
+    // Two minutes are left, so the next tick comes after the usual minute.
+    expect(chromeMock.alarms.create).toHaveBeenCalledWith(ALARMS.BUDGET_TICK, {
+      when: Date.now() + 60_000,
+    });
+  });
+
+  it('re-checks open tabs and stops tracking once the budget is used up', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.local._data.set(BUDGET_USAGE_KEY, {
+      social: { day: '2025-01-13', usedMs: 4.5 * 60_000 },
+    });
+    const { registerBudgetHandlers } = await import('../../../src/background/budgets');
+    registerBudgetHandlers();
+    await waitForTracking();
+    expect(chromeMock.alarms.create).toHaveBeenCalledWith(ALARMS.BUDGET_TICK, {
+      when: Date.now() + 30_000,
+    });
+
+    mocks.getUrlDecision.mockResolvedValue({
+      action: 'block',
+      filterId: 'block-social',
+      groupId: 'social',
+      reason: 'matched-filter',
+    });
+    vi.setSystemTime(new Date(2025, 0, 13, 10, 0, 30));
+    chromeMock.alarms.onAlarm.addListener.mock.calls[0]?.[0]?.({ name: ALARMS.BUDGET_TICK });
+
+    await waitForSync(() => {
+      expect(chromeMock.alarms.clear).toHaveBeenCalledWith(ALARMS.BUDGET_TICK);
+    });
+    expect(mocks.queueReconcile).toHaveBeenCalledTimes(1);
+    expect(chromeMock.storage.local._data.get(BUDGET_USAGE_KEY)).toEqual({
+      social: { day: '2025-01-13', usedMs: 5 * 60_000 },
+    });
+    expect(chromeMock.storage.session._data.has('budget_tracking')).toBe(false);
+  });
+
+  it('does not track while no browser window has focus', async () => {
+    const chromeMock = getChromeMock();
+    setFocusedTab(null);
+
+    const { registerBudgetHandlers } = await import('../../../src/background/budgets');
+    registerBudgetHandlers();
+
+    await waitForSync(() => {
+      expect(chromeMock.alarms.clear).toHaveBeenCalledWith(ALARMS.BUDGET_TICK);
+    });
+    expect(mocks.getUrlDecision).not.toHaveBeenCalled();
+    expect(chromeMock.alarms.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getChromeMock } from '../../fixtures/chrome-mocks';
+import { ALARMS } from '../../../src/shared/constants';
+
+const mocks = vi.hoisted(() => ({
+  queueReconcile: vi.fn(),
+}));
+
+vi.mock('../../../src/background/tabController', () => ({
+  getTabController: (): { queueReconcile: typeof mocks.queueReconcile } => ({
+    queueReconcile: mocks.queueReconcile,
+  }),
+}));
+
+describe('registerBypassExpiryHandlers', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    mocks.queueReconcile.mockReset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 13, 10, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('arms the alarm for the earliest bypass that has not expired yet', async () => {
+    const chromeMock = getChromeMock();
+    const session = chromeMock.storage.session._data;
+    session.set('bypass_1', { filterId: 'a', scope: 'page', urlKey: 'https://a.test/' });
+    session.set('bypass_2', {
+      filterId: 'b',
+      scope: 'site',
+      urlKey: 'b.test',
+      expiresAt: Date.now() + 30 * 60_000,
+    });
+    session.set('bypass_3', {
+      groupId: 'exams',
+      scope: 'tab',
+      urlKey: 'https://c.test/',
+      expiresAt: Date.now() + 5 * 60_000,
+    });
+    session.set('bypass_4', {
+      filterId: 'd',
+      scope: 'page',
+      urlKey: 'https://d.test/',
+      expiresAt: Date.now() - 60_000,
+    });
+
+    const { registerBypassExpiryHandlers } = await import('../../../src/background/bypassExpiry');
+    registerBypassExpiryHandlers();
+    registerBypassExpiryHandlers();
+
+    expect(chromeMock.storage.onChanged.addListener).toHaveBeenCalledTimes(1);
+    expect(chromeMock.alarms.onAlarm.addListener).toHaveBeenCalledTimes(1);
+    await vi.waitFor(
+      () => {
+        expect(chromeMock.alarms.create).toHaveBeenCalledWith(ALARMS.BYPASS_EXPIRATION, {
+          when: Date.now() + 5 * 60_000,
+        });
+      },
+      { interval: 0 }
+    );
+  });
+
+  it('re-checks open tabs when the alarm fires and clears it once nothing is left to expire', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.session._data.set('bypass_3', {
+      groupId: 'exams',
+      scope: 'tab',
+      urlKey: 'https://c.test/',
+      expiresAt: Date.now() + 5 * 60_000,
+    });
+    const { registerBypassExpiryHandlers } = await import('../../../src/background/bypassExpiry');
+    registerBypassExpiryHandlers();
+    await vi.waitFor(
+      () => {
+        expect(chromeMock.alarms.create).toHaveBeenCalled();
+      },
+      { interval: 0 }
+    );
+
+    vi.setSystemTime(new Date(2025, 0, 13, 10, 5));
+    chromeMock.alarms.onAlarm.addListener.mock.calls[0]?.[0]?.({
+      name: ALARMS.BYPASS_EXPIRATION,
+    });
+
+    expect(mocks.queueReconcile).toHaveBeenCalledTimes(1);
+    await vi.waitFor(
+      () => {
+        expect(chromeMock.alarms.clear).toHaveBeenCalledWith(ALARMS.BYPASS_EXPIRATION);
+      },
+      { interval: 0 }
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getChromeMock } from '../../fixtures/chrome-mocks';
+import { ALARMS } from '../../../src/shared/constants';
+import { DEFAULT_GROUP_ID, STORAGE_KEY } from '../../../src/shared/types';
+
+function setStoredFocusSession(until: number): void {
+  getChromeMock().storage.sync._data.set(STORAGE_KEY, {
+    groups: [
+      { id: DEFAULT_GROUP_ID, name: '24/7', schedules: [], is24x7: true },
+      { id: 'work', name: 'Work', schedules: [], is24x7: false },
+    ],
+    filters: [],
+    whitelist: [],
+    snooze: { active: false },
+    focusSession: { active: true, groupIds: ['work'], until },
+    rulesVersion: 1,
+  });
+}
+
+describe('registerFocusSessionHandlers', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 13, 10, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('registers listeners once and arms an alarm for the end of a running session', async () => {
+    const chromeMock = getChromeMock();
+    const until = Date.now() + 25 * 60_000;
+    setStoredFocusSession(until);
+
+    const { registerFocusSessionHandlers } = await import('../../../src/background/focusSession');
+    registerFocusSessionHandlers();
+    registerFocusSessionHandlers();
+
+    expect(chromeMock.storage.onChanged.addListener).toHaveBeenCalledTimes(1);
+    expect(chromeMock.alarms.onAlarm.addListener).toHaveBeenCalledTimes(1);
+    await vi.waitFor(
+      () => {
+        expect(chromeMock.alarms.create).toHaveBeenCalledWith(ALARMS.FOCUS_SESSION_END, {
+          when: until,
+        });
+      },
+      { interval: 0 }
+    );
+  });
+
+  it('ends the session when its alarm fires', async () => {
+    const chromeMock = getChromeMock();
+    const until = Date.now() + 25 * 60_000;
+    setStoredFocusSession(until);
+    const { registerFocusSessionHandlers } = await import('../../../src/background/focusSession');
+    registerFocusSessionHandlers();
+    await vi.waitFor(
+      () => {
+        expect(chromeMock.alarms.create).toHaveBeenCalled();
+      },
+      { interval: 0 }
+    );
+
+    vi.setSystemTime(until);
+    chromeMock.alarms.onAlarm.addListener.mock.calls[0]?.[0]?.({
+      name: ALARMS.FOCUS_SESSION_END,
+    });
+
+    await vi.waitFor(
+      () => {
+        expect(chromeMock.storage.sync._data.get(STORAGE_KEY)).not.toHaveProperty('focusSession');
+      },
+      { interval: 0 }
+    );
+    expect(chromeMock.alarms.clear).toHaveBeenCalledWith(ALARMS.FOCUS_SESSION_END);
+  });
+});
@@ -7,6 +7,11 @@ const mocks = vi.hoisted(() => ({
   handleMessage: vi.fn(),
   registerTabController: vi.fn(),
   registerSnoozeHandlers: vi.fn(),
+  registerScheduleBoundaryHandlers: vi.fn(),
+  registerBudgetHandlers: vi.fn(),
+  registerFocusSessionHandlers: vi.fn(),
+  registerPomodoroHandlers: vi.fn(),
+  registerBypassExpiryHandlers: vi.fn(),
 }));
 
 vi.mock('../../../src/background/handlers', () => ({
@@ -26,6 +31,26 @@ vi.mock('../../../src/background/snooze', () => ({
   registerSnoozeHandlers: mocks.registerSnoozeHandlers,
 }));
 
+vi.mock('../../../src/background/scheduleBoundaries', () => ({
+  registerScheduleBoundaryHandlers: mocks.registerScheduleBoundaryHandlers,
+}));
+
+vi.mock('../../../src/background/budgets', () => ({
+  registerBudgetHandlers: mocks.registerBudgetHandlers,
+}));
+
+vi.mock('../../../src/background/focusSession', () => ({
+  registerFocusSessionHandlers: mocks.registerFocusSessionHandlers,
+}));
+
+vi.mock('../../../src/background/pomodoro', () => ({
+  registerPomodoroHandlers: mocks.registerPomodoroHandlers,
+}));
+
+vi.mock('../../../src/background/bypassExpiry', () => ({
+  registerBypassExpiryHandlers: mocks.registerBypassExpiryHandlers,
+}));
+
 describe('background entrypoint', () => {
   beforeEach(() => {
     vi.resetModules();
@@ -33,6 +58,11 @@ describe('background entrypoint', () => {
     mocks.handleMessage.mockReset();
     mocks.registerTabController.mockReset();
     mocks.registerSnoozeHandlers.mockReset();
+    mocks.registerScheduleBoundaryHandlers.mockReset();
+    mocks.registerBudgetHandlers.mockReset();
+    mocks.registerFocusSessionHandlers.mockReset();
+    mocks.registerPomodoroHandlers.mockReset();
+    mocks.registerBypassExpiryHandlers.mockReset();
   });
 
   it('registers all webNavigation listeners with the shared navigation handler', async () => {
@@ -49,6 +79,11 @@ describe('background entrypoint', () => {
     expect(chromeMock.runtime.onMessage.addListener).toHaveBeenCalledWith(mocks.handleMessage);
     expect(mocks.registerTabController).toHaveBeenCalledTimes(1);
     expect(mocks.registerSnoozeHandlers).toHaveBeenCalledTimes(1);
+    expect(mocks.registerScheduleBoundaryHandlers).toHaveBeenCalledTimes(1);
+    expect(mocks.registerBudgetHandlers).toHaveBeenCalledTimes(1);
+    expect(mocks.registerFocusSessionHandlers).toHaveBeenCalledTimes(1);
+    expect(mocks.registerPomodoroHandlers).toHaveBeenCalledTimes(1);
+    expect(mocks.registerBypassExpiryHandlers).toHaveBeenCalledTimes(1);
 
     const beforeNavigateListener =
       chromeMock.webNavigation.onBeforeNavigate.addListener.mock.calls[0]?.[0];
@@ -4,6 +4,7 @@ const mocks = vi.hoisted(() => ({
   continueFromActiveTab: vi.fn(),
   continueFromBlockedPage: vi.fn(),
   continueFromTab: vi.fn(),
+  explainUrl: vi.fn(),
   getUrlDecision: vi.fn(),
   getBlockedPageStateByBlockId: vi.fn(),
   getBlockedPageStateForTab: vi.fn(),
@@ -22,10 +23,12 @@ vi.mock('../../../src/background/tabController', () => ({
     continueFromActiveTab: typeof mocks.continueFromActiveTab;
     continueFromBlockedPage: typeof mocks.continueFromBlockedPage;
     continueFromTab: typeof mocks.continueFromTab;
+    explainUrl: typeof mocks.explainUrl;
   } => ({
     continueFromActiveTab: mocks.continueFromActiveTab,
     continueFromBlockedPage: mocks.continueFromBlockedPage,
     continueFromTab: mocks.continueFromTab,
+    explainUrl: mocks.explainUrl,
     getUrlDecision: mocks.getUrlDecision,
     getBlockedPageStateByBlockId: mocks.getBlockedPageStateByBlockId,
     getBlockedPageStateForTab: mocks.getBlockedPageStateForTab,
@@ -85,6 +88,29 @@ describe('handleMessage', () => {
     });
   });
 
+  it('responds with an explanation for EXPLAIN_URL messages', async () => {
+    const explanation = {
+      url: 'https://example.com',
+      decision: { action: 'allow', reason: 'no-match' },
+      matches: [],
+    };
+    mocks.explainUrl.mockResolvedValue(explanation);
+    const sendResponse = vi.fn();
+
+    expect(
+      handleMessage(
+        { type: MessageType.EXPLAIN_URL, url: 'https://example.com' },
+        { id: 'test-extension-id' },
+        sendResponse
+      )
+    ).toBe(true);
+
+    await vi.waitFor(() => {
+      expect(sendResponse).toHaveBeenCalledWith({ explanation });
+    });
+    expect(mocks.explainUrl).toHaveBeenCalledWith('https://example.com');
+  });
+
   it('responds to continue requests', async () => {
     mocks.continueFromTab.mockResolvedValue(true);
     const sendResponse = vi.fn();
@@ -109,6 +135,8 @@ describe('handleMessage', () => {
     expect(mocks.continueFromTab).toHaveBeenCalledWith(
       9,
       'chrome-extension://test-extension-id/blocked.html?blockId=block-9',
+      undefined,
+      undefined,
       undefined
     );
     expect(mocks.continueFromActiveTab).not.toHaveBeenCalled();
@@ -120,7 +148,12 @@ describe('handleMessage', () => {
 
     expect(
       handleMessage(
-        { type: MessageType.CONTINUE_ACTIVE_TAB, blockId: 'block-9' },
+        {
+          type: MessageType.CONTINUE_ACTIVE_TAB,
+          blockId: 'block-9',
+          challenge: { token: 'token-9', answer: '84' },
+          reason: 'need docs for ticket',
+        },
         {
           id: 'test-extension-id',
           tab: {
@@ -138,7 +171,9 @@ describe('handleMessage', () => {
     expect(mocks.continueFromTab).toHaveBeenCalledWith(
       9,
       'chrome-extension://test-extension-id/blocked.html?blockId=block-9',
-      'block-9'
+      'block-9',
+      { token: 'token-9', answer: '84' },
+      'need docs for ticket'
     );
   });
 
@@ -157,7 +192,7 @@ describe('handleMessage', () => {
     await vi.waitFor(() => {
       expect(sendResponse).toHaveBeenCalledWith({ continued: true });
     });
-    expect(mocks.continueFromBlockedPage).toHaveBeenCalledWith('block-9');
+    expect(mocks.continueFromBlockedPage).toHaveBeenCalledWith('block-9', undefined, undefined);
     expect(mocks.continueFromActiveTab).not.toHaveBeenCalled();
   });
 
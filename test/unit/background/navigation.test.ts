@@ -2,6 +2,11 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 const mocks = vi.hoisted(() => ({
   evaluateNavigation: vi.fn(),
+  queueBudgetSync: vi.fn(),
+}));
+
+vi.mock('../../../src/background/budgets', () => ({
+  queueBudgetSync: mocks.queueBudgetSync,
 }));
 
 vi.mock('../../../src/background/tabController', () => ({
@@ -51,6 +56,7 @@ describe('handleNavigationChange', () => {
     );
 
     expect(mocks.evaluateNavigation).toHaveBeenCalledWith(9, 'https://blocked.com/page');
+    expect(mocks.queueBudgetSync).toHaveBeenCalledTimes(1);
   });
 
   it('delegates main-frame history-state updates to the tab controller', async () => {
@@ -78,5 +84,6 @@ describe('handleNavigationChange', () => {
     );
 
     expect(mocks.evaluateNavigation).not.toHaveBeenCalled();
+    expect(mocks.queueBudgetSync).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getChromeMock } from '../../fixtures/chrome-mocks';
+import { ALARMS } from '../../../src/shared/constants';
+import { DEFAULT_GROUP_ID, POMODORO_KEY, STORAGE_KEY } from '../../../src/shared/types';
+import type { PomodoroState } from '../../../src/shared/types';
+
+function createRun(overrides: Partial<PomodoroState> = {}): PomodoroState {
+  return {
+    groupIds: ['work'],
+    focusMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    longBreakEvery: 4,
+    cycles: 2,
+    phase: 'focus',
+    cycle: 1,
+    phaseEndsAt: Date.now() + 25 * 60_000,
+    ...overrides,
+  };
+}
+
+async function waitForSync(callback: () => void): Promise<void> {
+  await vi.waitFor(callback, { interval: 0 });
+}
+
+function getStoredFocusSession(): unknown {
+  const data = getChromeMock().storage.sync._data.get(STORAGE_KEY) as
+    { focusSession?: unknown } | undefined;
+  return data?.focusSession;
+}
+
+describe('registerPomodoroHandlers', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 13, 9, 0));
+    getChromeMock().storage.sync._data.set(STORAGE_KEY, {
+      groups: [
+        { id: DEFAULT_GROUP_ID, name: '24/7', schedules: [], is24x7: true },
+        { id: 'work', name: 'Work', schedules: [], is24x7: false },
+      ],
+      filters: [],
+      whitelist: [],
+      snooze: { active: false },
+      rulesVersion: 1,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('registers listeners once and arms an alarm for the end of the running phase', async () => {
+    const chromeMock = getChromeMock();
+    const run = createRun();
+    chromeMock.storage.local._data.set(POMODORO_KEY, run);
+
+    const { registerPomodoroHandlers } = await import('../../../src/background/pomodoro');
+    registerPomodoroHandlers();
+    registerPomodoroHandlers();
+
+    expect(chromeMock.storage.onChanged.addListener).toHaveBeenCalledTimes(1);
+    expect(chromeMock.alarms.onAlarm.addListener).toHaveBeenCalledTimes(1);
+    await waitForSync(() => {
+      expect(chromeMock.alarms.create).toHaveBeenCalledWith(ALARMS.POMODORO_PHASE_END, {
+        when: run.phaseEndsAt,
+      });
+    });
+    expect(chromeMock.storage.local._data.get(POMODORO_KEY)).toEqual(run);
+  });
+
+  it('lifts the focus session for a break and brings it back for the next interval', async () => {
+    const chromeMock = getChromeMock();
+    const run = createRun();
+    chromeMock.storage.local._data.set(POMODORO_KEY, run);
+    const { registerPomodoroHandlers } = await import('../../../src/background/pomodoro');
+    registerPomodoroHandlers();
+    await waitForSync(() => {
+      expect(chromeMock.alarms.create).toHaveBeenCalled();
+    });
+    const onAlarm = chromeMock.alarms.onAlarm.addListener.mock.calls[0]?.[0];
+
+    chromeMock.alarms.create.mockClear();
+    vi.setSystemTime(run.phaseEndsAt);
+    onAlarm?.({ name: ALARMS.POMODORO_PHASE_END });
+    await waitForSync(() => {
+      expect(chromeMock.alarms.create).toHaveBeenCalledWith(ALARMS.POMODORO_PHASE_END, {
+        when: run.phaseEndsAt + 5 * 60_000,
+      });
+    });
+    expect(chromeMock.storage.local._data.get(POMODORO_KEY)).toMatchObject({
+      phase: 'short-break',
+      cycle: 1,
+    });
+    expect(getStoredFocusSession()).toBeUndefined();
+
+    const breakEndsAt = run.phaseEndsAt + 5 * 60_000;
+    chromeMock.alarms.create.mockClear();
+    vi.setSystemTime(breakEndsAt);
+    onAlarm?.({ name: ALARMS.POMODORO_PHASE_END });
+    await waitForSync(() => {
+      expect(chromeMock.alarms.create).toHaveBeenCalled();
+    });
+    expect(getStoredFocusSession()).toEqual({
+      active: true,
+      groupIds: ['work'],
+      until: breakEndsAt + 25 * 60_000,
+    });
+  });
+
+  it('leaves a focus session started by hand running through a break', async () => {
+    const chromeMock = getChromeMock();
+    const run = createRun();
+    const manualSession = { active: true, groupIds: ['work'], until: run.phaseEndsAt + 3_600_000 };
+    chromeMock.storage.local._data.set(POMODORO_KEY, run);
+    chromeMock.storage.sync._data.set(STORAGE_KEY, {
+      ...(chromeMock.storage.sync._data.get(STORAGE_KEY) as object),
+      focusSession: manualSession,
+    });
+    vi.setSystemTime(run.phaseEndsAt);
+
+    const { registerPomodoroHandlers } = await import('../../../src/background/pomodoro');
+    registerPomodoroHandlers();
+    await waitForSync(() => {
+      expect(chromeMock.alarms.create).toHaveBeenCalled();
+    });
+
+    expect(chromeMock.storage.local._data.get(POMODORO_KEY)).toMatchObject({
+      phase: 'short-break',
+    });
+    expect(getStoredFocusSession()).toEqual(manualSession);
+  });
+
+  it('keeps the run in its phase when the focus session cannot be saved', async () => {
+    const chromeMock = getChromeMock();
+    const run = createRun({ phase: 'short-break', phaseEndsAt: Date.now() });
+    chromeMock.storage.local._data.set(POMODORO_KEY, run);
+    chromeMock.storage.sync.set.mockRejectedValueOnce(new Error('QUOTA_BYTES quota exceeded'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const { registerPomodoroHandlers } = await import('../../../src/background/pomodoro');
+    registerPomodoroHandlers();
+    await waitForSync(() => {
+      expect(consoleError).toHaveBeenCalled();
+    });
+
+    expect(chromeMock.storage.local._data.get(POMODORO_KEY)).toEqual(run);
+    expect(getStoredFocusSession()).toBeUndefined();
+    consoleError.mockRestore();
+  });
+
+  it('ends the run and its focus session after the last interval', async () => {
+    const chromeMock = getChromeMock();
+    const run = createRun({ cycle: 2 });
+    chromeMock.storage.local._data.set(POMODORO_KEY, run);
+    vi.setSystemTime(run.phaseEndsAt);
+
+    const { registerPomodoroHandlers } = await import('../../../src/background/pomodoro');
+    registerPomodoroHandlers();
+
+    await waitForSync(() => {
+      expect(chromeMock.alarms.clear).toHaveBeenCalledWith(ALARMS.POMODORO_PHASE_END);
+    });
+    expect(chromeMock.storage.local._data.has(POMODORO_KEY)).toBe(false);
+    expect(getStoredFocusSession()).toBeUndefined();
+  });
+});
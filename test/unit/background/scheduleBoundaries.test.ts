@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getChromeMock } from '../../fixtures/chrome-mocks';
+import { ALARMS } from '../../../src/shared/constants';
+import { DEFAULT_GROUP_ID, STORAGE_KEY } from '../../../src/shared/types';
+
+const mocks = vi.hoisted(() => ({
+  queueReconcile: vi.fn(),
+}));
+
+vi.mock('../../../src/background/tabController', () => ({
+  getTabController: (): { queueReconcile: typeof mocks.queueReconcile } => ({
+    queueReconcile: mocks.queueReconcile,
+  }),
+}));
+
+function createStoredData(schedules: readonly { startTime: string; endTime: string }[]): unknown {
+  return {
+    groups: [
+      { id: DEFAULT_GROUP_ID, name: '24/7', schedules: [], is24x7: true },
+      {
+        id: 'work-hours',
+        name: 'Work Hours',
+        is24x7: false,
+        schedules: schedules.map((schedule) => ({ daysOfWeek: [1, 2, 3, 4, 5], ...schedule })),
+      },
+    ],
+    filters: [],
+    whitelist: [],
+    snooze: { active: false },
+    rulesVersion: 1,
+  };
+}
+
+describe('registerScheduleBoundaryHandlers', () => {
+  beforeEach(() => {
+    vi.resetModules();
+    mocks.queueReconcile.mockReset();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // A Monday morning, before work hours start.
+    vi.setSystemTime(new Date(2025, 0, 13, 8, 30));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('registers listeners once and arms an alarm for the next schedule boundary', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStoredData([{ startTime: '09:00', endTime: '17:00' }])
+    );
+
+    const { registerScheduleBoundaryHandlers } =
+      await import('../../../src/background/scheduleBoundaries');
+    registerScheduleBoundaryHandlers();
+    registerScheduleBoundaryHandlers();
+
+    expect(chromeMock.storage.onChanged.addListener).toHaveBeenCalledTimes(1);
+    expect(chromeMock.alarms.onAlarm.addListener).toHaveBeenCalledTimes(1);
+    await vi.waitFor(() => {
+      expect(chromeMock.alarms.create).toHaveBeenCalledWith(ALARMS.SCHEDULE_BOUNDARY, {
+        when: new Date(2025, 0, 13, 9, 0).getTime(),
+      });
+    });
+  });
+
+  it('clears the alarm when no schedule or temporary filter changes by itself', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.sync._data.set(STORAGE_KEY, createStoredData([]));
+
+    const { registerScheduleBoundaryHandlers } =
+      await import('../../../src/background/scheduleBoundaries');
+    registerScheduleBoundaryHandlers();
+
+    await vi.waitFor(() => {
+      expect(chromeMock.alarms.clear).toHaveBeenCalledWith(ALARMS.SCHEDULE_BOUNDARY);
+    });
+    expect(chromeMock.alarms.create).not.toHaveBeenCalled();
+  });
+
+  it('reconciles open tabs and arms the following boundary when the alarm fires', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStoredData([{ startTime: '22:00', endTime: '02:00' }])
+    );
+
+    const { registerScheduleBoundaryHandlers } =
+      await import('../../../src/background/scheduleBoundaries');
+    registerScheduleBoundaryHandlers();
+    await vi.waitFor(() => {
+      expect(chromeMock.alarms.create).toHaveBeenCalledWith(ALARMS.SCHEDULE_BOUNDARY, {
+        when: new Date(2025, 0, 13, 22, 0).getTime(),
+      });
+    });
+
+    vi.setSystemTime(new Date(2025, 0, 13, 22, 0));
+    const onAlarm = chromeMock.alarms.onAlarm.addListener.mock.calls[0]?.[0];
+    expect(onAlarm).toBeTypeOf('function');
+    onAlarm?.({ name: 'unrelated' });
+    expect(mocks.queueReconcile).not.toHaveBeenCalled();
+
+    onAlarm?.({ name: ALARMS.SCHEDULE_BOUNDARY });
+
+    expect(mocks.queueReconcile).toHaveBeenCalledTimes(1);
+    // The overnight schedule ends the following morning, after its last included minute.
+    await vi.waitFor(() => {
+      expect(chromeMock.alarms.create).toHaveBeenLastCalledWith(ALARMS.SCHEDULE_BOUNDARY, {
+        when: new Date(2025, 0, 14, 2, 1).getTime(),
+      });
+    });
+  });
+});
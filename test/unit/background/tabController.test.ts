@@ -2,12 +2,22 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import {
   getBlockedTabState,
+  getIssuedChallenge,
   getLastAllowedUrl,
   setBlockedPageState,
   setBlockedTabState,
 } from '../../../src/shared/api/session';
 import { getChromeMock } from '../../fixtures/chrome-mocks';
-import { DEFAULT_GROUP_ID, STORAGE_KEY, type StorageData } from '../../../src/shared/types';
+import {
+  BYPASS_COUNTS_KEY,
+  BYPASS_JOURNAL_KEY,
+  DEFAULT_GROUP_ID,
+  STORAGE_KEY,
+  VISIT_COUNTS_KEY,
+  type Filter,
+  type StorageData,
+  type VisitCounts,
+} from '../../../src/shared/types';
 import { PAGES } from '../../../src/shared/constants';
 
 function createStorageData(overrides: Partial<StorageData> = {}): StorageData {
@@ -489,6 +499,423 @@ describe('TabController', () => {
     );
   });
 
+  it('only continues past a challenged block with an answer to the challenge it was issued', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStorageData({
+        groups: [
+          {
+            id: DEFAULT_GROUP_ID,
+            name: '24/7',
+            schedules: [],
+            is24x7: true,
+            challenge: { type: 'arithmetic' },
+          },
+        ],
+        filters: [
+          {
+            id: 'challenged-filter',
+            pattern: 'challenge.com',
+            groupId: DEFAULT_GROUP_ID,
+            enabled: true,
+            matchMode: 'contains',
+          },
+        ],
+        rulesVersion: 12,
+      })
+    );
+
+    const { getTabController } = await import('../../../src/background/tabController');
+    await getTabController().evaluateNavigation(13, 'https://challenge.com/');
+    const state = await getBlockedTabState(13);
+    const pageState = await getTabController().getBlockedPageStateByBlockId(state!.blockId);
+    const prompt = pageState.status === 'blocked' ? pageState.state.challenge : undefined;
+    expect(prompt).toEqual({
+      type: 'arithmetic',
+      token: expect.any(String),
+      question: expect.stringMatching(/^\d+ × \d+$/),
+    });
+    const issued = await getIssuedChallenge(state!.blockId);
+    const token = prompt?.token ?? '';
+
+    const url = blockedPageUrl(state!.blockId);
+    await expect(getTabController().continueFromTab(13, url)).resolves.toBe(false);
+    await expect(
+      getTabController().continueFromTab(13, url, undefined, { token, answer: 'nope' })
+    ).resolves.toBe(false);
+    await expect(
+      getTabController().continueFromTab(13, url, undefined, {
+        token: 'forged',
+        answer: issued?.answer,
+      })
+    ).resolves.toBe(false);
+    chromeMock.tabs.update.mockClear();
+
+    await expect(
+      getTabController().continueFromTab(13, url, undefined, { token, answer: issued?.answer })
+    ).resolves.toBe(true);
+    expect(chromeMock.tabs.update).toHaveBeenCalledWith(
+      13,
+      { url: 'https://challenge.com/' },
+      expect.any(Function)
+    );
+    await expect(getIssuedChallenge(state!.blockId)).resolves.toBeUndefined();
+  });
+
+  it('asks for a challenge added after the page was blocked', async () => {
+    const chromeMock = getChromeMock();
+    const filters: Filter[] = [
+      {
+        id: 'challenged-filter',
+        pattern: 'challenge.com',
+        groupId: DEFAULT_GROUP_ID,
+        enabled: true,
+        matchMode: 'contains',
+      },
+    ];
+    chromeMock.storage.sync._data.set(STORAGE_KEY, createStorageData({ filters }));
+
+    const { getTabController } = await import('../../../src/background/tabController');
+    await getTabController().evaluateNavigation(13, 'https://challenge.com/');
+    const previous = await getBlockedTabState(13);
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStorageData({
+        groups: [
+          {
+            id: DEFAULT_GROUP_ID,
+            name: '24/7',
+            schedules: [],
+            is24x7: true,
+            challenge: { type: 'arithmetic' },
+          },
+        ],
+        filters,
+      })
+    );
+
+    await expect(
+      getTabController().continueFromTab(13, blockedPageUrl(previous!.blockId))
+    ).resolves.toBe(false);
+
+    await getTabController().evaluateNavigation(13, 'https://challenge.com/');
+    const state = await getBlockedTabState(13);
+    expect(state?.blockId).not.toBe(previous?.blockId);
+    await expect(
+      getTabController().getBlockedPageStateByBlockId(state?.blockId)
+    ).resolves.toMatchObject({ state: { challenge: { type: 'arithmetic' } } });
+  });
+
+  it('keeps a site bypass across the site until it expires', async () => {
+    const chromeMock = getChromeMock();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 13, 10, 0));
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStorageData({
+        groups: [
+          {
+            id: DEFAULT_GROUP_ID,
+            name: '24/7',
+            schedules: [],
+            is24x7: true,
+            bypass: { scope: 'site', minutes: 10 },
+          },
+        ],
+        filters: [
+          {
+            id: 'video-filter',
+            pattern: 'video.example.com',
+            groupId: DEFAULT_GROUP_ID,
+            enabled: true,
+            matchMode: 'domain',
+          },
+        ],
+        rulesVersion: 12,
+      })
+    );
+
+    try {
+      const { getTabController } = await import('../../../src/background/tabController');
+      await getTabController().evaluateNavigation(15, 'https://www.video.example.com/watch?v=1');
+      const state = await getBlockedTabState(15);
+      await expect(
+        getTabController().continueFromTab(15, blockedPageUrl(state!.blockId))
+      ).resolves.toBe(true);
+      expect(chromeMock.storage.session._data.get('bypass_15')).toEqual({
+        filterId: 'video-filter',
+        scope: 'site',
+        urlKey: 'video.example.com',
+        expiresAt: Date.now() + 10 * 60_000,
+      });
+
+      // Other pages on the site stay allowed while the bypass lasts.
+      chromeMock.tabs.update.mockClear();
+      await getTabController().evaluateNavigation(15, 'https://video.example.com/watch?v=2');
+      expect(chromeMock.tabs.update).not.toHaveBeenCalled();
+
+      vi.setSystemTime(new Date(2025, 0, 13, 10, 10));
+      await getTabController().evaluateNavigation(15, 'https://video.example.com/watch?v=2');
+      expect(chromeMock.tabs.update).toHaveBeenLastCalledWith(
+        15,
+        { url: expect.stringContaining(`/${PAGES.BLOCKED}?blockId=`) },
+        expect.any(Function)
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('refuses to continue once the daily allowance for the group is used up', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStorageData({
+        groups: [
+          {
+            id: DEFAULT_GROUP_ID,
+            name: '24/7',
+            schedules: [],
+            is24x7: true,
+            bypass: { maxPerDay: 1 },
+          },
+        ],
+        filters: [
+          {
+            id: 'limited-filter',
+            pattern: 'limited.example.com',
+            groupId: DEFAULT_GROUP_ID,
+            enabled: true,
+            matchMode: 'domain',
+          },
+          {
+            id: 'other-filter',
+            pattern: 'other.example.com',
+            groupId: DEFAULT_GROUP_ID,
+            enabled: true,
+            matchMode: 'domain',
+          },
+        ],
+        rulesVersion: 12,
+      })
+    );
+
+    const { getTabController } = await import('../../../src/background/tabController');
+    await getTabController().evaluateNavigation(16, 'https://limited.example.com/a');
+    const first = await getBlockedTabState(16);
+    await expect(
+      getTabController().continueFromTab(16, blockedPageUrl(first!.blockId))
+    ).resolves.toBe(true);
+    expect(chromeMock.storage.local._data.get(BYPASS_COUNTS_KEY)).toEqual({
+      [DEFAULT_GROUP_ID]: { day: expect.any(String), bypasses: 1 },
+    });
+
+    // Another filter in the group draws on the same allowance.
+    await getTabController().evaluateNavigation(16, 'https://other.example.com/');
+    const second = await getBlockedTabState(16);
+    chromeMock.tabs.update.mockClear();
+    await expect(
+      getTabController().continueFromTab(16, blockedPageUrl(second!.blockId))
+    ).resolves.toBe(false);
+    expect(chromeMock.tabs.update).not.toHaveBeenCalled();
+  });
+
+  it('lets only one of two simultaneous continues through the last allowance', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStorageData({
+        groups: [
+          {
+            id: DEFAULT_GROUP_ID,
+            name: '24/7',
+            schedules: [],
+            is24x7: true,
+            bypass: { maxPerDay: 1 },
+          },
+        ],
+        filters: [
+          {
+            id: 'limited-filter',
+            pattern: 'limited.example.com',
+            groupId: DEFAULT_GROUP_ID,
+            enabled: true,
+            matchMode: 'domain',
+          },
+        ],
+      })
+    );
+
+    const { getTabController } = await import('../../../src/background/tabController');
+    await getTabController().evaluateNavigation(16, 'https://limited.example.com/a');
+    await getTabController().evaluateNavigation(17, 'https://limited.example.com/b');
+    const first = await getBlockedTabState(16);
+    const second = await getBlockedTabState(17);
+
+    const results = await Promise.all([
+      getTabController().continueFromTab(16, blockedPageUrl(first!.blockId)),
+      getTabController().continueFromTab(17, blockedPageUrl(second!.blockId)),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(chromeMock.storage.local._data.get(BYPASS_COUNTS_KEY)).toEqual({
+      [DEFAULT_GROUP_ID]: { day: expect.any(String), bypasses: 1 },
+    });
+  });
+
+  it("starts the allowance over at midnight in the group's time zone", async () => {
+    const chromeMock = getChromeMock();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-13T23:30:00Z'));
+    try {
+      chromeMock.storage.sync._data.set(
+        STORAGE_KEY,
+        createStorageData({
+          groups: [
+            {
+              id: DEFAULT_GROUP_ID,
+              name: '24/7',
+              schedules: [],
+              is24x7: true,
+              timeZone: 'Pacific/Kiritimati',
+              bypass: { maxPerDay: 1 },
+            },
+          ],
+          filters: [
+            {
+              id: 'limited-filter',
+              pattern: 'limited.example.com',
+              groupId: DEFAULT_GROUP_ID,
+              enabled: true,
+              matchMode: 'domain',
+            },
+          ],
+        })
+      );
+      chromeMock.storage.local._data.set(BYPASS_COUNTS_KEY, {
+        [DEFAULT_GROUP_ID]: { day: '2025-01-13', bypasses: 1 },
+      });
+
+      const { getTabController } = await import('../../../src/background/tabController');
+      await getTabController().evaluateNavigation(16, 'https://limited.example.com/');
+      const state = await getBlockedTabState(16);
+
+      // It is already 2025-01-14 in Kiritimati, so yesterday's continue no longer counts.
+      await expect(
+        getTabController().continueFromTab(16, blockedPageUrl(state!.blockId))
+      ).resolves.toBe(true);
+      expect(chromeMock.storage.local._data.get(BYPASS_COUNTS_KEY)).toEqual({
+        [DEFAULT_GROUP_ID]: { day: '2025-01-14', bypasses: 1 },
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('requires a reason when the group asks for one and journals the continue', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStorageData({
+        groups: [
+          {
+            id: DEFAULT_GROUP_ID,
+            name: '24/7',
+            schedules: [],
+            is24x7: true,
+            bypass: { requireReason: true },
+          },
+        ],
+        filters: [
+          {
+            id: 'docs-filter',
+            pattern: 'docs.example.com',
+            groupId: DEFAULT_GROUP_ID,
+            enabled: true,
+            matchMode: 'domain',
+          },
+        ],
+        rulesVersion: 13,
+      })
+    );
+
+    const { getTabController } = await import('../../../src/background/tabController');
+    await getTabController().evaluateNavigation(17, 'https://docs.example.com/guide');
+    const blocked = await getBlockedTabState(17);
+    const pageUrl = blockedPageUrl(blocked!.blockId);
+
+    await expect(
+      getTabController().continueFromTab(17, pageUrl, undefined, undefined, '   ')
+    ).resolves.toBe(false);
+    expect(chromeMock.storage.local._data.get(BYPASS_JOURNAL_KEY)).toBeUndefined();
+
+    await expect(
+      getTabController().continueFromTab(
+        17,
+        pageUrl,
+        undefined,
+        undefined,
+        ' need docs for ticket '
+      )
+    ).resolves.toBe(true);
+    expect(chromeMock.storage.local._data.get(BYPASS_JOURNAL_KEY)).toEqual([
+      {
+        at: expect.any(Number),
+        url: 'https://docs.example.com/guide',
+        groupId: DEFAULT_GROUP_ID,
+        groupName: '24/7',
+        filterId: 'docs-filter',
+        filterPattern: 'docs.example.com',
+        reason: 'need docs for ticket',
+      },
+    ]);
+  });
+
+  it('blocks pages missing from an active allowlist group and continues past them', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStorageData({
+        groups: [
+          { id: DEFAULT_GROUP_ID, name: '24/7', schedules: [], is24x7: true },
+          { id: 'exams', name: 'Exams', schedules: [], is24x7: true, mode: 'allowlist' },
+        ],
+        filters: [
+          {
+            id: 'allow-docs',
+            pattern: 'docs.example.com',
+            groupId: 'exams',
+            enabled: true,
+            matchMode: 'domain',
+          },
+        ],
+        rulesVersion: 13,
+      })
+    );
+
+    const { getTabController } = await import('../../../src/background/tabController');
+    await getTabController().evaluateNavigation(14, 'https://docs.example.com/guide');
+    expect(chromeMock.tabs.update).not.toHaveBeenCalled();
+
+    await getTabController().evaluateNavigation(14, 'https://news.example.net/');
+    const state = await getBlockedTabState(14);
+    expect(state?.blockedBy).toEqual({ groupId: 'exams' });
+    const pageState = await getTabController().getBlockedPageStateByBlockId(state!.blockId);
+    expect(pageState).toEqual({
+      status: 'blocked',
+      state: expect.objectContaining({ group: expect.objectContaining({ mode: 'allowlist' }) }),
+    });
+    expect(pageState.status === 'blocked' && pageState.state.filter).toBe(undefined);
+
+    await expect(
+      getTabController().continueFromTab(14, blockedPageUrl(state!.blockId))
+    ).resolves.toBe(true);
+    chromeMock.tabs.update.mockClear();
+    await getTabController().evaluateNavigation(14, 'https://news.example.net/');
+    expect(chromeMock.tabs.update).not.toHaveBeenCalled();
+  });
+
   it('re-blocks a bypassed tab when a different filter becomes responsible', async () => {
     const chromeMock = getChromeMock();
     chromeMock.tabs.query.mockImplementation(
@@ -708,4 +1135,81 @@ describe('TabController', () => {
       expect.any(Function)
     );
   });
+
+  it('counts visits from other pages and blocks once the daily limit is reached', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStorageData({
+        filters: [
+          {
+            id: 'news',
+            pattern: 'news.example.com',
+            groupId: DEFAULT_GROUP_ID,
+            enabled: true,
+            matchMode: 'domain',
+            maxVisitsPerDay: 2,
+          },
+        ],
+      })
+    );
+    const getVisits = (): unknown =>
+      (chromeMock.storage.local._data.get(VISIT_COUNTS_KEY) as VisitCounts | undefined)?.['news']
+        ?.visits;
+
+    const { getTabController } = await import('../../../src/background/tabController');
+    const controller = getTabController();
+    await controller.evaluateNavigation(5, 'https://news.example.com/');
+    // Browsing within the site, or re-checking the open page, continues the same visit.
+    await controller.evaluateNavigation(5, 'https://news.example.com/story');
+    await controller.evaluateNavigation(5, 'https://news.example.com/story');
+    expect(getVisits()).toBe(1);
+
+    await controller.evaluateNavigation(5, 'https://example.org/');
+    await controller.evaluateNavigation(5, 'https://news.example.com/');
+    expect(getVisits()).toBe(2);
+    // The last visit of the day carries on after the limit is reached.
+    await controller.evaluateNavigation(5, 'https://news.example.com/story');
+    expect(chromeMock.tabs.update).not.toHaveBeenCalled();
+
+    await controller.evaluateNavigation(5, 'https://example.org/');
+    await controller.evaluateNavigation(5, 'https://news.example.com/');
+    const state = await getBlockedTabState(5);
+    expect(state?.blockedBy).toEqual({ filterId: 'news', groupId: DEFAULT_GROUP_ID });
+    expect(getVisits()).toBe(2);
+    await expect(controller.getBlockedPageStateByBlockId(state?.blockId)).resolves.toMatchObject({
+      state: { filter: { id: 'news', maxVisitsPerDay: 2 } },
+    });
+  });
+
+  it('counts overlapping navigations one at a time', async () => {
+    const chromeMock = getChromeMock();
+    chromeMock.storage.sync._data.set(
+      STORAGE_KEY,
+      createStorageData({
+        filters: [
+          {
+            id: 'news',
+            pattern: 'news.example.com',
+            groupId: DEFAULT_GROUP_ID,
+            enabled: true,
+            matchMode: 'domain',
+            maxVisitsPerDay: 5,
+          },
+        ],
+      })
+    );
+
+    const { getTabController } = await import('../../../src/background/tabController');
+    const controller = getTabController();
+    await Promise.all([
+      controller.evaluateNavigation(5, 'https://news.example.com/'),
+      controller.evaluateNavigation(5, 'https://news.example.com/story'),
+      controller.evaluateNavigation(6, 'https://news.example.com/'),
+    ]);
+
+    expect(chromeMock.storage.local._data.get(VISIT_COUNTS_KEY)).toMatchObject({
+      news: { visits: 2 },
+    });
+  });
 });
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import { compileAdblock, getAdblockValidationError } from '../../../src/shared/filtering/adblock';
+import { matchesWildcard } from '../../../src/shared/filtering/wildcard';
+
+function adblockMatches(pattern: string, url: string): boolean {
+  const matcher = compileAdblock(pattern);
+  return matcher !== null && matchesWildcard(matcher, url.toLowerCase());
+}
+
+describe('compileAdblock', () => {
+  it.each([
+    ['||example.com^', 'https://example.com/'],
+    ['||example.com^', 'http://example.com'],
+    ['||example.com^', 'https://www.Example.com:8080/path'],
+    ['||example.com/ads/*', 'https://cdn.example.com/ads/banner.png'],
+    ['|https://example.com', 'https://example.com/page'],
+    ['/ads/banner', 'https://other.test/ads/banner.png'],
+    ['swf|', 'https://other.test/movie.swf'],
+    ['example.com^page', 'https://example.com/page'],
+    ['||example.com^', 'cdn.example.com'],
+  ])('matches %s against %s', (pattern, url) => {
+    expect(adblockMatches(pattern, url)).toBe(true);
+  });
+
+  it.each([
+    ['||example.com^', 'https://notexample.com/'],
+    ['||example.com^', 'https://example.com.evil.test/'],
+    ['||example.com^', 'https://other.test/?u=example.com/'],
+    ['|https://example.com', 'http://example.com/page'],
+    ['swf|', 'https://other.test/movie.swf?x=1'],
+    ['example.com^page', 'https://example.com.page/'],
+    ['||example.com^', 'notexample.com'],
+    ['||example.com^', '/example.com/'],
+    ['||example.com^', 'u=example.com'],
+  ])('does not match %s against %s', (pattern, url) => {
+    expect(adblockMatches(pattern, url)).toBe(false);
+  });
+});
+
+describe('getAdblockValidationError', () => {
+  it.each([
+    ['||', 'Enter a pattern such as ||example.com^.'],
+    ['@@||example.com^', 'Remove the leading @@ and add the rule as an exception instead.'],
+    ['example.com##.banner', 'Element hiding rules are not supported.'],
+    ['||example.com^$script', 'Rule options after $ are not supported.'],
+    ['/ads[0-9]+/', 'Use regex mode for /regular expression/ rules.'],
+  ])('rejects %s', (pattern, message) => {
+    expect(getAdblockValidationError(pattern)).toBe(message);
+  });
+
+  it('accepts plain network rules', () => {
+    expect(getAdblockValidationError('||example.com^')).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+
+import { createSubstringMatcher } from '../../../src/shared/filtering/ahoCorasick';
+
+function findMatches(patterns: readonly string[], text: string): number[] {
+  const matches = new Set<number>();
+  createSubstringMatcher(patterns).forEachMatch(text, (index) => matches.add(index));
+  return [...matches].sort((a, b) => a - b);
+}
+
+describe('createSubstringMatcher', () => {
+  it('finds every pattern that occurs in the text', () => {
+    expect(findMatches(['he', 'she', 'his', 'hers'], 'ushers')).toEqual([0, 1, 3]);
+  });
+
+  it('finds overlapping and nested patterns', () => {
+    expect(findMatches(['example.com', 'ample', 'com/', 'net'], 'https://example.com/')).toEqual([
+      0, 1, 2,
+    ]);
+  });
+
+  it('treats empty patterns as matching any text', () => {
+    expect(findMatches(['', 'zzz'], 'abc')).toEqual([0]);
+  });
+});
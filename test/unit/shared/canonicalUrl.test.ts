@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  canonicalizePattern,
+  canonicalizeUrl,
+  containsCanonicalPattern,
+} from '../../../src/shared/filtering/canonicalUrl';
+
+describe('canonicalizeUrl', () => {
+  it.each([
+    ['https://www.example.com/', 'https://example.com'],
+    ['https://example.com:443/a/', 'https://example.com/a'],
+    ['http://example.com:8080/a', 'http://example.com:8080/a'],
+    ['https://EXAMPLE.com./a#section', 'https://example.com/a'],
+    ['https://example.com/%7euser/caf%c3%a9', 'https://example.com/~user/café'],
+    ['https://example.com/a%2fb?next=%2fhome', 'https://example.com/a%2Fb?next=%2Fhome'],
+    ['https://example.com/a b?q=x y', 'https://example.com/a%20b?q=x%20y'],
+    ['https://xn--bcher-kva.de/', 'https://bücher.de'],
+    ['https://bücher.de/', 'https://bücher.de'],
+    ['https://www.com/', 'https://www.com'],
+    ['https://example.com/?', 'https://example.com'],
+  ])('canonicalizes %s', (url, expected) => {
+    expect(canonicalizeUrl(url)?.href).toBe(expected);
+  });
+
+  it('splits the canonical URL into the parts filters can target', () => {
+    expect(canonicalizeUrl('https://www.Example.com/Shorts/?ref=%66eed')).toEqual({
+      href: 'https://example.com/Shorts?ref=feed',
+      host: 'example.com',
+      path: '/Shorts',
+      query: 'ref=feed',
+    });
+  });
+
+  it('keeps URLs without a host apart from their fragment', () => {
+    expect(canonicalizeUrl('about:blank#top')?.href).toBe('about:blank');
+  });
+
+  it('returns null for text that is not a URL', () => {
+    expect(canonicalizeUrl('not a url')).toBeNull();
+  });
+});
+
+describe('canonicalizePattern', () => {
+  it('canonicalizes exact patterns like URLs', () => {
+    expect(canonicalizePattern('https://www.example.com:443/a/', 'exact')).toEqual({
+      text: 'https://example.com/a',
+      atPathEnd: false,
+    });
+  });
+
+  it('treats a trailing slash in contains patterns as a path boundary', () => {
+    const pattern = canonicalizePattern('www.example.com/r/', 'contains');
+    expect(pattern).toEqual({ text: 'example.com/r', atPathEnd: true });
+    expect(containsCanonicalPattern('https://example.com/r', pattern)).toBe(true);
+    expect(containsCanonicalPattern('https://example.com/r/all', pattern)).toBe(true);
+    expect(containsCanonicalPattern('https://example.com/r?sort=new', pattern)).toBe(true);
+    expect(containsCanonicalPattern('https://example.com/reddit', pattern)).toBe(false);
+  });
+
+  it.each([
+    ['www.example.com/a', 'example.com/a'],
+    ['://www.example.com/a', '://example.com/a'],
+    ['//www.example.com', '//example.com'],
+    ['WWW.Example.com', 'Example.com'],
+    ['www.com/a', 'www.com/a'],
+    ['example.com/?next=//www.example.org', 'example.com?next=//www.example.org'],
+  ])('strips www. only where it starts a host in %s', (fragment, text) => {
+    expect(canonicalizePattern(fragment, 'contains').text).toBe(text);
+  });
+
+  it.each(['://www.example.com/', '//www.example.com'])(
+    'matches %s against a www URL',
+    (fragment) => {
+      const url = canonicalizeUrl('https://www.example.com/a')?.href ?? '';
+      expect(containsCanonicalPattern(url, canonicalizePattern(fragment, 'contains'))).toBe(true);
+    }
+  );
+
+  it('decodes punycode labels in fragments', () => {
+    expect(canonicalizePattern('xn--bcher-kva.de', 'contains').text).toBe('bücher.de');
+  });
+
+  it('canonicalizes host patterns like hostnames', () => {
+    expect(canonicalizePattern('WWW.xn--bcher-kva.de', 'exact', 'host').text).toBe('bücher.de');
+  });
+});
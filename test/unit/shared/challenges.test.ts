@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CHALLENGE_PHRASE } from '../../../src/shared/constants';
+import { isChallengeAnswered, issueChallenge } from '../../../src/shared/filtering/challenges';
+
+describe('continue challenges', () => {
+  it('refuses a countdown response until the countdown has run out', () => {
+    const { prompt, issued } = issueChallenge({ type: 'countdown', seconds: 30 }, 'token', 1_000);
+
+    expect(prompt).toEqual({ type: 'countdown', token: 'token', readyAt: 31_000 });
+    expect(isChallengeAnswered(issued, { token: 'token' }, 30_999)).toBe(false);
+    expect(isChallengeAnswered(issued, { token: 'token' }, 31_000)).toBe(true);
+    expect(isChallengeAnswered(issued, { token: 'other' }, 31_000)).toBe(false);
+    expect(isChallengeAnswered(issued, undefined, 31_000)).toBe(false);
+  });
+
+  it('accepts the phrase regardless of case and spacing', () => {
+    const { prompt, issued } = issueChallenge({ type: 'phrase' }, 'token');
+
+    expect(prompt).toEqual({ type: 'phrase', token: 'token', phrase: DEFAULT_CHALLENGE_PHRASE });
+    expect(
+      isChallengeAnswered(issued, {
+        token: 'token',
+        answer: `  ${DEFAULT_CHALLENGE_PHRASE.toUpperCase().replaceAll(' ', '   ')} `,
+      })
+    ).toBe(true);
+    expect(isChallengeAnswered(issued, { token: 'token', answer: 'I choose' })).toBe(false);
+    expect(issueChallenge({ type: 'phrase', phrase: 'Not now' }, 'token').prompt).toMatchObject({
+      phrase: 'Not now',
+    });
+  });
+
+  it('asks a product and only shows the question to the block page', () => {
+    const { prompt, issued } = issueChallenge({ type: 'arithmetic' }, 'token', 0, () => 0.5);
+
+    expect(prompt).toEqual({ type: 'arithmetic', token: 'token', question: '6 × 21' });
+    expect(issued).toEqual({ token: 'token', answer: '126' });
+    expect(isChallengeAnswered(issued, { token: 'token', answer: '126' })).toBe(true);
+    expect(isChallengeAnswered(issued, { token: 'token', answer: '125' })).toBe(false);
+    expect(isChallengeAnswered(issued, { token: 'token' })).toBe(false);
+  });
+});
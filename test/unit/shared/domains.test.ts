@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  getDomainValidationError,
+  getUrlHostname,
+  isPublicSuffix,
+  matchesDomain,
+  normalizeDomainPattern,
+} from '../../../src/shared/filtering/domains';
+
+describe('isPublicSuffix', () => {
+  it.each(['com', 'uk', 'co.uk', 'com.au', 'foo.ck'])('treats %s as a public suffix', (host) => {
+    expect(isPublicSuffix(host)).toBe(true);
+  });
+
+  it.each(['example.com', 'bbc.co.uk', 'www.ck', 'example.com.au'])(
+    'treats %s as a registrable domain',
+    (host) => {
+      expect(isPublicSuffix(host)).toBe(false);
+    }
+  );
+});
+
+describe('normalizeDomainPattern', () => {
+  it.each([
+    ['Example.COM', 'example.com'],
+    ['https://www.example.com/path?q=1', 'www.example.com'],
+    ['*.example.com', 'example.com'],
+    ['example.com.', 'example.com'],
+    ['example.com:8080', 'example.com'],
+    ['bücher.de', 'xn--bcher-kva.de'],
+  ])('normalizes %s to %s', (pattern, expected) => {
+    expect(normalizeDomainPattern(pattern)).toBe(expected);
+  });
+
+  it('returns null for empty or host-less patterns', () => {
+    expect(normalizeDomainPattern('   ')).toBeNull();
+    expect(normalizeDomainPattern('http://')).toBeNull();
+  });
+});
+
+describe('getDomainValidationError', () => {
+  it('accepts registrable domains and their subdomains', () => {
+    expect(getDomainValidationError('bbc.co.uk')).toBeNull();
+    expect(getDomainValidationError('news.bbc.co.uk')).toBeNull();
+  });
+
+  it('rejects public suffixes', () => {
+    expect(getDomainValidationError('co.uk')).toContain('public suffix');
+    expect(getDomainValidationError('com')).toContain('public suffix');
+  });
+
+  it('rejects patterns without a host', () => {
+    expect(getDomainValidationError('')).toBe('Enter a domain such as example.com.');
+  });
+});
+
+describe('matchesDomain', () => {
+  it('matches on label boundaries only', () => {
+    expect(matchesDomain('bbc.co.uk', 'bbc.co.uk')).toBe(true);
+    expect(matchesDomain('news.bbc.co.uk', 'bbc.co.uk')).toBe(true);
+    expect(matchesDomain('notbbc.co.uk', 'bbc.co.uk')).toBe(false);
+  });
+
+  it('does not match a parent domain of the pattern', () => {
+    expect(matchesDomain('bbc.co.uk', 'news.bbc.co.uk')).toBe(false);
+  });
+});
+
+describe('getUrlHostname', () => {
+  it('returns the punycode hostname for parsed urls', () => {
+    expect(getUrlHostname('https://Bücher.de/')).toBe('xn--bcher-kva.de');
+  });
+
+  it('returns null for urls without a hostname', () => {
+    expect(getUrlHostname('data:text/plain,hello')).toBeNull();
+    expect(getUrlHostname('not a url')).toBeNull();
+  });
+});
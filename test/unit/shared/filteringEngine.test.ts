@@ -1,11 +1,20 @@
-import { describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import {
   createFilteringEngine,
   evaluateFilterDecision,
+  type FilterDecision,
 } from '../../../src/shared/filtering/engine';
-import type { StorageData } from '../../../src/shared/types';
+import type {
+  BudgetUsage,
+  Filter,
+  FilterGroup,
+  StorageData,
+  VisitCounts,
+  Whitelist,
+} from '../../../src/shared/types';
 import { DEFAULT_GROUP_ID } from '../../../src/shared/types';
+import { createLargeRuleSet } from '../../fixtures/ruleSets';
 
 function createStorageData(overrides: Partial<StorageData> = {}): StorageData {
   return {
@@ -228,4 +237,595 @@ describe('filteringEngine', () => {
       reason: 'matched-filter',
     });
   });
+
+  it('finds adblock host rules that target the hostname', () => {
+    const data = createStorageData({
+      filters: [
+        {
+          id: 'cdn',
+          pattern: '||example.com^',
+          groupId: DEFAULT_GROUP_ID,
+          enabled: true,
+          matchMode: 'adblock',
+          target: 'host',
+        },
+      ],
+    });
+    const expected: FilterDecision = {
+      action: 'block',
+      filterId: 'cdn',
+      groupId: DEFAULT_GROUP_ID,
+      reason: 'matched-filter',
+    };
+
+    expect(createFilteringEngine(data).evaluate('https://cdn.example.com/a')).toEqual(expected);
+    expect(evaluateFilterDecision('https://cdn.example.com/a', data)).toEqual(expected);
+  });
+});
+
+describe('allowlist groups', () => {
+  const context = { dayOfWeek: 1, time: '10:00' } as const;
+  const examGroup: FilterGroup = {
+    id: 'exams',
+    name: 'Exams',
+    schedules: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' }],
+    is24x7: false,
+    mode: 'allowlist',
+  };
+  const createData = (overrides: Partial<StorageData> = {}): StorageData =>
+    createStorageData({
+      groups: [{ id: DEFAULT_GROUP_ID, name: '24/7', schedules: [], is24x7: true }, examGroup],
+      filters: [
+        {
+          id: 'allow-docs',
+          pattern: 'docs.example.com',
+          groupId: 'exams',
+          enabled: true,
+          matchMode: 'domain',
+        },
+      ],
+      whitelist: [
+        {
+          id: 'allow-wiki',
+          pattern: 'wikipedia.org',
+          groupId: 'exams',
+          enabled: true,
+          matchMode: 'domain',
+        },
+      ],
+      ...overrides,
+    });
+  const evaluateBoth = (
+    data: StorageData,
+    url: string,
+    at: { readonly dayOfWeek: number; readonly time: string } = context
+  ): FilterDecision => {
+    const decision = createFilteringEngine(data).evaluate(url, at);
+    expect(evaluateFilterDecision(url, data, { context: at })).toEqual(decision);
+    return decision;
+  };
+
+  it('blocks pages that are not on the list while the group is active', () => {
+    expect(evaluateBoth(createData(), 'https://news.example.net/today')).toEqual({
+      action: 'block',
+      groupId: 'exams',
+      reason: 'not-allowlisted',
+    });
+  });
+
+  it('keeps pages matched by the group filters or exceptions reachable', () => {
+    expect(evaluateBoth(createData(), 'https://docs.example.com/guide')).toEqual({
+      action: 'allow',
+      reason: 'no-match',
+    });
+    expect(evaluateBoth(createData(), 'https://en.wikipedia.org/wiki/Test')).toEqual({
+      action: 'allow',
+      reason: 'no-match',
+    });
+  });
+
+  it('does not count disabled filters as allowed pages', () => {
+    const data = createData();
+    const disabled = createData({
+      filters: data.filters.map((filter) => ({ ...filter, enabled: false })),
+    });
+
+    expect(evaluateBoth(disabled, 'https://docs.example.com/guide')).toMatchObject({
+      action: 'block',
+      reason: 'not-allowlisted',
+    });
+  });
+
+  it('allows everything outside the schedule and never blocks browser pages', () => {
+    expect(
+      evaluateBoth(createData(), 'https://news.example.net', { dayOfWeek: 0, time: '10:00' })
+    ).toEqual({ action: 'allow', reason: 'no-match' });
+    expect(evaluateBoth(createData(), 'chrome://extensions')).toEqual({
+      action: 'allow',
+      reason: 'no-match',
+    });
+  });
+
+  it('lets blocklist filters decide first', () => {
+    const data = createData({
+      filters: [
+        ...createData().filters,
+        {
+          id: 'block-docs-videos',
+          pattern: 'docs.example.com/videos',
+          groupId: DEFAULT_GROUP_ID,
+          enabled: true,
+          matchMode: 'contains',
+        },
+      ],
+    });
+
+    expect(evaluateBoth(data, 'https://docs.example.com/videos/1')).toEqual({
+      action: 'block',
+      filterId: 'block-docs-videos',
+      groupId: DEFAULT_GROUP_ID,
+      reason: 'matched-filter',
+    });
+  });
+
+  it('explains matching allowlist filters as allowing the page', () => {
+    const explanation = createFilteringEngine(createData()).explain(
+      'https://docs.example.com',
+      context
+    );
+
+    expect(explanation.matches.map(({ filter, outcome }) => [filter.id, outcome])).toEqual([
+      ['allow-docs', 'allows'],
+    ]);
+  });
+});
+
+describe('daily budgets', () => {
+  const context = { dayOfWeek: 1, time: '10:00' } as const;
+  const socialGroup: FilterGroup = {
+    id: 'social',
+    name: 'Social',
+    schedules: [],
+    is24x7: true,
+    dailyBudget: { minutes: 30 },
+  };
+  const createData = (groups: readonly FilterGroup[] = [socialGroup]): StorageData =>
+    createStorageData({
+      groups: [{ id: DEFAULT_GROUP_ID, name: '24/7', schedules: [], is24x7: true }, ...groups],
+      filters: [
+        {
+          id: 'block-social',
+          pattern: 'social.example.com',
+          groupId: 'social',
+          enabled: true,
+          matchMode: 'domain',
+        },
+      ],
+    });
+  const usedMinutes = (minutes: number): BudgetUsage => ({
+    social: { day: '2025-01-13', usedMs: minutes * 60_000 },
+  });
+  const evaluateBoth = (
+    data: StorageData,
+    url: string,
+    budgetUsage: BudgetUsage
+  ): FilterDecision => {
+    const decision = createFilteringEngine(data).evaluate(url, context, budgetUsage);
+    expect(evaluateFilterDecision(url, data, { context, budgetUsage })).toEqual(decision);
+    return decision;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 13, 10, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets matching pages through against the budget until it is used up', () => {
+    expect(evaluateBoth(createData(), 'https://social.example.com/feed', usedMinutes(29))).toEqual({
+      action: 'allow',
+      reason: 'within-budget',
+      groupIds: ['social'],
+    });
+    expect(evaluateBoth(createData(), 'https://social.example.com/feed', usedMinutes(30))).toEqual({
+      action: 'block',
+      filterId: 'block-social',
+      groupId: 'social',
+      reason: 'matched-filter',
+    });
+  });
+
+  it('starts over with usage from an earlier budget day', () => {
+    expect(
+      evaluateBoth(createData(), 'https://social.example.com', {
+        social: { day: '2025-01-12', usedMs: 60 * 60_000 },
+      })
+    ).toMatchObject({ reason: 'within-budget' });
+  });
+
+  it('meters allowlist groups the same way', () => {
+    const data = createData([{ ...socialGroup, mode: 'allowlist' }]);
+
+    expect(evaluateBoth(data, 'https://news.example.net', usedMinutes(10))).toEqual({
+      action: 'allow',
+      reason: 'within-budget',
+      groupIds: ['social'],
+    });
+    expect(evaluateBoth(data, 'https://news.example.net', usedMinutes(30))).toEqual({
+      action: 'block',
+      groupId: 'social',
+      reason: 'not-allowlisted',
+    });
+  });
+
+  it('explains the remaining budget of a metered filter', () => {
+    const explanation = createFilteringEngine(createData()).explain(
+      'https://social.example.com',
+      context,
+      usedMinutes(20)
+    );
+
+    expect(explanation.matches.map(({ filter, ...outcome }) => [filter.id, outcome])).toEqual([
+      ['block-social', { outcome: 'within-budget', remainingMs: 10 * 60_000 }],
+    ]);
+  });
+});
+
+describe('daily visit limits', () => {
+  const context = { dayOfWeek: 1, time: '10:00' } as const;
+  const data = createStorageData({
+    filters: [
+      {
+        id: 'news',
+        pattern: 'news.example.com',
+        groupId: DEFAULT_GROUP_ID,
+        enabled: true,
+        matchMode: 'domain',
+        maxVisitsPerDay: 3,
+      },
+    ],
+  });
+  const visits = (count: number, day = '2025-01-13'): VisitCounts => ({
+    news: { day, visits: count },
+  });
+  const evaluateBoth = (url: string, visitCounts: VisitCounts): FilterDecision => {
+    const decision = createFilteringEngine(data).evaluate(url, context, {}, visitCounts);
+    expect(evaluateFilterDecision(url, data, { context, visitCounts })).toEqual(decision);
+    return decision;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 13, 10, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets visits through until the daily limit is reached', () => {
+    expect(evaluateBoth('https://news.example.com', visits(2))).toEqual({
+      action: 'allow',
+      reason: 'within-visit-limit',
+      filterIds: ['news'],
+    });
+    expect(evaluateBoth('https://news.example.com', visits(3))).toEqual({
+      action: 'block',
+      filterId: 'news',
+      groupId: DEFAULT_GROUP_ID,
+      reason: 'matched-filter',
+    });
+    expect(evaluateBoth('https://news.example.com', visits(3, '2025-01-12'))).toMatchObject({
+      reason: 'within-visit-limit',
+    });
+  });
+
+  it("starts each day's visits over in the group's time zone", () => {
+    vi.setSystemTime(new Date('2025-01-13T23:30:00Z'));
+    const zoned = createStorageData({
+      groups: [
+        {
+          id: DEFAULT_GROUP_ID,
+          name: '24/7',
+          schedules: [],
+          is24x7: true,
+          timeZone: 'Pacific/Kiritimati',
+        },
+      ],
+      filters: data.filters,
+    });
+
+    // It is already 2025-01-14 in Kiritimati, so yesterday's visits no longer count.
+    expect(
+      createFilteringEngine(zoned).evaluate('https://news.example.com', context, {}, visits(3))
+    ).toMatchObject({ reason: 'within-visit-limit' });
+    expect(
+      createFilteringEngine(zoned).evaluate(
+        'https://news.example.com',
+        context,
+        {},
+        visits(3, '2025-01-14')
+      )
+    ).toMatchObject({ reason: 'matched-filter' });
+  });
+
+  it('explains how many visits are used', () => {
+    const explanation = createFilteringEngine(data).explain(
+      'https://news.example.com',
+      context,
+      {},
+      visits(1)
+    );
+
+    expect(explanation.matches.map(({ filter, ...outcome }) => [filter.id, outcome])).toEqual([
+      ['news', { outcome: 'within-visit-limit', visitsUsed: 1, maxVisits: 3 }],
+    ]);
+  });
+});
+
+describe('focus sessions', () => {
+  const evening = { dayOfWeek: 1, time: '20:00' } as const;
+  const workGroup: FilterGroup = {
+    id: 'work',
+    name: 'Work',
+    schedules: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' }],
+    is24x7: false,
+  };
+  const createData = (until: number): StorageData => ({
+    ...createStorageData({
+      groups: [workGroup],
+      filters: [
+        {
+          id: 'video',
+          pattern: 'video.example.com',
+          groupId: 'work',
+          enabled: true,
+          matchMode: 'domain',
+        },
+      ],
+    }),
+    focusSession: { active: true, groupIds: ['work'], until },
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 13, 20, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('blocks with a group outside its schedule while the session runs', () => {
+    const data = createData(Date.now() + 25 * 60_000);
+    const url = 'https://video.example.com';
+    const expected: FilterDecision = {
+      action: 'block',
+      filterId: 'video',
+      groupId: 'work',
+      reason: 'matched-filter',
+    };
+
+    expect(createFilteringEngine(data).evaluate(url, evening)).toEqual(expected);
+    expect(evaluateFilterDecision(url, data, { context: evening })).toEqual(expected);
+  });
+
+  it('falls back to the schedule once the session ends', () => {
+    const data = createData(Date.now());
+
+    expect(createFilteringEngine(data).evaluate('https://video.example.com', evening)).toEqual({
+      action: 'allow',
+      reason: 'group-inactive',
+    });
+  });
+});
+
+describe('indexed filtering engine', () => {
+  it.each([
+    { dayOfWeek: 1, time: '10:00' },
+    { dayOfWeek: 1, time: '19:00' },
+  ])('matches the reference scan for every url at $time', (context) => {
+    const { data, urls } = createLargeRuleSet(7, 1500);
+    const engine = createFilteringEngine(data);
+
+    for (const url of urls) {
+      expect(engine.evaluate(url, context), url).toEqual(
+        evaluateFilterDecision(url, data, { context })
+      );
+    }
+  });
+});
+
+describe('filteringEngine.explain', () => {
+  const context = { dayOfWeek: 1, time: '10:00' } as const;
+  const createFilter = (id: string, overrides: Partial<Filter> = {}): Filter => ({
+    id,
+    pattern: 'reddit.com',
+    groupId: DEFAULT_GROUP_ID,
+    enabled: true,
+    matchMode: 'contains',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 0, 13, 10, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lists every matching filter with its outcome in evaluation order', () => {
+    const exception: Whitelist = {
+      id: 'allow-work',
+      pattern: 'reddit.com/r/work',
+      groupId: 'evenings',
+      enabled: true,
+      matchMode: 'contains',
+    };
+    const engine = createFilteringEngine(
+      createStorageData({
+        groups: [
+          { id: DEFAULT_GROUP_ID, name: '24/7', schedules: [], is24x7: true },
+          {
+            id: 'evenings',
+            name: 'Evenings',
+            schedules: [{ daysOfWeek: [1, 2], startTime: '18:00', endTime: '23:00' }],
+            is24x7: false,
+          },
+          { id: 'off', name: 'Off', schedules: [], is24x7: true, enabled: false },
+          { id: 'always', name: 'Always', schedules: [], is24x7: true },
+        ],
+        filters: [
+          createFilter('disabled', { enabled: false }),
+          createFilter('scheduled', { groupId: 'evenings' }),
+          createFilter('group-off', { groupId: 'off' }),
+          createFilter('unrelated', { pattern: 'example.com' }),
+          createFilter('first', { groupId: 'always' }),
+          createFilter('second'),
+          createFilter('expired', { expiresAt: 0 }),
+        ],
+        whitelist: [exception],
+      })
+    );
+
+    const explanation = engine.explain('https://www.reddit.com/r/work', context);
+
+    expect(explanation.decision).toEqual({
+      action: 'block',
+      filterId: 'first',
+      groupId: 'always',
+      reason: 'matched-filter',
+    });
+    expect(explanation.matches.map(({ filter, ...outcome }) => [filter.id, outcome])).toEqual([
+      ['expired', { outcome: 'expired' }],
+      ['disabled', { outcome: 'disabled' }],
+      [
+        'scheduled',
+        {
+          outcome: 'group-inactive',
+          groupEnabled: true,
+          nextActivation: new Date(2025, 0, 13, 18, 0).getTime(),
+        },
+      ],
+      ['group-off', { outcome: 'group-inactive', groupEnabled: false, nextActivation: null }],
+      ['first', { outcome: 'blocks' }],
+      ['second', { outcome: 'superseded', byFilterId: 'first' }],
+    ]);
+  });
+
+  it('reports when a group next starts after the moment being explained', () => {
+    const engine = createFilteringEngine(
+      createStorageData({
+        groups: [
+          {
+            id: 'evenings',
+            name: 'Evenings',
+            schedules: [{ daysOfWeek: [1, 2], startTime: '18:00', endTime: '23:00' }],
+            is24x7: false,
+          },
+        ],
+        filters: [createFilter('scheduled', { groupId: 'evenings' })],
+      })
+    );
+
+    // Tuesday night, after this week's last evening, even though it is Monday morning now.
+    expect(engine.explain('https://reddit.com', { dayOfWeek: 2, time: '23:30' }).matches).toEqual([
+      expect.objectContaining({
+        outcome: 'group-inactive',
+        nextActivation: new Date(2025, 0, 20, 18, 0).getTime(),
+      }),
+    ]);
+  });
+
+  it('skips excluded dates when reporting when a group next starts', () => {
+    const engine = createFilteringEngine(
+      createStorageData({
+        groups: [
+          {
+            id: 'evenings',
+            name: 'Evenings',
+            schedules: [{ daysOfWeek: [1, 2], startTime: '18:00', endTime: '23:00' }],
+            is24x7: false,
+            excludedDates: [{ start: '2025-01-13', end: '2025-01-13' }],
+          },
+        ],
+        filters: [createFilter('scheduled', { groupId: 'evenings' })],
+      })
+    );
+
+    expect(engine.explain('https://reddit.com', context).matches).toEqual([
+      {
+        outcome: 'group-inactive',
+        groupEnabled: true,
+        nextActivation: new Date(2025, 0, 14, 18, 0).getTime(),
+        filter: createFilter('scheduled', { groupId: 'evenings' }),
+      },
+    ]);
+  });
+
+  it.each([
+    {
+      rule: 'an alternate-week',
+      recurrence: { weekInterval: 2, anchorDate: '2025-01-06' },
+      day: 20,
+    },
+    { rule: 'a last-Monday-of-the-month', recurrence: { weeksOfMonth: [-1] }, day: 27 },
+  ])('reports when $rule schedule next starts', ({ recurrence, day }) => {
+    const engine = createFilteringEngine(
+      createStorageData({
+        groups: [
+          {
+            id: 'evenings',
+            name: 'Evenings',
+            schedules: [{ daysOfWeek: [1], startTime: '18:00', endTime: '23:00', ...recurrence }],
+            is24x7: false,
+          },
+        ],
+        filters: [createFilter('scheduled', { groupId: 'evenings' })],
+      })
+    );
+
+    expect(engine.explain('https://reddit.com', context).matches).toEqual([
+      expect.objectContaining({
+        outcome: 'group-inactive',
+        nextActivation: new Date(2025, 0, day, 18, 0).getTime(),
+      }),
+    ]);
+  });
+
+  it('names the exception that allows a filter', () => {
+    const exception: Whitelist = {
+      id: 'allow-work',
+      pattern: 'reddit.com/r/work',
+      groupId: DEFAULT_GROUP_ID,
+      enabled: true,
+      matchMode: 'contains',
+    };
+    const engine = createFilteringEngine(
+      createStorageData({ filters: [createFilter('reddit')], whitelist: [exception] })
+    );
+
+    const explanation = engine.explain('https://reddit.com/r/work', context);
+
+    expect(explanation.decision).toEqual({ action: 'allow', reason: 'whitelisted' });
+    expect(explanation.matches).toEqual([
+      { outcome: 'whitelisted', exception, filter: createFilter('reddit') },
+    ]);
+  });
+
+  it('reports every match as snoozed while snooze is active', () => {
+    const engine = createFilteringEngine(
+      createStorageData({ filters: [createFilter('reddit')], snooze: { active: true } })
+    );
+
+    const explanation = engine.explain('https://reddit.com', context);
+
+    expect(explanation.decision).toEqual({ action: 'allow', reason: 'snoozed' });
+    expect(explanation.matches).toEqual([{ outcome: 'snoozed', filter: createFilter('reddit') }]);
+  });
 });
@@ -3,17 +3,37 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { getRegexValidationError, matchesPattern } from '../../../src/shared/filtering/patterns';
 import {
+  getPatternMatchWarning,
+  getRegexValidationError,
+  matchesPattern,
+} from '../../../src/shared/filtering/patterns';
+import {
+  getFocusSessionRemainingMs,
+  getFilterEffectiveState,
   getSnoozeRemainingMs,
+  isFocusSessionActive,
+  isFocusSessionExpired,
+  isGroupInFocusSession,
   isSnoozeActive,
   isSnoozeExpired,
   isFilterActive,
   isFilterScheduledActive,
+  getNextScheduleBoundary,
+  getBudgetDay,
+  getBudgetRemainingMs,
+  getGroupTransitions,
+  getNextBudgetReset,
+  getScheduleClock,
+  hasBudgetLeft,
+  getScheduleContextAt,
+  isGroupActive,
+  sortFiltersForEvaluation,
   sortFiltersTemporaryFirst,
 } from '../../../src/shared/filtering/schedules';
 import { evaluateFilterDecision } from '../../../src/shared/filtering/engine';
 import type { Filter, FilterGroup, Whitelist } from '../../../src/shared/types';
+import { DEFAULT_GROUP_ID } from '../../../src/shared/types';
 
 function findBlockingFilter(
   url: string,
@@ -34,7 +54,7 @@ function findBlockingFilter(
     { context }
   );
 
-  if (decision.action !== 'block') {
+  if (decision.reason !== 'matched-filter') {
     return undefined;
   }
 
@@ -92,6 +112,62 @@ describe('matchesPattern', () => {
       matchMode: 'regex' as const,
       expected: false,
     },
+    {
+      name: 'matches domain patterns against the hostname',
+      url: 'https://x.com/home',
+      pattern: 'x.com',
+      matchMode: 'domain' as const,
+      expected: true,
+    },
+    {
+      name: 'matches domain patterns against subdomains',
+      url: 'https://api.x.com/v1',
+      pattern: 'x.com',
+      matchMode: 'domain' as const,
+      expected: true,
+    },
+    {
+      name: 'does not match domain patterns as a substring of another host',
+      url: 'https://netflix.com/browse',
+      pattern: 'x.com',
+      matchMode: 'domain' as const,
+      expected: false,
+    },
+    {
+      name: 'ignores domain mentions outside the hostname',
+      url: 'https://example.org/share?u=https://x.com/',
+      pattern: 'x.com',
+      matchMode: 'domain' as const,
+      expected: false,
+    },
+    {
+      name: 'never matches a bare public suffix domain pattern',
+      url: 'https://bbc.co.uk/news',
+      pattern: 'co.uk',
+      matchMode: 'domain' as const,
+      expected: false,
+    },
+    {
+      name: 'matches glob patterns against the URL after its scheme',
+      url: 'https://www.Example.com/watch?v=1',
+      pattern: '*.example.com/watch*',
+      matchMode: 'glob' as const,
+      expected: true,
+    },
+    {
+      name: 'requires glob patterns to match the whole URL',
+      url: 'https://example.com/watch',
+      pattern: 'example.com',
+      matchMode: 'glob' as const,
+      expected: false,
+    },
+    {
+      name: 'matches a single character with ? in glob patterns',
+      url: 'https://example.com/page2',
+      pattern: 'https://example.com/page?',
+      matchMode: 'glob' as const,
+      expected: true,
+    },
     {
       name: 'keeps regex matching case-sensitive by default',
       url: 'https://EXAMPLE.com',
@@ -104,6 +180,93 @@ describe('matchesPattern', () => {
   });
 });
 
+describe('matchesPattern targets', () => {
+  const url = 'https://www.example.com/shorts/abc?next=%2Fshorts%2F&ref=feed';
+
+  it.each([
+    { target: 'path' as const, pattern: '/shorts/', expected: true },
+    { target: 'query' as const, pattern: 'ref=feed', expected: true },
+    { target: 'query' as const, pattern: '/shorts/', expected: false },
+    { target: 'host' as const, pattern: 'www.example.com', expected: true },
+    { target: 'host' as const, pattern: 'shorts', expected: false },
+    { target: 'url' as const, pattern: 'shorts', expected: true },
+  ])('matches $pattern against the $target', ({ target, pattern, expected }) => {
+    expect(matchesPattern(url, { pattern, matchMode: 'contains', target })).toBe(expected);
+  });
+
+  it('anchors exact and regex patterns to the targeted part', () => {
+    expect(
+      matchesPattern(url, { pattern: '/shorts/abc', matchMode: 'exact', target: 'path' })
+    ).toBe(true);
+    expect(matchesPattern(url, { pattern: '^/shorts/', matchMode: 'regex', target: 'path' })).toBe(
+      true
+    );
+    expect(matchesPattern(url, { pattern: '^/shorts/', matchMode: 'regex', target: 'query' })).toBe(
+      false
+    );
+  });
+
+  it('anchors adblock host rules to the hostname alone', () => {
+    expect(
+      matchesPattern(url, { pattern: '||example.com^', matchMode: 'adblock', target: 'host' })
+    ).toBe(true);
+    expect(
+      matchesPattern(url, { pattern: '||shorts^', matchMode: 'adblock', target: 'path' })
+    ).toBe(false);
+  });
+
+  it('never matches a component of an unparseable url', () => {
+    expect(
+      matchesPattern('not a url', { pattern: 'url', matchMode: 'contains', target: 'path' })
+    ).toBe(false);
+  });
+});
+
+describe('getPatternMatchWarning', () => {
+  it.each([
+    ['example.com/docs#intro', 'contains' as const],
+    ['example.com/#/inbox', 'exact' as const],
+    ['example\\.com/#/inbox', 'regex' as const],
+  ])('warns that %s needs the fragment', (pattern, matchMode) => {
+    expect(getPatternMatchWarning(pattern, matchMode)).toContain('without the part after #');
+  });
+
+  it.each([
+    ['example.com/docs', 'contains' as const],
+    ['https://example.com/a%23b', 'exact' as const],
+    ['example\\.com/[^#]*', 'regex' as const],
+    ['##.banner', 'glob' as const],
+  ])('accepts %s', (pattern, matchMode) => {
+    expect(getPatternMatchWarning(pattern, matchMode)).toBeNull();
+  });
+});
+
+describe('matchesPattern canonical URLs', () => {
+  it.each([
+    { url: 'https://example.com/watch/', pattern: 'https://www.example.com:443/watch' },
+    { url: 'https://xn--bcher-kva.de/', pattern: 'https://bücher.de' },
+    { url: 'https://example.com/caf%C3%A9', pattern: 'https://example.com/café/' },
+    { url: 'https://example.com/#top', pattern: 'https://example.com' },
+  ])('matches $url against exact pattern $pattern', ({ url, pattern }) => {
+    expect(matchesPattern(url, pattern, 'exact')).toBe(true);
+  });
+
+  it('matches contains patterns across spellings of the same URL', () => {
+    expect(matchesPattern('https://example.com/news', 'www.example.com/news')).toBe(true);
+    expect(matchesPattern('https://bücher.de/', 'xn--bcher-kva.de')).toBe(true);
+    expect(matchesPattern('https://example.com/a%20b', 'a b')).toBe(true);
+    expect(matchesPattern('https://youtube.com/watch?v=1', 'watch?v=')).toBe(true);
+  });
+
+  it('keeps escaped delimiters distinct from literal ones', () => {
+    expect(matchesPattern('https://example.com/?next=%2Fhome', 'next=/home')).toBe(false);
+  });
+
+  it('leaves regex patterns to see the URL as written', () => {
+    expect(matchesPattern('https://www.example.com/', '^https://www\\.', 'regex')).toBe(true);
+  });
+});
+
 describe('isFilterActive', () => {
   let mockDate: Date;
 
@@ -298,6 +461,131 @@ describe('isFilterActive', () => {
     });
   });
 
+  describe('excluded dates', () => {
+    const filter: Filter = {
+      id: 'filter-1',
+      pattern: 'example',
+      groupId: 'group-1',
+      enabled: true,
+      matchMode: 'contains',
+    };
+    const createGroups = (overrides: Partial<FilterGroup>): FilterGroup[] => [
+      {
+        id: 'group-1',
+        name: 'Work Hours',
+        is24x7: false,
+        schedules: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' }],
+        excludedDates: [{ start: '2025-01-15', end: '2025-01-16' }],
+        ...overrides,
+      },
+    ];
+
+    it('suspends schedules on every day of an excluded range', () => {
+      const groups = createGroups({});
+
+      vi.setSystemTime(new Date(2025, 0, 14, 10, 0, 0)); // Tuesday before the range
+      expect(isFilterActive(filter, groups)).toBe(true);
+      vi.setSystemTime(new Date(2025, 0, 15, 10, 0, 0)); // Wednesday, first excluded day
+      expect(isFilterActive(filter, groups)).toBe(false);
+      vi.setSystemTime(new Date(2025, 0, 16, 10, 0, 0)); // Thursday, last excluded day
+      expect(isFilterActive(filter, groups)).toBe(false);
+      vi.setSystemTime(new Date(2025, 0, 17, 10, 0, 0)); // Friday after the range
+      expect(isFilterActive(filter, groups)).toBe(true);
+    });
+
+    it('suspends 24/7 groups on excluded dates', () => {
+      const groups = createGroups({ is24x7: true, schedules: [] });
+
+      vi.setSystemTime(new Date(2025, 0, 15, 3, 0, 0));
+      expect(isFilterActive(filter, groups)).toBe(false);
+      vi.setSystemTime(new Date(2025, 0, 17, 0, 0, 0));
+      expect(isFilterActive(filter, groups)).toBe(true);
+    });
+
+    it('ties overnight schedules to the day they start', () => {
+      const groups = createGroups({
+        schedules: [{ daysOfWeek: [2, 3, 4], startTime: '22:00', endTime: '06:00' }],
+        excludedDates: [{ start: '2025-01-15', end: '2025-01-15' }],
+      });
+
+      // Tuesday night's schedule runs into the excluded Wednesday morning...
+      vi.setSystemTime(new Date(2025, 0, 15, 2, 0, 0));
+      expect(isFilterActive(filter, groups)).toBe(true);
+      // ...but Wednesday night's does not start, even past midnight into Thursday.
+      vi.setSystemTime(new Date(2025, 0, 15, 23, 0, 0));
+      expect(isFilterActive(filter, groups)).toBe(false);
+      vi.setSystemTime(new Date(2025, 0, 16, 2, 0, 0));
+      expect(isFilterActive(filter, groups)).toBe(false);
+      vi.setSystemTime(new Date(2025, 0, 16, 23, 0, 0));
+      expect(isFilterActive(filter, groups)).toBe(true);
+    });
+  });
+
+  describe('recurrence rules', () => {
+    const filter: Filter = {
+      id: 'filter-1',
+      pattern: 'example',
+      groupId: 'group-1',
+      enabled: true,
+      matchMode: 'contains',
+    };
+    const createGroups = (schedule: Partial<FilterGroup['schedules'][number]>): FilterGroup[] => [
+      {
+        id: 'group-1',
+        name: 'Rotation',
+        is24x7: false,
+        schedules: [{ daysOfWeek: [1], startTime: '09:00', endTime: '17:00', ...schedule }],
+      },
+    ];
+    const isActiveOn = (groups: FilterGroup[], month: number, day: number, hours = 10): boolean => {
+      vi.setSystemTime(new Date(2025, month, day, hours, 0, 0));
+      return isFilterActive(filter, groups);
+    };
+
+    it('only applies between validFrom and validUntil', () => {
+      const groups = createGroups({ validFrom: '2025-01-13', validUntil: '2025-01-27' });
+
+      expect(isActiveOn(groups, 0, 6)).toBe(false);
+      expect(isActiveOn(groups, 0, 13)).toBe(true);
+      expect(isActiveOn(groups, 0, 27)).toBe(true);
+      expect(isActiveOn(groups, 1, 3)).toBe(false);
+    });
+
+    it('runs every N weeks counting from the anchor week', () => {
+      // Anchored on a Wednesday, so the Monday of that week is in the cycle.
+      const groups = createGroups({ weekInterval: 2, anchorDate: '2025-01-15' });
+
+      expect(isActiveOn(groups, 0, 6)).toBe(false);
+      expect(isActiveOn(groups, 0, 13)).toBe(true);
+      expect(isActiveOn(groups, 0, 20)).toBe(false);
+      expect(isActiveOn(groups, 0, 27)).toBe(true);
+    });
+
+    it('runs on the nth and last weekday of the month', () => {
+      const firstAndLast = createGroups({ weeksOfMonth: [1, -1] });
+
+      // Mondays in March 2025: 3, 10, 17, 24 and 31.
+      expect(isActiveOn(firstAndLast, 2, 3)).toBe(true);
+      expect(isActiveOn(firstAndLast, 2, 10)).toBe(false);
+      expect(isActiveOn(firstAndLast, 2, 24)).toBe(false);
+      expect(isActiveOn(firstAndLast, 2, 31)).toBe(true);
+      // The fourth Monday of February 2025 is also its last.
+      expect(isActiveOn(firstAndLast, 1, 24)).toBe(true);
+    });
+
+    it('judges overnight schedules by the day they start', () => {
+      const groups = createGroups({
+        startTime: '22:00',
+        endTime: '06:00',
+        validUntil: '2025-01-13',
+      });
+
+      // Monday night's schedule runs into Tuesday even though Tuesday is past validUntil.
+      expect(isActiveOn(groups, 0, 14, 2)).toBe(true);
+      expect(isActiveOn(groups, 0, 20, 23)).toBe(false);
+    });
+  });
+
   it('should return false when a temporary filter is expired', () => {
     const filter: Filter = {
       id: 'filter-1',
@@ -329,6 +617,113 @@ describe('isFilterActive', () => {
   });
 });
 
+describe('group time zones', () => {
+  const workHours = (timeZone: string): FilterGroup => ({
+    id: `work-${timeZone}`,
+    name: 'Work Hours',
+    is24x7: false,
+    timeZone,
+    schedules: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' }],
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads an instant as the wall-clock moment in a zone', () => {
+    expect(getScheduleContextAt(Date.UTC(2025, 0, 12, 23, 30), 'Asia/Tokyo')).toEqual({
+      dayOfWeek: 1,
+      time: '08:30',
+      date: '2025-01-13',
+    });
+    expect(getScheduleContextAt(Date.UTC(2025, 0, 13, 3, 0), 'America/Los_Angeles')).toEqual({
+      dayOfWeek: 0,
+      time: '19:00',
+      date: '2025-01-12',
+    });
+  });
+
+  it('checks each group against the same instant in its own zone', () => {
+    // Monday 10:00 in Tokyo is still Sunday evening in Los Angeles.
+    const clock = getScheduleClock(Date.UTC(2025, 0, 13, 1, 0));
+
+    expect(isGroupActive(workHours('Asia/Tokyo'), clock)).toBe(true);
+    expect(isGroupActive(workHours('America/Los_Angeles'), clock)).toBe(false);
+  });
+
+  it('uses the current instant for filters by default', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2025, 0, 13, 17, 0));
+    const groups = [workHours('Europe/London'), workHours('Asia/Tokyo')];
+    const filterIn = (groupId: string): Filter => ({
+      id: `filter-${groupId}`,
+      pattern: 'example',
+      groupId,
+      enabled: true,
+      matchMode: 'contains',
+    });
+
+    // 17:00 in London is the last scheduled minute; Tokyo is already at 02:00 on Tuesday.
+    expect(isFilterActive(filterIn('work-Europe/London'), groups)).toBe(true);
+    expect(isFilterActive(filterIn('work-Asia/Tokyo'), groups)).toBe(false);
+  });
+
+  it('applies a fixed context as-is whatever the zone', () => {
+    expect(isGroupActive(workHours('Asia/Tokyo'), { dayOfWeek: 1, time: '10:00' })).toBe(true);
+  });
+
+  it('runs overnight schedules past midnight in the zone', () => {
+    const group: FilterGroup = {
+      ...workHours('Europe/London'),
+      schedules: [{ daysOfWeek: [5], startTime: '22:00', endTime: '06:00' }],
+    };
+
+    expect(isGroupActive(group, getScheduleClock(Date.UTC(2025, 0, 18, 5, 30)))).toBe(true);
+    expect(isGroupActive(group, getScheduleClock(Date.UTC(2025, 0, 18, 6, 30)))).toBe(false);
+    expect(getGroupTransitions(group, Date.UTC(2025, 0, 17, 23, 0)).deactivatesAt).toBe(
+      Date.UTC(2025, 0, 18, 6, 1)
+    );
+  });
+
+  it('keeps schedules on the wall clock across daylight saving changes', () => {
+    const newYork = workHours('America/New_York');
+
+    // Clocks go forward on Sunday 2025-03-09, so Monday 09:00 is 13:00 UTC instead of 14:00.
+    expect(getGroupTransitions(newYork, Date.UTC(2025, 2, 7, 23, 0))).toEqual({
+      activatesAt: Date.UTC(2025, 2, 10, 13, 0),
+      deactivatesAt: Date.UTC(2025, 2, 10, 21, 1),
+    });
+    // Clocks go back on Sunday 2025-11-02.
+    expect(getGroupTransitions(newYork, Date.UTC(2025, 9, 31, 22, 0)).activatesAt).toBe(
+      Date.UTC(2025, 10, 3, 14, 0)
+    );
+  });
+
+  it('ends overnight schedules at the wall-clock time on a daylight saving night', () => {
+    const group: FilterGroup = {
+      ...workHours('America/New_York'),
+      schedules: [{ daysOfWeek: [6], startTime: '22:00', endTime: '06:00' }],
+    };
+
+    // Saturday 23:00 EST; the night is an hour shorter, ending at 06:01 EDT.
+    expect(getGroupTransitions(group, Date.UTC(2025, 2, 9, 4, 0)).deactivatesAt).toBe(
+      Date.UTC(2025, 2, 9, 10, 1)
+    );
+  });
+
+  it('starts a schedule whose start time is skipped once the clock passes it', () => {
+    const group: FilterGroup = {
+      ...workHours('America/New_York'),
+      schedules: [{ daysOfWeek: [0], startTime: '02:30', endTime: '04:00' }],
+    };
+
+    // 02:30 does not exist on 2025-03-09; 03:30 EDT is the same hour later.
+    const activatesAt = getGroupTransitions(group, Date.UTC(2025, 2, 9, 5, 0)).activatesAt;
+    expect(activatesAt).toBe(Date.UTC(2025, 2, 9, 7, 30));
+    expect(isGroupActive(group, getScheduleClock(Date.UTC(2025, 2, 9, 7, 30)))).toBe(true);
+  });
+});
+
 describe('sortFiltersTemporaryFirst', () => {
   it('places temporary filters first while preserving relative order', () => {
     const filters: Filter[] = [
@@ -357,6 +752,308 @@ describe('sortFiltersTemporaryFirst', () => {
   });
 });
 
+describe('getNextScheduleBoundary', () => {
+  // 2025-01-13 is a Monday; local dates keep the tests independent of the machine's time zone.
+  const at = (day: number, hours: number, minutes = 0): number =>
+    new Date(2025, 0, 13 + day - 1, hours, minutes).getTime();
+  const createGroup = (schedules: FilterGroup['schedules']): FilterGroup => ({
+    id: 'scheduled',
+    name: 'Scheduled',
+    is24x7: false,
+    schedules,
+  });
+  const workHours = createGroup([
+    { daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' },
+  ]);
+
+  it('returns the next start of a schedule', () => {
+    expect(getNextScheduleBoundary([workHours], [], at(1, 8, 30))).toBe(at(1, 9));
+  });
+
+  it('returns the minute after the end time while a schedule is running', () => {
+    expect(getNextScheduleBoundary([workHours], [], at(1, 10))).toBe(at(1, 17, 1));
+  });
+
+  it('skips to the next scheduled day after the last boundary of the day', () => {
+    expect(getNextScheduleBoundary([workHours], [], at(5, 18))).toBe(at(8, 9));
+  });
+
+  it('ends overnight schedules on the following morning', () => {
+    const overnight = createGroup([{ daysOfWeek: [5], startTime: '22:00', endTime: '02:00' }]);
+
+    expect(getNextScheduleBoundary([overnight], [], at(5, 21))).toBe(at(5, 22));
+    expect(getNextScheduleBoundary([overnight], [], at(5, 23))).toBe(at(6, 2, 1));
+    expect(getNextScheduleBoundary([overnight], [], at(6, 1))).toBe(at(6, 2, 1));
+    expect(getNextScheduleBoundary([overnight], [], at(6, 3))).toBe(at(12, 22));
+  });
+
+  it('ends a Saturday overnight schedule on Sunday across the week boundary', () => {
+    const saturdayNight = createGroup([{ daysOfWeek: [6], startTime: '23:00', endTime: '01:30' }]);
+
+    expect(getNextScheduleBoundary([saturdayNight], [], at(6, 23, 30))).toBe(at(7, 1, 31));
+  });
+
+  it('includes temporary filter expiry and ignores groups that never switch', () => {
+    const expiresAt = at(1, 8, 45);
+    const filters: Filter[] = [
+      {
+        id: 'temporary',
+        pattern: 'example.com',
+        groupId: DEFAULT_GROUP_ID,
+        enabled: true,
+        matchMode: 'contains',
+        expiresAt,
+      },
+    ];
+
+    expect(getNextScheduleBoundary([workHours], filters, at(1, 8, 30))).toBe(expiresAt);
+    expect(
+      getNextScheduleBoundary(
+        [
+          { ...workHours, enabled: false },
+          { ...workHours, is24x7: true },
+        ],
+        [],
+        at(1, 8, 30)
+      )
+    ).toBeNull();
+    expect(getNextScheduleBoundary([], filters, at(1, 9))).toBeNull();
+  });
+
+  it('includes the midnights where excluded dates start and end', () => {
+    const holiday = { ...workHours, excludedDates: [{ start: '2025-01-14', end: '2025-01-14' }] };
+
+    expect(getNextScheduleBoundary([holiday], [], at(1, 18))).toBe(at(2, 0));
+    expect(getNextScheduleBoundary([holiday], [], at(2, 18))).toBe(at(3, 0));
+    expect(
+      getNextScheduleBoundary([{ ...holiday, is24x7: true, schedules: [] }], [], at(2, 12))
+    ).toBe(at(3, 0));
+  });
+});
+
+describe('getGroupTransitions', () => {
+  const at = (day: number, hours: number, minutes = 0): number =>
+    new Date(2025, 0, 13 + day - 1, hours, minutes).getTime();
+  const createGroup = (
+    schedules: FilterGroup['schedules'],
+    overrides: Partial<FilterGroup> = {}
+  ): FilterGroup => ({
+    id: 'scheduled',
+    name: 'Scheduled',
+    is24x7: false,
+    schedules,
+    ...overrides,
+  });
+
+  it('returns when an active group turns off and then back on', () => {
+    const group = createGroup([{ daysOfWeek: [1, 2], startTime: '09:00', endTime: '17:00' }]);
+
+    expect(getGroupTransitions(group, at(1, 10))).toEqual({
+      deactivatesAt: at(1, 17, 1),
+      activatesAt: at(2, 9),
+    });
+  });
+
+  it('returns when an inactive group turns on and then off', () => {
+    const group = createGroup([{ daysOfWeek: [1, 2], startTime: '09:00', endTime: '17:00' }]);
+
+    expect(getGroupTransitions(group, at(2, 18))).toEqual({
+      activatesAt: at(8, 9),
+      deactivatesAt: at(8, 17, 1),
+    });
+  });
+
+  it('treats back-to-back schedules as one stretch', () => {
+    const group = createGroup([
+      { daysOfWeek: [1], startTime: '09:00', endTime: '12:00' },
+      { daysOfWeek: [1], startTime: '12:01', endTime: '17:00' },
+    ]);
+
+    expect(getGroupTransitions(group, at(1, 10)).deactivatesAt).toBe(at(1, 17, 1));
+  });
+
+  it('ends overnight schedules the following morning', () => {
+    const group = createGroup([{ daysOfWeek: [6], startTime: '22:00', endTime: '06:00' }]);
+
+    expect(getGroupTransitions(group, at(6, 23))).toEqual({
+      deactivatesAt: at(7, 6, 1),
+      activatesAt: at(13, 22),
+    });
+    expect(getGroupTransitions(group, at(7, 5)).deactivatesAt).toBe(at(7, 6, 1));
+  });
+
+  it('never changes 24/7, disabled or always-covered groups', () => {
+    const none = { activatesAt: null, deactivatesAt: null };
+
+    expect(getGroupTransitions(createGroup([], { is24x7: true }), at(1, 10))).toEqual(none);
+    expect(
+      getGroupTransitions(
+        createGroup([{ daysOfWeek: [1], startTime: '09:00', endTime: '17:00' }], {
+          enabled: false,
+        }),
+        at(1, 8)
+      )
+    ).toEqual(none);
+    expect(
+      getGroupTransitions(
+        createGroup([{ daysOfWeek: [0, 1, 2, 3, 4, 5, 6], startTime: '00:00', endTime: '23:59' }]),
+        at(1, 8)
+      )
+    ).toEqual(none);
+  });
+
+  it('skips schedules suspended by excluded dates, even weeks ahead', () => {
+    const group = createGroup([{ daysOfWeek: [1, 2], startTime: '09:00', endTime: '17:00' }], {
+      excludedDates: [{ start: '2025-01-14', end: '2025-01-28' }],
+    });
+
+    expect(getGroupTransitions(group, at(1, 10))).toEqual({
+      deactivatesAt: at(1, 17, 1),
+      activatesAt: at(22, 9),
+    });
+  });
+
+  it('follows alternate-week and validity rules past the first week', () => {
+    const alternate = createGroup([
+      {
+        daysOfWeek: [1],
+        startTime: '09:00',
+        endTime: '17:00',
+        weekInterval: 2,
+        anchorDate: '2025-01-13',
+      },
+    ]);
+    const nextSemester = createGroup([
+      { daysOfWeek: [1], startTime: '09:00', endTime: '17:00', validFrom: '2025-03-01' },
+    ]);
+    const finished = createGroup([
+      { daysOfWeek: [1], startTime: '09:00', endTime: '17:00', validUntil: '2025-01-13' },
+    ]);
+
+    expect(getGroupTransitions(alternate, at(1, 10))).toEqual({
+      deactivatesAt: at(1, 17, 1),
+      activatesAt: at(15, 9),
+    });
+    expect(getGroupTransitions(nextSemester, at(1, 8)).activatesAt).toBe(
+      new Date(2025, 2, 3, 9, 0).getTime()
+    );
+    expect(getGroupTransitions(finished, at(1, 18))).toEqual({
+      activatesAt: null,
+      deactivatesAt: null,
+    });
+  });
+
+  it('turns 24/7 groups off for excluded dates', () => {
+    const group = createGroup([], {
+      is24x7: true,
+      excludedDates: [{ start: '2025-01-15', end: '2025-01-16' }],
+    });
+
+    expect(getGroupTransitions(group, at(1, 10))).toEqual({
+      deactivatesAt: at(3, 0),
+      activatesAt: at(5, 0),
+    });
+    expect(getGroupTransitions(group, at(6, 10))).toEqual({
+      activatesAt: null,
+      deactivatesAt: null,
+    });
+  });
+});
+
+describe('daily budgets', () => {
+  const group: FilterGroup = {
+    id: 'social',
+    name: 'Social',
+    is24x7: true,
+    schedules: [],
+    dailyBudget: { minutes: 30, resetTime: '04:00' },
+  };
+
+  it('starts the budget day at the reset time', () => {
+    expect(getBudgetDay(group, new Date(2025, 0, 14, 3, 59).getTime())).toBe('2025-01-13');
+    expect(getBudgetDay(group, new Date(2025, 0, 14, 4, 0).getTime())).toBe('2025-01-14');
+    expect(
+      getBudgetDay(
+        { ...group, dailyBudget: { minutes: 30 } },
+        new Date(2025, 0, 14, 0, 0).getTime()
+      )
+    ).toBe('2025-01-14');
+  });
+
+  it('resets at the next reset time', () => {
+    expect(getNextBudgetReset(group, new Date(2025, 0, 13, 22, 0).getTime())).toBe(
+      new Date(2025, 0, 14, 4, 0).getTime()
+    );
+    expect(getNextBudgetReset(group, new Date(2025, 0, 14, 4, 0).getTime())).toBe(
+      new Date(2025, 0, 15, 4, 0).getTime()
+    );
+  });
+
+  it('counts only usage from the current budget day', () => {
+    const now = new Date(2025, 0, 14, 10, 0).getTime();
+    const usage = { social: { day: '2025-01-14', usedMs: 20 * 60_000 } };
+
+    expect(getBudgetRemainingMs(group, usage, now)).toBe(10 * 60_000);
+    expect(hasBudgetLeft(group, usage, now)).toBe(true);
+    expect(
+      getBudgetRemainingMs(group, { social: { day: '2025-01-13', usedMs: 20 * 60_000 } }, now)
+    ).toBe(30 * 60_000);
+    expect(hasBudgetLeft(group, { social: { day: '2025-01-14', usedMs: 31 * 60_000 } }, now)).toBe(
+      false
+    );
+    expect(
+      getBudgetRemainingMs({ id: 'work', name: 'Work', is24x7: true, schedules: [] }, usage, now)
+    ).toBeNull();
+  });
+
+  it('treats budget resets as schedule boundaries', () => {
+    expect(getNextScheduleBoundary([group], [], new Date(2025, 0, 13, 22, 0).getTime())).toBe(
+      new Date(2025, 0, 14, 4, 0).getTime()
+    );
+  });
+});
+
+describe('sortFiltersForEvaluation', () => {
+  it('orders by priority after temporary filters, keeping stored order for ties', () => {
+    const filters: Filter[] = [
+      { id: 'f1', pattern: 'a', groupId: 'default', enabled: true, matchMode: 'contains' },
+      {
+        id: 'f2',
+        pattern: 'b',
+        groupId: 'work',
+        enabled: true,
+        matchMode: 'contains',
+        priority: 2,
+      },
+      {
+        id: 'f3',
+        pattern: 'c',
+        groupId: 'default',
+        enabled: true,
+        matchMode: 'contains',
+        expiresAt: Date.now() + 60_000,
+      },
+      { id: 'f4', pattern: 'd', groupId: 'default', enabled: true, matchMode: 'contains' },
+      {
+        id: 'f5',
+        pattern: 'e',
+        groupId: 'default',
+        enabled: true,
+        matchMode: 'contains',
+        priority: -1,
+      },
+    ];
+
+    expect(sortFiltersForEvaluation(filters).map((filter) => filter.id)).toEqual([
+      'f3',
+      'f2',
+      'f1',
+      'f4',
+      'f5',
+    ]);
+  });
+});
+
 describe('snooze helpers', () => {
   it('should report inactive when snooze is not active', () => {
     expect(isSnoozeActive({ active: false })).toBe(false);
@@ -384,6 +1081,56 @@ describe('snooze helpers', () => {
   });
 });
 
+describe('focus sessions', () => {
+  const now = new Date(2025, 0, 13, 20, 0).getTime();
+  const workGroup: FilterGroup = {
+    id: 'work',
+    name: 'Work',
+    schedules: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' }],
+    is24x7: false,
+    enabled: false,
+  };
+  const filter: Filter = {
+    id: 'f1',
+    pattern: 'example.com',
+    groupId: 'work',
+    enabled: true,
+    matchMode: 'contains',
+  };
+  const evening = { dayOfWeek: 1, time: '20:00' };
+
+  it('reports the remaining time of a running session', () => {
+    const session = { active: true, groupIds: ['work'], until: now + 60_000 };
+
+    expect(getFocusSessionRemainingMs(session, now)).toBe(60_000);
+    expect(isFocusSessionActive(session, now)).toBe(true);
+    expect(isFocusSessionExpired(session, now)).toBe(false);
+    expect(isFocusSessionActive(session, now + 60_000)).toBe(false);
+    expect(isFocusSessionExpired(session, now + 60_000)).toBe(true);
+    expect(getFocusSessionRemainingMs(undefined, now)).toBeNull();
+  });
+
+  it('forces the session groups active whatever their schedule or enabled state', () => {
+    const session = { active: true, groupIds: ['work'], until: now + 60_000 };
+
+    expect(isGroupInFocusSession(workGroup, session, now)).toBe(true);
+    expect(isGroupInFocusSession({ ...workGroup, id: 'other' }, session, now)).toBe(false);
+    expect(getFilterEffectiveState(filter, [workGroup], evening, now, session)).toEqual({
+      filterEnabled: true,
+      groupEnabled: false,
+      groupActive: true,
+      active: true,
+      focused: true,
+    });
+    expect(getFilterEffectiveState(filter, [workGroup], evening, now + 60_000, session)).toEqual({
+      filterEnabled: true,
+      groupEnabled: false,
+      groupActive: false,
+      active: false,
+    });
+  });
+});
+
 describe('runtime filtering path', () => {
   const groups: FilterGroup[] = [
     { id: 'default', name: '24/7', schedules: [], is24x7: true },
@@ -483,12 +1230,18 @@ describe('regex validation', () => {
     expect(getRegexValidationError(`example${'a'.repeat(600)}`)).toContain('longer than');
   });
 
-  it('rejects nested unbounded repetition that can backtrack catastrophically', () => {
-    expect(getRegexValidationError('(a+)+$')).toContain('unbounded repetition');
-    expect(getRegexValidationError('(a*)*')).toContain('unbounded repetition');
-    expect(getRegexValidationError('(\\w+)+')).toContain('unbounded repetition');
-    expect(getRegexValidationError('(a+){2,}')).toContain('unbounded repetition');
-    expect(getRegexValidationError('((b)+)*')).toContain('unbounded repetition');
+  it('accepts nested repetition, which the linear-time matcher runs safely', () => {
+    expect(getRegexValidationError('(a+)+$')).toBeNull();
+    expect(getRegexValidationError('(\\w+)+')).toBeNull();
+    expect(getRegexValidationError('(a+){2,}')).toBeNull();
+    expect(matchesPattern(`https://${'a'.repeat(64)}!`, '(a+)+$', 'regex')).toBe(false);
+  });
+
+  it('rejects syntax the linear-time matcher cannot run', () => {
+    expect(getRegexValidationError('(a)\\1')).toBe('Backreferences like \\1 are not supported.');
+    expect(getRegexValidationError('example(?!\\.com)')).toBe(
+      'Lookahead like (?=...) is not supported.'
+    );
   });
 
   it('accepts common safe quantified patterns', () => {
@@ -532,6 +1285,27 @@ describe('shouldBlockUrl', () => {
     expect(result?.id).toBe('f1');
   });
 
+  it('reports the highest priority matching filter', () => {
+    const filters: Filter[] = [
+      {
+        id: 'f1',
+        pattern: 'blocked.com',
+        groupId: 'default',
+        enabled: true,
+        matchMode: 'contains',
+      },
+      {
+        id: 'f2',
+        pattern: 'blocked.com',
+        groupId: 'default',
+        enabled: true,
+        matchMode: 'domain',
+        priority: 1,
+      },
+    ];
+    expect(findBlockingFilter('https://blocked.com/page', filters, groups, [])?.id).toBe('f2');
+  });
+
   it('should respect exact matching for filters', () => {
     const filters: Filter[] = [
       {
@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import { parseCalendarImport } from '../../../src/shared/api/storage';
+import { parseICalendar } from '../../../src/shared/storage/icalendar';
+
+function calendar(...events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'X-WR-CALNAME:Deep Work',
+    ...events.flatMap((event) => ['BEGIN:VEVENT', ...event, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+describe('parseICalendar', () => {
+  it('turns a weekly rule into a schedule that ends a minute before the event does', () => {
+    const result = parseICalendar(
+      calendar([
+        'UID:standup',
+        'DTSTART:20250113T090000',
+        'DTEND:20250113T103000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR',
+      ]),
+      '2025-01-13'
+    );
+
+    expect(result).toEqual({
+      name: 'Deep Work',
+      schedules: [
+        { daysOfWeek: [1, 3, 5], startTime: '09:00', endTime: '10:29', validFrom: '2025-01-13' },
+      ],
+      importedEvents: 1,
+      skippedEvents: 0,
+    });
+  });
+
+  it('splits a weekly rule around excluded and moved occurrences', () => {
+    const result = parseICalendar(
+      calendar(
+        [
+          'UID:focus',
+          'DTSTART:20250113T090000',
+          'DTEND:20250113T110000',
+          'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20250210T090000',
+          'EXDATE:20250120T090000',
+        ],
+        [
+          'UID:focus',
+          'RECURRENCE-ID:20250203T090000',
+          'DTSTART:20250204T140000',
+          'DTEND:20250204T160000',
+        ]
+      ),
+      '2025-01-13'
+    );
+
+    expect(result.schedules).toEqual([
+      {
+        daysOfWeek: [1],
+        startTime: '09:00',
+        endTime: '10:59',
+        validFrom: '2025-01-13',
+        validUntil: '2025-01-19',
+      },
+      {
+        daysOfWeek: [1],
+        startTime: '09:00',
+        endTime: '10:59',
+        validFrom: '2025-01-21',
+        validUntil: '2025-02-02',
+      },
+      {
+        daysOfWeek: [1],
+        startTime: '09:00',
+        endTime: '10:59',
+        validFrom: '2025-02-04',
+        validUntil: '2025-02-10',
+      },
+      {
+        daysOfWeek: [2],
+        startTime: '14:00',
+        endTime: '15:59',
+        validFrom: '2025-02-04',
+        validUntil: '2025-02-04',
+      },
+    ]);
+    expect(result.importedEvents).toBe(2);
+  });
+
+  it('turns all-day and one-off events into date-specific windows', () => {
+    const result = parseICalendar(
+      calendar(
+        ['UID:exam', 'DTSTART;VALUE=DATE:20250120', 'DTEND;VALUE=DATE:20250121'],
+        ['UID:talk', 'DTSTART:20250122T130000', 'DURATION:PT45M']
+      ),
+      '2025-01-13'
+    );
+
+    expect(result.schedules).toEqual([
+      {
+        daysOfWeek: [1],
+        startTime: '00:00',
+        endTime: '23:59',
+        validFrom: '2025-01-20',
+        validUntil: '2025-01-20',
+      },
+      {
+        daysOfWeek: [3],
+        startTime: '13:00',
+        endTime: '13:44',
+        validFrom: '2025-01-22',
+        validUntil: '2025-01-22',
+      },
+    ]);
+  });
+
+  it('expresses counted, fortnightly and monthly rules', () => {
+    const result = parseICalendar(
+      calendar(
+        ['UID:a', 'DTSTART:20250113T180000', 'DTEND:20250113T190000', 'RRULE:FREQ=DAILY;COUNT=3'],
+        [
+          'UID:b',
+          'DTSTART:20250114T080000',
+          'DTEND:20250114T090000',
+          'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU',
+        ],
+        [
+          'UID:c',
+          'DTSTART:20250106T200000',
+          'DTEND:20250106T210000',
+          'RRULE:FREQ=MONTHLY;BYDAY=1MO',
+        ]
+      ),
+      '2025-01-13'
+    );
+
+    expect(result.schedules).toEqual([
+      {
+        daysOfWeek: [0, 1, 2, 3, 4, 5, 6],
+        startTime: '18:00',
+        endTime: '18:59',
+        validFrom: '2025-01-13',
+        validUntil: '2025-01-15',
+      },
+      expect.objectContaining({ daysOfWeek: [2], startTime: '08:00', weekInterval: 2 }),
+      expect.objectContaining({ daysOfWeek: [1], startTime: '20:00', weeksOfMonth: [1] }),
+    ]);
+    expect(result.importedEvents).toBe(3);
+  });
+
+  it('skips rules it cannot express, cancelled events and events that already ended', () => {
+    const result = parseICalendar(
+      calendar(
+        ['UID:a', 'DTSTART:20250113T090000', 'DTEND:20250113T100000', 'RRULE:FREQ=YEARLY'],
+        ['UID:b', 'DTSTART:20250114T090000', 'DTEND:20250114T100000', 'STATUS:CANCELLED'],
+        ['UID:c', 'DTSTART:20250110T090000', 'DTEND:20250110T100000']
+      ),
+      '2025-01-13'
+    );
+
+    expect(result).toEqual({
+      name: 'Deep Work',
+      schedules: [],
+      importedEvents: 0,
+      skippedEvents: 1,
+    });
+  });
+
+  it('keeps the time zone shared by every timed event', () => {
+    const result = parseICalendar(
+      calendar([
+        'UID:a',
+        'DTSTART;TZID=Europe/Berlin:20250113T090000',
+        'DTEND;TZID=Europe/Berlin:20250113T100000',
+        'RRULE:FREQ=WEEKLY',
+      ]),
+      '2025-01-13'
+    );
+
+    expect(result.timeZone).toBe('Europe/Berlin');
+    expect(result.schedules).toEqual([
+      { daysOfWeek: [1], startTime: '09:00', endTime: '09:59', validFrom: '2025-01-13' },
+    ]);
+  });
+
+  it('rejects files that are not calendars', () => {
+    expect(() => parseICalendar('{"groups":[]}')).toThrow('File is not an iCalendar (.ics) file.');
+  });
+});
+
+describe('parseCalendarImport', () => {
+  it('builds a validated group named after the calendar', () => {
+    const result = parseCalendarImport(
+      calendar(['UID:a', 'DTSTART:20990105T090000', 'DTEND:20990105T100000', 'RRULE:FREQ=WEEKLY']),
+      'work'
+    );
+
+    expect(result.group).toMatchObject({
+      name: 'Deep Work',
+      is24x7: false,
+      schedules: [
+        { daysOfWeek: [1], startTime: '09:00', endTime: '09:59', validFrom: '2099-01-05' },
+      ],
+    });
+    expect(result.importedEvents).toBe(1);
+  });
+
+  it('refuses calendars without anything to schedule', () => {
+    expect(() => parseCalendarImport(calendar(), 'work')).toThrow(
+      'Calendar file does not contain any upcoming events that can be scheduled.'
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { appendBypassJournalEntry, getBypassJournal } from '../../../src/shared/api/journal';
+import {
+  filterJournalEntries,
+  normalizeJournalEntries,
+  serializeJournalAsCsv,
+} from '../../../src/shared/storage/journal';
+import type { BypassJournalEntry } from '../../../src/shared/types';
+
+const entries: readonly BypassJournalEntry[] = [
+  {
+    at: Date.UTC(2026, 0, 5, 9),
+    url: 'https://docs.example.com/guide',
+    groupId: 'work',
+    groupName: 'Work',
+    filterId: 'docs',
+    filterPattern: 'docs.example.com',
+    reason: 'need docs for ticket',
+  },
+  {
+    at: Date.UTC(2026, 0, 6, 9),
+    url: 'https://news.example.com/',
+    groupId: 'evening',
+    groupName: 'Evening',
+  },
+];
+
+describe('continue journal', () => {
+  it('filters by group, period and search text, newest first', () => {
+    expect(filterJournalEntries(entries, {}).map((entry) => entry.groupId)).toEqual([
+      'evening',
+      'work',
+    ]);
+    expect(filterJournalEntries(entries, { groupId: 'work' })).toEqual([entries[0]]);
+    expect(filterJournalEntries(entries, { since: Date.UTC(2026, 0, 6) })).toEqual([entries[1]]);
+    expect(filterJournalEntries(entries, { search: ' TICKET ' })).toEqual([entries[0]]);
+    expect(filterJournalEntries(entries, { search: 'nothing like it' })).toEqual([]);
+  });
+
+  it('exports CSV with a header and quoted fields', () => {
+    const csv = serializeJournalAsCsv([
+      { ...entries[0]!, reason: 'docs, "quickly"\nthen back' },
+      entries[1]!,
+    ]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'at,url,groupId,groupName,filterId,filterPattern,reason',
+      '2026-01-05T09:00:00.000Z,https://docs.example.com/guide,work,Work,docs,docs.example.com,"docs, ""quickly""\nthen back"',
+      '2026-01-06T09:00:00.000Z,https://news.example.com/,evening,Evening,,,',
+      '',
+    ]);
+  });
+
+  it('keeps every entry appended at the same time', async () => {
+    await Promise.all(entries.map((entry) => appendBypassJournalEntry(entry)));
+
+    await expect(getBypassJournal()).resolves.toEqual(entries);
+  });
+
+  it('drops malformed stored entries', () => {
+    expect(
+      normalizeJournalEntries([entries[1], { at: 'today', url: 'x', groupId: 'work' }, null])
+    ).toEqual([entries[1]]);
+    expect(normalizeJournalEntries({})).toEqual([]);
+  });
+});
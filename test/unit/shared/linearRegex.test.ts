@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import { compileLinearRegex, getLinearRegexError } from '../../../src/shared/filtering/linearRegex';
+
+const PATTERNS = [
+  '^https://example\\.com',
+  'example\\.com/(watch|video)\\?v=.+',
+  '^https?://(www\\.)?example\\.com/.*$',
+  '\\bnews\\b',
+  '\\Bews',
+  '[a-c]{2,3}\\d',
+  '[^/]+\\.org/',
+  '/(?:shorts|reels)/\\w+',
+  '(?<site>reddit|twitter)\\.com',
+  'a{2}',
+  'x{,2}',
+  '\\x41\\u0062',
+  '[\\d-z]',
+  '[\\s\\S]{5}$',
+  '.*?q=',
+  'id=\\d+&',
+  '(a|ab)(c|bcd)(d*)',
+  '^$',
+  '[]',
+  '[^]',
+  '\\/\\.\\*',
+];
+
+const INPUTS = [
+  'https://example.com/watch?v=abc',
+  'http://www.example.com/',
+  'https://news.example.org/top',
+  'https://reddit.com/r/all',
+  'https://site.test/shorts/abc_1',
+  'https://aab1.test/?q=1&id=42&',
+  'https://example.com/abcd',
+  'x{,2}',
+  'Ab',
+  '',
+  '/.*',
+];
+
+describe('compileLinearRegex', () => {
+  it.each(PATTERNS)('agrees with RegExp for %s', (pattern) => {
+    const linear = compileLinearRegex(pattern);
+    const native = new RegExp(pattern);
+
+    expect(linear).not.toBeNull();
+    for (const input of INPUTS) {
+      expect(linear?.test(input), input).toBe(native.test(input));
+    }
+  });
+
+  it('matches pathological patterns in linear time', () => {
+    const start = performance.now();
+
+    expect(compileLinearRegex('(a|a)*b')?.test('a'.repeat(50_000))).toBe(false);
+    expect(compileLinearRegex('(a|aa)+$')?.test(`${'a'.repeat(50_000)}!`)).toBe(false);
+    expect(performance.now() - start).toBeLessThan(2000);
+  });
+});
+
+describe('getLinearRegexError', () => {
+  it.each([
+    ['(a)\\1', 'Backreferences like \\1 are not supported.'],
+    ['(?<x>a)\\k<x>', 'Backreferences like \\1 are not supported.'],
+    ['foo(?=bar)', 'Lookahead like (?=...) is not supported.'],
+    ['(?<!x)y', 'Lookbehind like (?<=...) is not supported.'],
+    ['\\cJ', 'Escape \\c is not supported.'],
+    ['(a{100}){101}', 'Pattern is too large to match safely. Use smaller {n,m} repeat counts.'],
+  ])('rejects %s', (pattern, message) => {
+    expect(getLinearRegexError(pattern)).toBe(message);
+  });
+
+  it('accepts the supported subset', () => {
+    for (const pattern of PATTERNS) {
+      expect(getLinearRegexError(pattern), pattern).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { getActiveLocks, getLockViolations } from '../../../src/shared/filtering/locks';
+import type { FilterGroup, StorageData } from '../../../src/shared/types';
+
+// Wednesday 2026-01-07 10:00 local time, inside the 09:00-17:00 weekday schedule.
+const NOW = new Date(2026, 0, 7, 10, 0).getTime();
+
+const work: FilterGroup = {
+  id: 'work',
+  name: 'Work',
+  schedules: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' }],
+  is24x7: false,
+  locked: true,
+  challenge: { type: 'countdown', seconds: 30 },
+  bypass: { maxPerDay: 2 },
+};
+
+function createData(overrides: Partial<StorageData> = {}): StorageData {
+  return {
+    groups: [work],
+    filters: [
+      {
+        id: 'news',
+        pattern: 'news.example.com',
+        groupId: 'work',
+        enabled: true,
+        matchMode: 'domain',
+      },
+    ],
+    whitelist: [],
+    snooze: { active: false },
+    rulesVersion: 1,
+    ...overrides,
+  };
+}
+
+function getOperations(next: Partial<StorageData>, current = createData()): string[] {
+  return getLockViolations(current, { ...current, ...next }, NOW).map(
+    (violation) => violation.operation
+  );
+}
+
+describe('commitment locks', () => {
+  it('holds while the group is active and says until when', () => {
+    expect(getActiveLocks(createData(), NOW)).toEqual([
+      { groupId: 'work', groupName: 'Work', until: new Date(2026, 0, 7, 17, 1).getTime() },
+    ]);
+    expect(getActiveLocks(createData(), new Date(2026, 0, 7, 18, 0).getTime())).toEqual([]);
+    expect(getActiveLocks(createData({ groups: [{ ...work, locked: false }] }), NOW)).toEqual([]);
+  });
+
+  it('refuses each way of loosening the group', () => {
+    expect(getOperations({ groups: [{ ...work, enabled: false }] })).toEqual(['disable-group']);
+    expect(getOperations({ groups: [{ ...work, locked: false }] })).toEqual(['disable-group']);
+    expect(getOperations({ filters: [] })).toEqual(['loosen-filters']);
+    expect(
+      getOperations({
+        whitelist: [
+          {
+            id: 'sports',
+            pattern: 'news.example.com/sports',
+            groupId: 'work',
+            enabled: true,
+            matchMode: 'contains',
+          },
+        ],
+      })
+    ).toEqual(['add-exceptions']);
+    expect(
+      getOperations({
+        groups: [
+          {
+            ...work,
+            schedules: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '12:00' }],
+          },
+        ],
+      })
+    ).toEqual(['loosen-schedule']);
+    expect(getOperations({ groups: [{ ...work, bypass: { maxPerDay: 5 } }] })).toEqual([
+      'loosen-continue',
+    ]);
+    expect(getOperations({ snooze: { active: true, until: NOW + 60_000 } })).toEqual(['snooze']);
+  });
+
+  it('lets stricter changes through', () => {
+    expect(
+      getOperations({
+        groups: [
+          {
+            ...work,
+            schedules: [
+              ...work.schedules,
+              { daysOfWeek: [0, 6], startTime: '10:00', endTime: '12:00' },
+            ],
+            challenge: { type: 'countdown', seconds: 60 },
+            bypass: { maxPerDay: 1, requireReason: true },
+          },
+        ],
+        filters: [
+          ...createData().filters,
+          {
+            id: 'video',
+            pattern: 'video.example.com',
+            groupId: 'work',
+            enabled: true,
+            matchMode: 'domain',
+          },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it('lets expired temporary filters go', () => {
+    const current = createData({
+      filters: [
+        {
+          id: 'temporary',
+          pattern: 'temporary.example.com',
+          groupId: 'work',
+          enabled: true,
+          matchMode: 'domain',
+          expiresAt: NOW - 1,
+        },
+      ],
+    });
+
+    expect(getOperations({ filters: [] }, current)).toEqual([]);
+  });
+
+  it('keeps a focus session holding a locked group from ending early', () => {
+    const evening = NOW + 10 * 60 * 60_000;
+    const current = createData({
+      groups: [{ ...work, schedules: [] }],
+      focusSession: { active: true, groupIds: ['work'], until: evening },
+    });
+
+    expect(getActiveLocks(current, NOW)).toMatchObject([{ until: evening }]);
+    expect(getOperations({ focusSession: { active: false } }, current)).toEqual([
+      'end-focus-session',
+    ]);
+    expect(
+      getOperations(
+        { focusSession: { active: true, groupIds: ['work'], until: evening + 1 } },
+        current
+      )
+    ).toEqual([]);
+  });
+});
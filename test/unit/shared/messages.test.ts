@@ -5,6 +5,7 @@ import {
   isCheckUrlMessage,
   isCloseInfoPanelMessage,
   isContinueActiveTabMessage,
+  isExplainUrlMessage,
   isGetBlockedPageStateMessage,
   isGetDataMessage,
   isGoBackActiveTabMessage,
@@ -38,6 +39,16 @@ describe('shared/types/messages', () => {
     ).toBe(false);
   });
 
+  it('recognizes explain requests with a url', () => {
+    expect(isExplainUrlMessage({ type: MessageType.EXPLAIN_URL, url: 'https://example.com' })).toBe(
+      true
+    );
+    expect(isExplainUrlMessage({ type: MessageType.EXPLAIN_URL })).toBe(false);
+    expect(isExplainUrlMessage({ type: MessageType.CHECK_URL, url: 'https://example.com' })).toBe(
+      false
+    );
+  });
+
   it('recognizes panel control messages', () => {
     expect(isCloseInfoPanelMessage({ type: MessageType.CLOSE_INFO_PANEL })).toBe(true);
   });
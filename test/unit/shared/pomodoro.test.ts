@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  advancePomodoro,
+  createPomodoroState,
+  getNextPomodoroState,
+} from '../../../src/shared/filtering/pomodoro';
+import type { PomodoroSettings } from '../../../src/shared/types';
+
+const settings: PomodoroSettings = {
+  groupIds: ['work'],
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 2,
+  cycles: 3,
+};
+const start = new Date(2025, 0, 13, 9, 0).getTime();
+const minutes = (count: number): number => count * 60_000;
+
+describe('Pomodoro runs', () => {
+  it('starts with the first focus interval', () => {
+    expect(createPomodoroState(settings, start)).toEqual({
+      ...settings,
+      phase: 'focus',
+      cycle: 1,
+      phaseEndsAt: start + minutes(25),
+    });
+  });
+
+  it('alternates focus and breaks, with a long break every few intervals, then ends', () => {
+    const phases: [string, number, number][] = [];
+    let state = getNextPomodoroState(createPomodoroState(settings, start));
+    while (state) {
+      phases.push([state.phase, state.cycle, (state.phaseEndsAt - start) / 60_000]);
+      state = getNextPomodoroState(state);
+    }
+
+    expect(phases).toEqual([
+      ['short-break', 1, 30],
+      ['focus', 2, 55],
+      ['long-break', 2, 70],
+      ['focus', 3, 95],
+    ]);
+  });
+
+  it('catches up on phases that ended while the worker slept', () => {
+    const state = createPomodoroState(settings, start);
+
+    expect(advancePomodoro(state, start + minutes(10))).toBe(state);
+    expect(advancePomodoro(state, start + minutes(60))).toMatchObject({
+      phase: 'long-break',
+      cycle: 2,
+      phaseEndsAt: start + minutes(70),
+    });
+    expect(advancePomodoro(state, start + minutes(95))).toBeNull();
+  });
+});
@@ -1,8 +1,12 @@
 import { describe, expect, it } from 'vitest';
 import {
+  formatDailyBudget,
   formatGroupScheduleSummary,
   formatScheduleDays,
+  formatScheduleMoment,
+  formatUpcomingInstant,
   formatScheduleSummary,
+  formatVisitsUsed,
 } from '../../../src/shared/utils/schedules';
 
 describe('formatScheduleDays', () => {
@@ -37,6 +41,29 @@ describe('formatScheduleSummary', () => {
       })
     ).toBe('Mo-Fr 09:00-17:00');
   });
+
+  it('describes recurrence rules', () => {
+    expect(
+      formatScheduleSummary({
+        daysOfWeek: [1],
+        startTime: '18:00',
+        endTime: '20:00',
+        weeksOfMonth: [1, 3, -1],
+        validUntil: '2025-12-19',
+      })
+    ).toBe('1st, 3rd, last Mo 18:00-20:00 (until 2025-12-19)');
+    expect(
+      formatScheduleSummary({
+        daysOfWeek: [1, 2, 3, 4, 5],
+        startTime: '09:00',
+        endTime: '17:00',
+        weekInterval: 2,
+        anchorDate: '2025-01-13',
+        validFrom: '2025-09-01',
+        validUntil: '2025-12-19',
+      })
+    ).toBe('Mo-Fr 09:00-17:00 (every 2 weeks, 2025-09-01 to 2025-12-19)');
+  });
 });
 
 describe('formatGroupScheduleSummary', () => {
@@ -75,4 +102,74 @@ describe('formatGroupScheduleSummary', () => {
       })
     ).toBe('Mo-Fr 09:00-17:00, Sa 10:00-12:00');
   });
+
+  it('lists excluded dates that have not passed yet', () => {
+    const excludedDates = [
+      { start: '2025-01-01', end: '2025-01-01' },
+      { start: '2025-12-24', end: '2025-12-24' },
+      { start: '2025-12-29', end: '2026-01-02' },
+    ];
+
+    expect(
+      formatGroupScheduleSummary(
+        {
+          id: 'work-hours',
+          name: 'Work Hours',
+          is24x7: false,
+          schedules: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' }],
+          excludedDates,
+        },
+        '2025-06-01'
+      )
+    ).toBe('Mo-Fr 09:00-17:00, except 2025-12-24, 2025-12-29 to 2026-01-02');
+    expect(
+      formatGroupScheduleSummary(
+        { id: 'always', name: 'Always', is24x7: true, schedules: [], excludedDates },
+        '2026-01-02'
+      )
+    ).toBe('Always Active, except 2025-12-29 to 2026-01-02');
+  });
+
+  it('names the time zone a group follows', () => {
+    expect(
+      formatGroupScheduleSummary({
+        id: 'work-hours',
+        name: 'Work Hours',
+        is24x7: false,
+        timeZone: 'Europe/London',
+        schedules: [{ daysOfWeek: [1, 2, 3, 4, 5], startTime: '09:00', endTime: '17:00' }],
+      })
+    ).toBe('Mo-Fr 09:00-17:00 (Europe/London)');
+  });
+});
+
+describe('formatScheduleMoment', () => {
+  it('formats the day and time of a schedule moment', () => {
+    expect(formatScheduleMoment({ dayOfWeek: 1, time: '09:00' })).toBe('Mo 09:00');
+  });
+});
+
+describe('formatUpcomingInstant', () => {
+  const monday = new Date(2025, 0, 13, 10, 0).getTime();
+
+  it('formats instants later the same day as a time', () => {
+    expect(formatUpcomingInstant(new Date(2025, 0, 13, 17, 1).getTime(), monday)).toBe('17:01');
+  });
+
+  it('adds the weekday for instants on another day', () => {
+    expect(formatUpcomingInstant(new Date(2025, 0, 14, 9, 0).getTime(), monday)).toBe('Tu 09:00');
+  });
+});
+
+describe('usage limit summaries', () => {
+  it('formats daily budgets with their reset time', () => {
+    expect(formatDailyBudget({ minutes: 30 })).toBe('30m a day');
+    expect(formatDailyBudget({ minutes: 90, resetTime: '04:00' })).toBe('1h 30m a day from 04:00');
+  });
+
+  it('formats visits used against a daily limit', () => {
+    expect(formatVisitsUsed(0, 3)).toBe('3 visits a day');
+    expect(formatVisitsUsed(2, 3)).toBe('visit 2 of 3 used');
+    expect(formatVisitsUsed(3, 3)).toBe('visit 3 of 3 used');
+  });
 });
@@ -127,21 +127,67 @@ describe('shared/api/session', () => {
     await expect(getSessionSnooze()).resolves.toEqual({ active: false });
   });
 
+  it('keeps allowlist block snapshots that have no responsible filter', async () => {
+    const state = {
+      blockId: 'block-page-2',
+      tabId: 3,
+      targetUrl: 'https://news.example.test/',
+      blockedAt: 1234,
+      blockedBy: { groupId: 'exams' },
+      group: {
+        id: 'exams',
+        name: 'Exams',
+        schedules: [],
+        is24x7: true,
+        enabled: true,
+        mode: 'allowlist',
+      },
+      effectiveState: { filterEnabled: true, groupActive: true, snoozeActive: false },
+    } as const;
+    await setBlockedPageState(state);
+    await setBlockedPageState({
+      ...state,
+      blockId: 'block-page-3',
+      blockedBy: { filterId: 'x', groupId: 'exams' },
+    });
+
+    await expect(getBlockedPageState('block-page-2')).resolves.toEqual(state);
+    // A filter block must still carry its filter snapshot.
+    await expect(getBlockedPageState('block-page-3')).resolves.toBeUndefined();
+  });
+
   it('stores, retrieves, and clears bypass state by tab id', async () => {
     await setBypassState(9, {
       filterId: 'bypassed-filter',
-      urlKey: 'https://bypass.example.test',
+      scope: 'site',
+      urlKey: 'bypass.example.test',
+      expiresAt: 1_000,
     });
 
     await expect(getBypassState(9)).resolves.toEqual({
       filterId: 'bypassed-filter',
-      urlKey: 'https://bypass.example.test',
+      scope: 'site',
+      urlKey: 'bypass.example.test',
+      expiresAt: 1_000,
     });
 
     await clearBypassState(9);
     await expect(getBypassState(9)).resolves.toBeUndefined();
   });
 
+  it('reads a bypass without a scope as a page bypass', async () => {
+    getChromeMock().storage.session._data.set('bypass_9', {
+      filterId: 'bypassed-filter',
+      urlKey: 'https://bypass.example.test',
+    });
+
+    await expect(getBypassState(9)).resolves.toEqual({
+      filterId: 'bypassed-filter',
+      scope: 'page',
+      urlKey: 'https://bypass.example.test',
+    });
+  });
+
   it('ignores malformed session snooze values', async () => {
     getChromeMock().storage.session._data.set('snooze_override', { active: 'yes' });
 
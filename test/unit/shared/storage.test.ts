@@ -9,12 +9,16 @@ import {
   updateData,
   purgeExpiredTemporaryFilters,
   SettingsSaveError,
+  CommitmentLockError,
+  importData,
+  setSnooze,
   addGroup,
   updateGroup,
   deleteGroup,
   addFilter,
   updateFilter,
   deleteFilter,
+  moveFilter,
   addWhitelist,
   updateWhitelist,
   deleteWhitelist,
@@ -506,6 +510,67 @@ describe('storage', () => {
     });
   });
 
+  describe('moveFilter', () => {
+    const createFilter = (id: string, groupId: string, priority?: number): Filter => ({
+      id,
+      pattern: `${id}.example.com`,
+      groupId,
+      enabled: true,
+      matchMode: 'contains',
+      ...(priority !== undefined ? { priority } : {}),
+    });
+
+    const seed = async (filters: Filter[]): Promise<void> => {
+      await saveData({
+        groups: [createDefaultGroup(), { id: 'work', name: 'Work', schedules: [], is24x7: true }],
+        filters,
+        whitelist: [],
+        snooze: { active: false },
+        rulesVersion: 0,
+      });
+    };
+
+    it('swaps a filter with its neighbour in the same group', async () => {
+      await seed([
+        createFilter('a', DEFAULT_GROUP_ID),
+        createFilter('other', 'work'),
+        createFilter('b', DEFAULT_GROUP_ID),
+      ]);
+
+      await moveFilter('b', 'up');
+
+      const data = await loadData();
+      expect(data.filters.map((filter) => filter.id)).toEqual(['b', 'a', 'other']);
+    });
+
+    it('takes the neighbour priority so the move holds across groups', async () => {
+      await seed([
+        createFilter('high', DEFAULT_GROUP_ID, 10),
+        createFilter('work', 'work', 5),
+        createFilter('low', DEFAULT_GROUP_ID),
+      ]);
+
+      await moveFilter('low', 'up');
+
+      const data = await loadData();
+      expect(data.filters).toEqual([
+        createFilter('low', DEFAULT_GROUP_ID, 10),
+        createFilter('high', DEFAULT_GROUP_ID, 10),
+        createFilter('work', 'work', 5),
+      ]);
+    });
+
+    it('leaves the first filter in place when moving it up', async () => {
+      await seed([createFilter('a', DEFAULT_GROUP_ID), createFilter('b', DEFAULT_GROUP_ID)]);
+
+      await moveFilter('a', 'up');
+
+      const data = await loadData();
+      expect(data.filters.map((filter) => filter.id)).toEqual(['a', 'b']);
+      expect(data.rulesVersion).toBe(1);
+    });
+  });
+
   describe('deleteGroup', () => {
     it('should throw error when trying to delete default group', async () => {
       await loadData();
@@ -553,6 +618,80 @@ describe('storage', () => {
     });
   });
 
+  describe('commitment locks', () => {
+    const lockedData = (): StorageData => ({
+      groups: [
+        createDefaultGroup(),
+        { ...createDefaultGroup(), id: 'work', name: 'Work', locked: true },
+      ],
+      filters: [
+        {
+          id: 'news',
+          pattern: 'news.example.com',
+          groupId: 'work',
+          enabled: true,
+          matchMode: 'domain',
+        },
+      ],
+      whitelist: [],
+      snooze: { active: false },
+      rulesVersion: 1,
+    });
+
+    beforeEach(() => {
+      getChromeMock().storage.sync._data.set(STORAGE_KEY, lockedData());
+    });
+
+    it('refuses to loosen an active locked group through any write path', async () => {
+      await expect(deleteFilter('news')).rejects.toThrow(CommitmentLockError);
+      await expect(
+        addWhitelist({
+          id: 'news-sports',
+          pattern: 'news.example.com/sports',
+          groupId: 'work',
+          enabled: true,
+          matchMode: 'contains',
+        })
+      ).rejects.toThrow('"Work" is locked for as long as it stays active');
+      await expect(importData(JSON.stringify({ ...lockedData(), filters: [] }))).rejects.toThrow(
+        CommitmentLockError
+      );
+
+      expect((await loadData()).filters.map((filter) => filter.id)).toEqual(['news']);
+      expect((await loadData()).whitelist).toEqual([]);
+    });
+
+    it('refuses a snooze without mirroring it to the session', async () => {
+      await expect(setSnooze({ active: true, until: Date.now() + 60_000 })).rejects.toThrow(
+        'which rules out snoozing'
+      );
+
+      expect((await loadData()).snooze).toEqual({ active: false });
+      expect(getChromeMock().storage.session.set).not.toHaveBeenCalled();
+    });
+
+    it('still accepts stricter rules and changes to unlocked groups', async () => {
+      await addFilter({
+        id: 'video',
+        pattern: 'video.example.com',
+        groupId: 'work',
+        enabled: true,
+        matchMode: 'domain',
+      });
+      await addWhitelist({
+        id: 'docs',
+        pattern: 'docs.example.com',
+        groupId: DEFAULT_GROUP_ID,
+        enabled: true,
+        matchMode: 'domain',
+      });
+
+      const data = await loadData();
+      expect(data.filters.map((filter) => filter.id)).toEqual(['news', 'video']);
+      expect(data.whitelist.map((entry) => entry.id)).toEqual(['docs']);
+    });
+  });
+
   describe('whitelist operations', () => {
     it('should add, update, and delete whitelist entries', async () => {
       await loadData();
@@ -2,7 +2,9 @@ import { beforeEach, describe, expect, it } from 'vitest';
 import {
   createDefaultGroup,
   exportData,
+  importAdblockList,
   importData,
+  parseAdblockList,
   parseImportedData,
   serializeDataForExport,
 } from '../../../src/shared/api/storage';
@@ -199,6 +201,325 @@ describe('storage import/export', () => {
     ).toThrow('Imported filter "broken-filter" has an invalid regex pattern.');
   });
 
+  it('rejects imports with regex syntax outside the linear-time subset', () => {
+    expect(() =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup()],
+          filters: [
+            {
+              id: 'lookahead-filter',
+              pattern: 'example(?=\\.com)',
+              groupId: DEFAULT_GROUP_ID,
+              enabled: true,
+              matchMode: 'regex',
+            },
+          ],
+          whitelist: [],
+        })
+      )
+    ).toThrow('Imported filter "lookahead-filter" has an invalid regex pattern.');
+  });
+
+  it('rejects imports with an unknown match target', () => {
+    expect(() =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup()],
+          filters: [
+            {
+              id: 'fragment-filter',
+              pattern: 'top',
+              groupId: DEFAULT_GROUP_ID,
+              enabled: true,
+              matchMode: 'contains',
+              target: 'fragment',
+            },
+          ],
+          whitelist: [],
+        })
+      )
+    ).toThrow('Settings file contains invalid filters.');
+  });
+
+  it('rejects imports with an unknown group mode', () => {
+    expect(() =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup(), { ...createSampleData().groups[1], mode: 'denylist' }],
+          filters: [],
+          whitelist: [],
+        })
+      )
+    ).toThrow('Settings file contains invalid groups.');
+  });
+
+  it('keeps valid excluded dates and rejects malformed ones', () => {
+    const group = createSampleData().groups[1];
+    const importGroups = (excludedDates: unknown): unknown =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup(), { ...group, excludedDates }],
+          filters: [],
+          whitelist: [],
+        })
+      ).groups[1];
+
+    expect(importGroups([{ start: '2025-12-24', end: '2025-12-26' }])).toMatchObject({
+      excludedDates: [{ start: '2025-12-24', end: '2025-12-26' }],
+    });
+    for (const invalid of [
+      [{ start: '2025-12-26', end: '2025-12-24' }],
+      [{ start: '2025-02-30', end: '2025-03-01' }],
+      [{ start: '24/12/2025', end: '26/12/2025' }],
+      '2025-12-24',
+    ]) {
+      expect(() => importGroups(invalid)).toThrow('Settings file contains invalid groups.');
+    }
+  });
+
+  it('rejects schedules with malformed recurrence rules', () => {
+    const group = createSampleData().groups[1];
+    const schedule = { daysOfWeek: [1], startTime: '09:00', endTime: '17:00' };
+    for (const invalid of [
+      { validFrom: '2025-12-19', validUntil: '2025-09-01' },
+      { weekInterval: 2 },
+      { weekInterval: 0, anchorDate: '2025-01-13' },
+      { weeksOfMonth: [0] },
+      { weeksOfMonth: [] },
+    ]) {
+      expect(() =>
+        parseImportedData(
+          JSON.stringify({
+            groups: [createDefaultGroup(), { ...group, schedules: [{ ...schedule, ...invalid }] }],
+            filters: [],
+            whitelist: [],
+          })
+        )
+      ).toThrow('Settings file contains invalid groups.');
+    }
+  });
+
+  it('keeps known group time zones and rejects unknown ones', () => {
+    const group = createSampleData().groups[1];
+    const importGroup = (timeZone: string): unknown =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup(), { ...group, timeZone }],
+          filters: [],
+          whitelist: [],
+        })
+      ).groups[1];
+
+    expect(importGroup('Europe/London')).toMatchObject({ timeZone: 'Europe/London' });
+    expect(() => importGroup('Mars/Olympus_Mons')).toThrow(
+      'Settings file contains invalid groups.'
+    );
+  });
+
+  it('keeps valid daily budgets and rejects malformed ones', () => {
+    const group = createSampleData().groups[1];
+    const importGroup = (dailyBudget: unknown): unknown =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup(), { ...group, dailyBudget }],
+          filters: [],
+          whitelist: [],
+        })
+      ).groups[1];
+
+    expect(importGroup({ minutes: 45, resetTime: '04:00' })).toMatchObject({
+      dailyBudget: { minutes: 45, resetTime: '04:00' },
+    });
+    for (const invalid of [{ minutes: 0 }, { minutes: 12.5 }, { minutes: 30, resetTime: '4am' }]) {
+      expect(() => importGroup(invalid)).toThrow('Settings file contains invalid groups.');
+    }
+  });
+
+  it('rejects filters with a malformed daily visit limit', () => {
+    for (const maxVisitsPerDay of [0, 2.5, '3']) {
+      expect(() =>
+        parseImportedData(
+          JSON.stringify({
+            groups: [createDefaultGroup()],
+            filters: [
+              {
+                id: 'news',
+                pattern: 'news.example.com',
+                groupId: DEFAULT_GROUP_ID,
+                enabled: true,
+                matchMode: 'domain',
+                maxVisitsPerDay,
+              },
+            ],
+            whitelist: [],
+          })
+        )
+      ).toThrow('Settings file contains invalid filters.');
+    }
+  });
+
+  it('keeps valid continue challenges and rejects malformed ones', () => {
+    const group = createSampleData().groups[1];
+    const importGroup = (challenge: unknown): unknown =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup(), { ...group, challenge }],
+          filters: [],
+          whitelist: [],
+        })
+      ).groups[1];
+
+    expect(importGroup({ type: 'countdown', seconds: 30 })).toMatchObject({
+      challenge: { type: 'countdown', seconds: 30 },
+    });
+    expect(importGroup({ type: 'phrase', phrase: 'Not now' })).toMatchObject({
+      challenge: { type: 'phrase', phrase: 'Not now' },
+    });
+    for (const invalid of [
+      { type: 'countdown' },
+      { type: 'countdown', seconds: 3600 },
+      { type: 'phrase', phrase: ' ' },
+      { type: 'captcha' },
+    ]) {
+      expect(() => importGroup(invalid)).toThrow('Settings file contains invalid groups.');
+    }
+  });
+
+  it('keeps valid bypass settings and rejects malformed ones', () => {
+    const group = createSampleData().groups[1];
+    const importGroup = (bypass: unknown): unknown =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup(), { ...group, bypass }],
+          filters: [],
+          whitelist: [],
+        })
+      ).groups[1];
+
+    expect(importGroup({ scope: 'site', minutes: 10, maxPerDay: 2 })).toMatchObject({
+      bypass: { scope: 'site', minutes: 10, maxPerDay: 2 },
+    });
+    expect(importGroup({ maxPerDay: 0 })).toMatchObject({ bypass: { maxPerDay: 0 } });
+    expect(importGroup({ requireReason: true })).toMatchObject({
+      bypass: { requireReason: true },
+    });
+    for (const invalid of [
+      { scope: 'origin' },
+      { minutes: 0 },
+      { scope: 'tab', minutes: 2.5 },
+      { maxPerDay: -1 },
+      { requireReason: 'yes' },
+    ]) {
+      expect(() => importGroup(invalid)).toThrow('Settings file contains invalid groups.');
+    }
+  });
+
+  it('rejects a malformed focus session', () => {
+    for (const focusSession of [
+      { active: 'yes' },
+      { active: true, groupIds: 'work', until: 1 },
+      { active: true, groupIds: ['work'], until: 'later' },
+    ]) {
+      expect(() =>
+        parseImportedData(
+          JSON.stringify({
+            groups: [createDefaultGroup()],
+            filters: [],
+            whitelist: [],
+            focusSession,
+          })
+        )
+      ).toThrow('Settings file contains an invalid focus session.');
+    }
+  });
+
+  it('preserves filter order and priorities on import', () => {
+    const filters = [
+      {
+        id: 'b',
+        pattern: 'b.test',
+        groupId: DEFAULT_GROUP_ID,
+        enabled: true,
+        matchMode: 'contains',
+      },
+      {
+        id: 'a',
+        pattern: 'a.test',
+        groupId: DEFAULT_GROUP_ID,
+        enabled: true,
+        matchMode: 'contains',
+        priority: 5,
+      },
+    ];
+    const parsed = parseImportedData(
+      JSON.stringify({ groups: [createDefaultGroup()], filters, whitelist: [] })
+    );
+
+    expect(parsed.filters).toEqual(filters);
+  });
+
+  it('rejects imports with a non-numeric filter priority', () => {
+    expect(() =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup()],
+          filters: [
+            {
+              id: 'priority-filter',
+              pattern: 'top',
+              groupId: DEFAULT_GROUP_ID,
+              enabled: true,
+              matchMode: 'contains',
+              priority: 'high',
+            },
+          ],
+          whitelist: [],
+        })
+      )
+    ).toThrow('Settings file contains invalid filters.');
+  });
+
+  it('rejects imports with public suffix domain patterns', () => {
+    expect(() =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup()],
+          filters: [
+            {
+              id: 'suffix-filter',
+              pattern: 'co.uk',
+              groupId: DEFAULT_GROUP_ID,
+              enabled: true,
+              matchMode: 'domain',
+            },
+          ],
+          whitelist: [],
+        })
+      )
+    ).toThrow('Imported filter "suffix-filter" has an invalid domain pattern.');
+  });
+
+  it('rejects imports with unfinished glob escapes', () => {
+    expect(() =>
+      parseImportedData(
+        JSON.stringify({
+          groups: [createDefaultGroup()],
+          filters: [
+            {
+              id: 'glob-filter',
+              pattern: 'example.com/\\',
+              groupId: DEFAULT_GROUP_ID,
+              enabled: true,
+              matchMode: 'glob',
+            },
+          ],
+          whitelist: [],
+        })
+      )
+    ).toThrow('Imported filter "glob-filter" has an invalid wildcard pattern.');
+  });
+
   it('imports settings, increments rules version, and syncs session snooze', async () => {
     getChromeMock().storage.sync._data.set(STORAGE_KEY, {
       ...createSampleData(),
@@ -220,4 +541,72 @@ describe('storage import/export', () => {
 
     expect(JSON.parse(serialized)).toEqual(createSampleData());
   });
+
+  it("carries a group's daily continue allowance through export and import", async () => {
+    const data = createSampleData();
+    const [defaultGroup, group] = data.groups;
+    getChromeMock().storage.sync._data.set(STORAGE_KEY, {
+      ...data,
+      groups: [defaultGroup, { ...group, bypass: { maxPerDay: 2 } }],
+    });
+
+    const reimported = parseImportedData(await exportData());
+
+    expect(reimported.groups[1]).toMatchObject({ bypass: { maxPerDay: 2 } });
+  });
+});
+
+describe('adblock list import', () => {
+  beforeEach(() => {
+    getChromeMock().storage.sync._reset();
+  });
+
+  const list = [
+    '[Adblock Plus 2.0]',
+    '! Title: Example list',
+    '||example.com^',
+    '|https://news.example.test/live|',
+    '||example.com^',
+    '@@||example.com/docs^',
+    'example.org##.banner',
+    '||ads.example.net^$third-party',
+    '',
+  ].join('\n');
+
+  it('converts network rules and @@ exceptions and counts unsupported rules', () => {
+    const imported = parseAdblockList(list, 'work-hours');
+
+    expect(imported.filters.map((filter) => filter.pattern)).toEqual([
+      '||example.com^',
+      '|https://news.example.test/live|',
+    ]);
+    expect(imported.whitelist.map((entry) => entry.pattern)).toEqual(['||example.com/docs^']);
+    expect(imported.skippedRules).toBe(2);
+    expect(
+      [...imported.filters, ...imported.whitelist].every(
+        (entry) => entry.groupId === 'work-hours' && entry.matchMode === 'adblock' && entry.enabled
+      )
+    ).toBe(true);
+  });
+
+  it('rejects lists without supported rules', () => {
+    expect(() =>
+      parseAdblockList('! only a comment\nexample.org##.banner', DEFAULT_GROUP_ID)
+    ).toThrow('Filter list does not contain any supported rules.');
+  });
+
+  it('adds rules to the group once', async () => {
+    getChromeMock().storage.sync._data.set(STORAGE_KEY, createSampleData());
+
+    const first = await importAdblockList(list, DEFAULT_GROUP_ID);
+    const second = await importAdblockList(list, DEFAULT_GROUP_ID);
+    const stored = getChromeMock().storage.sync._data.get(STORAGE_KEY) as StorageData;
+
+    expect(first.filters).toHaveLength(2);
+    expect(first.whitelist).toHaveLength(1);
+    expect(second.filters).toHaveLength(0);
+    expect(second.whitelist).toHaveLength(0);
+    expect(stored.filters).toHaveLength(createSampleData().filters.length + 2);
+    expect(stored.whitelist.filter((entry) => entry.matchMode === 'adblock')).toHaveLength(1);
+  });
 });
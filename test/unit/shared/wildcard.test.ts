@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  compileGlob,
+  getGlobValidationError,
+  matchesWildcard,
+} from '../../../src/shared/filtering/wildcard';
+
+function globMatches(pattern: string, url: string): boolean {
+  const matcher = compileGlob(pattern);
+  return matcher !== null && matchesWildcard(matcher, url.toLowerCase());
+}
+
+describe('compileGlob', () => {
+  it.each([
+    ['*.example.com/*', 'https://www.example.com/feed'],
+    ['example.com/*', 'http://example.com/'],
+    ['https://example.com/*', 'https://example.com/a/b'],
+    ['example.com/page?', 'https://example.com/page1'],
+    ['*example*', 'https://sub.example.org/'],
+    ['example.com/a\\*b', 'https://example.com/a*b'],
+  ])('matches %s against %s', (pattern, url) => {
+    expect(globMatches(pattern, url)).toBe(true);
+  });
+
+  it.each([
+    ['*.example.com/*', 'https://example.com/feed'],
+    ['example.com/*', 'https://notexample.com/'],
+    ['https://example.com/*', 'http://example.com/'],
+    ['example.com/page?', 'https://example.com/page'],
+    ['example.com/a\\*b', 'https://example.com/axxb'],
+  ])('does not match %s against %s', (pattern, url) => {
+    expect(globMatches(pattern, url)).toBe(false);
+  });
+
+  it('returns null for invalid globs', () => {
+    expect(compileGlob('')).toBeNull();
+    expect(compileGlob('example.com\\')).toBeNull();
+  });
+
+  it('matches adversarial globs in linear time', () => {
+    const pattern = `${'*a'.repeat(40)}b`;
+    const url = `https://${'a'.repeat(20_000)}`;
+    const start = performance.now();
+
+    expect(globMatches(pattern, url)).toBe(false);
+    expect(performance.now() - start).toBeLessThan(2000);
+  });
+});
+
+describe('getGlobValidationError', () => {
+  it('accepts escaped backslashes', () => {
+    expect(getGlobValidationError('example.com/\\\\')).toBeNull();
+  });
+
+  it('rejects empty and unfinished patterns', () => {
+    expect(getGlobValidationError('  ')).toBe('Enter a pattern such as *.example.com/*.');
+    expect(getGlobValidationError('example.com/\\')).toBe(
+      'Pattern ends with an unfinished \\ escape.'
+    );
+  });
+});